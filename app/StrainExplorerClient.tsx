@@ -5,36 +5,49 @@ import {
   useMemo,
   useEffect,
   useRef,
+  useCallback,
   type CSSProperties,
 } from "react";
-import { useSearchParams } from "next/navigation";
+import { useRouter, useSearchParams } from "next/navigation";
 import { CTA_VARIANTS } from "@/lib/feedbackCtas";
 import { hexToRgba } from "@/lib/utils";
+import { blendForPosition, interpolateTraitValues } from "@/lib/doseInterpolation";
 import type {
   DoseKey,
   TraitAxisId,
+  TraitAxisDefinition,
   DoseTraits,
   DoseContent,
   DoseSnapshot,
   StrainMeta,
   DoseConfig,
-  AccessKey,
   Product,
+  Strain,
   StrainExperienceMeta,
+  CommunityRadar,
+  KioskDeviceConfig,
 } from "@/lib/types";
-import { getProductsForStrainAndDose } from "@/lib/productData";
 import { StrainHeader } from "./components/StrainHeader";
 import { StrainScroller } from "./components/StrainScroller";
 import { RadarPanel } from "./components/RadarPanel";
 import { DetailsPanel } from "./components/DetailsPanel";
 import { FeedbackOverlay } from "./components/FeedbackOverlay";
-import { ModeSwitch } from "./components/ModeSwitch";
+import { ModeSwitch, type ExplorerMode } from "./components/ModeSwitch";
+import { ComparePanel } from "./components/ComparePanel";
 import { DoseSlider } from "./components/DoseSlider";
+import { FindMyStrainSheet } from "./components/FindMyStrainSheet";
+import { AttractLoop } from "./components/AttractLoop";
+import { useIdleTimer } from "./hooks/useIdleTimer";
+import { useKioskDevice } from "./hooks/useKioskDevice";
+import { useAccessTracking } from "./hooks/useAccessTracking";
+import { getKioskThemePreset } from "@/lib/kioskDevices";
+import { scopeDoseOrder } from "@/lib/accessKeys";
 import {
   DEFAULT_DOSE_CONFIG,
   DEFAULT_DOSE_ORDER,
-  STRAINS,
-} from "./components/strainConstants";
+  getDefaultDoseKey,
+  resolveDoseStyle,
+} from "@/lib/doseTiers";
 
 type StrainDosePayload = {
   traits: DoseTraits;
@@ -43,31 +56,106 @@ type StrainDosePayload = {
   colorHex: string;
   grams: number | null;
   axisLabels: TraitAxisId[];
+  axisDefinitions: TraitAxisDefinition[];
   doseLabel: string;
   accentHex: string;
   meta?: StrainMeta | null;
   snapshot?: DoseSnapshot | null;
   testimonials?: string[];
   experienceMeta?: StrainExperienceMeta | null;
+  products: Product[];
 };
 
-export function StrainExplorerClient() {
+// How often the kiosk checks for strain/product edits
+const DATA_POLL_MS = 10_000;
+
+// Minutes without a touch before the attract loop starts (?idle=0 disables)
+const DEFAULT_IDLE_MINUTES = 3;
+
+// Keyed kiosks pass their key so the product list includes partner products
+function doseApiUrl(strainId: string, doseKey: DoseKey, accessKeyId: string | null): string {
+  const url = `/api/strains/${strainId}/dose/${doseKey}`;
+  return accessKeyId ? `${url}?key=${encodeURIComponent(accessKeyId)}` : url;
+}
+
+function toDosePayload(
+  data: Record<string, unknown> & Partial<StrainDosePayload>,
+  doseKey: DoseKey
+): StrainDosePayload {
+  return {
+    traits: data.traits as DoseTraits,
+    content: data.content as DoseContent,
+    strainName: data.strainName as string,
+    colorHex: data.colorHex as string,
+    grams: data.grams ?? null,
+    axisLabels: (data.axes as TraitAxisId[] | undefined) ?? [],
+    axisDefinitions: data.axisDefinitions ?? [],
+    doseLabel: data.doseLabel ?? doseKey,
+    accentHex: data.accentHex ?? (data.colorHex as string),
+    meta: data.meta ?? null,
+    snapshot: data.snapshot ?? null,
+    testimonials: data.testimonials ?? [],
+    experienceMeta: data.experienceMeta ?? null,
+    products: (data.matchingProducts as Product[] | undefined) ?? [],
+  };
+}
+
+type StrainExplorerClientProps = {
+  // Visible strains from the dataset registry, in display order
+  strains: Strain[];
+  // Dose scope of the access key the kiosk was opened with
+  allowedDoseKeys?: DoseKey[];
+  // Label of the active access key the kiosk was opened with
+  welcomeLabel?: string;
+};
+
+export function StrainExplorerClient({
+  strains,
+  allowedDoseKeys,
+  welcomeLabel,
+}: StrainExplorerClientProps) {
+  const router = useRouter();
   const searchParams = useSearchParams();
   const accessKeyParam = searchParams.get("key");
+  // ?continuous=1 lets the dose slider glide between tiers
+  const continuousDose = searchParams.get("continuous") === "1";
+  // Remote settings from /admin/devices (kiosks opened with ?key= and
+  // provisioned with ?kiosk=1 only)
+  const [deviceConfig, setDeviceConfig] = useState<KioskDeviceConfig>({});
+  const theme = getKioskThemePreset(deviceConfig.themePreset);
+  // ?idle=<minutes> sets the attract loop delay; ?attract=cosmic plays the
+  // cosmic phase sequence instead of a plain strain/dose cycle. Remote config
+  // wins over both.
+  const idleMinutes =
+    deviceConfig.idleMinutes ?? Number(searchParams.get("idle") ?? DEFAULT_IDLE_MINUTES);
+  const idleTimeoutMs =
+    Number.isFinite(idleMinutes) && idleMinutes > 0 ? idleMinutes * 60_000 : null;
+  const attractSequence =
+    deviceConfig.themePreset === undefined && searchParams.get("attract") === "cosmic"
+      ? "cosmic"
+      : theme.attractSequence;
+  const isLocked = deviceConfig.locked === true;
 
   const [selectedStrainId, setSelectedStrainId] = useState<string>(
-    "golden-teacher"
+    () => strains[0]?.id ?? ""
+  );
+  const [selectedDoseKey, setSelectedDoseKey] = useState<DoseKey>(() =>
+    getDefaultDoseKey(scopeDoseOrder(DEFAULT_DOSE_ORDER, allowedDoseKeys))
+  );
+  const [doseOrder, setDoseOrder] = useState<DoseKey[]>(() =>
+    scopeDoseOrder(DEFAULT_DOSE_ORDER, allowedDoseKeys)
   );
-  const [selectedDoseKey, setSelectedDoseKey] = useState<DoseKey>("macro");
-  const [doseOrder, setDoseOrder] =
-    useState<DoseKey[]>(DEFAULT_DOSE_ORDER);
   const [doseConfig, setDoseConfig] = useState<Record<DoseKey, DoseConfig>>(
     DEFAULT_DOSE_CONFIG
   );
-  const [mode, setMode] = useState<"visual" | "details">("visual");
+  const [mode, setMode] = useState<ExplorerMode>("visual");
   const [showFeedbackQR, setShowFeedbackQR] = useState(false);
-  const [welcomeLabel, setWelcomeLabel] = useState<string | undefined>(undefined);
   const [isStrainSheetOpen, setIsStrainSheetOpen] = useState(false);
+  const [isFinderOpen, setIsFinderOpen] = useState(false);
+  // Community layer over the radar, aggregated from feedback feltAxes
+  const [showCommunity, setShowCommunity] = useState(false);
+  const [community, setCommunity] = useState<CommunityRadar | null>(null);
+  const [isAttractActive, setIsAttractActive] = useState(false);
   const activeCta = useMemo(
     () => CTA_VARIANTS[Math.floor(Math.random() * CTA_VARIANTS.length)],
     []
@@ -83,13 +171,30 @@ export function StrainExplorerClient() {
   const [loading, setLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
   const cacheRef = useRef<Record<string, StrainDosePayload>>({});
+  // Bumped whenever /api/data-version reports new strain/product data
+  const [dataRevision, setDataRevision] = useState(0);
+  const dataVersionRef = useRef<string | null>(null);
+  // Continuous dose mode: fractional slider position (null = on a tier) and
+  // the traits of every tier of the selected strain to blend between
+  const [dosePosition, setDosePosition] = useState<number | null>(null);
+  const [tierTraits, setTierTraits] = useState<{
+    strainId: string;
+    byDose: Partial<Record<DoseKey, DoseTraits>>;
+  } | null>(null);
 
-  const fallbackStrain = STRAINS.find((s) => s.id === selectedStrainId);
+  const fallbackStrain = strains.find((s) => s.id === selectedStrainId);
   const currentDoseMeta = doseConfig[selectedDoseKey];
   const currentDoseLabel =
     doseData?.doseLabel ?? currentDoseMeta?.label ?? selectedDoseKey;
+  const doseBlend = useMemo(
+    () =>
+      continuousDose && dosePosition !== null
+        ? blendForPosition(doseOrder, doseConfig, dosePosition)
+        : null,
+    [continuousDose, dosePosition, doseOrder, doseConfig]
+  );
   const currentDoseGrams =
-    doseData?.grams ?? currentDoseMeta?.grams ?? null;
+    doseBlend?.grams ?? doseData?.grams ?? currentDoseMeta?.grams ?? null;
   const strainDisplayName =
     doseData?.strainName ?? fallbackStrain?.name ?? selectedStrainId;
 
@@ -105,11 +210,106 @@ export function StrainExplorerClient() {
     [accentHex, accentSoft]
   );
 
-  // Compute products for current strain/dose selection
-  const productsForSelection = useMemo<Product[]>(
-    () => getProductsForStrainAndDose(selectedStrainId, selectedDoseKey),
-    [selectedStrainId, selectedDoseKey]
-  );
+  const strainOrder = useMemo(() => strains.map((s) => s.id), [strains]);
+
+  // Products for current strain/dose selection come with the dose payload
+  const productsForSelection = doseData?.products ?? [];
+
+  // Between tiers, blend the two neighbouring tiers' radar values
+  const radarTraits = useMemo<DoseTraits | null>(() => {
+    if (!doseData) return null;
+    if (!doseBlend || tierTraits?.strainId !== selectedStrainId) {
+      return doseData.traits;
+    }
+    const lower = tierTraits.byDose[doseBlend.lowerDoseKey];
+    const upper = tierTraits.byDose[doseBlend.upperDoseKey];
+    if (!lower || !upper) return doseData.traits;
+    return {
+      values: interpolateTraitValues(
+        doseData.axisLabels,
+        lower.values,
+        upper.values,
+        doseBlend.t
+      ),
+    };
+  }, [doseData, doseBlend, tierTraits, selectedStrainId]);
+
+  // Visits and funnel events for /admin/access (kiosks opened with ?key= only)
+  const { trackView, trackQrOpen, startSession } = useAccessTracking(accessKeyParam);
+
+  const handleSelectStrain = (strainId: string) => {
+    setSelectedStrainId(strainId);
+    trackView(strainId, selectedDoseKey);
+  };
+
+  const handleSelectDose = (key: DoseKey) => {
+    setSelectedDoseKey(key);
+    setDosePosition(null);
+    trackView(selectedStrainId, key);
+  };
+
+  const handleShowFeedback = () => {
+    setShowFeedbackQR(true);
+    trackQrOpen(selectedStrainId, selectedDoseKey);
+  };
+
+  // Land on a "find my strain" recommendation
+  const handleChooseRecommendation = (strainId: string, doseKey: DoseKey) => {
+    setSelectedStrainId(strainId);
+    setSelectedDoseKey(doseKey);
+    setDosePosition(null);
+    trackView(strainId, doseKey);
+    setMode("visual");
+    setIsFinderOpen(false);
+  };
+
+  // Back to the state a fresh visitor should see: the configured (or first)
+  // strain and default dose, every sheet and overlay closed
+  const resetToDefault = (config: KioskDeviceConfig = deviceConfig) => {
+    const defaultStrain = strains.find((s) => s.id === config.defaultStrainId) ?? strains[0];
+    setSelectedStrainId(defaultStrain?.id ?? "");
+    // A remote default outside the key's dose scope is ignored
+    const defaultDose =
+      config.defaultDoseKey &&
+      (!allowedDoseKeys?.length || allowedDoseKeys.includes(config.defaultDoseKey))
+        ? config.defaultDoseKey
+        : getDefaultDoseKey(doseOrder);
+    setSelectedDoseKey(defaultDose);
+    setDosePosition(null);
+    setMode("visual");
+    setShowFeedbackQR(false);
+    setIsStrainSheetOpen(false);
+    setIsFinderOpen(false);
+    setShowCommunity(false);
+  };
+
+  useIdleTimer(isAttractActive ? null : idleTimeoutMs, () => {
+    resetToDefault();
+    setIsAttractActive(true);
+  });
+
+  // Whoever wakes the kiosk is a new visitor
+  const handleExitAttract = useCallback(() => {
+    setIsAttractActive(false);
+    startSession();
+  }, [startSession]);
+
+  // New remote config: apply its defaults right away
+  const handleDeviceConfig = (config: KioskDeviceConfig) => {
+    setDeviceConfig(config);
+    resetToDefault(config);
+  };
+
+  useKioskDevice(accessKeyParam, searchParams.get("kiosk"), dataVersionRef, handleDeviceConfig);
+
+  const handleDosePositionChange = (position: number) => {
+    setDosePosition(position);
+    const nearest = doseOrder[Math.round(position)];
+    if (nearest && nearest !== selectedDoseKey) {
+      setSelectedDoseKey(nearest);
+      trackView(selectedStrainId, nearest);
+    }
+  };
 
   useEffect(() => {
     if ("serviceWorker" in navigator) {
@@ -120,28 +320,39 @@ export function StrainExplorerClient() {
   }, []);
 
   useEffect(() => {
-    async function loadAccessKeyLabel() {
-      if (!accessKeyParam) {
-        setWelcomeLabel(undefined);
-        return;
-      }
+    let cancelled = false;
+
+    async function checkDataVersion() {
       try {
-        const res = await fetch("/api/access-keys");
-        if (!res.ok) return;
-        const data = await res.json() as { keys: AccessKey[] };
-        const match = data.keys.find(k => k.id === accessKeyParam && k.isActive);
-        if (match) {
-          setWelcomeLabel(match.label);
-        } else {
-          setWelcomeLabel(undefined);
+        const res = await fetch("/api/data-version", { cache: "no-store" });
+        if (!res.ok || cancelled) return;
+        const { version } = (await res.json()) as { version: string };
+        const previous = dataVersionRef.current;
+        dataVersionRef.current = version;
+        if (previous !== null && previous !== version) {
+          // Drop cached doses and re-render the server page (strain list)
+          cacheRef.current = {};
+          setDataRevision((n) => n + 1);
+          router.refresh();
+          // The worker script embeds the data version; fetch the new one so
+          // it precaches the changed payloads
+          navigator.serviceWorker
+            ?.getRegistration()
+            .then((registration) => registration?.update())
+            .catch(() => {});
         }
       } catch {
-        // fail silently; no welcome label if API fails
-        setWelcomeLabel(undefined);
+        // offline or server restarting; try again next tick
       }
     }
-    loadAccessKeyLabel();
-  }, [accessKeyParam]);
+
+    checkDataVersion();
+    const timer = setInterval(checkDataVersion, DATA_POLL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [router]);
 
   useEffect(() => {
     let cancelled = false;
@@ -149,18 +360,19 @@ export function StrainExplorerClient() {
       .then((res) => (res.ok ? res.json() : null))
       .then((data) => {
         if (cancelled || !data) return;
-        const order = (data.order ?? DEFAULT_DOSE_ORDER) as DoseKey[];
+        const order = scopeDoseOrder(
+          (data.order ?? DEFAULT_DOSE_ORDER) as DoseKey[],
+          allowedDoseKeys
+        );
         if (order.length) {
           setDoseOrder(order);
           setSelectedDoseKey((prev) =>
-            order.includes(prev) ? prev : order[0]
+            order.includes(prev) ? prev : getDefaultDoseKey(order)
           );
         }
         if (data.config) {
-          setDoseConfig((prev) => ({
-            ...prev,
-            ...(data.config as Record<DoseKey, DoseConfig>),
-          }));
+          // Replace rather than merge so removed tiers don't linger
+          setDoseConfig(data.config as Record<DoseKey, DoseConfig>);
         }
       })
       .catch(() => {
@@ -169,7 +381,7 @@ export function StrainExplorerClient() {
     return () => {
       cancelled = true;
     };
-  }, []);
+  }, [dataRevision, allowedDoseKeys]);
 
   useEffect(() => {
     const cacheKey = `${selectedStrainId}:${selectedDoseKey}`;
@@ -189,26 +401,12 @@ export function StrainExplorerClient() {
     const fetchData = async () => {
       try {
         const res = await fetch(
-          `/api/strains/${selectedStrainId}/dose/${selectedDoseKey}`
+          doseApiUrl(selectedStrainId, selectedDoseKey, accessKeyParam)
         );
         if (!res.ok) {
           throw new Error(`API error: ${res.status}`);
         }
-        const data = await res.json();
-        const payload: StrainDosePayload = {
-          traits: data.traits,
-          content: data.content,
-          strainName: data.strainName,
-          colorHex: data.colorHex,
-          grams: data.grams ?? null,
-          axisLabels: data.axes ?? [],
-          doseLabel: data.doseLabel ?? selectedDoseKey,
-          accentHex: data.accentHex ?? data.colorHex,
-          meta: data.meta ?? null,
-          snapshot: data.snapshot ?? null,
-          testimonials: data.testimonials ?? [],
-          experienceMeta: data.experienceMeta ?? null,
-        };
+        const payload = toDosePayload(await res.json(), selectedDoseKey);
         cacheRef.current[cacheKey] = payload;
         if (!cancelled) {
           setDoseData(payload);
@@ -232,7 +430,66 @@ export function StrainExplorerClient() {
     return () => {
       cancelled = true;
     };
-  }, [selectedStrainId, selectedDoseKey]);
+  }, [selectedStrainId, selectedDoseKey, dataRevision, accessKeyParam]);
+
+  useEffect(() => {
+    if (!showCommunity) {
+      setCommunity(null);
+      return;
+    }
+
+    let cancelled = false;
+    fetch(`/api/strains/${selectedStrainId}/community/${selectedDoseKey}`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        if (!cancelled) setCommunity(data as CommunityRadar | null);
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          console.error("Failed to fetch community radar", err);
+          setCommunity(null);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [showCommunity, selectedStrainId, selectedDoseKey, dataRevision]);
+
+  // Continuous mode needs every tier of the selected strain up front
+  useEffect(() => {
+    if (!continuousDose || !selectedStrainId) return;
+    let cancelled = false;
+
+    Promise.all(
+      doseOrder.map(async (key) => {
+        const cacheKey = `${selectedStrainId}:${key}`;
+        let payload = cacheRef.current[cacheKey];
+        if (!payload) {
+          const res = await fetch(doseApiUrl(selectedStrainId, key, accessKeyParam));
+          if (!res.ok) return null;
+          payload = toDosePayload(await res.json(), key);
+          cacheRef.current[cacheKey] = payload;
+        }
+        return [key, payload.traits] as const;
+      })
+    )
+      .then((entries) => {
+        if (cancelled) return;
+        const byDose: Partial<Record<DoseKey, DoseTraits>> = {};
+        for (const entry of entries) {
+          if (entry) byDose[entry[0]] = entry[1];
+        }
+        setTierTraits({ strainId: selectedStrainId, byDose });
+      })
+      .catch(() => {
+        // fall back to snapping between tiers
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [continuousDose, selectedStrainId, doseOrder, dataRevision, accessKeyParam]);
 
   if (loading && !doseData) {
     return (
@@ -269,41 +526,69 @@ export function StrainExplorerClient() {
         doseLabel={currentDoseLabel}
         accentHex={accentHex}
         ctaLabel={activeCta.label}
-        onShowFeedback={() => setShowFeedbackQR(true)}
+        onShowFeedback={handleShowFeedback}
         feedbackActive={showFeedbackQR}
         welcomeLabel={welcomeLabel}
         effectWord={doseData.experienceMeta?.effectWord}
       />
 
-      {/* Mobile: strain selector pill */}
-      <div className="sm:hidden px-4 pb-3 bg-[var(--shell-bg)] border-b border-[var(--card-border)]">
-        <button
-          type="button"
-          onClick={() => setIsStrainSheetOpen(true)}
-          className="inline-flex items-center rounded-full border border-[var(--card-border)] bg-[var(--card-bg)] px-4 py-2 text-[14px] font-medium text-[var(--ink-main)] shadow-sm"
-        >
-          {strainDisplayName}
-          <svg className="ml-2 h-4 w-4 text-[var(--ink-soft)]" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
-          </svg>
-        </button>
-      </div>
+      {/* Mobile: strain selector pill (hidden on locked kiosks) */}
+      {!isLocked && (
+        <div className="sm:hidden px-4 pb-3 bg-[var(--shell-bg)] border-b border-[var(--card-border)]">
+          <button
+            type="button"
+            onClick={() => setIsStrainSheetOpen(true)}
+            className="inline-flex items-center rounded-full border border-[var(--card-border)] bg-[var(--card-bg)] px-4 py-2 text-[14px] font-medium text-[var(--ink-main)] shadow-sm"
+          >
+            {strainDisplayName}
+            <svg className="ml-2 h-4 w-4 text-[var(--ink-soft)]" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+            </svg>
+          </button>
+        </div>
+      )}
 
       {/* Desktop: strain tabs */}
-      <StrainScroller
-        strains={STRAINS}
-        selectedId={selectedStrainId}
-        onSelect={setSelectedStrainId}
-      />
+      {!isLocked && (
+        <StrainScroller
+          strains={strains}
+          selectedId={selectedStrainId}
+          onSelect={handleSelectStrain}
+        />
+      )}
 
       <div className="w-full px-4 pb-10 sm:px-6 lg:px-8">
         <div
           className="mx-auto w-full max-w-xl flex flex-col gap-2"
           style={accentStyle}
         >
+          <div className="mt-3 flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => setShowCommunity((prev) => !prev)}
+              aria-pressed={showCommunity}
+              className={`rounded-full border px-4 py-1.5 text-[13px] font-semibold shadow-sm ${
+                showCommunity
+                  ? "border-[var(--accent)] bg-white text-[var(--accent)]"
+                  : "border-[var(--card-border)] bg-[var(--card-bg)] text-[var(--ink-soft)]"
+              }`}
+            >
+              Community
+            </button>
+            {!isLocked && (
+              <button
+                type="button"
+                onClick={() => setIsFinderOpen(true)}
+                className="rounded-full border border-[var(--card-border)] bg-[var(--card-bg)] px-4 py-1.5 text-[13px] font-semibold text-[var(--accent)] shadow-sm"
+              >
+                Find my strain
+              </button>
+            )}
+          </div>
+
           {/* Main card with FIXED height - prevents all jumping */}
           <section 
-            className="mt-4 rounded-3xl border shadow-sm overflow-hidden h-[475px] sm:h-[550px] md:h-[625px]"
+            className="mt-1 rounded-3xl border shadow-sm overflow-hidden h-[475px] sm:h-[550px] md:h-[625px]"
             style={{ 
               background: "var(--card-bg)", 
               borderColor: "var(--card-border)" 
@@ -336,17 +621,38 @@ export function StrainExplorerClient() {
                 ) : (
                   <RadarPanel
                     color={accentHex}
-                    traits={doseData.traits}
-                    axisLabels={doseData.axisLabels}
+                    traits={radarTraits ?? doseData.traits}
+                    axisDefinitions={doseData.axisDefinitions}
                     experienceMeta={doseData.experienceMeta ?? undefined}
                     modeSwitch={<ModeSwitch mode={mode} onChange={setMode} />}
                     strainName={strainDisplayName}
                     effectWord={doseData.experienceMeta?.effectWord}
                     doseLabel={currentDoseLabel}
                     grams={currentDoseGrams}
+                    doseStyle={resolveDoseStyle(doseConfig, selectedDoseKey)}
                     strainId={selectedStrainId}
+                    strainOrder={strainOrder}
+                    community={showCommunity ? community : null}
+                    animationPreset={theme.animation}
                   />
                 )
+              ) : mode === "compare" ? (
+                <div className="flex-1 flex flex-col min-h-0" style={{ background: "var(--card-bg)" }}>
+                  <div className="flex-1 px-4 py-6 overflow-auto">
+                    <ComparePanel
+                      strains={strains}
+                      doseOrder={doseOrder}
+                      doseConfig={doseConfig}
+                      initialStrainId={selectedStrainId}
+                      initialDoseKey={selectedDoseKey}
+                    />
+                  </div>
+                  <div className="flex-shrink-0 py-3" style={{ borderTop: "1px solid var(--card-border)" }}>
+                    <div className="flex items-center justify-center">
+                      <ModeSwitch mode={mode} onChange={setMode} />
+                    </div>
+                  </div>
+                </div>
               ) : (
                 <div className="flex-1 flex flex-col min-h-0" style={{ background: "var(--card-bg)" }}>
                   <div className="flex-1 px-4 py-6 overflow-auto">
@@ -377,14 +683,27 @@ export function StrainExplorerClient() {
             order={doseOrder}
             config={doseConfig}
             selected={selectedDoseKey}
-            onSelect={setSelectedDoseKey}
+            onSelect={handleSelectDose}
             currentDoseLabel={currentDoseLabel}
             currentGrams={currentDoseGrams}
             strainName={strainDisplayName}
+            continuous={continuousDose}
+            position={dosePosition ?? Math.max(0, doseOrder.indexOf(selectedDoseKey))}
+            onChangePosition={handleDosePositionChange}
           />
         </div>
       </div>
 
+      {isFinderOpen && (
+        <FindMyStrainSheet
+          onClose={() => setIsFinderOpen(false)}
+          onChoose={handleChooseRecommendation}
+          isAllowed={(strainId, doseKey) =>
+            strains.some((s) => s.id === strainId) && doseOrder.includes(doseKey)
+          }
+        />
+      )}
+
       {/* Mobile: strain selection bottom sheet */}
       {isStrainSheetOpen && (
         <div className="sm:hidden fixed inset-0 z-50">
@@ -414,7 +733,7 @@ export function StrainExplorerClient() {
 
             {/* Strain list */}
             <div className="flex-1 overflow-y-auto">
-              {STRAINS.map((strain) => {
+              {strains.map((strain) => {
                 const isSelected = strain.id === selectedStrainId;
                 // Get effect word from cache if available
                 const cacheKey = `${strain.id}:${selectedDoseKey}`;
@@ -426,7 +745,7 @@ export function StrainExplorerClient() {
                     key={strain.id}
                     type="button"
                     onClick={() => {
-                      setSelectedStrainId(strain.id);
+                      handleSelectStrain(strain.id);
                       setIsStrainSheetOpen(false);
                     }}
                     className="w-full flex items-center justify-between px-4 py-3 hover:bg-[var(--accent-pill)] transition"
@@ -454,6 +773,16 @@ export function StrainExplorerClient() {
           </div>
         </div>
       )}
+
+      {isAttractActive && (
+        <AttractLoop
+          strains={strains}
+          doseOrder={doseOrder}
+          doseConfig={doseConfig}
+          sequence={attractSequence}
+          onExit={handleExitAttract}
+        />
+      )}
     </div>
   );
 }
@@ -3,25 +3,49 @@
 // =============================================================================
 // ADMIN HEADER - Shared navigation for all /admin/* pages
 // =============================================================================
-// Provides consistent tab navigation and "Back to Tripdar" link across
-// all admin routes. Highlights the active tab based on current pathname.
+// Provides consistent tab navigation, the signed-in account and a "Back to
+// Tripdar" link across all admin routes. Highlights the active tab based on
+// current pathname; tabs the account's role can't open are hidden.
 // =============================================================================
 
+import { useState } from "react";
 import Link from "next/link";
-import { usePathname } from "next/navigation";
+import { usePathname, useRouter } from "next/navigation";
+import type { AdminPermission } from "@/lib/types";
+import { useAdminSession } from "./AdminSessionContext";
 
-const ADMIN_TABS = [
+const ADMIN_TABS: { href: string; label: string; permission?: AdminPermission }[] = [
   { href: "/admin/tripdar-visual", label: "Tripdar Visual" },
   { href: "/admin/strains", label: "Strains" },
   { href: "/admin/products", label: "Products" },
-  { href: "/admin/access", label: "Access Keys" },
+  { href: "/admin/access", label: "Access Keys", permission: "manageAccess" },
   { href: "/admin/feedback", label: "Feedback" },
+  { href: "/admin/devices", label: "Devices" },
   { href: "/admin/guides/messages", label: "Guides" },
+  { href: "/admin/history", label: "History" },
+  { href: "/admin/audit", label: "Audit", permission: "audit" },
   { href: "/lab", label: "Lab" },
-] as const;
+];
 
 export function AdminHeader() {
   const pathname = usePathname();
+  const router = useRouter();
+  const session = useAdminSession();
+  const [isSigningOut, setIsSigningOut] = useState(false);
+
+  const tabs = ADMIN_TABS.filter(
+    ({ permission }) => !permission || session?.permissions.includes(permission)
+  );
+
+  const handleSignOut = async () => {
+    setIsSigningOut(true);
+    try {
+      await fetch("/api/guides/logout", { method: "POST" });
+      router.push("/login");
+    } catch {
+      setIsSigningOut(false);
+    }
+  };
 
   return (
     <header className="flex items-center justify-between gap-4 border-b border-[var(--card-border)] pb-3 mb-6">
@@ -31,7 +55,7 @@ export function AdminHeader() {
           Tripdar Admin
         </span>
         <nav className="flex items-center gap-1">
-          {ADMIN_TABS.map(({ href, label }) => {
+          {tabs.map(({ href, label }) => {
             const isActive = pathname === href || pathname?.startsWith(href + "/");
             return (
               <Link
@@ -50,13 +74,30 @@ export function AdminHeader() {
         </nav>
       </div>
 
-      {/* Right: Back to Tripdar */}
-      <Link
-        href="/"
-        className="text-xs text-[var(--ink-soft)] hover:text-[var(--accent)] transition-colors"
-      >
-        ← Back to Tripdar
-      </Link>
+      {/* Right: account + Back to Tripdar */}
+      <div className="flex items-center gap-4 text-xs text-[var(--ink-soft)]">
+        {session && (
+          <span className="flex items-center gap-2">
+            <span title={session.username}>
+              {session.name} · {session.role}
+            </span>
+            <button
+              type="button"
+              onClick={handleSignOut}
+              disabled={isSigningOut}
+              className="hover:text-[var(--accent)] transition-colors disabled:opacity-50"
+            >
+              {isSigningOut ? "Signing out…" : "Sign out"}
+            </button>
+          </span>
+        )}
+        <Link
+          href="/"
+          className="hover:text-[var(--accent)] transition-colors"
+        >
+          ← Back to Tripdar
+        </Link>
+      </div>
     </header>
   );
 }
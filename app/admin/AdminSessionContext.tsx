@@ -0,0 +1,21 @@
+"use client";
+
+import { createContext, useContext } from "react";
+import type { AdminSession } from "@/lib/types";
+
+// Provided by app/admin/layout.tsx, which only renders for signed-in admins
+const AdminSessionContext = createContext<AdminSession | null>(null);
+
+export function AdminSessionProvider({
+  session,
+  children,
+}: {
+  session: AdminSession;
+  children: React.ReactNode;
+}) {
+  return <AdminSessionContext.Provider value={session}>{children}</AdminSessionContext.Provider>;
+}
+
+export function useAdminSession(): AdminSession | null {
+  return useContext(AdminSessionContext);
+}
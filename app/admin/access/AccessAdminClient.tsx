@@ -1,21 +1,128 @@
 "use client";
 
-import { useState } from "react";
-import type { AccessKey, AccessKeyType, AccessKeySettings } from "@/lib/types";
+import { Fragment, useMemo, useState } from "react";
+import type { AccessKey, AccessKeyType, AccessKeySettings, DoseKey } from "@/lib/types";
+import {
+  hasAccessKeyScope,
+  isAccessKeyExhausted,
+  isAccessKeyExpired,
+} from "@/lib/accessKeys";
 import { AccessKeyLinkCell } from "./AccessKeyLinkCell";
 
 type AccessAdminClientProps = {
   initialKeys: AccessKey[];
   initialSettings: AccessKeySettings;
+  // Server render time, the reference for expiry status
+  generatedAt: string;
+  strainOptions: { id: string; name: string }[];
+  doseOptions: { key: DoseKey; label: string }[];
 };
 
+type KeyFilter = "all" | "usable" | "expired" | "exhausted" | "inactive" | "scoped";
+type KeySort = "created" | "label" | "expires" | "visits";
+
 const ACCESS_KEY_TYPES: AccessKeyType[] = ["master", "partner", "staff", "test"];
 
-export function AccessAdminClient({ initialKeys, initialSettings }: AccessAdminClientProps) {
+const FILTER_LABELS: Record<KeyFilter, string> = {
+  all: "All keys",
+  usable: "Usable",
+  expired: "Expired",
+  exhausted: "Visit cap reached",
+  inactive: "Inactive",
+  scoped: "Scoped",
+};
+
+const SORT_LABELS: Record<KeySort, string> = {
+  created: "Newest first",
+  label: "Label",
+  expires: "Expiring soonest",
+  visits: "Most visits",
+};
+
+// <input type="date"> works in local days; a key stays valid through the
+// chosen day
+function toDateInput(iso?: string): string {
+  if (!iso) return "";
+  const date = new Date(iso);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function fromDateInput(value: string): string | undefined {
+  return value ? new Date(`${value}T23:59:59.999`).toISOString() : undefined;
+}
+
+function toggleItem<T>(list: T[] | undefined, item: T): T[] | undefined {
+  const current = list ?? [];
+  const next = current.includes(item)
+    ? current.filter((i) => i !== item)
+    : [...current, item];
+  return next.length ? next : undefined;
+}
+
+export function AccessAdminClient({
+  initialKeys,
+  initialSettings,
+  generatedAt,
+  strainOptions,
+  doseOptions,
+}: AccessAdminClientProps) {
   const [rows, setRows] = useState<AccessKey[]>(initialKeys);
   const [settings, setSettings] = useState<AccessKeySettings>(initialSettings);
   const [isSaving, setIsSaving] = useState(false);
   const [saveStatus, setSaveStatus] = useState<"idle" | "success" | "error">("idle");
+  const [filter, setFilter] = useState<KeyFilter>("all");
+  const [sort, setSort] = useState<KeySort>("created");
+  // Key whose scope editor is open
+  const [scopeKeyId, setScopeKeyId] = useState<string | null>(null);
+  const now = Date.parse(generatedAt);
+
+  const visibleRows = useMemo(() => {
+    const matches = (row: AccessKey) => {
+      switch (filter) {
+        case "usable":
+          return row.isActive && !isAccessKeyExpired(row, now) && !isAccessKeyExhausted(row);
+        case "expired":
+          return isAccessKeyExpired(row, now);
+        case "exhausted":
+          return isAccessKeyExhausted(row);
+        case "inactive":
+          return !row.isActive;
+        case "scoped":
+          return hasAccessKeyScope(row);
+        default:
+          return true;
+      }
+    };
+    const compare = (a: AccessKey, b: AccessKey) => {
+      switch (sort) {
+        case "label":
+          return (a.label || a.id).localeCompare(b.label || b.id);
+        case "expires":
+          // Keys without an expiry last
+          return (a.expiresAt ?? "\uffff").localeCompare(b.expiresAt ?? "\uffff");
+        case "visits":
+          return (b.visitCount ?? 0) - (a.visitCount ?? 0);
+        default:
+          return b.createdAt.localeCompare(a.createdAt);
+      }
+    };
+    return rows.filter(matches).sort(compare);
+  }, [rows, filter, sort, now]);
+
+  const strainNames = useMemo(
+    () => Object.fromEntries(strainOptions.map((s) => [s.id, s.name])),
+    [strainOptions]
+  );
+
+  // Suggestions for the partner field
+  const partnerIds = useMemo(
+    () =>
+      [...new Set(rows.map((row) => row.partnerId))]
+        .filter((id): id is string => Boolean(id))
+        .sort(),
+    [rows]
+  );
 
   function handleAddKey() {
     const now = new Date().toISOString();
@@ -29,13 +136,16 @@ export function AccessAdminClient({ initialKeys, initialSettings }: AccessAdminC
       updatedAt: now,
     };
     setRows([...rows, newKey]);
+    // Make sure the new row is visible
+    setFilter("all");
+    setSort("created");
     setSaveStatus("idle");
   }
 
-  function updateRow(index: number, updates: Partial<AccessKey>) {
+  function updateRow(id: string, updates: Partial<AccessKey>) {
     setRows((prev) =>
-      prev.map((row, i) =>
-        i === index
+      prev.map((row) =>
+        row.id === id
           ? { ...row, ...updates, updatedAt: new Date().toISOString() }
           : row
       )
@@ -43,6 +153,19 @@ export function AccessAdminClient({ initialKeys, initialSettings }: AccessAdminC
     setSaveStatus("idle");
   }
 
+  function describeScope(row: AccessKey): string {
+    if (!hasAccessKeyScope(row)) return "Everything";
+    const strains = row.allowedStrainIds?.length
+      ? row.allowedStrainIds.map((id) => strainNames[id] ?? id).join(", ")
+      : "All strains";
+    const doses = row.allowedDoseKeys?.length
+      ? row.allowedDoseKeys
+          .map((key) => doseOptions.find((d) => d.key === key)?.label ?? key)
+          .join(", ")
+      : "all doses";
+    return `${strains} · ${doses}`;
+  }
+
   async function handleSave() {
     setIsSaving(true);
     setSaveStatus("idle");
@@ -145,95 +268,255 @@ export function AccessAdminClient({ initialKeys, initialSettings }: AccessAdminC
         </button>
       </div>
 
+      <div className="mb-3 flex flex-wrap items-center gap-3">
+        <select
+          value={filter}
+          onChange={(e) => setFilter(e.target.value as KeyFilter)}
+          className="rounded border border-slate-200 bg-slate-50 px-2 py-1 text-sm text-slate-700 focus:border-slate-400 focus:outline-none focus:ring-1 focus:ring-slate-400"
+        >
+          {(Object.keys(FILTER_LABELS) as KeyFilter[]).map((f) => (
+            <option key={f} value={f}>
+              {FILTER_LABELS[f]}
+            </option>
+          ))}
+        </select>
+        <select
+          value={sort}
+          onChange={(e) => setSort(e.target.value as KeySort)}
+          className="rounded border border-slate-200 bg-slate-50 px-2 py-1 text-sm text-slate-700 focus:border-slate-400 focus:outline-none focus:ring-1 focus:ring-slate-400"
+        >
+          {(Object.keys(SORT_LABELS) as KeySort[]).map((key) => (
+            <option key={key} value={key}>
+              Sort: {SORT_LABELS[key]}
+            </option>
+          ))}
+        </select>
+        <span className="text-xs text-slate-500">
+          {visibleRows.length} of {rows.length} keys
+        </span>
+      </div>
+
+      <datalist id="access-partner-ids">
+        {partnerIds.map((id) => (
+          <option key={id} value={id} />
+        ))}
+      </datalist>
+
       <div className="overflow-x-auto">
         <table className="min-w-full divide-y divide-slate-200 text-sm">
           <thead className="border-b border-slate-200 text-xs uppercase tracking-wide text-slate-500">
             <tr>
               <th className="py-2 pr-4 text-left">Key ID</th>
               <th className="py-2 pr-4 text-left">Label</th>
-              <th className="py-2 pr-4 text-left">Type</th>
+              <th className="py-2 pr-4 text-left">Type / Partner</th>
               <th className="py-2 pr-4 text-left">Active</th>
+              <th className="py-2 pr-4 text-left">Expires</th>
+              <th className="py-2 pr-4 text-left">Visits</th>
+              <th className="py-2 pr-4 text-left">Scope</th>
               <th className="py-2 pr-4 text-left">Notes</th>
               <th className="py-2 pr-4 text-left">Kiosk Link</th>
             </tr>
           </thead>
           <tbody className="divide-y divide-slate-100">
-            {rows.map((row, index) => (
-              <tr key={row.id} className="align-top">
-                <td className="py-2 pr-4 font-mono text-xs text-slate-800">
-                  {row.id}
-                </td>
-                <td className="py-2 pr-4">
-                  <input
-                    type="text"
-                    value={row.label}
-                    onChange={(e) =>
-                      updateRow(index, { label: e.target.value })
-                    }
-                    placeholder="Label…"
-                    className="w-full min-w-[140px] rounded border border-slate-200 bg-slate-50 px-2 py-1 text-sm text-slate-900 placeholder:text-slate-400 focus:border-slate-400 focus:outline-none focus:ring-1 focus:ring-slate-400"
-                  />
-                </td>
-                <td className="py-2 pr-4">
-                  <select
-                    value={row.type}
-                    onChange={(e) =>
-                      updateRow(index, { type: e.target.value as AccessKeyType })
-                    }
-                    className="rounded border border-slate-200 bg-slate-50 px-2 py-1 text-sm text-slate-700 focus:border-slate-400 focus:outline-none focus:ring-1 focus:ring-slate-400"
-                  >
-                    {ACCESS_KEY_TYPES.map((t) => (
-                      <option key={t} value={t}>
-                        {t}
-                      </option>
-                    ))}
-                  </select>
-                </td>
-                <td className="py-2 pr-4">
-                  <label className="inline-flex items-center gap-2 cursor-pointer">
+            {visibleRows.map((row) => (
+              <Fragment key={row.id}>
+                <tr className="align-top">
+                  <td className="py-2 pr-4 font-mono text-xs text-slate-800">
+                    {row.id}
+                  </td>
+                  <td className="py-2 pr-4">
                     <input
-                      type="checkbox"
-                      checked={row.isActive}
+                      type="text"
+                      value={row.label}
                       onChange={(e) =>
-                        updateRow(index, { isActive: e.target.checked })
+                        updateRow(row.id, { label: e.target.value })
                       }
-                      className="h-4 w-4 rounded border-slate-300 text-emerald-600 focus:ring-emerald-500"
+                      placeholder="Label…"
+                      className="w-full min-w-[140px] rounded border border-slate-200 bg-slate-50 px-2 py-1 text-sm text-slate-900 placeholder:text-slate-400 focus:border-slate-400 focus:outline-none focus:ring-1 focus:ring-slate-400"
                     />
-                    <span
-                      className={`text-xs font-medium ${
-                        row.isActive ? "text-emerald-700" : "text-slate-500"
-                      }`}
+                  </td>
+                  <td className="py-2 pr-4">
+                    <select
+                      value={row.type}
+                      onChange={(e) =>
+                        updateRow(row.id, { type: e.target.value as AccessKeyType })
+                      }
+                      className="rounded border border-slate-200 bg-slate-50 px-2 py-1 text-sm text-slate-700 focus:border-slate-400 focus:outline-none focus:ring-1 focus:ring-slate-400"
                     >
-                      {row.isActive ? "Active" : "Inactive"}
-                    </span>
-                  </label>
-                </td>
-                <td className="py-2 pr-4">
-                  <input
-                    type="text"
-                    value={row.notes ?? ""}
-                    onChange={(e) =>
-                      updateRow(index, { notes: e.target.value })
-                    }
-                    placeholder="Notes…"
-                    className="w-full min-w-[120px] rounded border border-slate-200 bg-slate-50 px-2 py-1 text-sm text-slate-700 placeholder:text-slate-400 focus:border-slate-400 focus:outline-none focus:ring-1 focus:ring-slate-400"
-                  />
-                </td>
-                <td className="py-2 pr-4">
-                  <AccessKeyLinkCell keyId={row.id} />
-                </td>
-              </tr>
+                      {ACCESS_KEY_TYPES.map((t) => (
+                        <option key={t} value={t}>
+                          {t}
+                        </option>
+                      ))}
+                    </select>
+                    <input
+                      type="text"
+                      list="access-partner-ids"
+                      value={row.partnerId ?? ""}
+                      onChange={(e) =>
+                        updateRow(row.id, {
+                          partnerId: e.target.value.trim().toLowerCase() || undefined,
+                        })
+                      }
+                      placeholder="Partner…"
+                      title="Partner-only products with this partner ID are shown on this key's kiosks"
+                      className="mt-1 block w-28 rounded border border-slate-200 bg-slate-50 px-2 py-1 font-mono text-xs text-slate-700 placeholder:font-sans placeholder:text-slate-400 focus:border-slate-400 focus:outline-none focus:ring-1 focus:ring-slate-400"
+                    />
+                  </td>
+                  <td className="py-2 pr-4">
+                    <label className="inline-flex items-center gap-2 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={row.isActive}
+                        onChange={(e) =>
+                          updateRow(row.id, { isActive: e.target.checked })
+                        }
+                        className="h-4 w-4 rounded border-slate-300 text-emerald-600 focus:ring-emerald-500"
+                      />
+                      <span
+                        className={`text-xs font-medium ${
+                          row.isActive ? "text-emerald-700" : "text-slate-500"
+                        }`}
+                      >
+                        {row.isActive ? "Active" : "Inactive"}
+                      </span>
+                    </label>
+                    {isAccessKeyExpired(row, now) && (
+                      <span className="mt-1 block text-xs font-medium text-amber-700">Expired</span>
+                    )}
+                    {isAccessKeyExhausted(row) && (
+                      <span className="mt-1 block text-xs font-medium text-amber-700">Visit cap reached</span>
+                    )}
+                  </td>
+                  <td className="py-2 pr-4">
+                    <input
+                      type="date"
+                      value={toDateInput(row.expiresAt)}
+                      onChange={(e) =>
+                        updateRow(row.id, { expiresAt: fromDateInput(e.target.value) })
+                      }
+                      className="rounded border border-slate-200 bg-slate-50 px-2 py-1 text-sm text-slate-700 focus:border-slate-400 focus:outline-none focus:ring-1 focus:ring-slate-400"
+                    />
+                  </td>
+                  <td className="py-2 pr-4">
+                    <div className="flex items-center gap-1 whitespace-nowrap text-xs text-slate-600">
+                      <span className="tabular-nums">{row.visitCount ?? 0}</span>
+                      <span>/</span>
+                      <input
+                        type="number"
+                        min={1}
+                        value={row.maxVisits ?? ""}
+                        onChange={(e) => {
+                          const value = Math.floor(Number(e.target.value));
+                          updateRow(row.id, {
+                            maxVisits: e.target.value && value > 0 ? value : undefined,
+                          });
+                        }}
+                        placeholder="∞"
+                        className="w-16 rounded border border-slate-200 bg-slate-50 px-2 py-1 text-sm text-slate-700 focus:border-slate-400 focus:outline-none focus:ring-1 focus:ring-slate-400"
+                      />
+                    </div>
+                  </td>
+                  <td className="py-2 pr-4">
+                    <button
+                      type="button"
+                      onClick={() =>
+                        setScopeKeyId((prev) => (prev === row.id ? null : row.id))
+                      }
+                      className="max-w-[180px] truncate text-left text-xs text-slate-600 underline decoration-dotted hover:text-slate-900"
+                      title={describeScope(row)}
+                    >
+                      {describeScope(row)}
+                    </button>
+                  </td>
+                  <td className="py-2 pr-4">
+                    <input
+                      type="text"
+                      value={row.notes ?? ""}
+                      onChange={(e) =>
+                        updateRow(row.id, { notes: e.target.value })
+                      }
+                      placeholder="Notes…"
+                      className="w-full min-w-[120px] rounded border border-slate-200 bg-slate-50 px-2 py-1 text-sm text-slate-700 placeholder:text-slate-400 focus:border-slate-400 focus:outline-none focus:ring-1 focus:ring-slate-400"
+                    />
+                  </td>
+                  <td className="py-2 pr-4">
+                    <AccessKeyLinkCell keyId={row.id} />
+                  </td>
+                </tr>
+                {scopeKeyId === row.id && (
+                  <tr className="bg-slate-50/60">
+                    <td colSpan={9} className="px-3 py-3">
+                      <p className="mb-2 text-xs text-slate-500">
+                        Limit what this key shows in the explorer. Leave a group
+                        empty to allow everything in it.
+                      </p>
+                      <div className="grid gap-4 sm:grid-cols-2">
+                        <fieldset>
+                          <legend className="mb-1 text-xs font-semibold uppercase tracking-wide text-slate-500">
+                            Strains
+                          </legend>
+                          <div className="flex flex-wrap gap-x-4 gap-y-1">
+                            {strainOptions.map((strain) => (
+                              <label key={strain.id} className="inline-flex items-center gap-1.5 text-sm text-slate-700">
+                                <input
+                                  type="checkbox"
+                                  checked={row.allowedStrainIds?.includes(strain.id) ?? false}
+                                  onChange={() =>
+                                    updateRow(row.id, {
+                                      allowedStrainIds: toggleItem(row.allowedStrainIds, strain.id),
+                                    })
+                                  }
+                                />
+                                {strain.name}
+                              </label>
+                            ))}
+                          </div>
+                        </fieldset>
+                        <fieldset>
+                          <legend className="mb-1 text-xs font-semibold uppercase tracking-wide text-slate-500">
+                            Doses
+                          </legend>
+                          <div className="flex flex-wrap gap-x-4 gap-y-1">
+                            {doseOptions.map((dose) => (
+                              <label key={dose.key} className="inline-flex items-center gap-1.5 text-sm text-slate-700">
+                                <input
+                                  type="checkbox"
+                                  checked={row.allowedDoseKeys?.includes(dose.key) ?? false}
+                                  onChange={() =>
+                                    updateRow(row.id, {
+                                      allowedDoseKeys: toggleItem(row.allowedDoseKeys, dose.key),
+                                    })
+                                  }
+                                />
+                                {dose.label}
+                              </label>
+                            ))}
+                          </div>
+                        </fieldset>
+                      </div>
+                    </td>
+                  </tr>
+                )}
+              </Fragment>
             ))}
             {rows.length === 0 && (
               <tr>
                 <td
-                  colSpan={6}
+                  colSpan={9}
                   className="py-8 text-center text-sm text-slate-500"
                 >
                   No access keys yet. Click &quot;Add Key&quot; to create one.
                 </td>
               </tr>
             )}
+            {rows.length > 0 && visibleRows.length === 0 && (
+              <tr>
+                <td colSpan={9} className="py-8 text-center text-sm text-slate-500">
+                  No keys match this filter.
+                </td>
+              </tr>
+            )}
           </tbody>
         </table>
       </div>
@@ -0,0 +1,186 @@
+"use client";
+
+import { useState } from "react";
+import type { AccessFunnelCounts, AccessFunnelReport } from "@/lib/types";
+
+type AccessFunnelPanelProps = {
+  initialReport: AccessFunnelReport;
+  accessKeyLabels: Record<string, string>;
+};
+
+const RANGE_PRESETS = [
+  { label: "7 days", days: 7 },
+  { label: "30 days", days: 30 },
+  { label: "All time", days: null },
+] as const;
+
+function isoDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+// Share of the previous funnel stage
+function formatRate(count: number, previous: number): string {
+  return previous > 0 ? `${Math.round((count / previous) * 100)}%` : "—";
+}
+
+function FunnelCells({ counts }: { counts: AccessFunnelCounts }) {
+  return (
+    <>
+      <td className="px-3 py-2 text-right tabular-nums">{counts.visits}</td>
+      <td className="px-3 py-2 text-right tabular-nums">
+        {counts.engaged}
+        <span className="ml-1 text-xs text-slate-400">{formatRate(counts.engaged, counts.visits)}</span>
+      </td>
+      <td className="px-3 py-2 text-right tabular-nums">
+        {counts.qrOpens}
+        <span className="ml-1 text-xs text-slate-400">{formatRate(counts.qrOpens, counts.engaged)}</span>
+      </td>
+      <td className="px-3 py-2 text-right tabular-nums">
+        {counts.feedback}
+        <span className="ml-1 text-xs text-slate-400">{formatRate(counts.feedback, counts.qrOpens)}</span>
+      </td>
+      <td className="px-3 py-2 text-right tabular-nums">
+        {counts.devices}
+        {counts.newDevices > 0 && (
+          <span className="ml-1 text-xs text-emerald-600">+{counts.newDevices} new</span>
+        )}
+      </td>
+    </>
+  );
+}
+
+export function AccessFunnelPanel({ initialReport, accessKeyLabels }: AccessFunnelPanelProps) {
+  const [report, setReport] = useState<AccessFunnelReport>(initialReport);
+  const [from, setFrom] = useState(initialReport.range.from ?? "");
+  const [to, setTo] = useState(initialReport.range.to ?? "");
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function loadRange(nextFrom: string, nextTo: string) {
+    setFrom(nextFrom);
+    setTo(nextTo);
+    setIsLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams();
+      if (nextFrom) params.set("from", nextFrom);
+      if (nextTo) params.set("to", nextTo);
+      const res = await fetch(`/api/admin/access-funnel?${params}`);
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to load funnel");
+      }
+      setReport(data as AccessFunnelReport);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load funnel");
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  function handlePreset(days: number | null) {
+    if (days === null) {
+      loadRange("", "");
+      return;
+    }
+    const start = new Date();
+    start.setUTCDate(start.getUTCDate() - (days - 1));
+    loadRange(isoDay(start), isoDay(new Date()));
+  }
+
+  // Keys nobody has used yet only add noise
+  const rows = report.byKey.filter((row) => row.visits > 0 || row.feedback > 0);
+
+  return (
+    <section className="mb-4 rounded-xl border border-slate-200 bg-white p-5 shadow-sm">
+      <div className="mb-3 flex flex-wrap items-center gap-3">
+        <h2 className="text-base font-semibold text-slate-900">Attribution funnel</h2>
+        <div className="flex items-center gap-1">
+          {RANGE_PRESETS.map(({ label, days }) => (
+            <button
+              key={label}
+              type="button"
+              onClick={() => handlePreset(days)}
+              disabled={isLoading}
+              className="rounded-full border border-slate-200 px-3 py-1 text-xs text-slate-700 hover:bg-slate-50 disabled:opacity-50"
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        <label className="flex items-center gap-2 text-sm text-slate-600">
+          From
+          <input
+            type="date"
+            value={from}
+            onChange={(e) => loadRange(e.target.value, to)}
+            className="rounded border border-slate-200 px-2 py-1 text-sm"
+          />
+        </label>
+        <label className="flex items-center gap-2 text-sm text-slate-600">
+          To
+          <input
+            type="date"
+            value={to}
+            onChange={(e) => loadRange(from, e.target.value)}
+            className="rounded border border-slate-200 px-2 py-1 text-sm"
+          />
+        </label>
+        {isLoading && <span className="ml-auto text-sm text-slate-500">Loading…</span>}
+      </div>
+
+      {error && (
+        <div className="mb-3 rounded-md bg-red-50 px-4 py-3 text-sm text-red-700">{error}</div>
+      )}
+
+      {rows.length === 0 ? (
+        <p className="py-6 text-center text-sm text-slate-500">
+          No kiosk visits with an access key in this date range.
+        </p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="border-b border-slate-200 text-left text-xs uppercase tracking-wide text-slate-500">
+                <th className="px-3 py-2 font-medium">Key</th>
+                <th className="px-3 py-2 text-right font-medium">Visits</th>
+                <th className="px-3 py-2 text-right font-medium">Engaged</th>
+                <th className="px-3 py-2 text-right font-medium">Feedback QR</th>
+                <th className="px-3 py-2 text-right font-medium">Feedback</th>
+                <th className="px-3 py-2 text-right font-medium">Devices</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row) => (
+                <tr
+                  key={row.accessKeyId}
+                  className={`border-b border-slate-100 ${row.excludedFromTotals ? "text-slate-400" : "text-slate-800"}`}
+                >
+                  <td className="px-3 py-2">
+                    {accessKeyLabels[row.accessKeyId] ?? row.accessKeyId}
+                    {row.excludedFromTotals && (
+                      <span className="ml-2 rounded-full bg-slate-100 px-2 py-0.5 text-[11px] text-slate-500">
+                        test · excluded
+                      </span>
+                    )}
+                  </td>
+                  <FunnelCells counts={row} />
+                </tr>
+              ))}
+            </tbody>
+            <tfoot>
+              <tr className="font-semibold text-slate-900">
+                <td className="px-3 py-2">Total</td>
+                <FunnelCells counts={report.totals} />
+              </tr>
+            </tfoot>
+          </table>
+          <p className="mt-2 text-xs text-slate-500">
+            Visits count kiosk sessions; engaged sessions picked a strain or dose. Feedback counts
+            submissions sent with the key. New devices are kiosks first seen with the key.
+          </p>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -1,33 +1,31 @@
 import { AdminHeader } from "../AdminHeader";
-import { promises as fs } from "fs";
-import path from "path";
-import type { AccessKeyDataset, AccessKeySettings } from "@/lib/types";
+import type { AccessKeySettings } from "@/lib/types";
 import { AccessAdminClient } from "./AccessAdminClient";
+import { AccessFunnelPanel } from "./AccessFunnelPanel";
+import { accessEventsLog, accessKeysRepository } from "@/lib/storage";
+import { buildAccessFunnel } from "@/lib/accessFunnel";
+import { getDoseConfig, getStrainRegistry } from "@/data/strainData";
+
+// Render per request so visit counts, expiry status and the funnel are current
+export const dynamic = "force-dynamic";
 
 const DEFAULT_SETTINGS: AccessKeySettings = {
   requireKeyForRoot: false,
 };
 
-async function loadAccessKeys(): Promise<AccessKeyDataset> {
-  const filePath = path.join(process.cwd(), "data", "accessKeys.json");
-  try {
-    const raw = await fs.readFile(filePath, "utf8");
-    const parsed = JSON.parse(raw) as AccessKeyDataset;
-    if (!parsed || !Array.isArray(parsed.keys)) {
-      return { keys: [], settings: DEFAULT_SETTINGS };
-    }
-    return {
-      keys: parsed.keys,
-      settings: parsed.settings ?? DEFAULT_SETTINGS,
-    };
-  } catch {
-    // If the file is missing or invalid, fall back to empty
-    return { keys: [], settings: DEFAULT_SETTINGS };
-  }
-}
-
 export default async function AccessAdminPage() {
-  const { keys, settings } = await loadAccessKeys();
+  const [{ keys, settings }, events, registry, doseConfig] = await Promise.all([
+    accessKeysRepository.read(),
+    accessEventsLog.readAll(),
+    getStrainRegistry(),
+    getDoseConfig(),
+  ]);
+  const strainOptions = registry.map((s) => ({ id: s.id, name: s.name }));
+  const doseOptions = doseConfig.order.map((key) => ({
+    key,
+    label: doseConfig.config[key]?.label ?? key,
+  }));
+  const accessKeyLabels = Object.fromEntries(keys.map((k) => [k.id, k.label]));
 
   return (
     <main className="min-h-screen bg-[var(--shell-bg)] text-[var(--ink-main)]">
@@ -77,7 +75,18 @@ export default async function AccessAdminPage() {
           </div>
         </div>
 
-        <AccessAdminClient initialKeys={keys} initialSettings={settings ?? DEFAULT_SETTINGS} />
+        <AccessFunnelPanel
+          initialReport={buildAccessFunnel(events, keys, { from: null, to: null })}
+          accessKeyLabels={accessKeyLabels}
+        />
+
+        <AccessAdminClient
+          initialKeys={keys}
+          initialSettings={settings ?? DEFAULT_SETTINGS}
+          generatedAt={new Date().toISOString()}
+          strainOptions={strainOptions}
+          doseOptions={doseOptions}
+        />
       </div>
     </main>
   );
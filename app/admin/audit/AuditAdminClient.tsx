@@ -0,0 +1,269 @@
+"use client";
+
+import { Fragment, useState } from "react";
+import type { AuditEntry, AuditFilters, AuditPage } from "@/lib/types";
+import { AUDIT_ENTITY_TYPES, auditFiltersToParams, isAuditEntityType } from "@/lib/auditFilters";
+
+type AuditAdminClientProps = {
+  initialPage: AuditPage;
+  actors: string[];
+};
+
+const MAX_DIFF_ROWS = 200;
+
+function formatDate(iso: string) {
+  return new Date(iso).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+    second: "2-digit",
+  });
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined) return "—";
+  if (typeof value === "string") return value;
+  return JSON.stringify(value);
+}
+
+function formatEntityIds(entry: AuditEntry): string {
+  const shown = entry.entityIds.slice(0, 3).join(", ");
+  return entry.entityIds.length > 3 ? `${shown}, +${entry.entityIds.length - 3} more` : shown;
+}
+
+export function AuditAdminClient({ initialPage, actors }: AuditAdminClientProps) {
+  const [entries, setEntries] = useState(initialPage.entries);
+  const [total, setTotal] = useState(initialPage.total);
+  const [nextBefore, setNextBefore] = useState(initialPage.nextBefore);
+  const [filters, setFilters] = useState<AuditFilters>({});
+  const [query, setQuery] = useState("");
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // A new search replaces the list; `before` appends the next older page
+  async function loadEntries(next: AuditFilters, before: string | null = null) {
+    setFilters(next);
+    setIsLoading(true);
+    setError(null);
+    try {
+      const params = auditFiltersToParams(next);
+      if (before) params.set("before", before);
+      const res = await fetch(`/api/admin/audit?${params}`);
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to load audit log");
+      }
+      const page = data as AuditPage;
+      setEntries((current) => (before ? [...current, ...page.entries] : page.entries));
+      setTotal(page.total);
+      setNextBefore(page.nextBefore);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load audit log");
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  function handleSearch(e: React.FormEvent) {
+    e.preventDefault();
+    loadEntries({ ...filters, query: query.trim() || undefined });
+  }
+
+  return (
+    <div className="space-y-4">
+      <form
+        onSubmit={handleSearch}
+        className="flex flex-wrap items-center gap-3 rounded-xl border border-slate-200 bg-white p-4 shadow-sm"
+      >
+        <label className="flex items-center gap-2 text-sm text-slate-600">
+          Account
+          <select
+            value={filters.actor ?? ""}
+            onChange={(e) => loadEntries({ ...filters, actor: e.target.value || undefined })}
+            className="rounded border border-slate-200 px-2 py-1 text-sm"
+          >
+            <option value="">Everyone</option>
+            {actors.map((actor) => (
+              <option key={actor} value={actor}>
+                {actor}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2 text-sm text-slate-600">
+          Type
+          <select
+            value={filters.entityType ?? ""}
+            onChange={(e) =>
+              loadEntries({
+                ...filters,
+                entityType: isAuditEntityType(e.target.value) ? e.target.value : undefined,
+              })
+            }
+            className="rounded border border-slate-200 px-2 py-1 text-sm"
+          >
+            <option value="">All types</option>
+            {Object.entries(AUDIT_ENTITY_TYPES).map(([id, { label }]) => (
+              <option key={id} value={id}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2 text-sm text-slate-600">
+          From
+          <input
+            type="date"
+            value={filters.from ?? ""}
+            onChange={(e) => loadEntries({ ...filters, from: e.target.value || null })}
+            className="rounded border border-slate-200 px-2 py-1 text-sm"
+          />
+        </label>
+        <label className="flex items-center gap-2 text-sm text-slate-600">
+          To
+          <input
+            type="date"
+            value={filters.to ?? ""}
+            onChange={(e) => loadEntries({ ...filters, to: e.target.value || null })}
+            className="rounded border border-slate-200 px-2 py-1 text-sm"
+          />
+        </label>
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Entity id, summary or route"
+          className="min-w-[14rem] flex-1 rounded border border-slate-200 px-2 py-1 text-sm"
+        />
+        <button
+          type="submit"
+          disabled={isLoading}
+          className="rounded border border-slate-300 px-3 py-1 text-sm font-medium text-slate-700 hover:bg-slate-50 disabled:opacity-50"
+        >
+          Search
+        </button>
+        {isLoading && <span className="text-sm text-slate-500">Loading…</span>}
+      </form>
+
+      {error && (
+        <div className="rounded-md bg-red-50 px-4 py-3 text-sm text-red-700">{error}</div>
+      )}
+
+      <section className="rounded-xl border border-slate-200 bg-white shadow-sm overflow-hidden">
+        {entries.length === 0 ? (
+          <p className="py-6 text-center text-sm text-slate-500">No admin changes match these filters.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-slate-50 text-left text-xs uppercase tracking-wide text-slate-500">
+                <tr>
+                  <th className="px-4 py-2">When</th>
+                  <th className="px-4 py-2">Account</th>
+                  <th className="px-4 py-2">Action</th>
+                  <th className="px-4 py-2">Entities</th>
+                  <th className="px-4 py-2">Summary</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {entries.map((entry) => {
+                  const isExpanded = expandedId === entry.id;
+                  return (
+                    <Fragment key={entry.id}>
+                      <tr
+                        onClick={() => setExpandedId(isExpanded ? null : entry.id)}
+                        className="align-top cursor-pointer hover:bg-slate-50"
+                      >
+                        <td className="px-4 py-2 whitespace-nowrap text-slate-700">
+                          {formatDate(entry.createdAt)}
+                          <div className="text-[11px] font-mono text-slate-400">
+                            {entry.method} {entry.route}
+                          </div>
+                        </td>
+                        <td className="px-4 py-2 text-slate-600">
+                          {entry.actor}
+                          <div className="text-[11px] text-slate-400">{entry.actorRole}</div>
+                        </td>
+                        <td className="px-4 py-2 text-slate-600">{entry.action}</td>
+                        <td className="px-4 py-2 text-slate-600">
+                          {AUDIT_ENTITY_TYPES[entry.entityType]?.label ?? entry.entityType}
+                          <div className="text-[11px] font-mono text-slate-400 break-all">
+                            {formatEntityIds(entry)}
+                          </div>
+                        </td>
+                        <td className="px-4 py-2 text-slate-600">
+                          {entry.summary}
+                          {entry.revisionId && (
+                            <div className="text-[11px] font-mono text-slate-400">{entry.revisionId}</div>
+                          )}
+                        </td>
+                      </tr>
+                      {isExpanded && (
+                        <tr>
+                          <td colSpan={5} className="bg-slate-50/60 px-4 py-3">
+                            {entry.changes.length === 0 ? (
+                              <p className="text-xs text-slate-500">This write changed nothing.</p>
+                            ) : (
+                              <table className="w-full text-xs">
+                                <thead className="text-left uppercase tracking-wide text-slate-500">
+                                  <tr>
+                                    <th className="px-3 py-1 w-1/6">Entity</th>
+                                    <th className="px-3 py-1 w-1/4">Field</th>
+                                    <th className="px-3 py-1">Before</th>
+                                    <th className="px-3 py-1">After</th>
+                                  </tr>
+                                </thead>
+                                <tbody className="divide-y divide-slate-100 font-mono">
+                                  {entry.changes.slice(0, MAX_DIFF_ROWS).map((change, idx) => (
+                                    <tr key={`${change.entityId}-${change.path}-${idx}`} className="align-top">
+                                      <td className="px-3 py-1 text-slate-600 break-all">{change.entityId}</td>
+                                      <td className="px-3 py-1 text-slate-600 break-all">
+                                        {change.path || `(${change.kind})`}
+                                      </td>
+                                      <td className="px-3 py-1 bg-rose-50/60 text-rose-800 break-all whitespace-pre-wrap">
+                                        {formatValue(change.before)}
+                                      </td>
+                                      <td className="px-3 py-1 bg-emerald-50/60 text-emerald-800 break-all whitespace-pre-wrap">
+                                        {formatValue(change.after)}
+                                      </td>
+                                    </tr>
+                                  ))}
+                                </tbody>
+                              </table>
+                            )}
+                            {entry.changeCount > Math.min(entry.changes.length, MAX_DIFF_ROWS) && (
+                              <p className="mt-2 text-xs text-slate-500">
+                                Showing {Math.min(entry.changes.length, MAX_DIFF_ROWS)} of {entry.changeCount} changes.
+                              </p>
+                            )}
+                          </td>
+                        </tr>
+                      )}
+                    </Fragment>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+        {nextBefore && (
+          <div className="flex items-center justify-between border-t border-slate-100 px-4 py-2 text-xs text-slate-500">
+            <span>
+              Showing the newest {entries.length} of {total} entries.
+            </span>
+            <button
+              type="button"
+              onClick={() => loadEntries(filters, nextBefore)}
+              disabled={isLoading}
+              className="rounded border border-slate-300 px-3 py-1 font-medium text-slate-700 hover:bg-slate-50 disabled:opacity-50"
+            >
+              Load older
+            </button>
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
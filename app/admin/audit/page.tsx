@@ -0,0 +1,22 @@
+import { AdminHeader } from "@/app/admin/AdminHeader";
+import { listAuditActors, searchAuditLog } from "@/lib/auditLog";
+import { AuditAdminClient } from "./AuditAdminClient";
+
+// The audit log grows with every admin write
+export const dynamic = "force-dynamic";
+
+export default async function AdminAuditPage() {
+  const [initialPage, actors] = await Promise.all([searchAuditLog({}), listAuditActors()]);
+
+  return (
+    <main className="min-h-screen bg-[var(--shell-bg)] text-[var(--ink-main)]">
+      <div className="mx-auto max-w-7xl px-3 sm:px-6 py-4">
+        <AdminHeader />
+        <p className="text-sm text-[var(--ink-soft)] mb-4">
+          Every admin change, with the account that made it and the fields it changed. Entries can&apos;t be edited or removed.
+        </p>
+        <AuditAdminClient initialPage={initialPage} actors={actors} />
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,347 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type {
+  DoseKey,
+  KioskDevice,
+  KioskDeviceConfig,
+  KioskThemePresetId,
+} from "@/lib/types";
+import { KIOSK_THEME_PRESETS, isDeviceOnline } from "@/lib/kioskDevices";
+import { KIOSK_VERSION } from "@/lib/version";
+
+type DevicesAdminClientProps = {
+  initialDevices: KioskDevice[];
+  // Server render time, the reference for "last seen" until the first refresh
+  generatedAt: string;
+  strainOptions: { id: string; name: string }[];
+  doseOptions: { key: DoseKey; label: string }[];
+  accessKeyLabels: Record<string, string>;
+};
+
+type DeviceCardProps = Omit<DevicesAdminClientProps, "initialDevices" | "generatedAt"> & {
+  device: KioskDevice;
+  now: number;
+  onChange: (device: KioskDevice) => void;
+  onRemove: (id: string) => void;
+};
+
+// How often the list refreshes online status and versions
+const REFRESH_MS = 30_000;
+
+const THEME_OPTIONS = Object.values(KIOSK_THEME_PRESETS);
+
+function formatAgo(iso: string, now: number): string {
+  const seconds = Math.max(0, Math.round((now - Date.parse(iso)) / 1000));
+  if (seconds < 60) return "just now";
+  if (seconds < 3600) return `${Math.floor(seconds / 60)} min ago`;
+  if (seconds < 86400) return `${Math.floor(seconds / 3600)} h ago`;
+  return new Date(iso).toLocaleDateString();
+}
+
+function DeviceCard({
+  device,
+  now,
+  strainOptions,
+  doseOptions,
+  accessKeyLabels,
+  onChange,
+  onRemove,
+}: DeviceCardProps) {
+  // Edits stay local until saved, so list refreshes don't overwrite them
+  const [label, setLabel] = useState(device.label ?? "");
+  const [config, setConfig] = useState<KioskDeviceConfig>(device.config);
+  const [showErrors, setShowErrors] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+  const [status, setStatus] = useState<{ kind: "success" | "error"; message: string } | null>(null);
+
+  const online = isDeviceOnline(device, now);
+  const outdated = device.version !== KIOSK_VERSION;
+
+  const updateConfig = (changes: Partial<KioskDeviceConfig>) => {
+    setConfig((prev) => ({ ...prev, ...changes }));
+    setStatus(null);
+  };
+
+  async function send(method: "PATCH" | "DELETE", body?: object) {
+    setIsBusy(true);
+    setStatus(null);
+    try {
+      const res = await fetch(`/api/admin/devices/${encodeURIComponent(device.id)}`, {
+        method,
+        headers: body ? { "Content-Type": "application/json" } : undefined,
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(data.error || `Request failed: ${res.status}`);
+      }
+      return data;
+    } catch (err) {
+      setStatus({ kind: "error", message: err instanceof Error ? err.message : "Request failed" });
+      return null;
+    } finally {
+      setIsBusy(false);
+    }
+  }
+
+  async function handleSave() {
+    const data = await send("PATCH", { label, config });
+    if (!data) return;
+    onChange(data.device);
+    setConfig(data.device.config);
+    setStatus({ kind: "success", message: "Saved — applies at the next check-in" });
+  }
+
+  async function handleReload() {
+    const data = await send("PATCH", { reload: true });
+    if (!data) return;
+    onChange(data.device);
+    setStatus({ kind: "success", message: "Reload requested" });
+  }
+
+  async function handleRemove() {
+    if (!confirm("Remove this kiosk? It registers again if it is still running.")) return;
+    if (await send("DELETE")) onRemove(device.id);
+  }
+
+  return (
+    <div className="rounded-xl border border-slate-200 bg-white p-5 shadow-sm">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div className="min-w-0">
+          <div className="flex items-center gap-2">
+            <span
+              className={`h-2.5 w-2.5 rounded-full ${online ? "bg-emerald-500" : "bg-slate-300"}`}
+              title={online ? "Online" : "Offline"}
+            />
+            <h3 className="truncate text-sm font-semibold text-slate-900">
+              {device.label || device.id}
+            </h3>
+          </div>
+          <p className="mt-1 text-xs text-slate-500">
+            {accessKeyLabels[device.accessKeyId] ?? device.accessKeyId}
+            {" · "}
+            {online ? "Online" : "Offline"}, last seen {formatAgo(device.lastSeenAt, now)}
+          </p>
+          <p className="mt-0.5 font-mono text-[11px] text-slate-400">{device.id}</p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2 text-xs">
+          <span
+            className={`rounded-full px-2 py-0.5 font-medium ${
+              outdated ? "bg-amber-50 text-amber-700" : "bg-slate-100 text-slate-600"
+            }`}
+            title={outdated ? `Current build is ${KIOSK_VERSION}` : undefined}
+          >
+            v{device.version}
+            {outdated && " (outdated)"}
+          </span>
+          <button
+            type="button"
+            onClick={() => setShowErrors((prev) => !prev)}
+            disabled={device.errorCount === 0}
+            className={`rounded-full px-2 py-0.5 font-medium ${
+              device.errorCount > 0 ? "bg-red-50 text-red-700" : "bg-slate-100 text-slate-500"
+            }`}
+          >
+            {device.errorCount} {device.errorCount === 1 ? "error" : "errors"}
+          </button>
+        </div>
+      </div>
+
+      {showErrors && device.recentErrors.length > 0 && (
+        <ul className="mt-3 max-h-40 space-y-1 overflow-y-auto rounded border border-red-100 bg-red-50/50 p-2 text-xs">
+          {[...device.recentErrors].reverse().map((error, i) => (
+            <li key={`${error.at}-${i}`} className="break-words text-red-800">
+              <span className="text-red-500">{new Date(error.at).toLocaleString()}</span>{" "}
+              {error.message}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="mt-4 grid gap-3 sm:grid-cols-3">
+        <label className="text-xs font-medium text-slate-600">
+          Label
+          <input
+            type="text"
+            value={label}
+            maxLength={80}
+            onChange={(e) => {
+              setLabel(e.target.value);
+              setStatus(null);
+            }}
+            placeholder="e.g. Front counter"
+            className="mt-1 w-full rounded border border-slate-300 px-2 py-1.5 text-sm font-normal"
+          />
+        </label>
+        <label className="text-xs font-medium text-slate-600">
+          Default strain
+          <select
+            value={config.defaultStrainId ?? ""}
+            onChange={(e) => updateConfig({ defaultStrainId: e.target.value || undefined })}
+            className="mt-1 w-full rounded border border-slate-300 px-2 py-1.5 text-sm font-normal"
+          >
+            <option value="">First strain</option>
+            {strainOptions.map((strain) => (
+              <option key={strain.id} value={strain.id}>
+                {strain.name}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="text-xs font-medium text-slate-600">
+          Default dose
+          <select
+            value={config.defaultDoseKey ?? ""}
+            onChange={(e) => updateConfig({ defaultDoseKey: e.target.value || undefined })}
+            className="mt-1 w-full rounded border border-slate-300 px-2 py-1.5 text-sm font-normal"
+          >
+            <option value="">Standard default</option>
+            {doseOptions.map((dose) => (
+              <option key={dose.key} value={dose.key}>
+                {dose.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="text-xs font-medium text-slate-600">
+          Theme
+          <select
+            value={config.themePreset ?? ""}
+            onChange={(e) =>
+              updateConfig({
+                themePreset: (e.target.value || undefined) as KioskThemePresetId | undefined,
+              })
+            }
+            className="mt-1 w-full rounded border border-slate-300 px-2 py-1.5 text-sm font-normal"
+          >
+            <option value="">Kiosk default</option>
+            {THEME_OPTIONS.map((theme) => (
+              <option key={theme.id} value={theme.id}>
+                {theme.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="text-xs font-medium text-slate-600">
+          Idle timeout (minutes, 0 = off)
+          <input
+            type="number"
+            min={0}
+            max={120}
+            value={config.idleMinutes ?? ""}
+            onChange={(e) =>
+              updateConfig({
+                idleMinutes: e.target.value === "" ? undefined : Number(e.target.value),
+              })
+            }
+            placeholder="Kiosk default"
+            className="mt-1 w-full rounded border border-slate-300 px-2 py-1.5 text-sm font-normal"
+          />
+        </label>
+        <label className="flex items-center gap-2 self-end pb-2 text-sm text-slate-700">
+          <input
+            type="checkbox"
+            checked={config.locked === true}
+            onChange={(e) => updateConfig({ locked: e.target.checked || undefined })}
+          />
+          Locked to default strain
+        </label>
+      </div>
+
+      <div className="mt-4 flex flex-wrap items-center gap-2">
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={isBusy}
+          className="rounded bg-slate-900 px-3 py-1.5 text-sm font-medium text-white hover:bg-slate-800 disabled:opacity-50"
+        >
+          Save
+        </button>
+        <button
+          type="button"
+          onClick={handleReload}
+          disabled={isBusy}
+          className="rounded border border-slate-300 bg-white px-3 py-1.5 text-sm text-slate-700 hover:bg-slate-50 disabled:opacity-50"
+        >
+          Reload kiosk
+        </button>
+        <button
+          type="button"
+          onClick={handleRemove}
+          disabled={isBusy}
+          className="rounded border border-red-200 bg-white px-3 py-1.5 text-sm text-red-600 hover:bg-red-50 disabled:opacity-50"
+        >
+          Remove
+        </button>
+        {status && (
+          <span
+            className={`text-sm ${status.kind === "success" ? "text-emerald-700" : "text-red-700"}`}
+          >
+            {status.message}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export function DevicesAdminClient({
+  initialDevices,
+  generatedAt,
+  ...cardProps
+}: DevicesAdminClientProps) {
+  const [devices, setDevices] = useState<KioskDevice[]>(initialDevices);
+  const [now, setNow] = useState(() => Date.parse(generatedAt));
+
+  useEffect(() => {
+    const timer = setInterval(() => {
+      fetch("/api/admin/devices", { cache: "no-store" })
+        .then((res) => (res.ok ? res.json() : null))
+        .then((data) => {
+          if (data) setDevices(data.devices);
+          setNow(Date.now());
+        })
+        .catch(() => {
+          // keep the last list; retry next tick
+        });
+    }, REFRESH_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  const onlineCount = devices.filter((d) => isDeviceOnline(d, now)).length;
+
+  const handleChange = (device: KioskDevice) =>
+    setDevices((prev) => prev.map((d) => (d.id === device.id ? device : d)));
+  const handleRemove = (id: string) =>
+    setDevices((prev) => prev.filter((d) => d.id !== id));
+
+  if (devices.length === 0) {
+    return (
+      <div className="rounded-xl border border-slate-200 bg-white p-8 text-center text-sm text-slate-500 shadow-sm">
+        No kiosks have registered yet. Open the kiosk with an access key
+        (<code className="rounded bg-slate-100 px-1.5 py-0.5 font-mono text-xs">/?key=…</code>)
+        and it will appear here within a minute.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-slate-600">
+        {onlineCount} of {devices.length} {devices.length === 1 ? "kiosk" : "kiosks"} online
+        · current build v{KIOSK_VERSION}
+      </p>
+      {devices.map((device) => (
+        <DeviceCard
+          key={device.id}
+          device={device}
+          now={now}
+          onChange={handleChange}
+          onRemove={handleRemove}
+          {...cardProps}
+        />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+import { AdminHeader } from "../AdminHeader";
+import { DevicesAdminClient } from "./DevicesAdminClient";
+import { getDoseConfig, getStrainRegistry } from "@/data/strainData";
+import { accessKeysRepository, devicesRepository } from "@/lib/storage";
+import { withoutExpiredDevices } from "@/lib/kioskDevices";
+
+// Render per request so heartbeat times are current
+export const dynamic = "force-dynamic";
+
+export default async function DevicesAdminPage() {
+  const [{ devices }, { keys }, registry, doseConfig] = await Promise.all([
+    devicesRepository.read(),
+    accessKeysRepository.read(),
+    getStrainRegistry(),
+    getDoseConfig(),
+  ]);
+
+  const strainOptions = registry.map((s) => ({ id: s.id, name: s.name }));
+  const doseOptions = doseConfig.order.map((key) => ({
+    key,
+    label: doseConfig.config[key]?.label ?? key,
+  }));
+  const accessKeyLabels = Object.fromEntries(keys.map((k) => [k.id, k.label || k.id]));
+
+  return (
+    <main className="min-h-screen bg-[var(--shell-bg)] text-[var(--ink-main)]">
+      <div className="mx-auto max-w-7xl px-3 sm:px-6 py-4">
+        <AdminHeader />
+        <p className="text-sm text-[var(--ink-soft)] mb-4">
+          Kiosks opened with an access key and <code className="rounded bg-[var(--card-inner)] px-1 font-mono text-xs">?kiosk=1</code> register here and check in
+          every minute (the browser remembers the flag; <code className="rounded bg-[var(--card-inner)] px-1 font-mono text-xs">?kiosk=0</code> clears it). Config
+          changes and reloads reach a kiosk with its next check-in. Kiosks offline for 30 days
+          are removed.
+        </p>
+        <DevicesAdminClient
+          initialDevices={withoutExpiredDevices(devices).sort((a, b) => b.lastSeenAt.localeCompare(a.lastSeenAt))}
+          generatedAt={new Date().toISOString()}
+          strainOptions={strainOptions}
+          doseOptions={doseOptions}
+          accessKeyLabels={accessKeyLabels}
+        />
+      </div>
+    </main>
+  );
+}
@@ -1,68 +1,38 @@
 "use client";
 
 import { useState, useMemo } from "react";
-import type { FeedbackEntry, AccessKey, TraitAxisId, AxisExperienceScores } from "@/lib/types";
+import type {
+  FeedbackEntry,
+  FeedbackFilters,
+  AccessKey,
+  RadarMatchBucket,
+  TraitAxisDefinition,
+  TraitAxisId,
+} from "@/lib/types";
+import {
+  ANONYMOUS_ACCESS_KEY,
+  computeAvgDelta,
+  feedbackFiltersToParams,
+  filterFeedbackEntries,
+  getRadarMatchBucket,
+} from "@/lib/feedbackAnalytics";
+import { QuarantinePanel } from "./QuarantinePanel";
 
 type FeedbackAdminClientProps = {
   initialEntries: FeedbackEntry[];
+  // Submissions held back by the spam checks
+  quarantinedEntries: FeedbackEntry[];
   accessKeys: AccessKey[];
   strainNames: Record<string, string>;
+  // Catalog product names by id, for attributed feedback
+  productNames: Record<string, string>;
+  // Current dataset axes, for the per-axis insights
+  axisDefinitions: TraitAxisDefinition[];
 };
 
 type SortField = "date" | "radarMatch";
 type SortDirection = "asc" | "desc";
-type RadarMatchFilter = "all" | "very-close" | "some-variation" | "quite-different";
-
-const TRAIT_AXES: TraitAxisId[] = [
-  "visuals",
-  "euphoria",
-  "introspection",
-  "creativity",
-  "spiritual_depth",
-  "sociability",
-];
-
-const AXIS_LABELS: Record<TraitAxisId, string> = {
-  visuals: "Visuals",
-  euphoria: "Euphoria",
-  introspection: "Introspection",
-  creativity: "Creativity",
-  spiritual_depth: "Spiritual Depth",
-  sociability: "Sociability",
-};
-
-/**
- * Compute average absolute delta between felt and expected axis values.
- * Returns null if either feltAxes or expectedAxes is missing or empty.
- */
-function computeAvgDelta(
-  feltAxes: AxisExperienceScores | undefined,
-  expectedAxes: AxisExperienceScores | undefined
-): number | null {
-  if (!feltAxes || !expectedAxes) return null;
-  
-  const diffs: number[] = [];
-  for (const axis of TRAIT_AXES) {
-    const felt = feltAxes[axis];
-    const expected = expectedAxes[axis];
-    if (typeof felt === "number" && typeof expected === "number") {
-      diffs.push(Math.abs(felt - expected));
-    }
-  }
-  
-  if (diffs.length === 0) return null;
-  return diffs.reduce((sum, d) => sum + d, 0) / diffs.length;
-}
-
-/**
- * Get the radar match bucket based on avgDelta.
- */
-function getRadarMatchBucket(avgDelta: number | null): RadarMatchFilter | null {
-  if (avgDelta === null) return null;
-  if (avgDelta < 1.0) return "very-close";
-  if (avgDelta < 2.5) return "some-variation";
-  return "quite-different";
-}
+type RadarMatchFilter = "all" | RadarMatchBucket;
 
 /**
  * Get display text for radar match bucket.
@@ -90,23 +60,33 @@ function getRadarMatchColors(bucket: RadarMatchFilter | null): string {
 
 export function FeedbackAdminClient({
   initialEntries,
+  quarantinedEntries,
   accessKeys,
   strainNames,
+  productNames,
+  axisDefinitions,
 }: FeedbackAdminClientProps) {
-  const [entries] = useState<FeedbackEntry[]>(initialEntries);
+  const [entries, setEntries] = useState<FeedbackEntry[]>(initialEntries);
   const [sortField, setSortField] = useState<SortField>("date");
   const [sortDirection, setSortDirection] = useState<SortDirection>("desc");
   const [filterAccessKey, setFilterAccessKey] = useState<string>("all");
   const [filterStrain, setFilterStrain] = useState<string>("all");
   const [filterRadarMatch, setFilterRadarMatch] = useState<RadarMatchFilter>("all");
-
-  // Pre-compute avgDelta for all entries
-  const entriesWithDelta = useMemo(() => {
-    return entries.map((entry) => ({
-      entry,
-      avgDelta: computeAvgDelta(entry.feltAxes, entry.expectedAxes),
-    }));
-  }, [entries]);
+  const [filterFrom, setFilterFrom] = useState("");
+  const [filterTo, setFilterTo] = useState("");
+  const [exportIncludeContact, setExportIncludeContact] = useState(false);
+
+  // Current filters in the shape the export endpoint understands
+  const filters = useMemo<FeedbackFilters>(
+    () => ({
+      accessKeyId: filterAccessKey === "all" ? undefined : filterAccessKey,
+      strainId: filterStrain === "all" ? undefined : filterStrain,
+      radarMatch: filterRadarMatch === "all" ? undefined : filterRadarMatch,
+      from: filterFrom || null,
+      to: filterTo || null,
+    }),
+    [filterAccessKey, filterStrain, filterRadarMatch, filterFrom, filterTo]
+  );
 
   // Get unique values for filters
   const uniqueAccessKeyIds = useMemo(() => {
@@ -127,29 +107,10 @@ export function FeedbackAdminClient({
 
   // Apply filters and sorting
   const filteredEntries = useMemo(() => {
-    let result = [...entriesWithDelta];
-
-    // Filter by access key
-    if (filterAccessKey !== "all") {
-      if (filterAccessKey === "anonymous") {
-        result = result.filter((e) => !e.entry.accessKeyId);
-      } else {
-        result = result.filter((e) => e.entry.accessKeyId === filterAccessKey);
-      }
-    }
-
-    // Filter by strain
-    if (filterStrain !== "all") {
-      result = result.filter((e) => e.entry.strainId === filterStrain);
-    }
-
-    // Filter by radar match
-    if (filterRadarMatch !== "all") {
-      result = result.filter((e) => {
-        const bucket = getRadarMatchBucket(e.avgDelta);
-        return bucket === filterRadarMatch;
-      });
-    }
+    const result = filterFeedbackEntries(entries, filters).map((entry) => ({
+      entry,
+      avgDelta: computeAvgDelta(entry.feltAxes, entry.expectedAxes),
+    }));
 
     // Sort
     result.sort((a, b) => {
@@ -170,7 +131,7 @@ export function FeedbackAdminClient({
     });
 
     return result;
-  }, [entriesWithDelta, filterAccessKey, filterStrain, filterRadarMatch, sortField, sortDirection]);
+  }, [entries, filters, sortField, sortDirection]);
 
   // Compute axis insights from filtered entries
   const axisInsights = useMemo(() => {
@@ -188,7 +149,7 @@ export function FeedbackAdminClient({
       delta: number;
     }> = [];
 
-    for (const axis of TRAIT_AXES) {
+    for (const { id: axis, label } of axisDefinitions) {
       let sumExpected = 0;
       let sumFelt = 0;
       let count = 0;
@@ -208,7 +169,7 @@ export function FeedbackAdminClient({
         const avgFelt = sumFelt / count;
         insights.push({
           axis,
-          label: AXIS_LABELS[axis],
+          label,
           avgExpected,
           avgFelt,
           delta: avgFelt - avgExpected,
@@ -220,7 +181,7 @@ export function FeedbackAdminClient({
       insights,
       entryCount: entriesWithBothAxes.length,
     };
-  }, [filteredEntries]);
+  }, [filteredEntries, axisDefinitions]);
 
   function getAccessKeyLabel(id?: string): string {
     if (!id) return "(anonymous)";
@@ -228,6 +189,12 @@ export function FeedbackAdminClient({
     return key ? key.label : id;
   }
 
+  function getProductLabel(entry: FeedbackEntry): string {
+    if (entry.productId) return productNames[entry.productId] || entry.productId;
+    if (entry.otherProductName) return `Other: ${entry.otherProductName}`;
+    return "-";
+  }
+
   function getStrainName(id?: string): string {
     if (!id) return "-";
     return strainNames[id] || formatStrainId(id);
@@ -240,6 +207,13 @@ export function FeedbackAdminClient({
       .join(" ");
   }
 
+  function exportHref(format: "csv" | "json"): string {
+    const params = feedbackFiltersToParams(filters);
+    params.set("format", format);
+    if (exportIncludeContact) params.set("includeContact", "1");
+    return `/api/admin/feedback/export?${params}`;
+  }
+
   function handleSortByDate() {
     if (sortField === "date") {
       setSortDirection((prev) => (prev === "desc" ? "asc" : "desc"));
@@ -275,19 +249,32 @@ export function FeedbackAdminClient({
     return `${sign}${delta.toFixed(1)}`;
   }
 
+  const quarantinePanel = (
+    <QuarantinePanel
+      initialEntries={quarantinedEntries}
+      getStrainName={getStrainName}
+      onRelease={(entry) => setEntries((prev) => [...prev, entry])}
+    />
+  );
+
   if (entries.length === 0) {
     return (
-      <div className="rounded-xl border border-slate-200 bg-white p-8 text-center">
-        <p className="text-slate-600">No feedback entries yet.</p>
-        <p className="mt-2 text-sm text-slate-500">
-          Submissions from the kiosk will appear here.
-        </p>
+      <div className="space-y-6">
+        {quarantinePanel}
+        <div className="rounded-xl border border-slate-200 bg-white p-8 text-center">
+          <p className="text-slate-600">No feedback entries yet.</p>
+          <p className="mt-2 text-sm text-slate-500">
+            Submissions from the kiosk will appear here.
+          </p>
+        </div>
       </div>
     );
   }
 
   return (
     <div className="space-y-6">
+      {quarantinePanel}
+
       {/* Axis Insights Panel */}
       <div className="rounded-xl border border-slate-200 bg-[#faf8f5] p-5 shadow-sm">
         <h2 className="text-base font-semibold text-slate-900 mb-1">
@@ -345,7 +332,7 @@ export function FeedbackAdminClient({
             className="rounded border border-slate-200 bg-white px-3 py-1.5 text-sm text-slate-700 focus:border-slate-400 focus:outline-none"
           >
             <option value="all">All</option>
-            <option value="anonymous">(anonymous)</option>
+            <option value={ANONYMOUS_ACCESS_KEY}>(anonymous)</option>
             {uniqueAccessKeyIds.map((id) => (
               <option key={id} value={id}>
                 {getAccessKeyLabel(id)}
@@ -390,11 +377,60 @@ export function FeedbackAdminClient({
           </select>
         </div>
 
+        <div className="flex items-center gap-2">
+          <label htmlFor="filter-from" className="text-sm text-slate-600">
+            From:
+          </label>
+          <input
+            id="filter-from"
+            type="date"
+            value={filterFrom}
+            onChange={(e) => setFilterFrom(e.target.value)}
+            className="rounded border border-slate-200 bg-white px-2 py-1 text-sm text-slate-700 focus:border-slate-400 focus:outline-none"
+          />
+          <label htmlFor="filter-to" className="text-sm text-slate-600">
+            To:
+          </label>
+          <input
+            id="filter-to"
+            type="date"
+            value={filterTo}
+            onChange={(e) => setFilterTo(e.target.value)}
+            className="rounded border border-slate-200 bg-white px-2 py-1 text-sm text-slate-700 focus:border-slate-400 focus:outline-none"
+          />
+        </div>
+
         <div className="ml-auto text-sm text-slate-500">
           {filteredEntries.length} of {entries.length} entries
         </div>
       </div>
 
+      {/* Export (honors the filters above) */}
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="text-sm text-slate-600">Export filtered entries:</span>
+        <a
+          href={exportHref("csv")}
+          className="rounded border border-slate-300 bg-white px-3 py-1.5 text-sm text-slate-700 hover:bg-slate-50"
+        >
+          CSV
+        </a>
+        <a
+          href={exportHref("json")}
+          className="rounded border border-slate-300 bg-white px-3 py-1.5 text-sm text-slate-700 hover:bg-slate-50"
+        >
+          JSON
+        </a>
+        <label className="flex items-center gap-1.5 text-sm text-slate-600">
+          <input
+            type="checkbox"
+            checked={exportIncludeContact}
+            onChange={(e) => setExportIncludeContact(e.target.checked)}
+            className="h-4 w-4 rounded border-slate-300"
+          />
+          Include contact details
+        </label>
+      </div>
+
       {/* Table */}
       <div className="rounded-xl border border-slate-200 bg-white shadow-sm overflow-hidden">
         <div className="overflow-x-auto">
@@ -413,6 +449,9 @@ export function FeedbackAdminClient({
                 <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wide text-slate-500">
                   Dose
                 </th>
+                <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wide text-slate-500">
+                  Product
+                </th>
                 <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wide text-slate-500">
                   Access Key
                 </th>
@@ -453,6 +492,9 @@ export function FeedbackAdminClient({
                     <td className="px-4 py-3 text-slate-700 capitalize">
                       {entry.doseKey || "-"}
                     </td>
+                    <td className="px-4 py-3 text-slate-700 max-w-[160px] truncate">
+                      {getProductLabel(entry)}
+                    </td>
                     <td className="px-4 py-3">
                       <span
                         className={`inline-flex items-center rounded-full px-2 py-0.5 text-xs font-medium ${
@@ -0,0 +1,126 @@
+"use client";
+
+import { useState } from "react";
+import type { FeedbackEntry, FeedbackQuarantineReason } from "@/lib/types";
+
+type QuarantinePanelProps = {
+  initialEntries: FeedbackEntry[];
+  getStrainName: (id?: string) => string;
+  // Called with the entry once it has joined the main feedback list
+  onRelease: (entry: FeedbackEntry) => void;
+};
+
+const REASON_LABELS: Record<FeedbackQuarantineReason, string> = {
+  honeypot: "Honeypot filled",
+  duplicate: "Duplicate",
+};
+
+/**
+ * Submissions held back by the spam checks. Releasing moves an entry into
+ * the main list; deleting discards it.
+ */
+export function QuarantinePanel({
+  initialEntries,
+  getStrainName,
+  onRelease,
+}: QuarantinePanelProps) {
+  const [entries, setEntries] = useState<FeedbackEntry[]>(initialEntries);
+  const [isOpen, setIsOpen] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  if (entries.length === 0) return null;
+
+  const handleAction = async (entry: FeedbackEntry, release: boolean) => {
+    if (!release && !confirm("Delete this submission permanently?")) return;
+
+    setBusyId(entry.id);
+    setError(null);
+    try {
+      const res = await fetch(
+        `/api/admin/feedback/quarantine/${encodeURIComponent(entry.id)}`,
+        { method: release ? "POST" : "DELETE" }
+      );
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(data.error || `Request failed: ${res.status}`);
+      }
+      setEntries((prev) => prev.filter((e) => e.id !== entry.id));
+      if (release) onRelease(data.entry as FeedbackEntry);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Request failed");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="rounded-xl border border-amber-200 bg-amber-50/60 p-4 shadow-sm">
+      <button
+        type="button"
+        onClick={() => setIsOpen((prev) => !prev)}
+        className="flex w-full items-center justify-between text-left"
+      >
+        <span className="text-sm font-semibold text-amber-800">
+          Quarantine ({entries.length})
+          <span className="ml-2 text-xs font-normal text-amber-700">
+            held back as likely spam, excluded from reports and exports
+          </span>
+        </span>
+        <span className="text-xs text-amber-700">{isOpen ? "Hide" : "Review"}</span>
+      </button>
+
+      {isOpen && (
+        <div className="mt-3 space-y-2">
+          {error && (
+            <p className="rounded border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">
+              {error}
+            </p>
+          )}
+          {entries.map((entry) => (
+            <div
+              key={entry.id}
+              className="flex flex-wrap items-start gap-3 rounded-lg border border-amber-100 bg-white p-3 text-sm"
+            >
+              <div className="min-w-0 flex-1">
+                <div className="flex flex-wrap items-center gap-2 text-xs text-slate-500">
+                  <span className="rounded-full bg-amber-100 px-2 py-0.5 font-medium text-amber-800">
+                    {entry.quarantineReason ? REASON_LABELS[entry.quarantineReason] : "Quarantined"}
+                  </span>
+                  <span>{new Date(entry.createdAt).toLocaleString()}</span>
+                  <span>·</span>
+                  <span>{getStrainName(entry.strainId)}</span>
+                  {entry.doseKey && <span className="capitalize">· {entry.doseKey}</span>}
+                </div>
+                <p className="mt-1 break-words text-slate-700">
+                  {entry.testimonial || <span className="italic text-slate-400">No testimonial</span>}
+                </p>
+                {entry.contact && (
+                  <p className="mt-1 text-xs text-slate-500">Contact: {entry.contact}</p>
+                )}
+              </div>
+              <div className="flex gap-2">
+                <button
+                  type="button"
+                  disabled={busyId === entry.id}
+                  onClick={() => handleAction(entry, true)}
+                  className="rounded border border-slate-300 bg-white px-3 py-1.5 text-sm text-slate-700 hover:bg-slate-50 disabled:opacity-50"
+                >
+                  Release
+                </button>
+                <button
+                  type="button"
+                  disabled={busyId === entry.id}
+                  onClick={() => handleAction(entry, false)}
+                  className="rounded border border-red-200 bg-white px-3 py-1.5 text-sm text-red-600 hover:bg-red-50 disabled:opacity-50"
+                >
+                  Delete
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,389 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { Bar, Line } from "react-chartjs-2";
+import {
+  Chart as ChartJS,
+  BarElement,
+  CategoryScale,
+  Legend,
+  LinearScale,
+  LineElement,
+  PointElement,
+  Tooltip,
+} from "chart.js";
+import type {
+  DoseKey,
+  FeedbackAnalytics,
+  FeedbackRatingGroup,
+  TraitAxisDefinition,
+} from "@/lib/types";
+import { axisLabelFor } from "@/lib/traitAxes";
+
+ChartJS.register(
+  CategoryScale,
+  LinearScale,
+  BarElement,
+  PointElement,
+  LineElement,
+  Tooltip,
+  Legend
+);
+
+type FeedbackAnalyticsClientProps = {
+  initialAnalytics: FeedbackAnalytics;
+  strainNames: Record<string, string>;
+  doseOrder: DoseKey[];
+  doseLabels: Record<string, string>;
+  accessKeyLabels: Record<string, string>;
+  ctaLabels: Record<string, string>;
+  axisDefinitions: TraitAxisDefinition[];
+};
+
+const RANGE_PRESETS = [
+  { label: "7 days", days: 7 },
+  { label: "30 days", days: 30 },
+  { label: "90 days", days: 90 },
+  { label: "All time", days: null },
+] as const;
+
+const OVERALL_COLOR = "#b45309";
+const INTENSITY_COLOR = "#7c3aed";
+
+function isoDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function formatValue(value: number | null, digits = 1): string {
+  return value === null ? "—" : value.toFixed(digits);
+}
+
+function formatBias(bias: number): string {
+  return `${bias > 0 ? "+" : ""}${bias.toFixed(1)}`;
+}
+
+function getBiasColor(bias: number): string {
+  if (Math.abs(bias) < 0.5) return "text-slate-600";
+  return bias > 0 ? "text-emerald-600" : "text-amber-600";
+}
+
+export function FeedbackAnalyticsClient({
+  initialAnalytics,
+  strainNames,
+  doseOrder,
+  doseLabels,
+  accessKeyLabels,
+  ctaLabels,
+  axisDefinitions,
+}: FeedbackAnalyticsClientProps) {
+  const [analytics, setAnalytics] = useState<FeedbackAnalytics>(initialAnalytics);
+  const [from, setFrom] = useState(initialAnalytics.range.from ?? "");
+  const [to, setTo] = useState(initialAnalytics.range.to ?? "");
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const strainName = (id: string) => (id ? strainNames[id] ?? id : "(none)");
+  const doseLabel = (key: string) => (key ? doseLabels[key] ?? key : "(none)");
+  const accessKeyLabel = (id: string) => (id ? accessKeyLabels[id] ?? id : "(anonymous)");
+  const ctaLabel = (key: string) => (key ? ctaLabels[key] ?? key : "(none)");
+
+  async function loadRange(nextFrom: string, nextTo: string) {
+    setFrom(nextFrom);
+    setTo(nextTo);
+    setIsLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams();
+      if (nextFrom) params.set("from", nextFrom);
+      if (nextTo) params.set("to", nextTo);
+      const res = await fetch(`/api/admin/feedback/analytics?${params}`);
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to load analytics");
+      }
+      setAnalytics(data as FeedbackAnalytics);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load analytics");
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  function handlePreset(days: number | null) {
+    if (days === null) {
+      loadRange("", "");
+      return;
+    }
+    const start = new Date();
+    start.setUTCDate(start.getUTCDate() - (days - 1));
+    loadRange(isoDay(start), isoDay(new Date()));
+  }
+
+  // Doses in slider order rather than by volume
+  const byDose = useMemo(
+    () =>
+      [...analytics.byDose].sort((a, b) => {
+        const ai = doseOrder.indexOf(a.key);
+        const bi = doseOrder.indexOf(b.key);
+        return (ai === -1 ? Infinity : ai) - (bi === -1 ? Infinity : bi);
+      }),
+    [analytics.byDose, doseOrder]
+  );
+
+  const overTimeData = useMemo(
+    () => ({
+      labels: analytics.overTime.map((b) => b.date),
+      datasets: [
+        {
+          label: "Submissions",
+          data: analytics.overTime.map((b) => b.count),
+          borderColor: "#0f172a",
+          backgroundColor: "rgba(15, 23, 42, 0.15)",
+          pointRadius: 2,
+          tension: 0.25,
+        },
+      ],
+    }),
+    [analytics.overTime]
+  );
+
+  const ratingData = (groups: FeedbackRatingGroup[], label: (key: string) => string) => ({
+    labels: groups.map((g) => label(g.key)),
+    datasets: [
+      {
+        label: "Overall",
+        data: groups.map((g) => g.avgOverallExperience),
+        backgroundColor: OVERALL_COLOR,
+      },
+      {
+        label: "Intensity",
+        data: groups.map((g) => g.avgIntensity),
+        backgroundColor: INTENSITY_COLOR,
+      },
+    ],
+  });
+
+  const axisBiasData = useMemo(
+    () => ({
+      labels: analytics.axisBias.map((b) => axisLabelFor(axisDefinitions, b.axis)),
+      datasets: [
+        {
+          label: "Felt − expected",
+          data: analytics.axisBias.map((b) => b.bias),
+          backgroundColor: analytics.axisBias.map((b) =>
+            b.bias >= 0 ? "rgba(5, 150, 105, 0.7)" : "rgba(217, 119, 6, 0.7)"
+          ),
+        },
+      ],
+    }),
+    [analytics.axisBias, axisDefinitions]
+  );
+
+  const ratingOptions = {
+    responsive: true,
+    maintainAspectRatio: false,
+    scales: { y: { min: 0, max: 5 } },
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Range controls */}
+      <div className="flex flex-wrap items-center gap-3 rounded-xl border border-slate-200 bg-white p-4 shadow-sm">
+        <div className="flex items-center gap-1">
+          {RANGE_PRESETS.map(({ label, days }) => (
+            <button
+              key={label}
+              type="button"
+              onClick={() => handlePreset(days)}
+              disabled={isLoading}
+              className="rounded-full border border-slate-200 px-3 py-1 text-xs text-slate-700 hover:bg-slate-50 disabled:opacity-50"
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        <label className="flex items-center gap-2 text-sm text-slate-600">
+          From
+          <input
+            type="date"
+            value={from}
+            onChange={(e) => loadRange(e.target.value, to)}
+            className="rounded border border-slate-200 px-2 py-1 text-sm"
+          />
+        </label>
+        <label className="flex items-center gap-2 text-sm text-slate-600">
+          To
+          <input
+            type="date"
+            value={to}
+            onChange={(e) => loadRange(from, e.target.value)}
+            className="rounded border border-slate-200 px-2 py-1 text-sm"
+          />
+        </label>
+        <span className="ml-auto text-sm text-slate-600">
+          {isLoading ? "Loading…" : `${analytics.total} submission${analytics.total === 1 ? "" : "s"}`}
+        </span>
+      </div>
+
+      {error && (
+        <div className="rounded-md bg-red-50 px-4 py-3 text-sm text-red-700">{error}</div>
+      )}
+
+      {analytics.total === 0 ? (
+        <div className="rounded-xl border border-slate-200 bg-white p-8 text-center text-sm text-slate-600">
+          No feedback in this date range.
+        </div>
+      ) : (
+        <>
+          {/* Submissions over time */}
+          <section className="rounded-xl border border-slate-200 bg-white p-5 shadow-sm">
+            <h2 className="mb-3 text-base font-semibold text-slate-900">Submissions over time</h2>
+            <div className="h-56">
+              <Line
+                data={overTimeData}
+                options={{
+                  responsive: true,
+                  maintainAspectRatio: false,
+                  plugins: { legend: { display: false } },
+                  scales: { y: { beginAtZero: true, ticks: { precision: 0 } } },
+                }}
+              />
+            </div>
+          </section>
+
+          {/* Ratings per strain and per dose */}
+          <div className="grid gap-6 md:grid-cols-2">
+            <section className="rounded-xl border border-slate-200 bg-white p-5 shadow-sm">
+              <h2 className="mb-3 text-base font-semibold text-slate-900">
+                Average ratings by strain
+              </h2>
+              <div className="h-64">
+                <Bar data={ratingData(analytics.byStrain, strainName)} options={ratingOptions} />
+              </div>
+            </section>
+            <section className="rounded-xl border border-slate-200 bg-white p-5 shadow-sm">
+              <h2 className="mb-3 text-base font-semibold text-slate-900">
+                Average ratings by dose
+              </h2>
+              <div className="h-64">
+                <Bar data={ratingData(byDose, doseLabel)} options={ratingOptions} />
+              </div>
+            </section>
+          </div>
+
+          {/* Axis bias */}
+          <section className="rounded-xl border border-slate-200 bg-[#faf8f5] p-5 shadow-sm">
+            <h2 className="mb-1 text-base font-semibold text-slate-900">
+              Radar bias
+              <span className="ml-2 text-xs font-normal text-slate-500">
+                (felt − expected, 0–10 scale; negative = over-predicted)
+              </span>
+            </h2>
+            {analytics.axisBias.length > 0 ? (
+              <div className="grid gap-6 md:grid-cols-2">
+                <div className="h-64">
+                  <Bar
+                    data={axisBiasData}
+                    options={{
+                      responsive: true,
+                      maintainAspectRatio: false,
+                      indexAxis: "y",
+                      plugins: { legend: { display: false } },
+                    }}
+                  />
+                </div>
+                <div>
+                  <h3 className="mb-2 text-xs font-semibold uppercase tracking-wide text-slate-500">
+                    Biggest mismatches by strain and dose
+                  </h3>
+                  {analytics.strainDoseBias.length > 0 ? (
+                    <ul className="space-y-1.5 text-sm">
+                      {analytics.strainDoseBias.map((b) => (
+                        <li
+                          key={`${b.strainId}-${b.doseKey}-${b.axis}`}
+                          className="flex items-baseline justify-between gap-3 rounded bg-white px-3 py-1.5 border border-slate-200"
+                        >
+                          <span className="text-slate-700">
+                            {axisLabelFor(axisDefinitions, b.axis)}{" "}
+                            {b.bias < 0 ? "over-predicted" : "under-predicted"} for{" "}
+                            <span className="font-medium">{strainName(b.strainId)}</span> at{" "}
+                            {doseLabel(b.doseKey)}
+                          </span>
+                          <span className={`whitespace-nowrap font-semibold ${getBiasColor(b.bias)}`}>
+                            {formatBias(b.bias)}
+                            <span className="ml-1 text-xs font-normal text-slate-400">
+                              n={b.count}
+                            </span>
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  ) : (
+                    <p className="text-sm italic text-slate-500">
+                      Not enough radar ratings per strain and dose yet.
+                    </p>
+                  )}
+                </div>
+              </div>
+            ) : (
+              <p className="text-sm italic text-slate-500">
+                No axis-level data in this date range.
+              </p>
+            )}
+          </section>
+
+          {/* Channel breakdowns */}
+          <div className="grid gap-6 md:grid-cols-2">
+            <GroupTable
+              title="By access key"
+              groups={analytics.byAccessKey}
+              label={accessKeyLabel}
+            />
+            <GroupTable title="By CTA variant" groups={analytics.byCta} label={ctaLabel} />
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+function GroupTable({
+  title,
+  groups,
+  label,
+}: {
+  title: string;
+  groups: FeedbackRatingGroup[];
+  label: (key: string) => string;
+}) {
+  return (
+    <section className="rounded-xl border border-slate-200 bg-white shadow-sm overflow-hidden">
+      <h2 className="px-5 pt-4 pb-2 text-base font-semibold text-slate-900">{title}</h2>
+      <table className="min-w-full divide-y divide-slate-200 text-sm">
+        <thead className="bg-slate-50">
+          <tr>
+            {["", "Count", "Overall", "Intensity", "Radar Δ"].map((heading) => (
+              <th
+                key={heading}
+                className="px-4 py-2 text-left text-xs font-medium uppercase tracking-wide text-slate-500"
+              >
+                {heading}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-slate-100">
+          {groups.map((group) => (
+            <tr key={group.key || "(none)"}>
+              <td className="px-4 py-2 font-medium text-slate-900">{label(group.key)}</td>
+              <td className="px-4 py-2 text-slate-700">{group.count}</td>
+              <td className="px-4 py-2 text-slate-700">{formatValue(group.avgOverallExperience)}</td>
+              <td className="px-4 py-2 text-slate-700">{formatValue(group.avgIntensity)}</td>
+              <td className="px-4 py-2 text-slate-700">{formatValue(group.avgDelta)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </section>
+  );
+}
@@ -0,0 +1,68 @@
+import Link from "next/link";
+import { AdminHeader } from "../../AdminHeader";
+import { FeedbackAnalyticsClient } from "./FeedbackAnalyticsClient";
+import {
+  getDoseConfig,
+  getStrainRegistry,
+  getTraitAxes,
+  getTraitAxisDefinitions,
+} from "@/data/strainData";
+import { accessKeysRepository, feedbackRepository } from "@/lib/storage";
+import { buildFeedbackAnalytics } from "@/lib/feedbackAnalytics";
+import { CTA_VARIANTS } from "@/lib/feedbackCtas";
+
+// Render per request so new feedback shows up immediately
+export const dynamic = "force-dynamic";
+
+export default async function FeedbackAnalyticsPage() {
+  const [feedbackData, accessKeysData, registry, doseConfig, axes, axisDefinitions] =
+    await Promise.all([
+      feedbackRepository.read(),
+      accessKeysRepository.read(),
+      getStrainRegistry(),
+      getDoseConfig(),
+      getTraitAxes(),
+      getTraitAxisDefinitions(),
+    ]);
+
+  const strainNames = Object.fromEntries(registry.map((s) => [s.id, s.name]));
+  const doseLabels = Object.fromEntries(
+    doseConfig.order.map((key) => [key, doseConfig.config[key]?.label ?? key])
+  );
+  const accessKeyLabels = Object.fromEntries(
+    accessKeysData.keys.map((k) => [k.id, k.label])
+  );
+  const ctaLabels = Object.fromEntries(CTA_VARIANTS.map((v) => [v.key, v.label]));
+
+  return (
+    <main className="min-h-screen bg-[var(--shell-bg)] text-[var(--ink-main)]">
+      <div className="mx-auto max-w-7xl px-3 sm:px-6 py-4">
+        <AdminHeader />
+        <div className="mb-4 flex items-center justify-between">
+          <p className="text-sm text-[var(--ink-soft)]">
+            Trends across feedback submissions: ratings, radar accuracy and channels.
+          </p>
+          <Link
+            href="/admin/feedback"
+            className="text-xs text-[var(--ink-soft)] hover:text-[var(--accent)]"
+          >
+            ← All submissions
+          </Link>
+        </div>
+        <FeedbackAnalyticsClient
+          initialAnalytics={buildFeedbackAnalytics(
+            feedbackData.entries,
+            { from: null, to: null },
+            axes
+          )}
+          strainNames={strainNames}
+          doseOrder={doseConfig.order}
+          doseLabels={doseLabels}
+          accessKeyLabels={accessKeyLabels}
+          ctaLabels={ctaLabels}
+          axisDefinitions={axisDefinitions}
+        />
+      </div>
+    </main>
+  );
+}
@@ -1,79 +1,73 @@
+import Link from "next/link";
 import { AdminHeader } from "../AdminHeader";
 import { FeedbackAdminClient } from "./FeedbackAdminClient";
-import { promises as fs } from "fs";
-import path from "path";
-import type { FeedbackDataset, AccessKeyDataset } from "@/lib/types";
-
-async function loadFeedback(): Promise<FeedbackDataset> {
-  const filePath = path.join(process.cwd(), "data", "feedback.json");
-  try {
-    const raw = await fs.readFile(filePath, "utf8");
-    const data = JSON.parse(raw) as FeedbackDataset;
-    if (!data || !Array.isArray(data.entries)) {
-      return { entries: [] };
-    }
-    return data;
-  } catch {
-    return { entries: [] };
-  }
-}
-
-async function loadAccessKeys(): Promise<AccessKeyDataset> {
-  const filePath = path.join(process.cwd(), "data", "accessKeys.json");
-  try {
-    const raw = await fs.readFile(filePath, "utf8");
-    const data = JSON.parse(raw) as AccessKeyDataset;
-    if (!data || !Array.isArray(data.keys)) {
-      return { keys: [] };
-    }
-    return data;
-  } catch {
-    return { keys: [] };
-  }
-}
+import type { StrainJsonEntry } from "@/lib/types";
+import { slugifyStrainName } from "@/lib/utils";
+import { getTraitAxisDefinitions } from "@/data/strainData";
+import {
+  accessKeysRepository,
+  feedbackRepository,
+  productsRepository,
+  strainsRepository,
+} from "@/lib/storage";
 
 async function loadStrainNames(): Promise<Record<string, string>> {
-  const filePath = path.join(process.cwd(), "data", "strains.json");
-  try {
-    const raw = await fs.readFile(filePath, "utf8");
-    const data = JSON.parse(raw);
-    const names: Record<string, string> = {};
-    if (data && data.strains && typeof data.strains === "object") {
-      for (const [id] of Object.entries(data.strains)) {
-        names[id] = formatStrainId(id);
-      }
+  const data = await strainsRepository.read();
+  const names: Record<string, string> = {};
+  if (data) {
+    // Map registry slugs (what feedback stores) to display names
+    for (const [name, entry] of Object.entries(
+      data.strains as Record<string, StrainJsonEntry>
+    )) {
+      names[entry.slug?.trim() || slugifyStrainName(name)] = name;
     }
-    return names;
-  } catch {
-    return {};
   }
-}
-
-function formatStrainId(id: string): string {
-  return id
-    .split("-")
-    .map((w) => w.charAt(0).toUpperCase() + w.slice(1))
-    .join(" ");
+  return names;
 }
 
 export default async function FeedbackAdminPage() {
-  const [feedbackData, accessKeysData, strainNames] = await Promise.all([
-    loadFeedback(),
-    loadAccessKeys(),
-    loadStrainNames(),
-  ]);
+  const [feedbackData, accessKeysData, strainNames, axisDefinitions, productsData] =
+    await Promise.all([
+      feedbackRepository.read(),
+      accessKeysRepository.read(),
+      loadStrainNames(),
+      getTraitAxisDefinitions(),
+      productsRepository.read(),
+    ]);
+  const productNames = Object.fromEntries(
+    productsData.products.map((p) => [p.id, p.name])
+  );
 
   return (
     <main className="min-h-screen bg-[var(--shell-bg)] text-[var(--ink-main)]">
       <div className="mx-auto max-w-7xl px-3 sm:px-6 py-4">
         <AdminHeader />
-        <p className="text-sm text-[var(--ink-soft)] mb-4">
-          View and analyze feedback submissions from the kiosk.
-        </p>
+        <div className="mb-4 flex items-center justify-between">
+          <p className="text-sm text-[var(--ink-soft)]">
+            View and analyze feedback submissions from the kiosk.
+          </p>
+          <div className="flex items-center gap-4">
+            <Link
+              href="/admin/feedback/testimonials"
+              className="text-xs text-[var(--ink-soft)] hover:text-[var(--accent)]"
+            >
+              Testimonials →
+            </Link>
+            <Link
+              href="/admin/feedback/analytics"
+              className="text-xs text-[var(--ink-soft)] hover:text-[var(--accent)]"
+            >
+              Analytics →
+            </Link>
+          </div>
+        </div>
         <FeedbackAdminClient
           initialEntries={feedbackData.entries}
+          quarantinedEntries={feedbackData.quarantine ?? []}
           accessKeys={accessKeysData.keys}
           strainNames={strainNames}
+          productNames={productNames}
+          axisDefinitions={axisDefinitions}
         />
       </div>
     </main>
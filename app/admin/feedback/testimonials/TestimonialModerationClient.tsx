@@ -0,0 +1,265 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import type { FeedbackEntry, TestimonialStatus } from "@/lib/types";
+import {
+  MAX_TESTIMONIAL_LENGTH,
+  TESTIMONIAL_STATUSES,
+  getTestimonialStatus,
+  getTestimonialText,
+} from "@/lib/testimonials";
+
+type TestimonialModerationClientProps = {
+  // Feedback entries that carry a testimonial
+  initialEntries: FeedbackEntry[];
+  strainNames: Record<string, string>;
+  doseLabels: Record<string, string>;
+};
+
+const STATUS_LABELS: Record<TestimonialStatus, string> = {
+  pending: "Pending",
+  approved: "Approved",
+  rejected: "Rejected",
+};
+
+const STATUS_COLORS: Record<TestimonialStatus, string> = {
+  pending: "bg-amber-50 text-amber-700",
+  approved: "bg-emerald-50 text-emerald-700",
+  rejected: "bg-red-50 text-red-700",
+};
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleDateString(undefined, {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  });
+}
+
+export function TestimonialModerationClient({
+  initialEntries,
+  strainNames,
+  doseLabels,
+}: TestimonialModerationClientProps) {
+  const [entries, setEntries] = useState<FeedbackEntry[]>(initialEntries);
+  const [statusFilter, setStatusFilter] = useState<TestimonialStatus>("pending");
+  // Unsaved text edits by entry id
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const counts = useMemo(() => {
+    const result: Record<TestimonialStatus, number> = { pending: 0, approved: 0, rejected: 0 };
+    entries.forEach((entry) => {
+      result[getTestimonialStatus(entry)] += 1;
+    });
+    return result;
+  }, [entries]);
+
+  const visibleEntries = useMemo(
+    () =>
+      entries
+        .filter((entry) => getTestimonialStatus(entry) === statusFilter)
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt)),
+    [entries, statusFilter]
+  );
+
+  const request = async (id: string, init: RequestInit, fallback: string) => {
+    setBusyId(id);
+    setError(null);
+    try {
+      const res = await fetch(`/api/admin/feedback/${encodeURIComponent(id)}/testimonial`, {
+        ...init,
+        headers: { "Content-Type": "application/json" },
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(data.error || `${fallback}: ${res.status}`);
+      }
+      const updated = data.entry as FeedbackEntry;
+      setEntries((prev) => prev.map((e) => (e.id === id ? updated : e)));
+      setDrafts((prev) => {
+        const next = { ...prev };
+        delete next[id];
+        return next;
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : fallback);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  // Status changes also save any pending text edit
+  const handleModerate = (entry: FeedbackEntry, status?: TestimonialStatus) => {
+    const draft = drafts[entry.id];
+    void request(
+      entry.id,
+      {
+        method: "PATCH",
+        body: JSON.stringify({
+          ...(status && { status }),
+          ...(draft !== undefined && { text: draft }),
+        }),
+      },
+      "Failed to update testimonial"
+    );
+  };
+
+  const handlePublish = (entry: FeedbackEntry) => {
+    void request(entry.id, { method: "POST" }, "Failed to publish testimonial");
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        {TESTIMONIAL_STATUSES.map((status) => (
+          <button
+            key={status}
+            type="button"
+            onClick={() => setStatusFilter(status)}
+            className={`rounded-full border px-3 py-1 text-sm transition ${
+              statusFilter === status
+                ? "border-slate-700 bg-slate-800 text-white"
+                : "border-slate-200 bg-white text-slate-600 hover:bg-slate-50"
+            }`}
+          >
+            {STATUS_LABELS[status]} ({counts[status]})
+          </button>
+        ))}
+      </div>
+
+      {error && (
+        <div className="rounded-lg border border-red-200 bg-red-50 px-4 py-2 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      {visibleEntries.length === 0 ? (
+        <div className="rounded-xl border border-slate-200 bg-white p-8 text-center">
+          <p className="text-slate-600">
+            No {STATUS_LABELS[statusFilter].toLowerCase()} testimonials.
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {visibleEntries.map((entry) => {
+            const status = getTestimonialStatus(entry);
+            const draft = drafts[entry.id];
+            const text = draft ?? getTestimonialText(entry);
+            const isBusy = busyId === entry.id;
+            const isDirty = draft !== undefined && draft.trim() !== getTestimonialText(entry);
+            const canPublish = Boolean(entry.strainId && entry.doseKey);
+
+            return (
+              <div
+                key={entry.id}
+                className="rounded-xl border border-slate-200 bg-white p-4 shadow-sm"
+              >
+                <div className="mb-2 flex flex-wrap items-center gap-2 text-xs text-slate-500">
+                  <span className="font-medium text-slate-800">
+                    {entry.strainId ? strainNames[entry.strainId] || entry.strainId : "No strain"}
+                  </span>
+                  <span>·</span>
+                  <span>{entry.doseKey ? doseLabels[entry.doseKey] || entry.doseKey : "No dose"}</span>
+                  <span>·</span>
+                  <span>{formatDate(entry.createdAt)}</span>
+                  {entry.overallExperience != null && (
+                    <>
+                      <span>·</span>
+                      <span>Overall {entry.overallExperience}/5</span>
+                    </>
+                  )}
+                  <span className={`ml-auto rounded-full px-2 py-0.5 font-medium ${STATUS_COLORS[status]}`}>
+                    {STATUS_LABELS[status]}
+                  </span>
+                  {entry.testimonialPublishedAt && (
+                    <span className="rounded-full bg-sky-50 px-2 py-0.5 font-medium text-sky-700">
+                      Published {formatDate(entry.testimonialPublishedAt)}
+                    </span>
+                  )}
+                </div>
+
+                <textarea
+                  value={text}
+                  maxLength={MAX_TESTIMONIAL_LENGTH}
+                  rows={3}
+                  disabled={isBusy}
+                  onChange={(e) =>
+                    setDrafts((prev) => ({ ...prev, [entry.id]: e.target.value }))
+                  }
+                  className="w-full rounded border border-slate-200 bg-white px-3 py-2 text-sm text-slate-800 focus:border-slate-400 focus:outline-none"
+                />
+                {entry.testimonialEdited && (
+                  <p className="mt-1 text-xs text-slate-500">
+                    <span className="font-medium">Original:</span> {entry.testimonial}
+                  </p>
+                )}
+
+                <div className="mt-3 flex flex-wrap items-center gap-2">
+                  {isDirty && (
+                    <button
+                      type="button"
+                      disabled={isBusy}
+                      onClick={() => handleModerate(entry)}
+                      className="rounded border border-slate-300 bg-white px-3 py-1.5 text-sm text-slate-700 hover:bg-slate-50 disabled:opacity-50"
+                    >
+                      Save edit
+                    </button>
+                  )}
+                  {status !== "approved" && (
+                    <button
+                      type="button"
+                      disabled={isBusy}
+                      onClick={() => handleModerate(entry, "approved")}
+                      className="rounded border border-emerald-300 bg-emerald-50 px-3 py-1.5 text-sm text-emerald-700 hover:bg-emerald-100 disabled:opacity-50"
+                    >
+                      Approve
+                    </button>
+                  )}
+                  {status !== "rejected" && (
+                    <button
+                      type="button"
+                      disabled={isBusy}
+                      onClick={() => handleModerate(entry, "rejected")}
+                      className="rounded border border-red-200 bg-white px-3 py-1.5 text-sm text-red-600 hover:bg-red-50 disabled:opacity-50"
+                    >
+                      Reject
+                    </button>
+                  )}
+                  {status !== "pending" && (
+                    <button
+                      type="button"
+                      disabled={isBusy}
+                      onClick={() => handleModerate(entry, "pending")}
+                      className="rounded border border-slate-300 bg-white px-3 py-1.5 text-sm text-slate-700 hover:bg-slate-50 disabled:opacity-50"
+                    >
+                      Back to pending
+                    </button>
+                  )}
+                  {status === "approved" && !entry.testimonialPublishedAt && (
+                    <button
+                      type="button"
+                      disabled={isBusy || isDirty || !canPublish}
+                      onClick={() => handlePublish(entry)}
+                      title={
+                        !canPublish
+                          ? "This entry has no strain and dose"
+                          : isDirty
+                            ? "Save the edit first"
+                            : undefined
+                      }
+                      className="rounded bg-slate-800 px-3 py-1.5 text-sm text-white hover:bg-slate-700 disabled:opacity-50"
+                    >
+                      Publish to strain
+                    </button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
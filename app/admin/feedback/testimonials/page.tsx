@@ -0,0 +1,46 @@
+import Link from "next/link";
+import { AdminHeader } from "../../AdminHeader";
+import { TestimonialModerationClient } from "./TestimonialModerationClient";
+import { getDoseConfig, getStrainRegistry } from "@/data/strainData";
+import { feedbackRepository } from "@/lib/storage";
+import { hasTestimonial } from "@/lib/testimonials";
+
+// Render per request so new submissions show up immediately
+export const dynamic = "force-dynamic";
+
+export default async function TestimonialModerationPage() {
+  const [feedbackData, registry, doseConfig] = await Promise.all([
+    feedbackRepository.read(),
+    getStrainRegistry(),
+    getDoseConfig(),
+  ]);
+
+  const strainNames = Object.fromEntries(registry.map((s) => [s.id, s.name]));
+  const doseLabels = Object.fromEntries(
+    doseConfig.order.map((key) => [key, doseConfig.config[key]?.label ?? key])
+  );
+
+  return (
+    <main className="min-h-screen bg-[var(--shell-bg)] text-[var(--ink-main)]">
+      <div className="mx-auto max-w-7xl px-3 sm:px-6 py-4">
+        <AdminHeader />
+        <div className="mb-4 flex items-center justify-between">
+          <p className="text-sm text-[var(--ink-soft)]">
+            Review customer testimonials and publish approved quotes to the kiosk.
+          </p>
+          <Link
+            href="/admin/feedback"
+            className="text-xs text-[var(--ink-soft)] hover:text-[var(--accent)]"
+          >
+            ← All submissions
+          </Link>
+        </div>
+        <TestimonialModerationClient
+          initialEntries={feedbackData.entries.filter(hasTestimonial)}
+          strainNames={strainNames}
+          doseLabels={doseLabels}
+        />
+      </div>
+    </main>
+  );
+}
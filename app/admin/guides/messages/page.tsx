@@ -1,33 +1,11 @@
-import { promises as fs } from "fs";
-import path from "path";
 import { AdminHeader } from "@/app/admin/AdminHeader";
 import { AdminGuideMessagesClient } from "./AdminGuideMessagesClient";
-import type { GuideAccountDataset, GuideMessageDataset } from "@/lib/types";
-
-async function loadGuides(): Promise<GuideAccountDataset> {
-  try {
-    const filePath = path.join(process.cwd(), "data", "guides.json");
-    const raw = await fs.readFile(filePath, "utf8");
-    return JSON.parse(raw) as GuideAccountDataset;
-  } catch {
-    return { guides: [] };
-  }
-}
-
-async function loadMessages(): Promise<GuideMessageDataset> {
-  try {
-    const filePath = path.join(process.cwd(), "data", "guideMessages.json");
-    const raw = await fs.readFile(filePath, "utf8");
-    return JSON.parse(raw) as GuideMessageDataset;
-  } catch {
-    return { messages: [] };
-  }
-}
+import { guideMessagesRepository, guidesRepository } from "@/lib/storage";
 
 export default async function AdminGuideMessagesPage() {
   const [guidesData, messagesData] = await Promise.all([
-    loadGuides(),
-    loadMessages(),
+    guidesRepository.read(),
+    guideMessagesRepository.read(),
   ]);
 
   return (
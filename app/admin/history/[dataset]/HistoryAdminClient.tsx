@@ -0,0 +1,333 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import type {
+  DatasetRevision,
+  DatasetRevisionSummary,
+  RevisionDatasetId,
+} from "@/lib/types";
+import { diffJson } from "@/lib/jsonDiff";
+
+type HistoryAdminClientProps = {
+  dataset: RevisionDatasetId;
+  datasets: { id: string; label: string }[];
+  initialRevisions: DatasetRevisionSummary[];
+};
+
+const MAX_DIFF_ROWS = 200;
+
+function formatDate(iso: string) {
+  return new Date(iso).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+    second: "2-digit",
+  });
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined) return "—";
+  if (typeof value === "string") return value;
+  return JSON.stringify(value);
+}
+
+export function HistoryAdminClient({
+  dataset,
+  datasets,
+  initialRevisions,
+}: HistoryAdminClientProps) {
+  const [revisions, setRevisions] = useState(initialRevisions);
+  // Left = older side of the comparison, right = newer side
+  const [leftId, setLeftId] = useState<string | null>(
+    initialRevisions[1]?.id ?? null
+  );
+  const [rightId, setRightId] = useState<string | null>(
+    initialRevisions[0]?.id ?? null
+  );
+  const [loaded, setLoaded] = useState<Record<string, DatasetRevision>>({});
+  const [loadError, setLoadError] = useState("");
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+  const [status, setStatus] = useState<{ type: "success" | "error"; text: string } | null>(null);
+  const [showRawJson, setShowRawJson] = useState(false);
+
+  useEffect(() => {
+    const missing = [leftId, rightId].filter(
+      (id): id is string => id !== null && !loaded[id]
+    );
+    if (missing.length === 0) return;
+
+    let cancelled = false;
+    Promise.all(
+      missing.map(async (id) => {
+        const res = await fetch(`/api/admin/revisions/${dataset}/${id}`);
+        if (!res.ok) throw new Error(`Failed to load ${id}`);
+        return (await res.json()) as DatasetRevision;
+      })
+    )
+      .then((results) => {
+        if (cancelled) return;
+        setLoadError("");
+        setLoaded((prev) => {
+          const next = { ...prev };
+          for (const revision of results) next[revision.id] = revision;
+          return next;
+        });
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setLoadError(err instanceof Error ? err.message : "Failed to load revisions");
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [dataset, leftId, rightId, loaded]);
+
+  const left = leftId ? loaded[leftId] : undefined;
+  const right = rightId ? loaded[rightId] : undefined;
+
+  const changes = useMemo(
+    () => (left && right ? diffJson(left.content, right.content) : []),
+    [left, right]
+  );
+
+  async function refreshRevisions() {
+    const res = await fetch(`/api/admin/revisions/${dataset}`);
+    if (!res.ok) return;
+    const data = (await res.json()) as { revisions: DatasetRevisionSummary[] };
+    setRevisions(data.revisions);
+    return data.revisions;
+  }
+
+  async function handleRestore(revision: DatasetRevisionSummary) {
+    const confirmed = window.confirm(
+      `Restore ${revision.id} from ${formatDate(revision.createdAt)}? The current version stays in history.`
+    );
+    if (!confirmed) return;
+
+    setRestoringId(revision.id);
+    setStatus(null);
+    try {
+      const res = await fetch(`/api/admin/revisions/${dataset}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ revisionId: revision.id }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(data.error ?? `Restore failed (${res.status})`);
+      }
+      const updated = await refreshRevisions();
+      if (updated?.[0]) {
+        setLeftId(updated[1]?.id ?? null);
+        setRightId(updated[0].id);
+      }
+      setStatus({ type: "success", text: `Restored ${revision.id}.` });
+    } catch (err) {
+      setStatus({
+        type: "error",
+        text: err instanceof Error ? err.message : "Restore failed",
+      });
+    } finally {
+      setRestoringId(null);
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Dataset tabs */}
+      <div className="flex flex-wrap items-center gap-2">
+        {datasets.map((d) => (
+          <Link
+            key={d.id}
+            href={`/admin/history/${d.id}`}
+            className={`rounded-full px-3 py-1.5 text-xs font-medium transition ${
+              d.id === dataset
+                ? "bg-slate-900 text-white"
+                : "bg-white border border-slate-200 text-slate-600 hover:bg-slate-50"
+            }`}
+          >
+            {d.label}
+          </Link>
+        ))}
+      </div>
+
+      {status && (
+        <div
+          className={`rounded-lg px-4 py-2 text-sm ${
+            status.type === "success"
+              ? "bg-emerald-50 text-emerald-700"
+              : "bg-rose-50 text-rose-700"
+          }`}
+        >
+          {status.text}
+        </div>
+      )}
+
+      {/* Revision list */}
+      <section className="rounded-2xl bg-white shadow-sm border border-slate-200 overflow-hidden">
+        <div className="px-6 py-4 border-b border-slate-200 flex items-center justify-between">
+          <h2 className="text-base font-semibold text-slate-900">Revisions</h2>
+          <span className="text-xs text-slate-500">
+            {revisions.length} revision{revisions.length === 1 ? "" : "s"}
+          </span>
+        </div>
+        {revisions.length === 0 ? (
+          <div className="px-6 py-8 text-center text-sm text-slate-500">
+            No revisions yet. One is recorded on the next save.
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-slate-50 text-left text-xs uppercase tracking-wide text-slate-500">
+                <tr>
+                  <th className="px-4 py-2 w-12 text-center">Left</th>
+                  <th className="px-4 py-2 w-12 text-center">Right</th>
+                  <th className="px-4 py-2">Saved</th>
+                  <th className="px-4 py-2">Author</th>
+                  <th className="px-4 py-2">Summary</th>
+                  <th className="px-4 py-2" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {revisions.map((revision, idx) => (
+                  <tr key={revision.id} className="align-top">
+                    <td className="px-4 py-2 text-center">
+                      <input
+                        type="radio"
+                        name="left-revision"
+                        checked={leftId === revision.id}
+                        onChange={() => setLeftId(revision.id)}
+                      />
+                    </td>
+                    <td className="px-4 py-2 text-center">
+                      <input
+                        type="radio"
+                        name="right-revision"
+                        checked={rightId === revision.id}
+                        onChange={() => setRightId(revision.id)}
+                      />
+                    </td>
+                    <td className="px-4 py-2 whitespace-nowrap text-slate-700">
+                      {formatDate(revision.createdAt)}
+                      {idx === 0 && (
+                        <span className="ml-2 rounded-full bg-emerald-100 px-2 py-0.5 text-[10px] font-semibold uppercase text-emerald-700">
+                          Current
+                        </span>
+                      )}
+                      <div className="text-[11px] font-mono text-slate-400">{revision.id}</div>
+                    </td>
+                    <td className="px-4 py-2 text-slate-600">{revision.author}</td>
+                    <td className="px-4 py-2 text-slate-600">
+                      {revision.summary}
+                      {revision.changedPaths.length > 0 && (
+                        <div className="mt-1 text-[11px] font-mono text-slate-400 break-all">
+                          {revision.changedPaths.slice(0, 3).join(", ")}
+                          {revision.changeCount > 3 ? ", …" : ""}
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-4 py-2 text-right">
+                      {idx > 0 && (
+                        <button
+                          onClick={() => handleRestore(revision)}
+                          disabled={restoringId !== null}
+                          className="rounded border border-slate-300 px-3 py-1 text-xs font-medium text-slate-700 hover:bg-slate-50 disabled:opacity-50"
+                        >
+                          {restoringId === revision.id ? "Restoring…" : "Restore"}
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+
+      {/* Side-by-side comparison */}
+      {leftId && rightId && (
+        <section className="rounded-2xl bg-white shadow-sm border border-slate-200 overflow-hidden">
+          <div className="px-6 py-4 border-b border-slate-200 flex items-center justify-between gap-4">
+            <div>
+              <h2 className="text-base font-semibold text-slate-900">Compare</h2>
+              <p className="text-xs text-slate-500 font-mono">
+                {leftId} → {rightId}
+              </p>
+            </div>
+            <label className="flex items-center gap-2 text-xs text-slate-600 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={showRawJson}
+                onChange={(e) => setShowRawJson(e.target.checked)}
+              />
+              Show full JSON
+            </label>
+          </div>
+
+          {loadError ? (
+            <div className="px-6 py-4 text-sm text-rose-600">{loadError}</div>
+          ) : !left || !right ? (
+            <div className="px-6 py-4 text-sm text-slate-500">Loading revisions…</div>
+          ) : changes.length === 0 ? (
+            <div className="px-6 py-4 text-sm text-slate-500">
+              These revisions are identical.
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-xs">
+                <thead className="bg-slate-50 text-left uppercase tracking-wide text-slate-500">
+                  <tr>
+                    <th className="px-4 py-2 w-1/3">Path</th>
+                    <th className="px-4 py-2 w-1/3">Left</th>
+                    <th className="px-4 py-2 w-1/3">Right</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100 font-mono">
+                  {changes.slice(0, MAX_DIFF_ROWS).map((change) => (
+                    <tr key={change.path} className="align-top">
+                      <td className="px-4 py-2 text-slate-600 break-all">{change.path}</td>
+                      <td className="px-4 py-2 bg-rose-50/60 text-rose-800 break-all whitespace-pre-wrap">
+                        {formatValue(change.before)}
+                      </td>
+                      <td className="px-4 py-2 bg-emerald-50/60 text-emerald-800 break-all whitespace-pre-wrap">
+                        {formatValue(change.after)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {changes.length > MAX_DIFF_ROWS && (
+                <div className="px-4 py-2 text-xs text-slate-500">
+                  Showing {MAX_DIFF_ROWS} of {changes.length} changes.
+                </div>
+              )}
+            </div>
+          )}
+
+          {showRawJson && left && right && (
+            <div className="grid gap-4 p-4 md:grid-cols-2 border-t border-slate-200">
+              {[left, right].map((revision) => (
+                <div key={revision.id}>
+                  <div className="mb-1 text-xs font-medium text-slate-600">
+                    {formatDate(revision.createdAt)} · {revision.author}
+                  </div>
+                  <textarea
+                    readOnly
+                    className="h-96 w-full rounded border border-slate-200 bg-slate-50 p-2 text-xs font-mono text-slate-700"
+                    value={JSON.stringify(revision.content, null, 2)}
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+        </section>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+import { notFound } from "next/navigation";
+import { AdminHeader } from "@/app/admin/AdminHeader";
+import {
+  REVISIONED_DATASETS,
+  isRevisionDatasetId,
+  listRevisions,
+} from "@/lib/revisionHistory";
+import { HistoryAdminClient } from "./HistoryAdminClient";
+
+// Revisions change on every admin save
+export const dynamic = "force-dynamic";
+
+type HistoryPageProps = {
+  params: Promise<{ dataset: string }>;
+};
+
+export default async function AdminHistoryPage({ params }: HistoryPageProps) {
+  const { dataset } = await params;
+  if (!isRevisionDatasetId(dataset)) {
+    notFound();
+  }
+
+  const revisions = await listRevisions(dataset);
+  const datasets = Object.entries(REVISIONED_DATASETS).map(([id, info]) => ({
+    id,
+    label: info.label,
+  }));
+
+  return (
+    <main className="min-h-screen bg-[var(--shell-bg)] text-[var(--ink-main)]">
+      <div className="mx-auto max-w-7xl px-3 sm:px-6 py-4">
+        <AdminHeader />
+        <p className="text-sm text-[var(--ink-soft)] mb-4">
+          Every admin save is kept as a revision. Compare any two revisions side by side or restore an older one.
+        </p>
+        <HistoryAdminClient
+          key={dataset}
+          dataset={dataset}
+          datasets={datasets}
+          initialRevisions={revisions}
+        />
+      </div>
+    </main>
+  );
+}
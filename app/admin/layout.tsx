@@ -0,0 +1,19 @@
+import { redirect } from "next/navigation";
+import { getGuideFromCookies } from "@/lib/guideSession";
+import { ADMIN_LOGIN_PATH, hasAdminPermission, toAdminSession } from "@/lib/adminAuth";
+import { AdminSessionProvider } from "./AdminSessionContext";
+
+export default async function AdminLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  const guide = await getGuideFromCookies();
+
+  // proxy.ts redirects first; this covers pages it doesn't match
+  if (!guide || !hasAdminPermission(guide, "view")) {
+    redirect(ADMIN_LOGIN_PATH);
+  }
+
+  return <AdminSessionProvider session={toAdminSession(guide)}>{children}</AdminSessionProvider>;
+}
@@ -1,23 +1,37 @@
 "use client";
 
 import { useState, Fragment, useRef, useEffect } from "react";
-import type { Product, ProductStatus, DoseKey } from "@/lib/types";
-import type { StrainOption } from "./page";
+import type { Product, ProductRatingSummary, ProductStatus } from "@/lib/types";
+import type { DoseOption, PartnerOption, StrainOption } from "./page";
 
 type ProductsAdminClientProps = {
   initialProducts: Product[];
   strainOptions: StrainOption[];
+  doseOptions: DoseOption[];
+  // Feedback rating aggregates keyed by product id
+  productRatings: Record<string, ProductRatingSummary>;
+  partnerOptions: PartnerOption[];
 };
 
-const DOSE_KEYS: DoseKey[] = ["micro", "mini", "macro", "museum", "mega", "hero"];
 const STATUS_OPTIONS: ProductStatus[] = ["active", "inactive"];
 
-export function ProductsAdminClient({ initialProducts, strainOptions }: ProductsAdminClientProps) {
+// Partner filter values besides a partner ID
+const ALL_PARTNERS = "__all";
+const GLOBAL_ONLY = "__global";
+
+export function ProductsAdminClient({
+  initialProducts,
+  strainOptions,
+  doseOptions,
+  productRatings,
+  partnerOptions,
+}: ProductsAdminClientProps) {
   const [products, setProducts] = useState<Product[]>(initialProducts);
   const [isSaving, setIsSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
   const [statusFilter, setStatusFilter] = useState<"all" | ProductStatus>("all");
+  const [partnerFilter, setPartnerFilter] = useState<string>(ALL_PARTNERS);
   const [expandedId, setExpandedId] = useState<string | null>(null);
   const [uploadingId, setUploadingId] = useState<string | null>(null);
   const [uploadError, setUploadError] = useState<string | null>(null);
@@ -39,10 +53,21 @@ export function ProductsAdminClient({ initialProducts, strainOptions }: Products
     return () => document.removeEventListener("mousedown", handleClickOutside);
   }, [strainDropdownOpen]);
 
-  const filteredProducts =
-    statusFilter === "all"
-      ? products
-      : products.filter((p) => p.status === statusFilter);
+  // Partner IDs set on products but not on any access key still get a filter entry
+  const orphanPartnerIds = [
+    ...new Set(
+      products
+        .map((p) => p.partnerId)
+        .filter((id): id is string => Boolean(id) && !partnerOptions.some((o) => o.id === id))
+    ),
+  ].sort();
+
+  const filteredProducts = products.filter(
+    (p) =>
+      (statusFilter === "all" || p.status === statusFilter) &&
+      (partnerFilter === ALL_PARTNERS ||
+        (partnerFilter === GLOBAL_ONLY ? !p.partnerId : p.partnerId === partnerFilter))
+  );
 
   const handleAddProduct = () => {
     const newProduct: Product = {
@@ -198,6 +223,24 @@ export function ProductsAdminClient({ initialProducts, strainOptions }: Products
           <option value="active">Active</option>
           <option value="inactive">Inactive</option>
         </select>
+        <select
+          value={partnerFilter}
+          onChange={(e) => setPartnerFilter(e.target.value)}
+          className="rounded-md border border-slate-300 bg-white px-3 py-1.5 text-sm text-slate-700"
+        >
+          <option value={ALL_PARTNERS}>All partners</option>
+          <option value={GLOBAL_ONLY}>Global only</option>
+          {partnerOptions.map((partner) => (
+            <option key={partner.id} value={partner.id}>
+              {partner.id}
+            </option>
+          ))}
+          {orphanPartnerIds.map((id) => (
+            <option key={id} value={id}>
+              {id} (no access key)
+            </option>
+          ))}
+        </select>
       </div>
 
       {/* Status messages */}
@@ -232,6 +275,9 @@ export function ProductsAdminClient({ initialProducts, strainOptions }: Products
               <th className="w-[90px] px-3 py-3 text-left text-xs font-semibold uppercase tracking-wider text-slate-600">
                 Status
               </th>
+              <th className="w-[90px] px-3 py-3 text-center text-xs font-semibold uppercase tracking-wider text-slate-600">
+                Rating
+              </th>
               <th className="w-[70px] px-3 py-3 text-center text-xs font-semibold uppercase tracking-wider text-slate-600">
                 Pick
               </th>
@@ -244,7 +290,7 @@ export function ProductsAdminClient({ initialProducts, strainOptions }: Products
             {filteredProducts.length === 0 ? (
               <tr>
                 <td
-                  colSpan={7}
+                  colSpan={8}
                   className="px-4 py-8 text-center text-sm text-slate-500"
                 >
                   No products found. Click &quot;+ Add Product&quot; to create one.
@@ -253,6 +299,7 @@ export function ProductsAdminClient({ initialProducts, strainOptions }: Products
             ) : (
               filteredProducts.map((product) => {
                 const isExpanded = expandedId === product.id;
+                const rating = productRatings[product.id];
                 return (
                   <Fragment key={product.id}>
                     {/* Summary row */}
@@ -353,6 +400,16 @@ export function ProductsAdminClient({ initialProducts, strainOptions }: Products
                           ))}
                         </select>
                       </td>
+                      <td className="px-3 py-2 text-center text-xs text-slate-600">
+                        {rating?.avgOverallExperience != null ? (
+                          <span title={`${rating.count} feedback ${rating.count === 1 ? "entry" : "entries"}`}>
+                            ★ {rating.avgOverallExperience.toFixed(1)}
+                            <span className="text-slate-400"> · {rating.count}</span>
+                          </span>
+                        ) : (
+                          <span className="text-slate-400">—</span>
+                        )}
+                      </td>
                       <td className="px-3 py-2 text-center">
                         <input
                           type="checkbox"
@@ -394,8 +451,24 @@ export function ProductsAdminClient({ initialProducts, strainOptions }: Products
                     {/* Details row (expandable) */}
                     {isExpanded && (
                       <tr className="bg-slate-50">
-                        <td colSpan={7} className="px-3 pb-4 pt-0">
+                        <td colSpan={8} className="px-3 pb-4 pt-0">
                           <div className="mt-2 rounded-lg border border-slate-200 bg-white p-4">
+                            {rating && (
+                              <div className="mb-4 flex flex-wrap gap-4 rounded border border-slate-200 bg-slate-50 px-3 py-2 text-xs text-slate-600">
+                                <span className="font-semibold uppercase tracking-wide text-slate-500">
+                                  Feedback ({rating.count})
+                                </span>
+                                <span>
+                                  Overall: {rating.avgOverallExperience?.toFixed(1) ?? "—"} / 5
+                                </span>
+                                <span>
+                                  Intensity: {rating.avgIntensity?.toFixed(1) ?? "—"} / 5
+                                </span>
+                                <span>
+                                  Felt vs expected: {rating.avgFeltDelta != null ? `±${rating.avgFeltDelta.toFixed(1)}` : "—"}
+                                </span>
+                              </div>
+                            )}
                             <div className="grid gap-4 md:grid-cols-2">
                               {/* Left column */}
                               <div className="space-y-3">
@@ -415,11 +488,17 @@ export function ProductsAdminClient({ initialProducts, strainOptions }: Products
                                     className="w-full rounded border border-slate-300 bg-white px-2 py-1.5 text-sm focus:border-slate-500 focus:outline-none"
                                   >
                                     <option value="">— Any dose —</option>
-                                    {DOSE_KEYS.map((dk) => (
-                                      <option key={dk} value={dk}>
-                                        {dk}
+                                    {doseOptions.map((dose) => (
+                                      <option key={dose.key} value={dose.key}>
+                                        {dose.label}
                                       </option>
                                     ))}
+                                    {product.doseKey &&
+                                      !doseOptions.some((dose) => dose.key === product.doseKey) && (
+                                        <option value={product.doseKey}>
+                                          {product.doseKey} (removed tier)
+                                        </option>
+                                      )}
                                   </select>
                                   <p className="mt-1 text-xs text-slate-500">
                                     Only show this product for the selected dose level.
@@ -564,6 +643,40 @@ export function ProductsAdminClient({ initialProducts, strainOptions }: Products
 
                               {/* Right column */}
                               <div className="space-y-3">
+                                <div>
+                                  <label className="mb-1 block text-xs font-medium text-slate-600">
+                                    Partner
+                                  </label>
+                                  <select
+                                    value={product.partnerId ?? ""}
+                                    onChange={(e) =>
+                                      handleUpdateProduct(
+                                        product.id,
+                                        "partnerId",
+                                        e.target.value || undefined
+                                      )
+                                    }
+                                    className="w-full rounded border border-slate-300 bg-white px-2 py-1.5 text-sm focus:border-slate-500 focus:outline-none"
+                                  >
+                                    <option value="">— All partners (global) —</option>
+                                    {partnerOptions.map((partner) => (
+                                      <option key={partner.id} value={partner.id}>
+                                        {partner.id} · {partner.keyLabels.join(", ")}
+                                      </option>
+                                    ))}
+                                    {product.partnerId &&
+                                      !partnerOptions.some((partner) => partner.id === product.partnerId) && (
+                                        <option value={product.partnerId}>
+                                          {product.partnerId} (no access key)
+                                        </option>
+                                      )}
+                                  </select>
+                                  <p className="mt-1 text-xs text-slate-500">
+                                    Only show this product on kiosks whose access key belongs to this partner.
+                                    Set partner IDs on the Access page.
+                                  </p>
+                                </div>
+
                                 <div>
                                   <label className="mb-1 block text-xs font-medium text-slate-600">
                                     External URL
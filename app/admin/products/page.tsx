@@ -1,33 +1,49 @@
-import { promises as fs } from "fs";
-import path from "path";
 import { AdminHeader } from "@/app/admin/AdminHeader";
 import { ProductsAdminClient } from "./ProductsAdminClient";
-import type { ProductDataset, Product } from "@/lib/types";
-import { getStrains } from "@/data/strainData";
+import { accessKeysRepository, feedbackRepository, productsRepository } from "@/lib/storage";
+import { aggregateProductRatings } from "@/lib/productRatings";
+import { getDoseConfig, getStrains } from "@/data/strainData";
 
 export type StrainOption = { id: string; name: string };
+export type DoseOption = { key: string; label: string };
+// keyLabels: the access keys linked to the partner
+export type PartnerOption = { id: string; keyLabels: string[] };
 
-async function loadProducts(): Promise<Product[]> {
-  try {
-    const filePath = path.join(process.cwd(), "data", "products.json");
-    const raw = await fs.readFile(filePath, "utf8");
-    const parsed: ProductDataset = JSON.parse(raw);
-    return parsed.products ?? [];
-  } catch {
-    return [];
-  }
-}
+// Render per request so saved products show without a rebuild
+export const dynamic = "force-dynamic";
 
 export default async function ProductsAdminPage() {
-  const products = await loadProducts();
+  const { products } = await productsRepository.read();
   
   // Get strain options from the canonical strain dataset
-  const strains = getStrains();
+  const strains = await getStrains();
   const strainOptions: StrainOption[] = strains.map((s) => ({
     id: s.id,
     name: s.name,
   }));
 
+  // Dose tiers come from the dataset, in slider order
+  const { order, config } = await getDoseConfig();
+  const doseOptions: DoseOption[] = order.map((key) => ({
+    key,
+    label: config[key]?.label ?? key,
+  }));
+
+  // Ratings from feedback attributed to each product
+  const { entries } = await feedbackRepository.read();
+  const productRatings = aggregateProductRatings(entries);
+
+  // Partners are the partner IDs set on access keys
+  const { keys } = await accessKeysRepository.read();
+  const partnerKeys = new Map<string, string[]>();
+  for (const key of keys) {
+    if (!key.partnerId) continue;
+    partnerKeys.set(key.partnerId, [...(partnerKeys.get(key.partnerId) ?? []), key.label || key.id]);
+  }
+  const partnerOptions: PartnerOption[] = [...partnerKeys.entries()]
+    .map(([id, keyLabels]) => ({ id, keyLabels }))
+    .sort((a, b) => a.id.localeCompare(b.id));
+
   return (
     <main className="min-h-screen bg-[var(--shell-bg)] text-[var(--ink-main)]">
       <div className="mx-auto max-w-7xl px-3 sm:px-6 py-4">
@@ -35,6 +51,9 @@ export default async function ProductsAdminPage() {
         <ProductsAdminClient 
           initialProducts={products} 
           strainOptions={strainOptions}
+          doseOptions={doseOptions}
+          productRatings={productRatings}
+          partnerOptions={partnerOptions}
         />
       </div>
     </main>
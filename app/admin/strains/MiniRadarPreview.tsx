@@ -10,28 +10,19 @@ import {
   RadialLinearScale,
   Tooltip,
 } from "chart.js";
-import type { StrainJsonEntry, TraitAxisId } from "./types";
+import type { TraitAxisDefinition } from "@/lib/types";
+import type { StrainJsonEntry } from "./types";
 
 ChartJS.register(RadialLinearScale, PointElement, LineElement, Filler, Tooltip);
 
-// Abbreviated axis labels for the mini preview
-const AXIS_LABEL_SHORT: Record<TraitAxisId, string> = {
-  visuals: "Vis",
-  euphoria: "Euph",
-  introspection: "Intro",
-  creativity: "Creat",
-  spiritual_depth: "Spirit",
-  sociability: "Soc",
-};
-
 type MiniRadarProps = {
-  axes: TraitAxisId[];
+  axisDefinitions: TraitAxisDefinition[];
   strain?: StrainJsonEntry;
   doseIndex: number;
 };
 
 export default function MiniRadarPreview({
-  axes,
+  axisDefinitions,
   strain,
   doseIndex,
 }: MiniRadarProps) {
@@ -40,10 +31,11 @@ export default function MiniRadarPreview({
   const data = useMemo(() => {
     if (!strain || doseIndex < 0) return null;
     return {
-      labels: axes.map((axis) => AXIS_LABEL_SHORT[axis] ?? axis),
+      // Abbreviated labels for the mini preview
+      labels: axisDefinitions.map((axis) => axis.shortLabel),
       datasets: [
         {
-          data: axes.map((axis) => strain.radar[axis]?.[doseIndex] ?? 0),
+          data: axisDefinitions.map(({ id }) => strain.radar[id]?.[doseIndex] ?? 0),
           backgroundColor: "rgba(15, 23, 42, 0.25)",
           borderColor: "#0f172a",
           borderWidth: 1.5,
@@ -52,7 +44,7 @@ export default function MiniRadarPreview({
         },
       ],
     };
-  }, [axes, strain, doseIndex]);
+  }, [axisDefinitions, strain, doseIndex]);
 
   if (!isClient) {
     return (
@@ -12,12 +12,23 @@ import {
   type DoseSnapshot,
   type StrainMeta,
 } from "./types";
-import type { Product } from "@/lib/types";
-import { cloneDataset, formatAxisLabel, normalizeAccentHex } from "@/lib/utils";
+import type { CommunityRadar, DatasetValidationIssue, Product } from "@/lib/types";
+import { strainIssuePath } from "@/lib/strainValidation";
+import { communityRadarKey } from "@/lib/communityRadar";
+import { resolveTraitAxes } from "@/lib/traitAxes";
+import {
+  cloneDataset,
+  formatAxisLabel,
+  formatKeyPath as keyPath,
+  normalizeAccentHex,
+  slugifyStrainName,
+} from "@/lib/utils";
 
 type Props = {
   initialData: EditorDataset;
   allProducts: Product[];
+  // Aggregated feedback feltAxes, keyed by "strainId:doseKey"
+  communityRadars: Record<string, CommunityRadar>;
 };
 
 const DEFAULT_ACCENT = "#4a371f";
@@ -31,9 +42,13 @@ const MiniRadarPreview = dynamic(() => import("./MiniRadarPreview"), {
   ),
 });
 
-export default function StrainAdminClient({ initialData, allProducts }: Props) {
+export default function StrainAdminClient({
+  initialData,
+  allProducts,
+  communityRadars,
+}: Props) {
   const [dataset, setDataset] = useState<EditorDataset>(() =>
-    cloneDataset(initialData)
+    withDoseDefaults(cloneDataset(initialData))
   );
   const [selectedStrainName, setSelectedStrainName] = useState<string>(() => {
     const keys = Object.keys(initialData.strains);
@@ -48,6 +63,9 @@ export default function StrainAdminClient({ initialData, allProducts }: Props) {
     "idle" | "saving" | "success" | "error"
   >("idle");
   const [saveMessage, setSaveMessage] = useState("");
+  const [validationIssues, setValidationIssues] = useState<
+    DatasetValidationIssue[]
+  >([]);
 
   // Product linking state
   const [productsState, setProductsState] = useState<Product[]>(allProducts);
@@ -58,6 +76,10 @@ export default function StrainAdminClient({ initialData, allProducts }: Props) {
   // Collapsible section states
   const [strainsOpen, setStrainsOpen] = useState(true);
   const [doseSettingsOpen, setDoseSettingsOpen] = useState(false);
+  const [axesOpen, setAxesOpen] = useState(false);
+  const [newAxisDraft, setNewAxisDraft] = useState("");
+  const [newDoseDraft, setNewDoseDraft] = useState("");
+  const [newDoseGramsDraft, setNewDoseGramsDraft] = useState("");
   const [radarOpen, setRadarOpen] = useState(true);
   const [productsOpen, setProductsOpen] = useState(true);
 
@@ -68,22 +90,30 @@ export default function StrainAdminClient({ initialData, allProducts }: Props) {
   const initialSnapshot = useMemo(() => cloneDataset(initialData), [initialData]);
 
   const strainNames = Object.keys(dataset.strains);
+  const axisDefinitions = useMemo(
+    () => resolveTraitAxes(dataset.axes, dataset.axisMeta),
+    [dataset.axes, dataset.axisMeta]
+  );
   const currentStrain = dataset.strains[selectedStrainName];
   const doseIndex = dataset.doses.indexOf(selectedDose);
   const currentAccentHex =
     currentStrain?.visual?.[selectedDose]?.colorHex ?? DEFAULT_ACCENT;
 
+  // Validation issues from the last save, matched to fields by path
+  const currentStrainPath = strainIssuePath(selectedStrainName);
+  const issuesAt = (...paths: string[]) =>
+    validationIssues
+      .filter((issue) => paths.includes(issue.path))
+      .map((issue) => issue.message);
+
   // Product linking derived values
-  // Map strain name to slug for product linking
-  const STRAIN_NAME_TO_SLUG: Record<string, string> = {
-    "Golden Teacher": "golden-teacher",
-    "Penis Envy": "penis-envy",
-    "Amazonian": "amazonian",
-    "Enigma": "enigma",
-    "Cambodian": "cambodian",
-    "Full Moon Party": "full-moon-party",
-  };
-  const selectedStrainSlug = STRAIN_NAME_TO_SLUG[selectedStrainName] ?? selectedStrainName.toLowerCase().replace(/\s+/g, "-");
+  // Products reference strains by their registry slug
+  const selectedStrainSlug =
+    currentStrain?.slug?.trim() || slugifyStrainName(selectedStrainName);
+
+  // Community suggestions for the selected strain+dose (feedback stores slugs)
+  const currentCommunity =
+    communityRadars[communityRadarKey(selectedStrainSlug, selectedDose)] ?? null;
   
   const globalProducts = useMemo(
     () => productsState.filter((p) => p.strainIds.length === 0),
@@ -145,6 +175,14 @@ export default function StrainAdminClient({ initialData, allProducts }: Props) {
   const handleAddStrain = () => {
     const blank = createBlankStrain(dataset.axes, dataset.doses);
     const newName = ensureUniqueName("New Strain");
+    const maxSortOrder = Object.values(dataset.strains).reduce(
+      (max, entry) => Math.max(max, entry.sortOrder ?? 0),
+      -1
+    );
+    blank.slug = slugifyStrainName(newName);
+    blank.colorHex = DEFAULT_ACCENT;
+    blank.sortOrder = maxSortOrder + 1;
+    blank.isVisible = true;
     setDataset((prev) => ({
       ...prev,
       strains: {
@@ -188,6 +226,27 @@ export default function StrainAdminClient({ initialData, allProducts }: Props) {
     }));
   };
 
+  const handleRegistryChange = (
+    field: "slug" | "colorHex" | "sortOrder" | "isVisible",
+    rawValue: string | boolean
+  ) => {
+    updateCurrentStrain((entry) => {
+      switch (field) {
+        case "slug":
+          return { ...entry, slug: slugifyStrainName(String(rawValue)) };
+        case "colorHex":
+          return {
+            ...entry,
+            colorHex: normalizeAccentHex(String(rawValue), DEFAULT_ACCENT),
+          };
+        case "sortOrder":
+          return { ...entry, sortOrder: Number(rawValue) || 0 };
+        case "isVisible":
+          return { ...entry, isVisible: Boolean(rawValue) };
+      }
+    });
+  };
+
   const handleRadarChange = (axis: TraitAxisId, value: number) => {
     if (doseIndex === -1) return;
     updateCurrentStrain((entry) => ({
@@ -236,7 +295,7 @@ export default function StrainAdminClient({ initialData, allProducts }: Props) {
 
   const handleDoseConfigChange = (
     dose: DoseKey,
-    field: "label" | "grams",
+    field: "label" | "grams" | "modifier",
     rawValue: string
   ) => {
     setDataset((prev) => {
@@ -247,13 +306,17 @@ export default function StrainAdminClient({ initialData, allProducts }: Props) {
         label: dose,
         grams: 0,
       };
-      nextConfig[dose] =
-        field === "label"
-          ? { ...current, label: rawValue }
-          : {
-              ...current,
-              grams: Number(rawValue) || 0,
-            };
+      if (field === "label") {
+        nextConfig[dose] = { ...current, label: rawValue };
+      } else if (field === "grams") {
+        nextConfig[dose] = { ...current, grams: Number(rawValue) || 0 };
+      } else {
+        // Blank modifier falls back to the built-in value for the tier
+        nextConfig[dose] = {
+          ...current,
+          modifier: rawValue === "" ? undefined : Number(rawValue),
+        };
+      }
       return {
         ...prev,
         doseConfig: nextConfig,
@@ -261,14 +324,171 @@ export default function StrainAdminClient({ initialData, allProducts }: Props) {
     });
   };
 
+  const handleAxisMetaChange = (
+    axis: TraitAxisId,
+    field: "label" | "shortLabel" | "color",
+    value: string
+  ) => {
+    setDataset((prev) => {
+      const current =
+        prev.axisMeta?.[axis] ??
+        { label: axisDefinitions.find((d) => d.id === axis)?.label ?? axis };
+      return {
+        ...prev,
+        axisMeta: {
+          ...prev.axisMeta,
+          [axis]: { ...current, [field]: value },
+        },
+      };
+    });
+  };
+
+  // New axes start at 0 for every strain and dose
+  const handleAddAxis = () => {
+    const axis = newAxisDraft
+      .trim()
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "_")
+      .replace(/^_+|_+$/g, "");
+    if (!axis || dataset.axes.includes(axis)) return;
+    setDataset((prev) => ({
+      ...prev,
+      axes: [...prev.axes, axis],
+      axisMeta: {
+        ...prev.axisMeta,
+        [axis]: { label: formatAxisLabel(axis) },
+      },
+      strains: Object.fromEntries(
+        Object.entries(prev.strains).map(([name, entry]) => [
+          name,
+          {
+            ...entry,
+            radar: { ...entry.radar, [axis]: prev.doses.map(() => 0) },
+          },
+        ])
+      ),
+    }));
+    setNewAxisDraft("");
+  };
+
+  const handleRemoveAxis = (axis: TraitAxisId) => {
+    if (dataset.axes.length <= 1) return;
+    if (!confirm(`Remove the "${axis}" axis and its values from every strain?`)) return;
+    setDataset((prev) => {
+      const axisMeta = { ...prev.axisMeta };
+      delete axisMeta[axis];
+      return {
+        ...prev,
+        axes: prev.axes.filter((a) => a !== axis),
+        axisMeta,
+        strains: Object.fromEntries(
+          Object.entries(prev.strains).map(([name, entry]) => {
+            const radar = { ...entry.radar };
+            delete radar[axis];
+            return [name, { ...entry, radar }];
+          })
+        ),
+      };
+    });
+  };
+
+  // New tiers slot in by grams; radar values start at 0, content blank
+  const handleAddDose = () => {
+    const dose = newDoseDraft
+      .trim()
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "");
+    const grams = Number(newDoseGramsDraft);
+    if (!dose || dataset.doses.includes(dose) || !Number.isFinite(grams) || grams < 0) {
+      return;
+    }
+    setDataset((prev) => {
+      const insertAt = prev.doses.findIndex(
+        (d) => (prev.doseConfig[d]?.grams ?? 0) > grams
+      );
+      const index = insertAt === -1 ? prev.doses.length : insertAt;
+      const doses = [...prev.doses];
+      doses.splice(index, 0, dose);
+      const blank = createBlankStrain(prev.axes, [dose]);
+      return {
+        ...prev,
+        doses,
+        doseConfig: {
+          ...prev.doseConfig,
+          [dose]: { label: formatAxisLabel(dose), grams },
+        },
+        strains: Object.fromEntries(
+          Object.entries(prev.strains).map(([name, entry]) => {
+            const radar = { ...entry.radar };
+            for (const axis of prev.axes) {
+              const series = [...(radar[axis] ?? prev.doses.map(() => 0))];
+              series.splice(index, 0, 0);
+              radar[axis] = series;
+            }
+            return [
+              name,
+              {
+                ...entry,
+                radar,
+                blurb: { ...entry.blurb, ...blank.blurb },
+                details: { ...entry.details, ...blank.details },
+                products: { ...entry.products, ...blank.products },
+                snapshots: { ...entry.snapshots, ...blank.snapshots },
+                testimonials: { ...entry.testimonials, ...blank.testimonials },
+              },
+            ];
+          })
+        ),
+      };
+    });
+    setNewDoseDraft("");
+    setNewDoseGramsDraft("");
+  };
+
+  const handleRemoveDose = (dose: DoseKey) => {
+    if (dataset.doses.length <= 1) return;
+    if (!confirm(`Remove the "${dose}" tier and its content from every strain?`)) return;
+    const index = dataset.doses.indexOf(dose);
+    setDataset((prev) => ({
+      ...prev,
+      doses: prev.doses.filter((d) => d !== dose),
+      doseConfig: omitKey(prev.doseConfig, dose),
+      strains: Object.fromEntries(
+        Object.entries(prev.strains).map(([name, entry]) => [
+          name,
+          {
+            ...entry,
+            radar: Object.fromEntries(
+              Object.entries(entry.radar).map(([axis, series]) => [
+                axis,
+                series.filter((_, i) => i !== index),
+              ])
+            ),
+            blurb: omitKey(entry.blurb, dose),
+            details: omitKey(entry.details, dose),
+            products: omitKey(entry.products, dose),
+            snapshots: omitKey(entry.snapshots, dose),
+            testimonials: omitKey(entry.testimonials, dose),
+            visual: entry.visual && omitKey(entry.visual, dose),
+            experienceMeta: entry.experienceMeta && omitKey(entry.experienceMeta, dose),
+          },
+        ])
+      ),
+    }));
+    if (selectedDose === dose) {
+      setSelectedDose(dataset.doses.find((d) => d !== dose) ?? dose);
+    }
+  };
 
   const handleReset = () => {
-    const clone = cloneDataset(initialSnapshot);
+    const clone = withDoseDefaults(cloneDataset(initialSnapshot));
     setDataset(clone);
     const names = Object.keys(clone.strains);
     setSelectedStrainName(names[0] ?? "");
     setSelectedDose(clone.doses[0]);
     setExportText("");
+    setValidationIssues([]);
   };
 
   const handleExport = () => {
@@ -291,7 +511,15 @@ export default function StrainAdminClient({ initialData, allProducts }: Props) {
     try {
       setSaveStatus("saving");
       setSaveMessage("");
-      await saveDatasetToServer(dataset);
+      const issues = await saveDatasetToServer(dataset);
+      setValidationIssues(issues);
+      if (issues.length > 0) {
+        setSaveStatus("error");
+        setSaveMessage(
+          `Not saved: ${issues.length} validation issue${issues.length === 1 ? "" : "s"}.`
+        );
+        return;
+      }
       setSaveStatus("success");
       setSaveMessage("Saved to server.");
       setTimeout(() => {
@@ -406,10 +634,27 @@ export default function StrainAdminClient({ initialData, allProducts }: Props) {
                   label: dose,
                   grams: 0,
                 };
+                const dosePath = keyPath("doseConfig", dose);
+                const doseIssues = issuesAt(
+                  dosePath,
+                  `${dosePath}.label`,
+                  `${dosePath}.grams`,
+                  `${dosePath}.modifier`
+                );
                 return (
                   <div key={dose} className="space-y-1">
-                    <div className="text-xs uppercase tracking-wide text-slate-500">
-                      {dose}
+                    <div className="flex items-center justify-between">
+                      <span className="text-xs uppercase tracking-wide text-slate-500">
+                        {dose}
+                      </span>
+                      <button
+                        type="button"
+                        className="text-xs text-rose-600 disabled:opacity-40"
+                        onClick={() => handleRemoveDose(dose)}
+                        disabled={dataset.doses.length <= 1}
+                      >
+                        Remove
+                      </button>
                     </div>
                     <div className="flex gap-2">
                       <input
@@ -428,10 +673,140 @@ export default function StrainAdminClient({ initialData, allProducts }: Props) {
                           handleDoseConfigChange(dose, "grams", e.target.value)
                         }
                       />
+                      <input
+                        type="number"
+                        step="0.1"
+                        min="0"
+                        title="Animation modifier (1 = macro)"
+                        placeholder="×"
+                        className="w-14 rounded border border-slate-300 px-2 py-1 text-sm"
+                        value={config.modifier ?? ""}
+                        onChange={(e) =>
+                          handleDoseConfigChange(dose, "modifier", e.target.value)
+                        }
+                      />
                     </div>
+                    <FieldIssues messages={doseIssues} />
                   </div>
                 );
               })}
+              <div className="flex gap-2 pt-1">
+                <input
+                  className="flex-1 min-w-0 rounded border border-slate-300 px-2 py-1 text-sm"
+                  value={newDoseDraft}
+                  placeholder="New tier key, e.g. threshold"
+                  onChange={(e) => setNewDoseDraft(e.target.value)}
+                />
+                <input
+                  type="number"
+                  step="0.1"
+                  min="0"
+                  className="w-16 rounded border border-slate-300 px-2 py-1 text-sm"
+                  value={newDoseGramsDraft}
+                  placeholder="g"
+                  onChange={(e) => setNewDoseGramsDraft(e.target.value)}
+                />
+                <button
+                  type="button"
+                  className="rounded border border-slate-300 px-2 py-1 text-sm disabled:opacity-50"
+                  onClick={handleAddDose}
+                  disabled={!newDoseDraft.trim() || newDoseGramsDraft === ""}
+                >
+                  Add
+                </button>
+              </div>
+            </div>
+          )}
+        </section>
+
+        {/* Axes - Collapsible */}
+        <section className="rounded-xl border border-slate-200 bg-white">
+          <button
+            type="button"
+            onClick={() => setAxesOpen(!axesOpen)}
+            className="flex w-full items-center justify-between px-3 py-2 text-left"
+          >
+            <span className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+              Axes
+            </span>
+            <svg
+              className={`h-4 w-4 text-slate-400 transition-transform ${axesOpen ? "rotate-180" : ""}`}
+              fill="none"
+              viewBox="0 0 24 24"
+              stroke="currentColor"
+            >
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+            </svg>
+          </button>
+          {axesOpen && (
+            <div className="px-3 pb-3 space-y-3 max-h-72 overflow-y-auto">
+              {axisDefinitions.map((axis) => {
+                const metaPath = keyPath("axisMeta", axis.id);
+                const axisIssues = issuesAt(
+                  metaPath,
+                  `${metaPath}.label`,
+                  `${metaPath}.shortLabel`,
+                  `${metaPath}.color`
+                );
+                return (
+                  <div key={axis.id} className="space-y-1">
+                    <div className="flex items-center justify-between">
+                      <span className="font-mono text-xs text-slate-500">{axis.id}</span>
+                      <button
+                        type="button"
+                        className="text-xs text-rose-600 disabled:opacity-40"
+                        onClick={() => handleRemoveAxis(axis.id)}
+                        disabled={dataset.axes.length <= 1}
+                      >
+                        Remove
+                      </button>
+                    </div>
+                    <div className="flex gap-2">
+                      <input
+                        className="flex-1 min-w-0 rounded border border-slate-300 px-2 py-1 text-sm"
+                        value={axis.label}
+                        placeholder="Label"
+                        onChange={(e) =>
+                          handleAxisMetaChange(axis.id, "label", e.target.value)
+                        }
+                      />
+                      <input
+                        className="w-16 rounded border border-slate-300 px-2 py-1 text-sm"
+                        value={axis.shortLabel}
+                        placeholder="Short"
+                        onChange={(e) =>
+                          handleAxisMetaChange(axis.id, "shortLabel", e.target.value)
+                        }
+                      />
+                      <input
+                        type="color"
+                        className="h-7 w-7 rounded border border-slate-300 bg-transparent p-0 cursor-pointer"
+                        value={axis.color}
+                        onChange={(e) =>
+                          handleAxisMetaChange(axis.id, "color", e.target.value)
+                        }
+                      />
+                    </div>
+                    <FieldIssues messages={axisIssues} />
+                  </div>
+                );
+              })}
+              <div className="flex gap-2 pt-1">
+                <input
+                  className="flex-1 min-w-0 rounded border border-slate-300 px-2 py-1 text-sm"
+                  value={newAxisDraft}
+                  placeholder="New axis id, e.g. body_load"
+                  onChange={(e) => setNewAxisDraft(e.target.value)}
+                />
+                <button
+                  type="button"
+                  className="rounded border border-slate-300 px-2 py-1 text-sm disabled:opacity-50"
+                  onClick={handleAddAxis}
+                  disabled={!newAxisDraft.trim()}
+                >
+                  Add
+                </button>
+              </div>
             </div>
           )}
         </section>
@@ -458,7 +833,7 @@ export default function StrainAdminClient({ initialData, allProducts }: Props) {
           {radarOpen && (
             <div className="px-2 pb-2">
               <MiniRadarPreview
-                axes={dataset.axes}
+                axisDefinitions={axisDefinitions}
                 strain={currentStrain}
                 doseIndex={doseIndex}
               />
@@ -494,6 +869,26 @@ export default function StrainAdminClient({ initialData, allProducts }: Props) {
               {saveMessage}
             </div>
           ) : null}
+          {validationIssues.length > 0 ? (
+            <ul className="max-h-48 overflow-y-auto rounded border border-rose-200 bg-rose-50 p-2 space-y-1">
+              {validationIssues.map((issue, idx) => {
+                const strainName = strainNameFromIssuePath(issue.path);
+                return (
+                  <li key={`${issue.path}-${idx}`} className="text-[11px] text-rose-700">
+                    <button
+                      type="button"
+                      className="text-left hover:underline disabled:no-underline"
+                      disabled={!strainName || !dataset.strains[strainName]}
+                      onClick={() => strainName && handleSelectStrain(strainName)}
+                    >
+                      <span className="block font-mono break-all">{issue.path}</span>
+                      {issue.message}
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          ) : null}
           {exportText ? (
             <button
               className="w-full rounded bg-emerald-500 px-3 py-2 text-sm text-white"
@@ -513,24 +908,37 @@ export default function StrainAdminClient({ initialData, allProducts }: Props) {
             {/* 1. SLIDERS - Compact 3-column grid */}
             <section className="rounded-xl border border-slate-200 bg-white p-3">
               <div className="grid gap-x-4 gap-y-2 md:grid-cols-3">
-              {dataset.axes.map((axis) => (
-                  <div key={axis} className="flex items-center gap-2">
-                    <span className="w-16 text-xs font-medium text-slate-600 truncate">
-                      {formatAxisLabel(axis)}
-                    </span>
-                  <input
-                    type="range"
-                    min={0}
-                    max={100}
-                    value={currentStrain.radar[axis][doseIndex] ?? 0}
-                    onChange={(e) => handleRadarChange(axis, Number(e.target.value))}
-                      className="flex-1 h-1.5"
-                  />
-                    <span className="w-6 text-xs text-slate-500 text-right">
-                      {currentStrain.radar[axis][doseIndex]?.toFixed(0)}
-                    </span>
-                </div>
-              ))}
+              {axisDefinitions.map(({ id: axis, label }) => {
+                const axisPath = keyPath(`${currentStrainPath}.radar`, axis);
+                const axisIssues = issuesAt(axisPath, `${axisPath}[${doseIndex}]`);
+                return (
+                  <div key={axis}>
+                    <div className="flex items-center gap-2">
+                      <span className="w-16 text-xs font-medium text-slate-600 truncate">
+                        {label}
+                      </span>
+                      <input
+                        type="range"
+                        min={0}
+                        max={100}
+                        value={currentStrain.radar[axis]?.[doseIndex] ?? 0}
+                        onChange={(e) => handleRadarChange(axis, Number(e.target.value))}
+                        className="flex-1 h-1.5"
+                      />
+                      <span className="w-6 text-xs text-slate-500 text-right">
+                        {currentStrain.radar[axis]?.[doseIndex]?.toFixed(0)}
+                      </span>
+                    </div>
+                    <CommunitySuggestion
+                      stats={currentCommunity?.stats[axis]}
+                      value={currentCommunity?.values[axis]}
+                      current={currentStrain.radar[axis]?.[doseIndex] ?? 0}
+                      onApply={(value) => handleRadarChange(axis, value)}
+                    />
+                    <FieldIssues messages={axisIssues} />
+                  </div>
+                );
+              })}
               </div>
             </section>
 
@@ -565,6 +973,9 @@ export default function StrainAdminClient({ initialData, allProducts }: Props) {
                   onChange={(e) => handleContentChange("blurb", e.target.value)}
                 placeholder="Short description for this dose..."
                 />
+                <FieldIssues
+                  messages={issuesAt(keyPath(`${currentStrainPath}.blurb`, selectedDose))}
+                />
               </div>
 
             {/* 4. DETAILS */}
@@ -579,6 +990,9 @@ export default function StrainAdminClient({ initialData, allProducts }: Props) {
                   onChange={(e) => handleContentChange("details", e.target.value)}
                 placeholder="Longer description of the experience..."
                 />
+                <FieldIssues
+                  messages={issuesAt(keyPath(`${currentStrainPath}.details`, selectedDose))}
+                />
               </div>
 
             {/* Suggested Products Panel */}
@@ -759,8 +1173,8 @@ export default function StrainAdminClient({ initialData, allProducts }: Props) {
                 )}
             </section>
 
-            {/* 6. STRAIN NAME - Rarely used, at bottom */}
-            <div className="rounded-xl border border-slate-200 bg-white p-3">
+            {/* 6. STRAIN NAME + REGISTRY - Rarely used, at bottom */}
+            <div className="rounded-xl border border-slate-200 bg-white p-3 space-y-2">
               <div className="flex items-center gap-3">
                 <label className="text-xs font-medium text-slate-500 whitespace-nowrap">
                   Strain Name
@@ -772,6 +1186,52 @@ export default function StrainAdminClient({ initialData, allProducts }: Props) {
                   onBlur={handleRenameStrain}
                 />
               </div>
+              <div className="flex flex-wrap items-center gap-3">
+                <label className="flex items-center gap-2 text-xs font-medium text-slate-500">
+                  Slug
+                  <input
+                    className="w-40 rounded border border-slate-300 px-2 py-1 text-xs font-mono text-slate-700"
+                    value={currentStrain.slug ?? selectedStrainSlug}
+                    onChange={(e) => handleRegistryChange("slug", e.target.value)}
+                  />
+                </label>
+                <label className="flex items-center gap-2 text-xs font-medium text-slate-500">
+                  Base color
+                  <input
+                    type="color"
+                    className="h-6 w-6 rounded border border-slate-300 bg-transparent p-0 cursor-pointer"
+                    value={currentStrain.colorHex ?? DEFAULT_ACCENT}
+                    onChange={(e) => handleRegistryChange("colorHex", e.target.value)}
+                  />
+                </label>
+                <label className="flex items-center gap-2 text-xs font-medium text-slate-500">
+                  Sort
+                  <input
+                    type="number"
+                    className="w-16 rounded border border-slate-300 px-2 py-1 text-xs"
+                    value={currentStrain.sortOrder ?? 0}
+                    onChange={(e) => handleRegistryChange("sortOrder", e.target.value)}
+                  />
+                </label>
+                <label className="flex items-center gap-2 text-xs font-medium text-slate-500 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={currentStrain.isVisible ?? true}
+                    onChange={(e) => handleRegistryChange("isVisible", e.target.checked)}
+                    className="h-4 w-4 rounded border-slate-300"
+                  />
+                  Visible in kiosk
+                </label>
+              </div>
+              <FieldIssues
+                messages={issuesAt(
+                  currentStrainPath,
+                  `${currentStrainPath}.slug`,
+                  `${currentStrainPath}.colorHex`,
+                  `${currentStrainPath}.sortOrder`,
+                  `${currentStrainPath}.isVisible`
+                )}
+              />
             </div>
 
             {exportText && (
@@ -801,7 +1261,77 @@ export default function StrainAdminClient({ initialData, allProducts }: Props) {
   );
 }
 
-async function saveDatasetToServer(dataset: EditorDataset) {
+function CommunitySuggestion({
+  stats,
+  value,
+  current,
+  onApply,
+}: {
+  stats: CommunityRadar["stats"][TraitAxisId];
+  value: number | undefined;
+  current: number;
+  onApply: (value: number) => void;
+}) {
+  if (!stats) return null;
+  // Below the minimum sample size the stats are shown but not offered
+  if (value === undefined) {
+    return (
+      <p className="pl-[72px] text-[10px] text-slate-400">
+        Community: {stats.count} {stats.count === 1 ? "report" : "reports"}, too few to suggest
+      </p>
+    );
+  }
+  return (
+    <div className="flex items-center gap-2 pl-[72px] text-[10px] text-slate-500">
+      <span>
+        Community {value} (mean {stats.mean}, ±{stats.spread}, n={stats.count})
+      </span>
+      {value !== current ? (
+        <button
+          type="button"
+          onClick={() => onApply(value)}
+          className="rounded border border-slate-300 px-1.5 py-0.5 text-[10px] text-slate-600 hover:bg-slate-50"
+        >
+          Apply
+        </button>
+      ) : null}
+    </div>
+  );
+}
+
+function FieldIssues({ messages }: { messages: string[] }) {
+  if (messages.length === 0) return null;
+  return (
+    <div className="mt-1 space-y-0.5">
+      {messages.map((message, idx) => (
+        <p key={idx} className="text-[11px] text-rose-600">
+          {message}
+        </p>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Extracts the strain name from an issue path like strains["Enigma"].radar…
+ */
+function strainNameFromIssuePath(path: string): string | null {
+  const match = path.match(/^strains\[("(?:[^"\\]|\\.)*")\]/);
+  if (!match) return null;
+  try {
+    return JSON.parse(match[1]) as string;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Saves the dataset. Resolves with the validation issues reported by the
+ * server (empty on success); throws for any other failure.
+ */
+async function saveDatasetToServer(
+  dataset: EditorDataset
+): Promise<DatasetValidationIssue[]> {
   const response = await fetch("/api/admin/strains", {
     method: "POST",
     headers: {
@@ -811,8 +1341,34 @@ async function saveDatasetToServer(dataset: EditorDataset) {
   });
   if (!response.ok) {
     const body = await response.json().catch(() => ({}));
+    if (response.status === 400 && Array.isArray(body.issues)) {
+      return body.issues as DatasetValidationIssue[];
+    }
     throw new Error(body.error ?? `Save failed (${response.status})`);
   }
+  return [];
+}
+
+/**
+ * Older strain entries predate snapshots/testimonials. Fill in blank
+ * per-dose content so the dataset passes validation on the next save.
+ */
+function withDoseDefaults(dataset: EditorDataset): EditorDataset {
+  const blank = createBlankStrain(dataset.axes, dataset.doses);
+  for (const entry of Object.values(dataset.strains)) {
+    entry.blurb = { ...blank.blurb, ...entry.blurb };
+    entry.details = { ...blank.details, ...entry.details };
+    entry.products = { ...blank.products, ...entry.products };
+    entry.snapshots = { ...blank.snapshots, ...entry.snapshots };
+    entry.testimonials = { ...blank.testimonials, ...entry.testimonials };
+  }
+  return dataset;
+}
+
+function omitKey<T extends Record<string, unknown>>(record: T, key: string): T {
+  const next = { ...record };
+  delete next[key];
+  return next;
 }
 
 function createBlankStrain(
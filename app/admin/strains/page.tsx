@@ -1,18 +1,31 @@
 import { AdminHeader } from "../AdminHeader";
 import { getEditableDataset } from "@/data/strainData";
 import { getAllProducts } from "@/lib/productData";
+import { feedbackRepository } from "@/lib/storage";
+import { aggregateAllCommunityRadars } from "@/lib/communityRadar";
 import StrainAdminClient from "./StrainAdminClient";
 
-export default function StrainsAdminPage() {
-  const initialData = getEditableDataset();
-  const allProducts = getAllProducts();
+// Render per request so the editor always opens on the saved dataset
+export const dynamic = "force-dynamic";
+
+export default async function StrainsAdminPage() {
+  const [initialData, allProducts, feedback] = await Promise.all([
+    getEditableDataset(),
+    getAllProducts(),
+    feedbackRepository.read(),
+  ]);
+  const communityRadars = aggregateAllCommunityRadars(feedback.entries);
 
   return (
     <main className="min-h-screen bg-[var(--shell-bg)] text-[var(--ink-main)]">
       <div className="mx-auto max-w-7xl px-3 sm:px-6 py-4">
         <AdminHeader />
         <div className="min-h-0">
-          <StrainAdminClient initialData={initialData} allProducts={allProducts} />
+          <StrainAdminClient
+            initialData={initialData}
+            allProducts={allProducts}
+            communityRadars={communityRadars}
+          />
         </div>
       </div>
     </main>
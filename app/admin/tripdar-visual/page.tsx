@@ -22,7 +22,8 @@ import {
   TripdarSporeRadar,
   type TripdarVisualOverrides,
 } from "@/app/components/TripdarSporeRadar";
-import { AXIS_LABELS, DEFAULT_VISUAL_OVERRIDES } from "@/lib/tripdarRadar";
+import { DEFAULT_VISUAL_OVERRIDES } from "@/lib/tripdarRadar";
+import { DEFAULT_TRAIT_AXIS_DEFINITIONS } from "@/lib/traitAxes";
 import { AdminHeader } from "../AdminHeader";
 
 // =============================================================================
@@ -110,10 +111,6 @@ const PRESET_DEFAULTS: Record<PresetId, PresetState> = {
 // CONSTANTS
 // =============================================================================
 
-const AXIS_ORDER: TraitAxisId[] = [
-  "visuals", "euphoria", "introspection", "creativity", "spiritual_depth", "sociability",
-];
-
 const LOCAL_STORAGE_KEY = "tripdarPresetStates";
 
 // =============================================================================
@@ -569,10 +566,10 @@ export const EXAMPLE_AXES = {
               title="Trip Vibes (0–100)"
               helper="Set the strength of each experience dimension."
             >
-              {AXIS_ORDER.map((axisId) => (
+              {DEFAULT_TRAIT_AXIS_DEFINITIONS.map(({ id: axisId, label }) => (
                 <SliderControl
                   key={axisId}
-                  label={AXIS_LABELS[axisId]}
+                  label={label}
                   value={activePreset.axes[axisId]}
                   min={0}
                   max={100}
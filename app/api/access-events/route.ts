@@ -0,0 +1,82 @@
+/**
+ * Access Key Events API
+ *
+ * POST: Logs a strain/dose view or feedback QR open for the access key the
+ * kiosk was opened with. Visits are logged by /api/access-landing and
+ * feedback submissions by /api/feedback.
+ */
+
+import { NextResponse } from "next/server";
+import type { AccessEventType } from "@/lib/types";
+import { accessKeysRepository } from "@/lib/storage";
+import { createRateLimiter, getClientIp } from "@/lib/rateLimit";
+import { recordAccessEvent } from "@/lib/accessEvents";
+import { ACCESS_SESSION_ID_PATTERN } from "@/lib/accessVisits";
+import { KIOSK_DEVICE_ID_PATTERN } from "@/lib/kioskDevices";
+
+const CLIENT_EVENT_TYPES: AccessEventType[] = ["view", "qr_open"];
+
+// Per client IP and key: visitors browsing quickly send a view per tap, and
+// a store's kiosks may share one address
+const clientLimiter = createRateLimiter({ limit: 300, windowMs: 10 * 60 * 1000 });
+
+function optionalString(value: unknown, maxLength = 100): string | undefined {
+  return typeof value === "string" && value && value.length <= maxLength ? value : undefined;
+}
+
+export async function POST(request: Request) {
+  let body: Record<string, unknown>;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const { type, accessKeyId, sessionId, deviceId } = body ?? {};
+  if (!CLIENT_EVENT_TYPES.includes(type as AccessEventType)) {
+    return NextResponse.json(
+      { error: `type must be one of: ${CLIENT_EVENT_TYPES.join(", ")}` },
+      { status: 400 }
+    );
+  }
+  if (typeof accessKeyId !== "string" || !accessKeyId) {
+    return NextResponse.json({ error: "accessKeyId is required" }, { status: 400 });
+  }
+  if (typeof sessionId !== "string" || !ACCESS_SESSION_ID_PATTERN.test(sessionId)) {
+    return NextResponse.json({ error: "Invalid sessionId" }, { status: 400 });
+  }
+  if (
+    deviceId !== undefined &&
+    (typeof deviceId !== "string" || !KIOSK_DEVICE_ID_PATTERN.test(deviceId))
+  ) {
+    return NextResponse.json({ error: "Invalid deviceId" }, { status: 400 });
+  }
+
+  const limit = clientLimiter.check(`${getClientIp(request)}:${accessKeyId}`);
+  if (!limit.allowed) {
+    return NextResponse.json(
+      { error: "Too many events" },
+      { status: 429, headers: { "Retry-After": String(limit.retryAfterSeconds) } }
+    );
+  }
+
+  try {
+    const { keys } = await accessKeysRepository.read();
+    if (!keys.some((key) => key.id === accessKeyId)) {
+      return NextResponse.json({ error: "Unknown access key" }, { status: 404 });
+    }
+
+    await recordAccessEvent({
+      type: type as AccessEventType,
+      accessKeyId,
+      sessionId,
+      deviceId,
+      strainId: optionalString(body.strainId),
+      doseKey: optionalString(body.doseKey),
+    });
+    return NextResponse.json({ ok: true }, { status: 201 });
+  } catch (error) {
+    console.error("Failed to record access event:", error);
+    return NextResponse.json({ error: "Failed to record access event" }, { status: 500 });
+  }
+}
@@ -1,15 +1,20 @@
 import { NextResponse } from "next/server";
-import { promises as fs } from "fs";
-import path from "path";
-import rawAccessKeys from "@/data/accessKeys.json";
 import type { AccessKeyDataset, AccessKey, AccessKeySettings } from "@/lib/types";
+import { resolveRevisionAuthor, updateWithRevision } from "@/lib/revisionHistory";
+import { accessKeysRepository } from "@/lib/storage";
+import { authorizeAdmin } from "@/lib/adminAuth";
+import { getAuditContext } from "@/lib/auditLog";
+import { PARTNER_ID_PATTERN, withCurrentVisitCounts } from "@/lib/accessKeys";
 
 const DEFAULT_SETTINGS: AccessKeySettings = {
   requireKeyForRoot: false,
 };
 
 export async function GET() {
-  const dataset = rawAccessKeys as AccessKeyDataset;
+  const auth = await authorizeAdmin("manageAccess");
+  if (auth.error) return auth.error;
+
+  const dataset = await accessKeysRepository.read();
   
   return NextResponse.json({
     keys: dataset.keys,
@@ -17,6 +22,10 @@ export async function GET() {
   });
 }
 
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === "string");
+}
+
 function isValidAccessKey(obj: unknown): obj is AccessKey {
   if (typeof obj !== "object" || obj === null) return false;
   const key = obj as Record<string, unknown>;
@@ -28,7 +37,16 @@ function isValidAccessKey(obj: unknown): obj is AccessKey {
     typeof key.isActive === "boolean" &&
     typeof key.createdAt === "string" &&
     typeof key.updatedAt === "string" &&
-    (key.notes === undefined || typeof key.notes === "string")
+    (key.notes === undefined || typeof key.notes === "string") &&
+    (key.expiresAt === undefined ||
+      (typeof key.expiresAt === "string" && !Number.isNaN(Date.parse(key.expiresAt)))) &&
+    (key.maxVisits === undefined ||
+      (typeof key.maxVisits === "number" && Number.isInteger(key.maxVisits) && key.maxVisits > 0)) &&
+    (key.allowedStrainIds === undefined || isStringArray(key.allowedStrainIds)) &&
+    (key.allowedDoseKeys === undefined || isStringArray(key.allowedDoseKeys)) &&
+    (key.partnerId === undefined ||
+      (typeof key.partnerId === "string" &&
+        (key.partnerId === "" || PARTNER_ID_PATTERN.test(key.partnerId))))
   );
 }
 
@@ -39,13 +57,8 @@ function isValidSettings(obj: unknown): obj is AccessKeySettings {
 }
 
 export async function POST(request: Request) {
-  // Only allow writes in development
-  if (process.env.NODE_ENV !== "development") {
-    return NextResponse.json(
-      { error: "Writes disabled in production" },
-      { status: 403 }
-    );
-  }
+  const auth = await authorizeAdmin("manageAccess");
+  if (auth.error) return auth.error;
 
   try {
     const body = await request.json();
@@ -73,14 +86,24 @@ export async function POST(request: Request) {
       ? body.settings
       : DEFAULT_SETTINGS;
 
-    const dataset: AccessKeyDataset = { 
-      keys: body.keys,
-      settings,
-    };
+    const keys = (body.keys as AccessKey[]).map((key) => ({
+      ...key,
+      // Empty scopes mean "everything"; don't store them
+      allowedStrainIds: key.allowedStrainIds?.length ? key.allowedStrainIds : undefined,
+      allowedDoseKeys: key.allowedDoseKeys?.length ? key.allowedDoseKeys : undefined,
+      partnerId: key.partnerId || undefined,
+    }));
 
-    // Write to data/accessKeys.json
-    const filePath = path.join(process.cwd(), "data", "accessKeys.json");
-    await fs.writeFile(filePath, JSON.stringify(dataset, null, 2), "utf8");
+    let dataset: AccessKeyDataset = { keys, settings };
+
+    // Write through the storage layer and record a revision. Visit counts
+    // come from the stored keys under the lock, not from the admin page.
+    await updateWithRevision<AccessKeyDataset>(
+      "accessKeys",
+      (current) => (dataset = withCurrentVisitCounts({ keys, settings }, current)),
+      await resolveRevisionAuthor(),
+      { audit: getAuditContext(request, auth.guide) }
+    );
 
     return NextResponse.json(dataset);
   } catch (error) {
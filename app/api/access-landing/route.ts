@@ -0,0 +1,81 @@
+/**
+ * Access Key Landing API
+ *
+ * POST: Counts a visit for the access key the kiosk was opened with, once
+ * per visitor session, and logs it for the access funnel (see
+ * lib/accessVisits.ts). Refused keys answer 403 with the reason and are not
+ * counted.
+ */
+
+import { NextResponse } from "next/server";
+import { cookies } from "next/headers";
+import { createRateLimiter, getClientIp } from "@/lib/rateLimit";
+import { KIOSK_DEVICE_ID_PATTERN } from "@/lib/kioskDevices";
+import {
+  ACCESS_LANDING_COOKIE,
+  ACCESS_LANDING_COOKIE_OPTIONS,
+  ACCESS_SESSION_ID_PATTERN,
+  countAccessKeyVisit,
+  formatLandingCookie,
+  parseLandingCookie,
+} from "@/lib/accessVisits";
+
+// Landings use up capped keys, so one source can't drain a key's visits
+const ipLimiter = createRateLimiter({ limit: 30, windowMs: 10 * 60 * 1000 });
+
+export async function POST(request: Request) {
+  let body: Record<string, unknown>;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const { accessKeyId, sessionId, deviceId } = body ?? {};
+  if (typeof accessKeyId !== "string" || !accessKeyId || accessKeyId.length > 100) {
+    return NextResponse.json({ error: "accessKeyId is required" }, { status: 400 });
+  }
+  if (typeof sessionId !== "string" || !ACCESS_SESSION_ID_PATTERN.test(sessionId)) {
+    return NextResponse.json({ error: "Invalid sessionId" }, { status: 400 });
+  }
+  if (
+    deviceId !== undefined &&
+    (typeof deviceId !== "string" || !KIOSK_DEVICE_ID_PATTERN.test(deviceId))
+  ) {
+    return NextResponse.json({ error: "Invalid deviceId" }, { status: 400 });
+  }
+
+  const cookieStore = await cookies();
+  const landing = parseLandingCookie(cookieStore.get(ACCESS_LANDING_COOKIE)?.value);
+  const admitted = landing?.accessKeyId === accessKeyId;
+  if (admitted && landing.sessionId === sessionId) {
+    // A reload within the visitor's session
+    return NextResponse.json({ ok: true, counted: false });
+  }
+
+  const limit = ipLimiter.check(getClientIp(request));
+  if (!limit.allowed) {
+    return NextResponse.json(
+      { error: "Too many visits" },
+      { status: 429, headers: { "Retry-After": String(limit.retryAfterSeconds) } }
+    );
+  }
+
+  try {
+    const denial = await countAccessKeyVisit(accessKeyId, { sessionId, deviceId, admitted });
+    if (denial) {
+      return NextResponse.json({ error: "Access key refused", denial }, { status: 403 });
+    }
+
+    const response = NextResponse.json({ ok: true, counted: true }, { status: 201 });
+    response.cookies.set(
+      ACCESS_LANDING_COOKIE,
+      formatLandingCookie({ accessKeyId, sessionId }),
+      ACCESS_LANDING_COOKIE_OPTIONS
+    );
+    return response;
+  } catch (error) {
+    console.error("Failed to count access key visit:", error);
+    return NextResponse.json({ error: "Failed to count visit" }, { status: 500 });
+  }
+}
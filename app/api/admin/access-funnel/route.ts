@@ -0,0 +1,31 @@
+/**
+ * Admin Access Funnel API
+ *
+ * GET: Visits → engaged → QR → feedback per access key.
+ * Query: ?from=YYYY-MM-DD&to=YYYY-MM-DD (both optional, inclusive)
+ */
+
+import { NextResponse } from "next/server";
+import { accessEventsLog, accessKeysRepository } from "@/lib/storage";
+import { authorizeAdmin } from "@/lib/adminAuth";
+import { parseAnalyticsRange } from "@/lib/feedbackAnalytics";
+import { buildAccessFunnel } from "@/lib/accessFunnel";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  const auth = await authorizeAdmin("manageAccess");
+  if (auth.error) return auth.error;
+
+  const range = parseAnalyticsRange(new URL(request.url).searchParams);
+  if ("error" in range) {
+    return NextResponse.json({ error: range.error }, { status: 400 });
+  }
+
+  const [events, { keys }] = await Promise.all([
+    accessEventsLog.readAll(),
+    accessKeysRepository.read(),
+  ]);
+
+  return NextResponse.json(buildAccessFunnel(events, keys, range));
+}
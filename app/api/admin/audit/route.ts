@@ -0,0 +1,36 @@
+/**
+ * Admin Audit Log API
+ *
+ * GET: One page of admin changes matching the filters, newest first.
+ * Query: ?actor=&entityType=&q=&from=YYYY-MM-DD&to=YYYY-MM-DD (all optional)
+ *        &before=<nextBefore of the previous page>
+ */
+
+import { NextResponse } from "next/server";
+import { authorizeAdmin } from "@/lib/adminAuth";
+import { AUDIT_ID_PATTERN, parseAuditFilters } from "@/lib/auditFilters";
+import { searchAuditLog } from "@/lib/auditLog";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  const auth = await authorizeAdmin("audit");
+  if (auth.error) return auth.error;
+
+  const params = new URL(request.url).searchParams;
+  const filters = parseAuditFilters(params);
+  if ("error" in filters) {
+    return NextResponse.json({ error: filters.error }, { status: 400 });
+  }
+  const before = params.get("before");
+  if (before && !AUDIT_ID_PATTERN.test(before)) {
+    return NextResponse.json({ error: "Invalid before cursor" }, { status: 400 });
+  }
+
+  try {
+    return NextResponse.json(await searchAuditLog(filters, before));
+  } catch (error) {
+    console.error("Failed to search audit log:", error);
+    return NextResponse.json({ error: "Failed to search audit log" }, { status: 500 });
+  }
+}
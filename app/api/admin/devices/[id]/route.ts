@@ -0,0 +1,125 @@
+/**
+ * Admin Kiosk Device API
+ *
+ * PATCH: Updates a kiosk's label and/or remote config, or asks it to reload
+ * DELETE: Removes a kiosk from the registry; it registers again on
+ * its next heartbeat if still running
+ *
+ * Kiosks pick changes up with their next heartbeat.
+ */
+
+import { NextResponse } from "next/server";
+import type { KioskDevice } from "@/lib/types";
+import { devicesRepository } from "@/lib/storage";
+import { authorizeAdmin } from "@/lib/adminAuth";
+import { diffEntity, getAuditContext, recordAudit } from "@/lib/auditLog";
+import { getDoseConfig, getStrainRegistry } from "@/data/strainData";
+import { parseDeviceConfig } from "@/lib/kioskDevices";
+
+type RouteParams = {
+  params: Promise<{
+    id: string;
+  }>;
+};
+
+const MAX_LABEL_LENGTH = 80;
+
+export async function PATCH(request: Request, { params }: RouteParams) {
+  const auth = await authorizeAdmin("edit");
+  if (auth.error) return auth.error;
+
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    if (!body || typeof body !== "object") {
+      return NextResponse.json({ error: "Invalid request body" }, { status: 400 });
+    }
+
+    const changes: Partial<KioskDevice> = {};
+    if (body.label !== undefined) {
+      if (typeof body.label !== "string" || body.label.length > MAX_LABEL_LENGTH) {
+        return NextResponse.json(
+          { error: `label must be a string of at most ${MAX_LABEL_LENGTH} characters` },
+          { status: 400 }
+        );
+      }
+      changes.label = body.label.trim() || undefined;
+    }
+    if (body.config !== undefined) {
+      const [registry, doseConfig] = await Promise.all([getStrainRegistry(), getDoseConfig()]);
+      const parsed = parseDeviceConfig(
+        body.config,
+        registry.map((s) => s.id),
+        doseConfig.order
+      );
+      if ("error" in parsed) {
+        return NextResponse.json({ error: parsed.error }, { status: 400 });
+      }
+      changes.config = parsed.config;
+    }
+    if (body.reload === true) {
+      changes.reloadRequestedAt = new Date().toISOString();
+    }
+
+    let previous: KioskDevice | undefined;
+    let device: KioskDevice | undefined;
+    await devicesRepository.update((dataset) => {
+      const existing = dataset.devices.find((d) => d.id === id);
+      if (!existing) return dataset;
+      previous = existing;
+      device = {
+        ...existing,
+        ...changes,
+        configRevision: existing.configRevision + (changes.config ? 1 : 0),
+      };
+      const updated = device;
+      return {
+        ...dataset,
+        devices: dataset.devices.map((d) => (d.id === id ? updated : d)),
+      };
+    });
+
+    if (!device) {
+      return NextResponse.json({ error: "Device not found" }, { status: 404 });
+    }
+    await recordAudit(getAuditContext(request, auth.guide), {
+      action: "update",
+      entityType: "device",
+      entityIds: [id],
+      changes: diffEntity(id, previous, device),
+    });
+    return NextResponse.json({ device });
+  } catch (error) {
+    console.error("Failed to update device:", error);
+    return NextResponse.json({ error: "Failed to update device" }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: Request, { params }: RouteParams) {
+  const auth = await authorizeAdmin("edit");
+  if (auth.error) return auth.error;
+
+  try {
+    const { id } = await params;
+    let removed: KioskDevice | undefined;
+    await devicesRepository.update((dataset) => {
+      removed = dataset.devices.find((d) => d.id === id);
+      return removed
+        ? { ...dataset, devices: dataset.devices.filter((d) => d.id !== id) }
+        : dataset;
+    });
+
+    if (!removed) {
+      return NextResponse.json({ error: "Device not found" }, { status: 404 });
+    }
+    await recordAudit(getAuditContext(request, auth.guide), {
+      action: "delete",
+      entityType: "device",
+      changes: diffEntity(id, removed, undefined),
+    });
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    console.error("Failed to remove device:", error);
+    return NextResponse.json({ error: "Failed to remove device" }, { status: 500 });
+  }
+}
@@ -0,0 +1,28 @@
+/**
+ * Admin Kiosk Devices API
+ *
+ * GET: Lists registered kiosks, most recently seen first; devices offline
+ * long enough to expire are left out even before a write drops them
+ */
+
+import { NextResponse } from "next/server";
+import { devicesRepository } from "@/lib/storage";
+import { authorizeAdmin } from "@/lib/adminAuth";
+import { withoutExpiredDevices } from "@/lib/kioskDevices";
+
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  const auth = await authorizeAdmin("view");
+  if (auth.error) return auth.error;
+
+  try {
+    const { devices } = await devicesRepository.read();
+    return NextResponse.json({
+      devices: withoutExpiredDevices(devices).sort((a, b) => b.lastSeenAt.localeCompare(a.lastSeenAt)),
+    });
+  } catch (error) {
+    console.error("Failed to load devices:", error);
+    return NextResponse.json({ error: "Failed to load devices" }, { status: 500 });
+  }
+}
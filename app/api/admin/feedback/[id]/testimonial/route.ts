@@ -0,0 +1,270 @@
+/**
+ * Admin Testimonial Moderation API
+ *
+ * PATCH: Sets a feedback entry's testimonial status and/or edited text
+ * POST: Publishes the approved testimonial to its strain's dose testimonials
+ *
+ * Moving a published testimonial out of "approved" withdraws it from the
+ * strain again; editing a published one updates the strain's copy.
+ */
+
+import { NextResponse } from "next/server";
+import type {
+  AuditAction,
+  EditorDataset,
+  FeedbackEntry,
+  PublishedTestimonial,
+} from "@/lib/types";
+import { feedbackRepository, strainsRepository } from "@/lib/storage";
+import { authorizeAdmin } from "@/lib/adminAuth";
+import { diffEntity, getAuditContext, recordAudit, type AuditContext } from "@/lib/auditLog";
+import { resolveRevisionAuthor, updateWithRevision } from "@/lib/revisionHistory";
+import { slugifyStrainName } from "@/lib/utils";
+import {
+  MAX_TESTIMONIAL_LENGTH,
+  getTestimonialStatus,
+  getTestimonialText,
+  hasTestimonial,
+  isTestimonialStatus,
+  publishTestimonial,
+  withdrawTestimonial,
+} from "@/lib/testimonials";
+
+type RouteParams = {
+  params: Promise<{
+    id: string;
+  }>;
+};
+
+type Moderation = { entry: FeedbackEntry } | { error: string; status: number };
+
+// Feedback stores registry slugs; strains are keyed by display name
+function findStrainName(data: EditorDataset, strainId: string): string | null {
+  for (const [name, entry] of Object.entries(data.strains)) {
+    if ((entry.slug?.trim() || slugifyStrainName(name)) === strainId) return name;
+  }
+  return null;
+}
+
+/**
+ * Looks up the entry and applies `moderate` to it in one locked feedback
+ * update, so the change is made to the stored entry rather than to a copy
+ * another request may have changed since. The saved change is audited.
+ */
+async function moderateEntry(
+  id: string,
+  audit: AuditContext,
+  action: AuditAction,
+  moderate: (entry: FeedbackEntry) => Promise<Moderation>
+): Promise<Moderation> {
+  let result = { error: `Feedback entry "${id}" not found`, status: 404 } as Moderation;
+  let previous: FeedbackEntry | undefined;
+  await feedbackRepository.update(async (dataset) => {
+    const entry = dataset.entries.find((e) => e.id === id);
+    if (!entry) return dataset;
+    if (!hasTestimonial(entry)) {
+      result = { error: "Feedback entry has no testimonial", status: 400 };
+      return dataset;
+    }
+
+    previous = entry;
+    result = await moderate(entry);
+    if ("error" in result) return dataset;
+    const next = result.entry;
+    return { ...dataset, entries: dataset.entries.map((e) => (e.id === id ? next : e)) };
+  });
+
+  if ("entry" in result && previous) {
+    await recordAudit(audit, {
+      action,
+      entityType: "feedback",
+      entityIds: [id],
+      changes: diffEntity(id, previous, result.entry),
+    });
+  }
+  return result;
+}
+
+function moderationResponse(result: Moderation) {
+  return "error" in result
+    ? NextResponse.json({ error: result.error }, { status: result.status })
+    : NextResponse.json({ entry: result.entry });
+}
+
+async function publishToStrain(
+  strainName: string,
+  doseKey: string,
+  published: PublishedTestimonial,
+  audit: AuditContext
+): Promise<void> {
+  await updateWithRevision<EditorDataset | null>(
+    "strains",
+    (data) => {
+      const strain = data?.strains[strainName];
+      if (!data || !strain) {
+        throw new Error(`Strain "${strainName}" not found`);
+      }
+      return {
+        ...data,
+        strains: {
+          ...data.strains,
+          [strainName]: {
+            ...strain,
+            testimonials: publishTestimonial(strain.testimonials, doseKey, published),
+          },
+        },
+      };
+    },
+    await resolveRevisionAuthor(),
+    { audit, auditAction: "publish" }
+  );
+}
+
+async function withdrawFromStrains(feedbackId: string, audit: AuditContext): Promise<void> {
+  await updateWithRevision<EditorDataset | null>(
+    "strains",
+    (data) => {
+      if (!data) throw new Error("Strain dataset not found");
+      return {
+        ...data,
+        strains: Object.fromEntries(
+          Object.entries(data.strains).map(([name, strain]) => [
+            name,
+            { ...strain, testimonials: withdrawTestimonial(strain.testimonials, feedbackId) },
+          ])
+        ),
+      };
+    },
+    await resolveRevisionAuthor(),
+    { audit, auditAction: "withdraw" }
+  );
+}
+
+/**
+ * Resolves where an entry's testimonial is published: its strain's dataset
+ * key and dose, or an error message when either no longer exists.
+ */
+async function resolveTarget(
+  entry: FeedbackEntry
+): Promise<{ strainName: string; doseKey: string } | { error: string }> {
+  if (!entry.strainId || !entry.doseKey) {
+    return { error: "Feedback entry has no strain and dose to publish to" };
+  }
+  const data = await strainsRepository.read();
+  const strainName = data ? findStrainName(data, entry.strainId) : null;
+  if (!data || !strainName) {
+    return { error: `Strain "${entry.strainId}" no longer exists` };
+  }
+  if (!data.doses.includes(entry.doseKey)) {
+    return { error: `Dose "${entry.doseKey}" no longer exists` };
+  }
+  return { strainName, doseKey: entry.doseKey };
+}
+
+export async function PATCH(request: Request, { params }: RouteParams) {
+  const auth = await authorizeAdmin("edit");
+  if (auth.error) return auth.error;
+
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    const { status, text } = (body ?? {}) as Record<string, unknown>;
+
+    if (status !== undefined && !isTestimonialStatus(status)) {
+      return NextResponse.json({ error: `Invalid status: ${String(status)}` }, { status: 400 });
+    }
+    if (text !== undefined && typeof text !== "string") {
+      return NextResponse.json({ error: "text must be a string" }, { status: 400 });
+    }
+    if (typeof text === "string" && text.trim().length > MAX_TESTIMONIAL_LENGTH) {
+      return NextResponse.json(
+        { error: `Testimonial must be at most ${MAX_TESTIMONIAL_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    const audit = getAuditContext(request, auth.guide);
+    const result = await moderateEntry(id, audit, "update", async (entry) => {
+      const next: FeedbackEntry = { ...entry };
+      if (status !== undefined) {
+        next.testimonialStatus = status;
+      }
+      if (typeof text === "string") {
+        // A blank edit, or one matching the original, reverts to the original
+        const edited = text.trim();
+        if (edited && edited !== entry.testimonial?.trim()) {
+          next.testimonialEdited = edited;
+        } else {
+          delete next.testimonialEdited;
+        }
+      }
+
+      if (entry.testimonialPublishedAt) {
+        if (getTestimonialStatus(next) !== "approved") {
+          await withdrawFromStrains(entry.id, audit);
+          delete next.testimonialPublishedAt;
+        } else if (getTestimonialText(next) !== getTestimonialText(entry)) {
+          const target = await resolveTarget(next);
+          if ("error" in target) {
+            return { error: target.error, status: 400 };
+          }
+          await publishToStrain(
+            target.strainName,
+            target.doseKey,
+            {
+              quote: getTestimonialText(next),
+              feedbackId: entry.id,
+              publishedAt: entry.testimonialPublishedAt,
+            },
+            audit
+          );
+        }
+      }
+      return { entry: next };
+    });
+    return moderationResponse(result);
+  } catch (error) {
+    console.error("Failed to moderate testimonial:", error);
+    return NextResponse.json(
+      { error: "Failed to moderate testimonial" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request, { params }: RouteParams) {
+  const auth = await authorizeAdmin("edit");
+  if (auth.error) return auth.error;
+
+  try {
+    const { id } = await params;
+    const audit = getAuditContext(request, auth.guide);
+    const result = await moderateEntry(id, audit, "publish", async (entry) => {
+      if (getTestimonialStatus(entry) !== "approved") {
+        return { error: "Only approved testimonials can be published", status: 400 };
+      }
+
+      const target = await resolveTarget(entry);
+      if ("error" in target) {
+        return { error: target.error, status: 400 };
+      }
+
+      // Republishing keeps the original publish time
+      const publishedAt = entry.testimonialPublishedAt ?? new Date().toISOString();
+      await publishToStrain(
+        target.strainName,
+        target.doseKey,
+        { quote: getTestimonialText(entry), feedbackId: entry.id, publishedAt },
+        audit
+      );
+      return { entry: { ...entry, testimonialPublishedAt: publishedAt } };
+    });
+    return moderationResponse(result);
+  } catch (error) {
+    console.error("Failed to publish testimonial:", error);
+    return NextResponse.json(
+      { error: "Failed to publish testimonial" },
+      { status: 500 }
+    );
+  }
+}
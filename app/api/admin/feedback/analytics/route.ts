@@ -0,0 +1,34 @@
+/**
+ * Admin Feedback Analytics API
+ *
+ * GET: Aggregated feedback for the analytics view.
+ * Query: ?from=YYYY-MM-DD&to=YYYY-MM-DD (both optional, inclusive)
+ */
+
+import { NextResponse } from "next/server";
+import { feedbackRepository } from "@/lib/storage";
+import { authorizeAdmin } from "@/lib/adminAuth";
+import { getTraitAxes } from "@/data/strainData";
+import {
+  buildFeedbackAnalytics,
+  parseAnalyticsRange,
+} from "@/lib/feedbackAnalytics";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  const auth = await authorizeAdmin("view");
+  if (auth.error) return auth.error;
+
+  const range = parseAnalyticsRange(new URL(request.url).searchParams);
+  if ("error" in range) {
+    return NextResponse.json({ error: range.error }, { status: 400 });
+  }
+
+  const [{ entries }, axes] = await Promise.all([
+    feedbackRepository.read(),
+    getTraitAxes(),
+  ]);
+
+  return NextResponse.json(buildFeedbackAnalytics(entries, range, axes));
+}
@@ -0,0 +1,68 @@
+/**
+ * Admin Feedback Export API
+ *
+ * GET: Downloads feedback entries as CSV or JSON.
+ * Query:
+ *   format=csv|json (default csv)
+ *   strain, accessKey, radarMatch, from, to (same filters as the admin table)
+ *   includeContact=1 to keep the contact column (dropped by default)
+ */
+
+import { NextResponse } from "next/server";
+import { feedbackRepository } from "@/lib/storage";
+import { authorizeAdmin } from "@/lib/adminAuth";
+import { getTraitAxes } from "@/data/strainData";
+import { filterFeedbackEntries, parseFeedbackFilters } from "@/lib/feedbackAnalytics";
+import {
+  feedbackToCsv,
+  toFeedbackExportRows,
+  type FeedbackExportFormat,
+} from "@/lib/feedbackExport";
+
+export const dynamic = "force-dynamic";
+
+const EXPORT_FORMATS: FeedbackExportFormat[] = ["csv", "json"];
+
+export async function GET(request: Request) {
+  const auth = await authorizeAdmin("view");
+  if (auth.error) return auth.error;
+
+  const params = new URL(request.url).searchParams;
+
+  const format = (params.get("format") || "csv") as FeedbackExportFormat;
+  if (!EXPORT_FORMATS.includes(format)) {
+    return NextResponse.json(
+      { error: `Invalid format: ${format}` },
+      { status: 400 }
+    );
+  }
+
+  const filters = parseFeedbackFilters(params);
+  if ("error" in filters) {
+    return NextResponse.json({ error: filters.error }, { status: 400 });
+  }
+
+  const [{ entries }, axes] = await Promise.all([
+    feedbackRepository.read(),
+    getTraitAxes(),
+  ]);
+  const matching = filterFeedbackEntries(entries, filters).sort((a, b) =>
+    a.createdAt.localeCompare(b.createdAt)
+  );
+  const options = { axes, includeContact: params.get("includeContact") === "1" };
+
+  const filename = `feedback-${new Date().toISOString().slice(0, 10)}.${format}`;
+  const body =
+    format === "csv"
+      ? feedbackToCsv(matching, options)
+      : JSON.stringify(toFeedbackExportRows(matching, options), null, 2);
+
+  return new NextResponse(body, {
+    headers: {
+      "Content-Type":
+        format === "csv" ? "text/csv; charset=utf-8" : "application/json; charset=utf-8",
+      "Content-Disposition": `attachment; filename="${filename}"`,
+      "Cache-Control": "no-store",
+    },
+  });
+}
@@ -0,0 +1,113 @@
+/**
+ * Admin Feedback Quarantine API
+ *
+ * POST: Releases a quarantined entry into the main feedback list
+ * DELETE: Discards a quarantined entry
+ */
+
+import { NextResponse } from "next/server";
+import type { FeedbackEntry } from "@/lib/types";
+import { feedbackRepository } from "@/lib/storage";
+import { authorizeAdmin } from "@/lib/adminAuth";
+import { diffEntity, getAuditContext, recordAudit } from "@/lib/auditLog";
+import { recordAccessEvent } from "@/lib/accessEvents";
+
+type RouteParams = {
+  params: Promise<{
+    id: string;
+  }>;
+};
+
+/**
+ * Removes entry `id` from quarantine, optionally appending it to the main
+ * list. Returns the quarantined entry and the entry as stored (undefined when
+ * discarded), or null when it is not quarantined.
+ */
+async function takeFromQuarantine(
+  id: string,
+  release: boolean
+): Promise<{ quarantined: FeedbackEntry; released?: FeedbackEntry } | null> {
+  let taken: { quarantined: FeedbackEntry; released?: FeedbackEntry } | null = null;
+  await feedbackRepository.update((dataset) => {
+    const quarantine = dataset.quarantine ?? [];
+    const entry = quarantine.find((e) => e.id === id);
+    if (!entry) return dataset;
+
+    const { quarantineReason: _reason, ...released } = entry;
+    void _reason;
+    taken = { quarantined: entry, released: release ? released : undefined };
+    return {
+      ...dataset,
+      entries: release ? [...dataset.entries, released] : dataset.entries,
+      quarantine: quarantine.filter((e) => e.id !== id),
+    };
+  });
+  return taken;
+}
+
+export async function POST(request: Request, { params }: RouteParams) {
+  const auth = await authorizeAdmin("edit");
+  if (auth.error) return auth.error;
+
+  try {
+    const { id } = await params;
+    const taken = await takeFromQuarantine(id, true);
+    const entry = taken?.released;
+    if (!taken || !entry) {
+      return NextResponse.json(
+        { error: `Quarantined entry "${id}" not found` },
+        { status: 404 }
+      );
+    }
+    await recordAudit(getAuditContext(request, auth.guide), {
+      action: "release",
+      entityType: "feedback",
+      entityIds: [id],
+      changes: diffEntity(id, taken.quarantined, entry),
+    });
+    // Released submissions join the access key funnel like any other
+    if (entry.accessKeyId) {
+      await recordAccessEvent({
+        type: "feedback",
+        accessKeyId: entry.accessKeyId,
+        strainId: entry.strainId,
+        doseKey: entry.doseKey,
+      });
+    }
+    return NextResponse.json({ entry });
+  } catch (error) {
+    console.error("Failed to release feedback:", error);
+    return NextResponse.json(
+      { error: "Failed to release feedback" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: Request, { params }: RouteParams) {
+  const auth = await authorizeAdmin("edit");
+  if (auth.error) return auth.error;
+
+  try {
+    const { id } = await params;
+    const taken = await takeFromQuarantine(id, false);
+    if (!taken) {
+      return NextResponse.json(
+        { error: `Quarantined entry "${id}" not found` },
+        { status: 404 }
+      );
+    }
+    await recordAudit(getAuditContext(request, auth.guide), {
+      action: "delete",
+      entityType: "feedback",
+      changes: diffEntity(id, taken.quarantined, undefined),
+    });
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    console.error("Failed to delete feedback:", error);
+    return NextResponse.json(
+      { error: "Failed to delete feedback" },
+      { status: 500 }
+    );
+  }
+}
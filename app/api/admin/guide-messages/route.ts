@@ -2,42 +2,27 @@
  * Admin Guide Messages API
  * 
  * GET: Returns all messages
- * POST: Creates a new message (dev-only)
+ * POST: Creates a new message
  */
 
 import { NextResponse } from "next/server";
-import { promises as fs } from "fs";
-import path from "path";
 import type { GuideMessageDataset, GuideMessage } from "@/lib/types";
-
-const DATA_PATH = path.join(process.cwd(), "data", "guideMessages.json");
-
-async function loadMessages(): Promise<GuideMessageDataset> {
-  try {
-    const raw = await fs.readFile(DATA_PATH, "utf8");
-    return JSON.parse(raw) as GuideMessageDataset;
-  } catch {
-    return { messages: [] };
-  }
-}
-
-async function saveMessages(data: GuideMessageDataset): Promise<void> {
-  await fs.writeFile(DATA_PATH, JSON.stringify(data, null, 2), "utf8");
-}
+import { resolveRevisionAuthor, updateWithRevision } from "@/lib/revisionHistory";
+import { guideMessagesRepository } from "@/lib/storage";
+import { authorizeAdmin } from "@/lib/adminAuth";
+import { getAuditContext } from "@/lib/auditLog";
 
 export async function GET() {
-  const data = await loadMessages();
+  const auth = await authorizeAdmin("view");
+  if (auth.error) return auth.error;
+
+  const data = await guideMessagesRepository.read();
   return NextResponse.json(data);
 }
 
 export async function POST(request: Request) {
-  // Dev-only write protection
-  if (process.env.NODE_ENV === "production") {
-    return NextResponse.json(
-      { error: "Forbidden in production" },
-      { status: 403 }
-    );
-  }
+  const auth = await authorizeAdmin("edit");
+  if (auth.error) return auth.error;
 
   try {
     const body = await request.json();
@@ -50,8 +35,6 @@ export async function POST(request: Request) {
       );
     }
 
-    const data = await loadMessages();
-
     const newMessage: GuideMessage = {
       id: `msg-${Date.now()}`,
       guideId,
@@ -61,8 +44,12 @@ export async function POST(request: Request) {
       readBy: [],
     };
 
-    data.messages.unshift(newMessage);
-    await saveMessages(data);
+    await updateWithRevision<GuideMessageDataset>(
+      "guideMessages",
+      (data) => ({ ...data, messages: [newMessage, ...data.messages] }),
+      await resolveRevisionAuthor(),
+      { audit: getAuditContext(request, auth.guide) }
+    );
 
     return NextResponse.json({ ok: true, message: newMessage });
   } catch (error) {
@@ -1,17 +1,31 @@
 import { NextResponse } from "next/server";
-import { promises as fs } from "fs";
-import path from "path";
-import crypto from "crypto";
+import { authorizeAdmin } from "@/lib/adminAuth";
+import { getAuditContext, recordAudit } from "@/lib/auditLog";
+import {
+  MAX_PRODUCT_IMAGE_BYTES,
+  isAllowedProductImageType,
+  saveProductImage,
+} from "@/lib/productImages";
 
-const ALLOWED_MIME_TYPES = ["image/png", "image/jpeg"];
+// Room for the multipart envelope around the file
+const MAX_BODY_BYTES = MAX_PRODUCT_IMAGE_BYTES + 64 * 1024;
+
+function tooLarge() {
+  return NextResponse.json(
+    { error: `Image must be at most ${MAX_PRODUCT_IMAGE_BYTES / (1024 * 1024)} MB` },
+    { status: 413 }
+  );
+}
 
 export async function POST(request: Request) {
-  // Only allow in development
-  if (process.env.NODE_ENV !== "development") {
-    return new Response("Forbidden", { status: 403 });
-  }
+  const auth = await authorizeAdmin("edit");
+  if (auth.error) return auth.error;
 
   try {
+    // Refuse oversized uploads before buffering the form
+    const contentLength = Number(request.headers.get("content-length"));
+    if (contentLength > MAX_BODY_BYTES) return tooLarge();
+
     const formData = await request.formData();
     const file = formData.get("file") as File | null;
     const productId = formData.get("productId") as string | null;
@@ -24,31 +38,27 @@ export async function POST(request: Request) {
     }
 
     // Validate mime type
-    if (!ALLOWED_MIME_TYPES.includes(file.type)) {
+    if (!isAllowedProductImageType(file.type)) {
       return NextResponse.json(
         { error: "Invalid file type. Only PNG and JPEG images are allowed." },
         { status: 400 }
       );
     }
+    if (file.size > MAX_PRODUCT_IMAGE_BYTES) return tooLarge();
 
-    // Generate safe filename
-    const ext = file.type === "image/png" ? "png" : "jpg";
-    const base = productId || crypto.randomUUID();
-    // Sanitize the base to remove any path traversal characters
-    const safeBase = base.replace(/[^a-zA-Z0-9-_]/g, "-");
-    const filename = `${safeBase}-${Date.now()}.${ext}`;
-
-    // Ensure the products directory exists
-    const productsDir = path.join(process.cwd(), "public", "products");
-    await fs.mkdir(productsDir, { recursive: true });
+    const url = await saveProductImage(file, productId);
 
-    // Save the file
-    const filePath = path.join(productsDir, filename);
-    const arrayBuffer = await file.arrayBuffer();
-    await fs.writeFile(filePath, Buffer.from(arrayBuffer));
+    // The product itself changes when its editor saves the new URL
+    const entityId = productId || url;
+    await recordAudit(getAuditContext(request, auth.guide), {
+      action: "upload",
+      entityType: "product",
+      entityIds: [entityId],
+      changes: [{ entityId, path: "image", kind: "added", after: url }],
+    });
 
     // Return the public URL
-    return NextResponse.json({ url: `/products/${filename}` });
+    return NextResponse.json({ url });
   } catch (error) {
     console.error("Failed to upload image:", error);
     return NextResponse.json(
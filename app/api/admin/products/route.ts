@@ -1,22 +1,16 @@
 import { NextResponse } from "next/server";
-import { promises as fs } from "fs";
-import path from "path";
 import type { ProductDataset, Product } from "@/lib/types";
-
-const DATA_FILE = path.join(process.cwd(), "data", "products.json");
-
-async function loadProducts(): Promise<Product[]> {
-  try {
-    const raw = await fs.readFile(DATA_FILE, "utf8");
-    const parsed: ProductDataset = JSON.parse(raw);
-    return parsed.products ?? [];
-  } catch {
-    return [];
-  }
-}
+import { resolveRevisionAuthor, saveWithRevision } from "@/lib/revisionHistory";
+import { productsRepository } from "@/lib/storage";
+import { authorizeAdmin } from "@/lib/adminAuth";
+import { getAuditContext } from "@/lib/auditLog";
+import { PARTNER_ID_PATTERN } from "@/lib/accessKeys";
 
 export async function GET() {
-  const products = await loadProducts();
+  const auth = await authorizeAdmin("view");
+  if (auth.error) return auth.error;
+
+  const { products } = await productsRepository.read();
   return NextResponse.json({ products });
 }
 
@@ -30,7 +24,9 @@ function isValidProduct(obj: unknown): obj is Product {
     product.name.length > 0 &&
     typeof product.status === "string" &&
     ["active", "inactive"].includes(product.status) &&
-    Array.isArray(product.strainIds)
+    Array.isArray(product.strainIds) &&
+    (product.partnerId === undefined ||
+      (typeof product.partnerId === "string" && PARTNER_ID_PATTERN.test(product.partnerId)))
   );
 }
 
@@ -50,10 +46,8 @@ function normalizeProduct(product: Record<string, unknown>): Record<string, unkn
 }
 
 export async function POST(request: Request) {
-  // Only allow writes in development
-  if (process.env.NODE_ENV !== "development") {
-    return new Response("Forbidden", { status: 403 });
-  }
+  const auth = await authorizeAdmin("edit");
+  if (auth.error) return auth.error;
 
   try {
     const body = await request.json();
@@ -72,7 +66,9 @@ export async function POST(request: Request) {
       const normalized = normalizeProduct(body.products[i] as Record<string, unknown>);
       if (!isValidProduct(normalized)) {
         return NextResponse.json(
-          { error: `Invalid product at index ${i}: requires id, name, status, and strainIds` },
+          {
+            error: `Invalid product at index ${i}: requires id, name, status, and strainIds (partnerId must be a lowercase slug)`,
+          },
           { status: 400 }
         );
       }
@@ -81,8 +77,10 @@ export async function POST(request: Request) {
 
     const dataset: ProductDataset = { products: normalizedProducts };
 
-    // Write to data/products.json
-    await fs.writeFile(DATA_FILE, JSON.stringify(dataset, null, 2), "utf8");
+    // Write through the storage layer and record a revision
+    await saveWithRevision("products", dataset, await resolveRevisionAuthor(), {
+      audit: getAuditContext(request, auth.guide),
+    });
 
     return NextResponse.json(dataset);
   } catch (error) {
@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server";
+import { getRevision, isRevisionDatasetId } from "@/lib/revisionHistory";
+import { authorizeAdmin, revisionReadPermission } from "@/lib/adminAuth";
+
+type RouteParams = {
+  params: Promise<{
+    dataset: string;
+    revisionId: string;
+  }>;
+};
+
+export async function GET(_request: Request, { params }: RouteParams) {
+  const { dataset, revisionId } = await params;
+  if (!isRevisionDatasetId(dataset)) {
+    return NextResponse.json(
+      { error: `Unknown dataset: ${dataset}` },
+      { status: 404 }
+    );
+  }
+  const auth = await authorizeAdmin(revisionReadPermission(dataset));
+  if (auth.error) return auth.error;
+
+  const revision = await getRevision(dataset, revisionId);
+  if (!revision) {
+    return NextResponse.json(
+      { error: `Revision "${revisionId}" not found` },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json(revision);
+}
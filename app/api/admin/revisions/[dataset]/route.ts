@@ -0,0 +1,80 @@
+/**
+ * Admin Revision History API
+ *
+ * GET: Lists revisions of an admin-editable dataset (newest first)
+ * POST: Restores the dataset to a given revision (validated like a save)
+ */
+
+import { NextResponse } from "next/server";
+import {
+  isRevisionDatasetId,
+  listRevisions,
+  resolveRevisionAuthor,
+  restoreRevision,
+} from "@/lib/revisionHistory";
+import { authorizeAdmin, revisionReadPermission, revisionWritePermission } from "@/lib/adminAuth";
+import { getAuditContext } from "@/lib/auditLog";
+
+type RouteParams = {
+  params: Promise<{ dataset: string }>;
+};
+
+export async function GET(_request: Request, { params }: RouteParams) {
+  const { dataset } = await params;
+  if (!isRevisionDatasetId(dataset)) {
+    return NextResponse.json(
+      { error: `Unknown dataset: ${dataset}` },
+      { status: 404 }
+    );
+  }
+  const auth = await authorizeAdmin(revisionReadPermission(dataset));
+  if (auth.error) return auth.error;
+
+  const revisions = await listRevisions(dataset);
+  return NextResponse.json({ revisions });
+}
+
+export async function POST(request: Request, { params }: RouteParams) {
+  const { dataset } = await params;
+  if (!isRevisionDatasetId(dataset)) {
+    return NextResponse.json(
+      { error: `Unknown dataset: ${dataset}` },
+      { status: 404 }
+    );
+  }
+  const auth = await authorizeAdmin(revisionWritePermission(dataset));
+  if (auth.error) return auth.error;
+
+  try {
+    const body = await request.json();
+    const { revisionId } = body;
+
+    if (!revisionId || typeof revisionId !== "string") {
+      return NextResponse.json(
+        { error: "revisionId is required" },
+        { status: 400 }
+      );
+    }
+
+    const result = await restoreRevision(
+      dataset,
+      revisionId,
+      await resolveRevisionAuthor(),
+      getAuditContext(request, auth.guide)
+    );
+    if ("error" in result) {
+      return NextResponse.json(
+        { error: result.error, issues: result.issues },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json({ ok: true, revision: result.revision });
+  } catch (error) {
+    console.error("Failed to restore revision:", error);
+    return NextResponse.json(
+      { error: "Failed to restore revision" },
+      { status: 500 }
+    );
+  }
+}
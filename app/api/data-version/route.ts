@@ -0,0 +1,13 @@
+import { NextResponse } from "next/server";
+import { getLiveDataVersion } from "@/lib/dataService";
+
+export const dynamic = "force-dynamic";
+
+// Kiosks poll this to notice strain/product edits without a reload
+export async function GET() {
+  const version = await getLiveDataVersion();
+  return NextResponse.json(
+    { version },
+    { headers: { "Cache-Control": "no-store" } }
+  );
+}
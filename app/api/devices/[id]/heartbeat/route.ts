@@ -0,0 +1,93 @@
+/**
+ * Kiosk Heartbeat API
+ *
+ * POST: Records that a registered kiosk is alive, with its version and any
+ * errors since the last beat; returns its current remote config
+ */
+
+import { NextResponse } from "next/server";
+import type { KioskDevice } from "@/lib/types";
+import { devicesRepository } from "@/lib/storage";
+import { createRateLimiter } from "@/lib/rateLimit";
+import {
+  MAX_DATA_VERSION_LENGTH,
+  MAX_DEVICE_VERSION_LENGTH,
+  MAX_RECENT_DEVICE_ERRORS,
+  parseHeartbeatErrors,
+  toDeviceDirective,
+  withoutExpiredDevices,
+} from "@/lib/kioskDevices";
+
+type RouteParams = {
+  params: Promise<{ id: string }>;
+};
+
+// Kiosks beat once a minute; leave room for retries after a network blip
+const heartbeatLimiter = createRateLimiter({ limit: 10, windowMs: 60 * 1000 });
+
+export async function POST(request: Request, { params }: RouteParams) {
+  const { id } = await params;
+
+  let body: Record<string, unknown>;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+  if (typeof body?.version !== "string" || !body.version) {
+    return NextResponse.json({ error: "version is required" }, { status: 400 });
+  }
+  if (body.version.length > MAX_DEVICE_VERSION_LENGTH) {
+    return NextResponse.json(
+      { error: `version must be at most ${MAX_DEVICE_VERSION_LENGTH} characters` },
+      { status: 400 }
+    );
+  }
+  const version = body.version;
+  const dataVersion = typeof body.dataVersion === "string" ? body.dataVersion : undefined;
+  if (dataVersion && dataVersion.length > MAX_DATA_VERSION_LENGTH) {
+    return NextResponse.json(
+      { error: `dataVersion must be at most ${MAX_DATA_VERSION_LENGTH} characters` },
+      { status: 400 }
+    );
+  }
+  const errors = parseHeartbeatErrors(body.errors);
+
+  const limit = heartbeatLimiter.check(id);
+  if (!limit.allowed) {
+    return NextResponse.json(
+      { error: "Too many heartbeats" },
+      { status: 429, headers: { "Retry-After": String(limit.retryAfterSeconds) } }
+    );
+  }
+
+  try {
+    let device: KioskDevice | undefined;
+    await devicesRepository.update((dataset) => {
+      const existing = dataset.devices.find((d) => d.id === id);
+      if (!existing) return dataset;
+      device = {
+        ...existing,
+        version,
+        dataVersion: dataVersion ?? existing.dataVersion,
+        lastSeenAt: new Date().toISOString(),
+        errorCount: existing.errorCount + errors.length,
+        recentErrors: [...existing.recentErrors, ...errors].slice(-MAX_RECENT_DEVICE_ERRORS),
+      };
+      const updated = device;
+      return {
+        ...dataset,
+        devices: withoutExpiredDevices(dataset.devices.map((d) => (d.id === id ? updated : d))),
+      };
+    });
+
+    // Unknown (e.g. removed by an admin): the kiosk registers again
+    if (!device) {
+      return NextResponse.json({ error: "Device not registered" }, { status: 404 });
+    }
+    return NextResponse.json(toDeviceDirective(device));
+  } catch (error) {
+    console.error("Failed to record heartbeat:", error);
+    return NextResponse.json({ error: "Failed to record heartbeat" }, { status: 500 });
+  }
+}
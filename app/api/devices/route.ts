@@ -0,0 +1,101 @@
+/**
+ * Kiosk Device Registration API
+ *
+ * POST: Registers (or re-registers) a kiosk under an active access key and
+ * returns its remote config. Only browsers provisioned with ?kiosk=1 call
+ * this (see isProvisionedKiosk); devices offline for a long time are dropped
+ * as registrations come in.
+ */
+
+import { NextResponse } from "next/server";
+import type { KioskDevice } from "@/lib/types";
+import { accessKeysRepository, devicesRepository } from "@/lib/storage";
+import { createRateLimiter, getClientIp } from "@/lib/rateLimit";
+import {
+  KIOSK_DEVICE_ID_PATTERN,
+  MAX_DEVICE_VERSION_LENGTH,
+  toDeviceDirective,
+  withoutExpiredDevices,
+} from "@/lib/kioskDevices";
+import { getAccessKeyDenial } from "@/lib/accessKeys";
+
+// Registration happens once per page load; a store's kiosks share one IP,
+// but more than this is a loop or abuse. Keyed by IP: device ids are chosen
+// by the client.
+const registerLimiter = createRateLimiter({ limit: 30, windowMs: 10 * 60 * 1000 });
+
+export async function POST(request: Request) {
+  let body: Record<string, unknown>;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const { deviceId, accessKeyId, version } = body ?? {};
+  if (typeof deviceId !== "string" || !KIOSK_DEVICE_ID_PATTERN.test(deviceId)) {
+    return NextResponse.json({ error: "Invalid deviceId" }, { status: 400 });
+  }
+  if (typeof accessKeyId !== "string" || typeof version !== "string" || !version) {
+    return NextResponse.json(
+      { error: "accessKeyId and version are required" },
+      { status: 400 }
+    );
+  }
+  if (version.length > MAX_DEVICE_VERSION_LENGTH) {
+    return NextResponse.json(
+      { error: `version must be at most ${MAX_DEVICE_VERSION_LENGTH} characters` },
+      { status: 400 }
+    );
+  }
+
+  const limit = registerLimiter.check(getClientIp(request));
+  if (!limit.allowed) {
+    return NextResponse.json(
+      { error: "Too many registrations" },
+      { status: 429, headers: { "Retry-After": String(limit.retryAfterSeconds) } }
+    );
+  }
+
+  try {
+    const { keys } = await accessKeysRepository.read();
+    // The page load that registers has already counted towards maxVisits,
+    // so a key on its last visit still registers
+    const denial = getAccessKeyDenial(keys.find((key) => key.id === accessKeyId));
+    if (denial && denial !== "exhausted") {
+      return NextResponse.json({ error: "Unknown, inactive or expired access key" }, { status: 403 });
+    }
+
+    const now = new Date().toISOString();
+    const userAgent = request.headers.get("user-agent")?.slice(0, 300) || undefined;
+    let device: KioskDevice | undefined;
+
+    await devicesRepository.update((dataset) => {
+      const existing = dataset.devices.find((d) => d.id === deviceId);
+      device = existing
+        ? { ...existing, accessKeyId, version, userAgent, lastSeenAt: now }
+        : {
+            id: deviceId,
+            accessKeyId,
+            registeredAt: now,
+            lastSeenAt: now,
+            version,
+            userAgent,
+            errorCount: 0,
+            recentErrors: [],
+            config: {},
+            configRevision: 0,
+          };
+      const others = dataset.devices.filter((d) => d.id !== deviceId);
+      return {
+        ...dataset,
+        devices: [...withoutExpiredDevices(others), device],
+      };
+    });
+
+    return NextResponse.json(toDeviceDirective(device!));
+  } catch (error) {
+    console.error("Failed to register device:", error);
+    return NextResponse.json({ error: "Failed to register device" }, { status: 500 });
+  }
+}
@@ -2,7 +2,7 @@ import { NextResponse } from "next/server";
 import { getDoseConfig } from "@/data/strainData";
 
 export async function GET() {
-  const { order, config } = getDoseConfig();
+  const { order, config } = await getDoseConfig();
 
   return NextResponse.json({
     order,
@@ -1,28 +1,33 @@
 import { NextResponse } from "next/server";
-import { promises as fs } from "fs";
-import path from "path";
-import type { FeedbackEntry, FeedbackDataset, AxisExperienceScores, TraitAxisId, DoseKey } from "@/lib/types";
+import type {
+  FeedbackEntry,
+  FeedbackQuarantineReason,
+  AxisExperienceScores,
+  TraitAxisId,
+  DoseKey,
+} from "@/lib/types";
 import { getStrainDoseData, getTraitAxes } from "@/data/strainData";
+import { accessKeysRepository, feedbackRepository } from "@/lib/storage";
+import { getProductById } from "@/lib/productData";
+import { createRateLimiter, getClientIp } from "@/lib/rateLimit";
+import { recordAccessEvent } from "@/lib/accessEvents";
+import { getAccessKeyDenial } from "@/lib/accessKeys";
+import {
+  FEEDBACK_HONEYPOT_FIELD,
+  FEEDBACK_LIMITS,
+  checkFeedbackLimits,
+  appendToQuarantine,
+  findDuplicateFeedback,
+  findSubmission,
+} from "@/lib/feedbackGuard";
 
-const DATA_FILE = path.join(process.cwd(), "data", "feedback.json");
-const VALID_AXES = new Set<TraitAxisId>(["visuals", "euphoria", "introspection", "creativity", "spiritual_depth", "sociability"]);
+// Free-text product names are stored as-is, so keep them short
+const MAX_OTHER_PRODUCT_NAME_LENGTH = 120;
 
-async function loadFeedback(): Promise<FeedbackDataset> {
-  try {
-    const raw = await fs.readFile(DATA_FILE, "utf8");
-    const data = JSON.parse(raw) as FeedbackDataset;
-    if (!data || !Array.isArray(data.entries)) {
-      return { entries: [] };
-    }
-    return data;
-  } catch {
-    return { entries: [] };
-  }
-}
-
-async function saveFeedback(dataset: FeedbackDataset): Promise<void> {
-  await fs.writeFile(DATA_FILE, JSON.stringify(dataset, null, 2), "utf8");
-}
+// Kiosks in one store share a public IP, so the per-IP limit is the looser one
+const RATE_LIMIT_WINDOW_MS = 10 * 60 * 1000;
+const ipLimiter = createRateLimiter({ limit: 30, windowMs: RATE_LIMIT_WINDOW_MS });
+const deviceLimiter = createRateLimiter({ limit: 5, windowMs: RATE_LIMIT_WINDOW_MS });
 
 function generateId(): string {
   return `fb-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
@@ -43,6 +48,10 @@ function isValidFeedbackEntry(obj: unknown): obj is Partial<FeedbackEntry> {
   if (entry.contact !== undefined && typeof entry.contact !== "string") return false;
   if (entry.bestFor !== undefined && !Array.isArray(entry.bestFor)) return false;
   if (entry.setting !== undefined && !Array.isArray(entry.setting)) return false;
+  if (entry.productId !== undefined && typeof entry.productId !== "string") return false;
+  if (entry.otherProductName !== undefined && typeof entry.otherProductName !== "string") return false;
+  if (entry.deviceId !== undefined && typeof entry.deviceId !== "string") return false;
+  if (entry.submissionId !== undefined && typeof entry.submissionId !== "string") return false;
   // feltAxes is optional object
   if (entry.feltAxes !== undefined && typeof entry.feltAxes !== "object") return false;
   
@@ -51,16 +60,16 @@ function isValidFeedbackEntry(obj: unknown): obj is Partial<FeedbackEntry> {
 
 /**
  * Parse and validate feltAxes from request body.
- * Clamps values to 0-10 range.
+ * Only axes in the current dataset are kept; values are clamped to 0-10.
  */
-function parseFeltAxes(raw: unknown): AxisExperienceScores | undefined {
+function parseFeltAxes(raw: unknown, axes: TraitAxisId[]): AxisExperienceScores | undefined {
   if (!raw || typeof raw !== "object") return undefined;
   
   const result: AxisExperienceScores = {};
   const input = raw as Record<string, unknown>;
   
   for (const [key, value] of Object.entries(input)) {
-    if (!VALID_AXES.has(key as TraitAxisId)) continue;
+    if (!axes.includes(key)) continue;
     if (typeof value !== "number") continue;
     // Clamp to 0-10 range
     result[key as TraitAxisId] = Math.max(0, Math.min(10, Math.round(value)));
@@ -73,14 +82,14 @@ function parseFeltAxes(raw: unknown): AxisExperienceScores | undefined {
  * Compute expected axis scores from strain/dose data.
  * Returns scores scaled to 0-10 from the radar's 0-100 scale.
  */
-function computeExpectedAxes(strainId: string | undefined, doseKey: string | undefined): AxisExperienceScores | undefined {
+async function computeExpectedAxes(strainId: string | undefined, doseKey: string | undefined): Promise<AxisExperienceScores | undefined> {
   if (!strainId || !doseKey) return undefined;
   
   try {
-    const data = getStrainDoseData(strainId, doseKey as DoseKey);
+    const data = await getStrainDoseData(strainId, doseKey as DoseKey);
     if (!data) return undefined;
     
-    const axes = getTraitAxes();
+    const axes = await getTraitAxes();
     const result: AxisExperienceScores = {};
     
     for (const axis of axes) {
@@ -97,14 +106,67 @@ function computeExpectedAxes(strainId: string | undefined, doseKey: string | und
   }
 }
 
-export async function GET() {
-  const dataset = await loadFeedback();
-  return NextResponse.json(dataset);
+/**
+ * Resolve product attribution. A catalog productId wins; ids that no longer
+ * exist are dropped. Otherwise the free-text name is kept, trimmed.
+ */
+async function parseProductAttribution(
+  productId: string | undefined,
+  otherProductName: string | undefined
+): Promise<Pick<FeedbackEntry, "productId" | "otherProductName">> {
+  if (productId && (await getProductById(productId))) {
+    return { productId };
+  }
+  const name = otherProductName?.trim().slice(0, MAX_OTHER_PRODUCT_NAME_LENGTH);
+  return name ? { otherProductName: name } : {};
+}
+
+/**
+ * The submitted access key id, kept only when it names a known, active key,
+ * so a made-up or retired id can't be stored or inflate a funnel. Capped keys
+ * still count: visitors admitted before the cap can still leave feedback.
+ */
+async function resolveAccessKeyId(accessKeyId: string | undefined): Promise<string | undefined> {
+  if (!accessKeyId) return undefined;
+  const { keys } = await accessKeysRepository.read();
+  const denial = getAccessKeyDenial(keys.find((key) => key.id === accessKeyId));
+  return denial === null || denial === "exhausted" ? accessKeyId : undefined;
+}
+
+function tooManyRequests(retryAfterSeconds: number) {
+  return NextResponse.json(
+    { error: "Too many submissions. Please try again later." },
+    { status: 429, headers: { "Retry-After": String(retryAfterSeconds) } }
+  );
+}
+
+// Any value in the hidden honeypot input marks the submission as a bot
+function hasHoneypotValue(body: Record<string, unknown>): boolean {
+  const value = body[FEEDBACK_HONEYPOT_FIELD];
+  return typeof value === "string" ? value.trim() !== "" : value != null;
+}
+
+// Quarantine is not revealed to the submitter
+function toSubmitterEntry(entry: FeedbackEntry): FeedbackEntry {
+  const { quarantineReason: _reason, ...rest } = entry;
+  void _reason;
+  return rest;
 }
 
 export async function POST(request: Request) {
   try {
-    const body = await request.json();
+    const clientIp = getClientIp(request);
+    const ipLimit = ipLimiter.check(clientIp);
+    if (!ipLimit.allowed) return tooManyRequests(ipLimit.retryAfterSeconds);
+
+    const raw = await request.text();
+    if (Buffer.byteLength(raw, "utf8") > FEEDBACK_LIMITS.bodyBytes) {
+      return NextResponse.json(
+        { error: "Feedback submission is too large" },
+        { status: 413 }
+      );
+    }
+    const body = JSON.parse(raw);
     
     if (!isValidFeedbackEntry(body)) {
       return NextResponse.json(
@@ -113,19 +175,34 @@ export async function POST(request: Request) {
       );
     }
 
-    const dataset = await loadFeedback();
-    
+    const limitError = checkFeedbackLimits(body);
+    if (limitError) {
+      return NextResponse.json({ error: limitError }, { status: 400 });
+    }
+
+    // A retry of a stored submission gets the stored entry back
+    const previous = findSubmission(await feedbackRepository.read(), body.submissionId);
+    if (previous) {
+      return NextResponse.json(toSubmitterEntry(previous), { status: 200 });
+    }
+
+    // Submissions without a device id share one device budget per IP
+    const deviceLimit = deviceLimiter.check(body.deviceId || `ip:${clientIp}`);
+    if (!deviceLimit.allowed) return tooManyRequests(deviceLimit.retryAfterSeconds);
+
     // Parse felt axes from request
-    const feltAxes = parseFeltAxes(body.feltAxes);
+    const feltAxes = parseFeltAxes(body.feltAxes, await getTraitAxes());
     
     // Compute expected axes from strain/dose data
-    const expectedAxes = computeExpectedAxes(body.strainId, body.doseKey);
+    const expectedAxes = await computeExpectedAxes(body.strainId, body.doseKey);
+
+    const product = await parseProductAttribution(body.productId, body.otherProductName);
     
     const newEntry: FeedbackEntry = {
       id: generateId(),
       strainId: body.strainId,
       doseKey: body.doseKey,
-      accessKeyId: body.accessKeyId,
+      accessKeyId: await resolveAccessKeyId(body.accessKeyId),
       ctaKey: body.ctaKey,
       overallExperience: body.overallExperience,
       intensityRating: body.intensityRating,
@@ -133,16 +210,57 @@ export async function POST(request: Request) {
       bestFor: body.bestFor,
       setting: body.setting,
       contact: body.contact,
+      deviceId: body.deviceId,
+      submissionId: body.submissionId,
+      ...product,
       createdAt: new Date().toISOString(),
       // Include axis data if available
       ...(feltAxes && { feltAxes }),
       ...(expectedAxes && { expectedAxes }),
     };
 
-    dataset.entries.push(newEntry);
-    await saveFeedback(dataset);
+    const honeypot = hasHoneypotValue(body as Record<string, unknown>);
+
+    // Append under the feedback lock so simultaneous submissions both land.
+    // Suspect entries go to quarantine; the response is the same either way.
+    let stored = newEntry;
+    let quarantined = false;
+    await feedbackRepository.update((dataset) => {
+      // Re-checked under the lock: a concurrent retry may have just landed
+      const existing = findSubmission(dataset, newEntry.submissionId);
+      if (existing) {
+        stored = existing;
+        return dataset;
+      }
+      const quarantine = dataset.quarantine ?? [];
+      const reason: FeedbackQuarantineReason | undefined = honeypot
+        ? "honeypot"
+        : findDuplicateFeedback([...dataset.entries, ...quarantine], newEntry)
+          ? "duplicate"
+          : undefined;
+      if (reason) {
+        quarantined = true;
+        return {
+          ...dataset,
+          quarantine: appendToQuarantine(quarantine, { ...newEntry, quarantineReason: reason }),
+        };
+      }
+      return { ...dataset, entries: [...dataset.entries, newEntry] };
+    });
+
+    // Completes the access key funnel; quarantined entries count if released
+    if (stored === newEntry && !quarantined && newEntry.accessKeyId) {
+      await recordAccessEvent({
+        type: "feedback",
+        accessKeyId: newEntry.accessKeyId,
+        strainId: newEntry.strainId,
+        doseKey: newEntry.doseKey,
+      });
+    }
 
-    return NextResponse.json(newEntry, { status: 201 });
+    return NextResponse.json(toSubmitterEntry(stored), {
+      status: stored === newEntry ? 201 : 200,
+    });
   } catch (error) {
     console.error("Failed to save feedback:", error);
     return NextResponse.json(
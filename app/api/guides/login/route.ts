@@ -1,8 +1,8 @@
 /**
  * Guide Login API
- * 
- * PROTOTYPE-ONLY AUTH: Simple username/password login for the Guides portal.
- * Should be replaced with proper auth before production.
+ *
+ * Username/password sign-in for the Guides portal and /admin. Sets the
+ * signed session cookie from lib/guideSession.ts.
  */
 
 import { NextRequest, NextResponse } from "next/server";
@@ -22,7 +22,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Find the guide
-    const guide = getGuideByUsername(username);
+    const guide = await getGuideByUsername(username);
     if (!guide) {
       return NextResponse.json(
         { ok: false, error: "Invalid username or password" },
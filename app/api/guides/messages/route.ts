@@ -6,25 +6,8 @@
  */
 
 import { NextRequest, NextResponse } from "next/server";
-import { promises as fs } from "fs";
-import path from "path";
 import { getGuideFromRequest } from "@/lib/guideSession";
-import type { GuideMessageDataset } from "@/lib/types";
-
-const DATA_PATH = path.join(process.cwd(), "data", "guideMessages.json");
-
-async function loadMessages(): Promise<GuideMessageDataset> {
-  try {
-    const raw = await fs.readFile(DATA_PATH, "utf8");
-    return JSON.parse(raw) as GuideMessageDataset;
-  } catch {
-    return { messages: [] };
-  }
-}
-
-async function saveMessages(data: GuideMessageDataset): Promise<void> {
-  await fs.writeFile(DATA_PATH, JSON.stringify(data, null, 2), "utf8");
-}
+import { guideMessagesRepository } from "@/lib/storage";
 
 export async function GET(request: NextRequest) {
   const guide = await getGuideFromRequest(request);
@@ -36,7 +19,7 @@ export async function GET(request: NextRequest) {
     );
   }
 
-  const data = await loadMessages();
+  const data = await guideMessagesRepository.read();
 
   // Filter messages for this guide (personal or broadcast)
   const myMessages = data.messages
@@ -73,22 +56,26 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const data = await loadMessages();
-    const message = data.messages.find((m) => m.id === messageId);
-
-    if (!message) {
+    let found = false;
+    await guideMessagesRepository.update((data) => ({
+      ...data,
+      messages: data.messages.map((m) => {
+        if (m.id !== messageId) return m;
+        found = true;
+        // Mark as read if not already
+        return m.readBy.includes(guide.id)
+          ? m
+          : { ...m, readBy: [...m.readBy, guide.id] };
+      }),
+    }));
+
+    if (!found) {
       return NextResponse.json(
         { error: "Message not found" },
         { status: 404 }
       );
     }
 
-    // Mark as read if not already
-    if (!message.readBy.includes(guide.id)) {
-      message.readBy.push(guide.id);
-      await saveMessages(data);
-    }
-
     return NextResponse.json({ ok: true });
   } catch (error) {
     console.error("Failed to mark message as read:", error);
@@ -0,0 +1,87 @@
+import { NextResponse } from "next/server";
+import {
+  getIntentionTags,
+  getStrainRecommendations,
+  getTraitAxes,
+  getTraitAxisDefinitions,
+} from "@/data/strainData";
+import type { RecommendationRequest, TraitAxisId } from "@/lib/types";
+
+/**
+ * GET: axes and intention tags for the "Find my strain" picker
+ */
+export async function GET() {
+  const [axes, intentions] = await Promise.all([
+    getTraitAxisDefinitions(),
+    getIntentionTags(),
+  ]);
+  return NextResponse.json({ axes, intentions });
+}
+
+/**
+ * Parse and validate a recommendation request body.
+ * Clamps target levels to the 0-100 radar scale.
+ */
+function parseRecommendationRequest(
+  raw: unknown,
+  axes: TraitAxisId[]
+): RecommendationRequest | null {
+  if (!raw || typeof raw !== "object") return null;
+  const body = raw as Record<string, unknown>;
+
+  const targets: RecommendationRequest["targets"] = {};
+  if (body.targets !== undefined) {
+    if (!body.targets || typeof body.targets !== "object") return null;
+    for (const [key, value] of Object.entries(body.targets as Record<string, unknown>)) {
+      if (!axes.includes(key as TraitAxisId)) continue;
+      if (typeof value !== "number" || !Number.isFinite(value)) continue;
+      targets[key as TraitAxisId] = Math.max(0, Math.min(100, value));
+    }
+  }
+
+  if (body.intentions !== undefined && !Array.isArray(body.intentions)) return null;
+  const intentions = ((body.intentions as unknown[]) ?? []).filter(
+    (tag): tag is string => typeof tag === "string" && tag.trim().length > 0
+  );
+
+  if (body.limit !== undefined && typeof body.limit !== "number") return null;
+
+  return {
+    targets,
+    intentions,
+    limit: body.limit as number | undefined,
+  };
+}
+
+/**
+ * POST: rank strain+dose combinations for { targets, intentions, limit? }
+ */
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const parsed = parseRecommendationRequest(body, await getTraitAxes());
+
+    if (!parsed) {
+      return NextResponse.json(
+        { error: "Invalid request body: expected { targets, intentions }" },
+        { status: 400 }
+      );
+    }
+
+    if (Object.keys(parsed.targets).length === 0 && parsed.intentions.length === 0) {
+      return NextResponse.json(
+        { error: "Set at least one axis target or intention" },
+        { status: 400 }
+      );
+    }
+
+    const results = await getStrainRecommendations(parsed);
+    return NextResponse.json({ results });
+  } catch (error) {
+    console.error("Failed to rank recommendations:", error);
+    return NextResponse.json(
+      { error: "Failed to rank recommendations" },
+      { status: 500 }
+    );
+  }
+}
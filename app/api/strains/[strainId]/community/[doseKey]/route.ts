@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server";
+import { feedbackRepository } from "@/lib/storage";
+import { getDoseConfig } from "@/data/strainData";
+import { aggregateCommunityRadar, MIN_COMMUNITY_SAMPLES } from "@/lib/communityRadar";
+
+type RouteParams = {
+  params: Promise<{
+    strainId: string;
+    doseKey: string;
+  }>;
+};
+
+/**
+ * Community radar for a strain+dose, aggregated from feedback feltAxes.
+ * `values` only holds axes with at least `minSamples` responses.
+ */
+export async function GET(_request: Request, { params }: RouteParams) {
+  const { strainId, doseKey } = await params;
+
+  const { order } = await getDoseConfig();
+  if (!order.includes(doseKey)) {
+    return NextResponse.json(
+      { error: `Invalid dose key: ${doseKey}` },
+      { status: 400 }
+    );
+  }
+
+  const { entries } = await feedbackRepository.read();
+  const radar = aggregateCommunityRadar(entries, strainId, doseKey);
+
+  return NextResponse.json({ ...radar, minSamples: MIN_COMMUNITY_SAMPLES });
+}
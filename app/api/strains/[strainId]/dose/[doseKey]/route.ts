@@ -1,6 +1,8 @@
 import { NextResponse } from "next/server";
-import { getStrainDoseData } from "@/data/strainData";
-import type { DoseKey } from "@/lib/types";
+import { getDoseConfig, getStrainDoseData } from "@/data/strainData";
+import { getProductsForStrainAndDose } from "@/lib/productData";
+import { accessKeysRepository } from "@/lib/storage";
+import { getAccessKeyDenial } from "@/lib/accessKeys";
 
 type RouteParams = {
   params: Promise<{
@@ -9,19 +11,31 @@ type RouteParams = {
   }>;
 };
 
-export async function GET(_request: Request, { params }: RouteParams) {
+// Partner of the kiosk's access key (?key=), whose own products are listed
+// alongside the global ones. Inactive or expired keys list none; capped keys
+// still do, for kiosks admitted before the cap was reached.
+async function resolvePartnerId(request: Request): Promise<string | undefined> {
+  const keyId = new URL(request.url).searchParams.get("key");
+  if (!keyId) return undefined;
+  const { keys } = await accessKeysRepository.read();
+  const key = keys.find((k) => k.id === keyId);
+  const denial = getAccessKeyDenial(key);
+  return denial === null || denial === "exhausted" ? key?.partnerId : undefined;
+}
+
+export async function GET(request: Request, { params }: RouteParams) {
   const { strainId, doseKey } = await params;
 
-  // Validate doseKey is a valid DoseKey
-  const validDoseKeys: DoseKey[] = ["micro", "mini", "macro", "museum", "mega", "hero"];
-  if (!validDoseKeys.includes(doseKey as DoseKey)) {
+  // Validate doseKey against the dataset's tiers
+  const { order } = await getDoseConfig();
+  if (!order.includes(doseKey)) {
     return NextResponse.json(
       { error: `Invalid dose key: ${doseKey}` },
       { status: 400 }
     );
   }
 
-  const result = getStrainDoseData(strainId, doseKey as DoseKey);
+  const result = await getStrainDoseData(strainId, doseKey);
 
   if (!result) {
     return NextResponse.json(
@@ -38,12 +52,19 @@ export async function GET(_request: Request, { params }: RouteParams) {
     colorHex: result.strain.colorHex,
     grams: result.doseInfo.grams ?? null,
     axes: result.axes,
+    axisDefinitions: result.axisDefinitions,
     doseLabel: result.doseInfo.label,
     accentHex: result.accentHex,
     meta: result.meta,
     snapshot: result.snapshot,
     testimonials: result.testimonialsForDose,
     experienceMeta: result.experienceMeta,
+    // Catalog products for the "where to buy" list in the details panel
+    matchingProducts: await getProductsForStrainAndDose(
+      strainId,
+      doseKey,
+      await resolvePartnerId(request)
+    ),
   };
 
   return NextResponse.json(payload);
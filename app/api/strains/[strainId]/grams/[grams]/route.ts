@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server";
+import { getStrainDataAtGrams } from "@/data/strainData";
+
+type RouteParams = {
+  params: Promise<{
+    strainId: string;
+    grams: string;
+  }>;
+};
+
+export async function GET(_request: Request, { params }: RouteParams) {
+  const { strainId, grams: gramsParam } = await params;
+
+  const grams = Number(gramsParam);
+  if (!gramsParam.trim() || !Number.isFinite(grams) || grams < 0) {
+    return NextResponse.json(
+      { error: `Invalid gram amount: ${gramsParam}` },
+      { status: 400 }
+    );
+  }
+
+  const result = await getStrainDataAtGrams(strainId, grams);
+
+  if (!result) {
+    return NextResponse.json(
+      { error: `Strain "${strainId}" not found` },
+      { status: 404 }
+    );
+  }
+
+  const { nearest, blend } = result;
+
+  // Same shape as the per-tier dose route, with interpolated traits/timeline
+  // and the nearest tier's text content
+  const payload = {
+    traits: result.traits,
+    content: nearest.doseData.content,
+    strainName: result.strain.name,
+    colorHex: result.strain.colorHex,
+    grams: blend.grams,
+    axes: result.axes,
+    doseLabel: nearest.doseInfo.label,
+    accentHex: nearest.accentHex,
+    meta: nearest.meta,
+    snapshot: nearest.snapshot,
+    testimonials: nearest.testimonialsForDose,
+    experienceMeta: nearest.experienceMeta && result.timeline
+      ? { ...nearest.experienceMeta, timeline: result.timeline }
+      : nearest.experienceMeta,
+    blend,
+  };
+
+  return NextResponse.json(payload);
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getStrainComparison } from "@/data/strainData";
+import {
+  MAX_COMPARISON_SELECTIONS,
+  MIN_COMPARISON_SELECTIONS,
+  parseComparisonSelections,
+} from "@/lib/strainComparison";
+
+/**
+ * GET /api/strains/compare?items=golden-teacher:macro,penis-envy:macro
+ *
+ * Compares two or three strain+dose selections.
+ */
+export async function GET(request: NextRequest) {
+  const selections = parseComparisonSelections(
+    request.nextUrl.searchParams.get("items") ?? ""
+  );
+
+  if (
+    selections.length < MIN_COMPARISON_SELECTIONS ||
+    selections.length > MAX_COMPARISON_SELECTIONS
+  ) {
+    return NextResponse.json(
+      {
+        error: `Expected ${MIN_COMPARISON_SELECTIONS}-${MAX_COMPARISON_SELECTIONS} items as strainId:doseKey`,
+      },
+      { status: 400 }
+    );
+  }
+
+  const result = await getStrainComparison(selections);
+
+  if (!result) {
+    return NextResponse.json(
+      { error: "One or more strain/dose selections were not found" },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json(result);
+}
@@ -2,15 +2,21 @@
 
 import { useRef, useMemo, useState, useEffect, useCallback, type MouseEvent, type TouchEvent } from "react";
 import type { DoseKey } from "@/lib/types";
+import { DEFAULT_DOSE_ORDER } from "@/lib/doseTiers";
 
 type ApothecaryDoseMeterProps = {
   doseKey: DoseKey;
+  // Dataset tiers in slider order
+  doseOrder?: DoseKey[];
   strainName: string;
   onChangeDoseKey?: (dose: DoseKey) => void;
+  // Continuous mode: the thumb glides between tiers instead of snapping.
+  // `position` is a fractional tier index (0 = first tier … last index = last tier).
+  continuous?: boolean;
+  position?: number;
+  onChangePosition?: (position: number) => void;
 };
 
-const DOSE_ORDER: DoseKey[] = ["micro", "mini", "macro", "museum", "mega", "hero"];
-
 // SVG dimensions - wider aspect ratio, no labels
 const WIDTH = 500;
 const HEIGHT = 44;
@@ -24,12 +30,20 @@ const THUMB_RADIUS = 10;
 
 export function ApothecaryDoseMeter({
   doseKey,
+  doseOrder = DEFAULT_DOSE_ORDER,
   strainName,
   onChangeDoseKey,
+  continuous = false,
+  position,
+  onChangePosition,
 }: ApothecaryDoseMeterProps) {
   const svgRef = useRef<SVGSVGElement>(null);
   const [isDragging, setIsDragging] = useState(false);
-  const currentIndex = DOSE_ORDER.indexOf(doseKey);
+  const currentIndex = doseOrder.indexOf(doseKey);
+  // Track spacing between ticks; a single tier sits at the start
+  const segmentWidth = TRACK_WIDTH / Math.max(1, doseOrder.length - 1);
+  const isContinuous = continuous && position !== undefined && !!onChangePosition;
+  const currentPosition = isContinuous ? position : currentIndex;
 
   // Strain-specific tint colors
   const strainTint = useMemo(() => {
@@ -51,8 +65,8 @@ export function ApothecaryDoseMeter({
   const trackBg = "#e8dcc4";
   const trackBorder = "#c4b393";
 
-  // Convert client X position to dose index
-  const getDoseIndexFromClientX = useCallback((clientX: number): number => {
+  // Convert client X position to a fractional dose position (0 to last index)
+  const getDosePositionFromClientX = useCallback((clientX: number): number => {
     if (!svgRef.current) return currentIndex;
 
     const rect = svgRef.current.getBoundingClientRect();
@@ -61,22 +75,26 @@ export function ApothecaryDoseMeter({
     const scaledX = x * scaleX;
 
     const relativeX = scaledX - X_START;
-    const segmentWidth = TRACK_WIDTH / (DOSE_ORDER.length - 1);
-    const newIndex = Math.round(relativeX / segmentWidth);
-    return Math.max(0, Math.min(DOSE_ORDER.length - 1, newIndex));
-  }, [currentIndex]);
+    return Math.max(0, Math.min(doseOrder.length - 1, relativeX / segmentWidth));
+  }, [currentIndex, doseOrder.length, segmentWidth]);
 
   // Update dose from position
   const updateDoseFromPosition = useCallback((clientX: number) => {
+    const newPosition = getDosePositionFromClientX(clientX);
+
+    if (isContinuous) {
+      onChangePosition?.(newPosition);
+      return;
+    }
+
     if (!onChangeDoseKey) return;
 
-    const newIndex = getDoseIndexFromClientX(clientX);
-    const newDoseKey = DOSE_ORDER[newIndex];
+    const newDoseKey = doseOrder[Math.round(newPosition)];
 
     if (newDoseKey && newDoseKey !== doseKey) {
       onChangeDoseKey(newDoseKey);
     }
-  }, [doseKey, getDoseIndexFromClientX, onChangeDoseKey]);
+  }, [doseKey, doseOrder, getDosePositionFromClientX, isContinuous, onChangeDoseKey, onChangePosition]);
 
   // Handle click on track to change dose
   const handleClick = (e: MouseEvent<SVGSVGElement>) => {
@@ -139,7 +157,7 @@ export function ApothecaryDoseMeter({
   }, [isDragging, updateDoseFromPosition]);
 
   // Calculate thumb position
-  const thumbX = X_START + (TRACK_WIDTH / (DOSE_ORDER.length - 1)) * currentIndex;
+  const thumbX = X_START + segmentWidth * currentPosition;
 
   return (
     <div className="w-full touch-none">
@@ -151,9 +169,9 @@ export function ApothecaryDoseMeter({
         role="slider"
         aria-label="Dose level selector"
         aria-valuemin={0}
-        aria-valuemax={5}
-        aria-valuenow={currentIndex}
-        aria-valuetext={DOSE_ORDER[currentIndex]}
+        aria-valuemax={doseOrder.length - 1}
+        aria-valuenow={currentPosition}
+        aria-valuetext={doseOrder[currentIndex]}
       >
         {/* Defs for gradients and filters */}
         <defs>
@@ -207,8 +225,8 @@ export function ApothecaryDoseMeter({
         />
 
         {/* Tick marks */}
-        {DOSE_ORDER.map((_, idx) => {
-          const tickX = X_START + (TRACK_WIDTH / (DOSE_ORDER.length - 1)) * idx;
+        {doseOrder.map((_, idx) => {
+          const tickX = X_START + segmentWidth * idx;
           const isActive = idx === currentIndex;
           const tickH = isActive ? TICK_HEIGHT + 2 : TICK_HEIGHT;
           const tickW = isActive ? 2.5 : 2;
@@ -0,0 +1,219 @@
+"use client";
+
+// =============================================================================
+// ATTRACT LOOP - Idle kiosk screensaver
+// =============================================================================
+// Full-screen loop shown after the kiosk sits idle. Steps through strains and
+// dose tiers on the animated spore radar until someone touches the screen.
+//
+// Sequences:
+// - "cycle":  every strain at one dose, then every strain at the next dose
+// - "cosmic": the COSMIC_PHASES sequence, walked with a CosmicThemePhaseMachine.
+//             A phase's highlightStrain picks the strain (others rotate), its
+//             polygonEnergyBias picks the dose tier and radar intensity, its
+//             haloRotationBiasDeg spins the radar, and its messageId supplies
+//             the caption.
+// =============================================================================
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import type {
+  DoseConfigMap,
+  DoseKey,
+  Strain,
+  TraitAxisDefinition,
+  TraitAxisId,
+} from "@/lib/types";
+import { resolveDoseStyle } from "@/lib/doseTiers";
+import { TRIPDAR_PRESET } from "@/lib/tripdarPreset";
+import { TripdarSporeRadar } from "./TripdarSporeRadar";
+import { createPhaseMachine } from "@/app/cosmic-theme/CosmicThemePhaseMachine";
+import { COSMIC_PHASES, type CosmicPhaseId } from "@/app/cosmic-theme/config/cosmicThemePhases";
+import { getCosmicMessage } from "@/app/cosmic-theme/CosmicThemeMessages";
+
+export type AttractSequence = "cycle" | "cosmic";
+
+type AttractLoopProps = {
+  strains: Strain[];
+  doseOrder: DoseKey[];
+  doseConfig: DoseConfigMap;
+  sequence: AttractSequence;
+  // Called on the first touch, key press or click
+  onExit: () => void;
+};
+
+type AttractStep = {
+  strainId: string;
+  doseKey: DoseKey;
+  caption?: string;
+  intensity: number;
+  spinAngle: number;
+};
+
+// The fields of /api/strains/[strainId]/dose/[doseKey] the loop draws
+type AttractPayload = {
+  axes: Record<TraitAxisId, number>;
+  strainName: string;
+  colorHex: string;
+  accentHex?: string;
+  doseLabel?: string;
+  axisDefinitions?: TraitAxisDefinition[];
+};
+
+// How long each strain/dose stays on screen
+const STEP_MS = 7000;
+
+function buildCycleSteps(strains: Strain[], doseOrder: DoseKey[]): AttractStep[] {
+  return doseOrder.flatMap((doseKey) =>
+    strains.map((strain) => ({
+      strainId: strain.id,
+      doseKey,
+      intensity: TRIPDAR_PRESET.intensity,
+      spinAngle: 60,
+    }))
+  );
+}
+
+function buildCosmicSteps(strains: Strain[], doseOrder: DoseKey[]): AttractStep[] {
+  const machine = createPhaseMachine();
+  return (Object.keys(COSMIC_PHASES) as CosmicPhaseId[]).map((phaseId, index) => {
+    machine.setPhase(phaseId);
+    const { polygonEnergyBias, haloRotationBiasDeg } = machine.getAnimationContext();
+    const highlighted = machine.getHighlightStrain();
+    const strainId =
+      highlighted && strains.some((s) => s.id === highlighted)
+        ? highlighted
+        : strains[index % strains.length].id;
+    const messageId = machine.getMessageId();
+    return {
+      strainId,
+      doseKey: doseOrder[Math.round(polygonEnergyBias * (doseOrder.length - 1))],
+      caption: messageId ? getCosmicMessage(messageId)?.title : undefined,
+      intensity: polygonEnergyBias,
+      // Exaggerated so the small per-phase bias reads as motion
+      spinAngle: haloRotationBiasDeg * 6 || 45,
+    };
+  });
+}
+
+export function AttractLoop({
+  strains,
+  doseOrder,
+  doseConfig,
+  sequence,
+  onExit,
+}: AttractLoopProps) {
+  const steps = useMemo(
+    () =>
+      strains.length === 0 || doseOrder.length === 0
+        ? []
+        : sequence === "cosmic"
+          ? buildCosmicSteps(strains, doseOrder)
+          : buildCycleSteps(strains, doseOrder),
+    [strains, doseOrder, sequence]
+  );
+  const [stepIndex, setStepIndex] = useState(0);
+  const [payload, setPayload] = useState<AttractPayload | null>(null);
+  const cacheRef = useRef<Record<string, AttractPayload>>({});
+  const step = steps.length ? steps[stepIndex % steps.length] : null;
+
+  useEffect(() => {
+    const timer = setInterval(() => setStepIndex((i) => i + 1), STEP_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Fetch the step's dose payload; the previous radar stays up until it lands
+  useEffect(() => {
+    if (!step) return;
+    const cacheKey = `${step.strainId}:${step.doseKey}`;
+    let cancelled = false;
+    const cached = cacheRef.current[cacheKey];
+    const load = cached
+      ? Promise.resolve(cached)
+      : fetch(`/api/strains/${step.strainId}/dose/${step.doseKey}`)
+          .then((res) => (res.ok ? (res.json() as Promise<AttractPayload>) : null))
+          .then((data) => {
+            if (data) cacheRef.current[cacheKey] = data;
+            return data;
+          });
+    load
+      .then((data) => {
+        if (!cancelled && data) setPayload(data);
+      })
+      .catch(() => {
+        // offline and not cached; skip to the next step on the timer
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [step]);
+
+  // Exit on any interaction; registered on the window so nothing underneath
+  // receives the touch
+  useEffect(() => {
+    const handleExit = (event: Event) => {
+      event.preventDefault();
+      event.stopPropagation();
+      onExit();
+    };
+    window.addEventListener("pointerdown", handleExit, { capture: true });
+    window.addEventListener("keydown", handleExit, { capture: true });
+    return () => {
+      window.removeEventListener("pointerdown", handleExit, { capture: true });
+      window.removeEventListener("keydown", handleExit, { capture: true });
+    };
+  }, [onExit]);
+
+  const color = payload?.accentHex ?? payload?.colorHex ?? "#4a371f";
+
+  return (
+    <div
+      className="fixed inset-0 z-[100] flex flex-col items-center justify-center bg-[var(--shell-bg)] px-6"
+      role="button"
+      aria-label="Touch to explore"
+    >
+      <div
+        className="absolute inset-0 pointer-events-none"
+        style={{
+          backgroundImage: "url('/sunburst-pattern.svg')",
+          backgroundSize: "cover",
+          backgroundPosition: "center",
+          opacity: 0.5,
+        }}
+      />
+
+      <div className="relative z-10 flex w-full max-w-xl flex-col items-center">
+        <p className="h-7 text-center text-lg italic text-[var(--ink-soft)]">
+          {step?.caption ?? " "}
+        </p>
+        <div className="my-4 flex h-[min(70vw,460px)] w-full items-center justify-center">
+          {payload && step ? (
+            <TripdarSporeRadar
+              axes={payload.axes}
+              axisDefinitions={payload.axisDefinitions}
+              strainColor={color}
+              doseStyle={resolveDoseStyle(doseConfig, step.doseKey)}
+              animationPreset={{ speed: TRIPDAR_PRESET.speed, intensity: step.intensity }}
+              showQuadrantRails
+              showVibeCast
+              showCenterMark
+              spinAngle={step.spinAngle}
+              spinKey={stepIndex}
+            />
+          ) : null}
+        </div>
+        <h2 className="text-center text-3xl font-semibold text-[var(--ink-main)]">
+          {payload?.strainName ?? " "}
+        </h2>
+        <p className="mt-1 text-center text-base text-[var(--ink-soft)]">
+          {step ? payload?.doseLabel ?? doseConfig[step.doseKey]?.label ?? step.doseKey : " "}
+        </p>
+        <p
+          className="mt-10 animate-pulse rounded-full px-6 py-2 text-sm font-semibold uppercase tracking-wide text-[#f6eddc]"
+          style={{ backgroundColor: color }}
+        >
+          Touch to explore
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,35 @@
 import Image from "next/image";
+import type { AccessKeyDenial } from "@/lib/types";
 
-export function BetaGate() {
+type BetaGateProps = {
+  // Why the visitor's ?key= was refused; omitted when no key was given
+  reason?: AccessKeyDenial;
+  expiresAt?: string;
+};
+
+function getDenialMessage(reason: AccessKeyDenial | undefined, expiresAt?: string): string | null {
+  switch (reason) {
+    case "expired":
+      return expiresAt
+        ? `This invite link expired on ${new Date(expiresAt).toLocaleDateString("en-US", {
+            year: "numeric",
+            month: "long",
+            day: "numeric",
+          })}.`
+        : "This invite link has expired.";
+    case "exhausted":
+      return "This invite link has reached its visit limit.";
+    case "inactive":
+      return "This invite link is no longer active.";
+    case "unknown":
+      return "We don't recognize this invite link.";
+    default:
+      return null;
+  }
+}
+
+export function BetaGate({ reason, expiresAt }: BetaGateProps) {
+  const denialMessage = getDenialMessage(reason, expiresAt);
   const currentYear = new Date().getFullYear();
 
   return (
@@ -48,6 +77,12 @@ export function BetaGate() {
             Confidential beta – invite only
           </h2>
 
+          {denialMessage && (
+            <p className="text-sm font-medium text-[#9a3412] bg-[#fff7ed] border border-[#fed7aa] rounded-xl px-4 py-2 mb-4">
+              {denialMessage} Ask your Psilly contact for a new link.
+            </p>
+          )}
+
           <p className="text-sm text-[#6b5841] leading-relaxed mb-4">
             Tripdar is part of a private beta program for partners of The Original Psilly. 
             To protect our proprietary Fungapedia methodology and content, access is limited to invited testers.
@@ -0,0 +1,331 @@
+"use client";
+
+// =============================================================================
+// COMPARE PANEL - Strain-vs-strain comparison mode
+// =============================================================================
+// Overlays two or three strain+dose selections on one Tripdar radar, lists
+// per-axis deltas against the first selection, and shows their snapshots
+// (onset, duration, intensity, best for) side by side.
+// Data comes from /api/strains/compare.
+// =============================================================================
+
+import { useEffect, useMemo, useState } from "react";
+import type {
+  ComparisonSelection,
+  DoseConfig,
+  DoseKey,
+  Strain,
+  StrainComparisonResult,
+} from "@/lib/types";
+import { TripdarSporeRadar, type TripdarRadarOverlay } from "./TripdarSporeRadar";
+
+type ComparePanelProps = {
+  strains: Strain[];
+  doseOrder: DoseKey[];
+  doseConfig: Record<DoseKey, DoseConfig>;
+  // The kiosk's current selection becomes the first (baseline) pick
+  initialStrainId: string;
+  initialDoseKey: DoseKey;
+};
+
+const MAX_SELECTIONS = 3;
+
+// Line styles keep overlays apart even when two strains share a color
+const OVERLAY_DASHES = [undefined, "6 4", "2 3"];
+
+function formatDelta(delta: number): string {
+  if (delta === 0) return "±0";
+  return delta > 0 ? `+${delta}` : `−${Math.abs(delta)}`;
+}
+
+function LineSample({ color, dashArray }: { color: string; dashArray?: string }) {
+  return (
+    <svg width="22" height="8" aria-hidden="true" className="flex-shrink-0">
+      <line
+        x1="1"
+        y1="4"
+        x2="21"
+        y2="4"
+        stroke={color}
+        strokeWidth={2.5}
+        strokeDasharray={dashArray}
+        strokeLinecap="round"
+      />
+    </svg>
+  );
+}
+
+export function ComparePanel({
+  strains,
+  doseOrder,
+  doseConfig,
+  initialStrainId,
+  initialDoseKey,
+}: ComparePanelProps) {
+  const [selections, setSelections] = useState<ComparisonSelection[]>(() => {
+    const second =
+      strains.find((s) => s.id !== initialStrainId)?.id ?? initialStrainId;
+    return [
+      { strainId: initialStrainId, doseKey: initialDoseKey },
+      { strainId: second, doseKey: initialDoseKey },
+    ];
+  });
+  const [result, setResult] = useState<StrainComparisonResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const itemsParam = selections
+    .map((s) => `${s.strainId}:${s.doseKey}`)
+    .join(",");
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`/api/strains/compare?items=${encodeURIComponent(itemsParam)}`)
+      .then(async (res) => {
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error ?? `API error: ${res.status}`);
+        return data as StrainComparisonResult;
+      })
+      .then((data) => {
+        if (cancelled) return;
+        setResult(data);
+        setError(null);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        console.error("Failed to load comparison", err);
+        setError("Unable to compare these selections.");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [itemsParam]);
+
+  const overlays = useMemo<TripdarRadarOverlay[]>(
+    () =>
+      result?.entries.map((entry, index) => ({
+        id: `${entry.strain.id}-${entry.doseKey}-${index}`,
+        axes: entry.traits.values,
+        color: entry.accentHex,
+        dashArray: OVERLAY_DASHES[index],
+      })) ?? [],
+    [result]
+  );
+
+  const updateSelection = (index: number, patch: Partial<ComparisonSelection>) => {
+    setSelections((prev) =>
+      prev.map((s, i) => (i === index ? { ...s, ...patch } : s))
+    );
+  };
+
+  const addSelection = () => {
+    setSelections((prev) => {
+      if (prev.length >= MAX_SELECTIONS) return prev;
+      const used = new Set(prev.map((s) => s.strainId));
+      const next = strains.find((s) => !used.has(s.id))?.id ?? prev[0].strainId;
+      return [...prev, { strainId: next, doseKey: prev[0].doseKey }];
+    });
+  };
+
+  const removeSelection = (index: number) => {
+    setSelections((prev) => prev.filter((_, i) => i !== index));
+  };
+
+  const entries = result?.entries ?? [];
+  const base = entries[0];
+
+  return (
+    <div className="flex h-full w-full flex-col overflow-y-auto pr-2">
+      <div className="space-y-4 text-sm leading-relaxed text-[#4c3926] md:pr-1">
+        <section>
+          <h2 className="text-xl font-semibold tracking-wide text-[#3f301f]">
+            Compare strains
+          </h2>
+          <p className="mt-1 text-xs text-[#6b5841]">
+            Pick up to {MAX_SELECTIONS} strains and doses. Differences are shown against the first.
+          </p>
+        </section>
+
+        {/* Selection rows */}
+        <section className="space-y-2">
+          {selections.map((selection, index) => {
+            const entry = entries[index];
+            return (
+              <div
+                key={index}
+                className="flex items-center gap-2 rounded-2xl border border-[#e2d3b5] bg-[#fff9f0] px-3 py-2"
+              >
+                <LineSample
+                  color={entry?.accentHex ?? "#b9a27f"}
+                  dashArray={OVERLAY_DASHES[index]}
+                />
+                <select
+                  value={selection.strainId}
+                  onChange={(e) => updateSelection(index, { strainId: e.target.value })}
+                  className="min-w-0 flex-1 rounded-lg border border-[#d3c3a2] bg-white px-2 py-1 text-sm text-[#3f301f]"
+                >
+                  {strains.map((strain) => (
+                    <option key={strain.id} value={strain.id}>
+                      {strain.name}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  value={selection.doseKey}
+                  onChange={(e) =>
+                    updateSelection(index, { doseKey: e.target.value as DoseKey })
+                  }
+                  className="rounded-lg border border-[#d3c3a2] bg-white px-2 py-1 text-sm text-[#3f301f]"
+                >
+                  {doseOrder.map((key) => (
+                    <option key={key} value={key}>
+                      {doseConfig[key]?.label ?? key}
+                    </option>
+                  ))}
+                </select>
+                {selections.length > 2 ? (
+                  <button
+                    type="button"
+                    onClick={() => removeSelection(index)}
+                    className="px-1 text-[#6b5841] hover:text-[#3f301f]"
+                    aria-label="Remove from comparison"
+                  >
+                    ×
+                  </button>
+                ) : null}
+              </div>
+            );
+          })}
+          {selections.length < MAX_SELECTIONS ? (
+            <button
+              type="button"
+              onClick={addSelection}
+              className="rounded-full border border-dashed border-[#d3c3a2] px-3 py-1 text-xs font-semibold uppercase tracking-wide text-[#6b5841] hover:text-[#3f301f]"
+            >
+              + Add strain
+            </button>
+          ) : null}
+        </section>
+
+        {error ? (
+          <p className="text-sm text-[#6b5841] italic">{error}</p>
+        ) : null}
+
+        {base ? (
+          <>
+            {/* Overlaid radar */}
+            <section className="flex justify-center">
+              <TripdarSporeRadar
+                axes={base.traits.values}
+                axisDefinitions={result?.axisDefinitions}
+                strainColor={base.accentHex}
+                overlays={overlays}
+                showVibeCast={false}
+                compact
+              />
+            </section>
+
+            {/* Per-axis deltas */}
+            <section className="rounded-2xl border border-[#e2d3b5] bg-white/80 p-3 shadow-sm">
+              <table className="w-full text-xs md:text-sm">
+                <thead>
+                  <tr className="text-left text-[0.65rem] uppercase tracking-wide text-[#6b5841]">
+                    <th className="pb-1 font-semibold">Axis</th>
+                    {entries.map((entry, index) => (
+                      <th key={index} className="pb-1 text-right font-semibold">
+                        {entry.strain.name}
+                        <span className="block font-normal normal-case">
+                          {entry.doseLabel}
+                        </span>
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {result?.axisDefinitions.map(({ id: axis, label }) => (
+                    <tr key={axis} className="border-t border-[#f0e6d3]">
+                      <td className="py-1 text-[#3f301f]">{label}</td>
+                      {entries.map((entry, index) => {
+                        const delta = result.deltas[axis]?.[index] ?? 0;
+                        return (
+                          <td key={index} className="py-1 text-right tabular-nums text-[#3f301f]">
+                            {entry.traits.values[axis] ?? 0}
+                            {index > 0 ? (
+                              <span
+                                className={`ml-1 text-[0.7rem] ${
+                                  delta > 0
+                                    ? "text-emerald-700"
+                                    : delta < 0
+                                      ? "text-rose-700"
+                                      : "text-[#6b5841]"
+                                }`}
+                              >
+                                {formatDelta(delta)}
+                              </span>
+                            ) : null}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </section>
+
+            {/* Side-by-side snapshots */}
+            <section
+              className="grid gap-3"
+              style={{ gridTemplateColumns: `repeat(${entries.length}, minmax(0, 1fr))` }}
+            >
+              {entries.map((entry, index) => (
+                <div
+                  key={index}
+                  className="rounded-2xl border border-[#e2d3b5] bg-[#fff9f0] p-3 shadow-sm"
+                >
+                  <h3
+                    className="text-sm font-semibold leading-tight"
+                    style={{ color: entry.accentHex }}
+                  >
+                    {entry.strain.name}
+                  </h3>
+                  <p className="text-[0.7rem] uppercase tracking-wide text-[#6b5841]">
+                    {entry.doseLabel} · {entry.grams} g
+                  </p>
+                  <dl className="mt-2 space-y-1.5 text-xs">
+                    <CompareFact label="Onset" value={entry.snapshot.onset} />
+                    <CompareFact label="Duration" value={entry.snapshot.duration} />
+                    <CompareFact label="Intensity" value={entry.snapshot.intensity} />
+                  </dl>
+                  {entry.snapshot.bestFor.length ? (
+                    <div className="mt-2">
+                      <p className="text-[0.65rem] font-semibold uppercase tracking-wide text-[#6b5841]">
+                        Best For
+                      </p>
+                      <ul className="mt-1 space-y-0.5 text-xs text-[#3c291b]">
+                        {entry.snapshot.bestFor.map((item, i) => (
+                          <li key={`${item}-${i}`}>{item}</li>
+                        ))}
+                      </ul>
+                    </div>
+                  ) : null}
+                </div>
+              ))}
+            </section>
+          </>
+        ) : !error ? (
+          <p className="text-sm text-[#6b5841]">Loading comparison…</p>
+        ) : null}
+      </div>
+    </div>
+  );
+}
+
+function CompareFact({ label, value }: { label: string; value: string }) {
+  return (
+    <div>
+      <dt className="text-[0.65rem] font-semibold uppercase tracking-wide text-[#6b5841]">
+        {label}
+      </dt>
+      <dd className="text-[#3c291b]">{value || "—"}</dd>
+    </div>
+  );
+}
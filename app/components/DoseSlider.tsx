@@ -11,6 +11,10 @@ type DoseSliderProps = {
   currentDoseLabel: string;
   currentGrams: number | null;
   strainName: string;
+  // Continuous mode: fractional tier position (see ApothecaryDoseMeter)
+  continuous?: boolean;
+  position?: number;
+  onChangePosition?: (position: number) => void;
 };
 
 export function DoseSlider({
@@ -18,14 +22,23 @@ export function DoseSlider({
   config,
   selected,
   onSelect,
+  currentGrams,
   strainName,
+  continuous = false,
+  position,
+  onChangePosition,
 }: DoseSliderProps) {
   if (!order.length) {
     return null;
   }
 
   const currentYear = new Date().getFullYear();
-  const activeLabel = (config[selected]?.label ?? selected).toUpperCase();
+  const selectedLabel = (config[selected]?.label ?? selected).toUpperCase();
+  // Between tiers the pill shows the gram amount next to the nearest tier
+  const activeLabel =
+    continuous && currentGrams !== null
+      ? `~${Number(currentGrams.toFixed(2))} g · ${selectedLabel}`
+      : selectedLabel;
 
   return (
     <div className="w-full max-w-[600px] mx-auto mb-6">
@@ -78,8 +91,12 @@ export function DoseSlider({
       <div className="h-[80px] sm:h-[90px]">
         <ApothecaryDoseMeter
           doseKey={selected}
+          doseOrder={order}
           strainName={strainName}
           onChangeDoseKey={onSelect}
+          continuous={continuous}
+          position={position}
+          onChangePosition={onChangePosition}
         />
       </div>
 
@@ -0,0 +1,276 @@
+"use client";
+
+// =============================================================================
+// FIND MY STRAIN - Recommendation flow for the kiosk
+// =============================================================================
+// Customers set target levels on any of the radar axes and/or pick
+// intentions (bestFor tags). /api/recommendations ranks every strain+dose
+// and explains each match; choosing one lands on it in the explorer.
+// =============================================================================
+
+import { useEffect, useState } from "react";
+import type {
+  DoseKey,
+  StrainRecommendation,
+  TraitAxisDefinition,
+  TraitAxisId,
+} from "@/lib/types";
+import { axisLabelFor } from "@/lib/traitAxes";
+
+type FindMyStrainSheetProps = {
+  onClose: () => void;
+  onChoose: (strainId: string, doseKey: DoseKey) => void;
+  // Hides matches the kiosk can't show (access key scope)
+  isAllowed?: (strainId: string, doseKey: DoseKey) => boolean;
+};
+
+const DEFAULT_TARGET = 50;
+
+function formatDistance(distance: number): string {
+  if (distance === 0) return "on target";
+  return distance > 0 ? `${distance} above` : `${Math.abs(distance)} below`;
+}
+
+export function FindMyStrainSheet({ onClose, onChoose, isAllowed }: FindMyStrainSheetProps) {
+  const [axes, setAxes] = useState<TraitAxisDefinition[]>([]);
+  const [availableIntentions, setAvailableIntentions] = useState<string[]>([]);
+  // Only axes present here are used for ranking
+  const [targets, setTargets] = useState<Partial<Record<TraitAxisId, number>>>({});
+  const [intentions, setIntentions] = useState<string[]>([]);
+  const [results, setResults] = useState<StrainRecommendation[] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch("/api/recommendations")
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        if (cancelled || !data) return;
+        setAxes(data.axes ?? []);
+        setAvailableIntentions(data.intentions ?? []);
+      })
+      .catch(() => {
+        // picker stays empty; the kiosk keeps working
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const toggleAxis = (axis: TraitAxisId) => {
+    setTargets((prev) => {
+      const next = { ...prev };
+      if (axis in next) {
+        delete next[axis];
+      } else {
+        next[axis] = DEFAULT_TARGET;
+      }
+      return next;
+    });
+  };
+
+  const toggleIntention = (tag: string) => {
+    setIntentions((prev) =>
+      prev.includes(tag) ? prev.filter((t) => t !== tag) : [...prev, tag]
+    );
+  };
+
+  const hasCriteria = Object.keys(targets).length > 0 || intentions.length > 0;
+
+  const findMatches = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/recommendations", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ targets, intentions }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error ?? `API error: ${res.status}`);
+      const ranked = data.results as StrainRecommendation[];
+      setResults(
+        isAllowed ? ranked.filter((r) => isAllowed(r.strain.id, r.doseKey)) : ranked
+      );
+    } catch (err) {
+      console.error("Failed to load recommendations", err);
+      setError("Unable to find matches right now.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50">
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-black/30" onClick={onClose} />
+
+      {/* Sheet */}
+      <div className="absolute inset-x-0 bottom-0 sm:inset-y-8 sm:mx-auto sm:max-w-xl rounded-t-2xl sm:rounded-2xl bg-[var(--card-bg)] border border-[var(--card-border)] shadow-xl max-h-[85vh] sm:max-h-none overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between px-4 py-3 border-b border-[var(--card-border)]">
+          <h2 className="text-[16px] font-semibold text-[var(--ink-main)]">
+            Find my strain
+          </h2>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-[var(--ink-soft)] hover:text-[var(--ink-main)] p-1"
+            aria-label="Close"
+          >
+            <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-4 py-4 space-y-5 text-sm text-[#3c291b]">
+          {/* Axis targets */}
+          <section>
+            <h3 className="mb-1 text-xs font-semibold uppercase tracking-wide text-[var(--ink-soft)]">
+              How strong should it feel?
+            </h3>
+            <p className="mb-2 text-xs text-[var(--ink-soft)]">
+              Tap the effects you care about, then set a level.
+            </p>
+            <div className="space-y-2">
+              {axes.map(({ id: axis, label }) => {
+                const isActive = axis in targets;
+                return (
+                  <div key={axis} className="flex items-center gap-3">
+                    <button
+                      type="button"
+                      onClick={() => toggleAxis(axis)}
+                      className={`w-28 flex-shrink-0 rounded-full border px-3 py-1 text-xs font-semibold text-left transition-colors ${
+                        isActive
+                          ? "border-[var(--accent)] text-[var(--accent)] bg-white"
+                          : "border-[var(--card-border)] text-[var(--ink-soft)]"
+                      }`}
+                    >
+                      {label}
+                    </button>
+                    <input
+                      type="range"
+                      min={0}
+                      max={100}
+                      step={5}
+                      disabled={!isActive}
+                      value={targets[axis] ?? DEFAULT_TARGET}
+                      onChange={(e) =>
+                        setTargets((prev) => ({ ...prev, [axis]: Number(e.target.value) }))
+                      }
+                      className="flex-1 disabled:opacity-30"
+                    />
+                    <span className="w-8 text-right tabular-nums text-xs">
+                      {isActive ? targets[axis] : "—"}
+                    </span>
+                  </div>
+                );
+              })}
+            </div>
+          </section>
+
+          {/* Intentions */}
+          {availableIntentions.length ? (
+            <section>
+              <h3 className="mb-2 text-xs font-semibold uppercase tracking-wide text-[var(--ink-soft)]">
+                What is it for?
+              </h3>
+              <div className="flex flex-wrap gap-1.5">
+                {availableIntentions.map((tag) => {
+                  const isActive = intentions.includes(tag);
+                  return (
+                    <button
+                      key={tag}
+                      type="button"
+                      onClick={() => toggleIntention(tag)}
+                      className={`rounded-full border px-3 py-1 text-xs font-medium transition-colors ${
+                        isActive
+                          ? "border-[var(--accent)] text-[var(--accent)] bg-white"
+                          : "border-[var(--card-border)] text-[var(--ink-soft)]"
+                      }`}
+                    >
+                      {tag}
+                    </button>
+                  );
+                })}
+              </div>
+            </section>
+          ) : null}
+
+          <button
+            type="button"
+            onClick={findMatches}
+            disabled={!hasCriteria || loading}
+            className="w-full rounded-full bg-[#3f301f] px-4 py-2 text-sm font-semibold text-[#f6eddc] disabled:opacity-40"
+          >
+            {loading ? "Finding matches…" : "Show matches"}
+          </button>
+
+          {error ? <p className="text-sm italic text-[var(--ink-soft)]">{error}</p> : null}
+
+          {/* Results */}
+          {results ? (
+            <section className="space-y-2">
+              {results.length === 0 ? (
+                <p className="text-sm italic text-[var(--ink-soft)]">No matches found.</p>
+              ) : null}
+              {results.map((rec, index) => (
+                <button
+                  key={`${rec.strain.id}-${rec.doseKey}`}
+                  type="button"
+                  onClick={() => onChoose(rec.strain.id, rec.doseKey)}
+                  className="w-full rounded-2xl border border-[#e2d3b5] bg-[#fff9f0] p-3 text-left shadow-sm hover:border-[var(--accent)]"
+                >
+                  <div className="flex items-baseline justify-between gap-2">
+                    <span className="font-semibold" style={{ color: rec.accentHex }}>
+                      {index + 1}. {rec.strain.name}
+                    </span>
+                    <span className="text-xs font-semibold text-[var(--ink-soft)]">
+                      {rec.score}% match
+                    </span>
+                  </div>
+                  <p className="text-[0.7rem] uppercase tracking-wide text-[#6b5841]">
+                    {rec.doseLabel} · {rec.grams} g
+                  </p>
+
+                  {/* Why it ranks here */}
+                  {rec.axisDistances.length ? (
+                    <ul className="mt-2 grid grid-cols-2 gap-x-3 gap-y-0.5 text-xs">
+                      {rec.axisDistances.map((d) => (
+                        <li key={d.axis} className="flex justify-between gap-2">
+                          <span>{axisLabelFor(axes, d.axis)}</span>
+                          <span
+                            className={`tabular-nums ${
+                              Math.abs(d.distance) <= 10 ? "text-emerald-700" : "text-[#6b5841]"
+                            }`}
+                          >
+                            {d.actual} · {formatDistance(d.distance)}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  ) : null}
+                  {rec.matchedTags.length ? (
+                    <div className="mt-2 flex flex-wrap gap-1">
+                      {rec.matchedTags.map((tag) => (
+                        <span
+                          key={tag}
+                          className="rounded-full border px-2 py-0.5 text-[0.65rem] font-semibold uppercase tracking-wide"
+                          style={{ borderColor: rec.accentHex, color: rec.accentHex }}
+                        >
+                          {tag}
+                        </span>
+                      ))}
+                    </div>
+                  ) : null}
+                </button>
+              ))}
+            </section>
+          ) : null}
+        </div>
+      </div>
+    </div>
+  );
+}
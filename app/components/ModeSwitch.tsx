@@ -1,41 +1,40 @@
+export type ExplorerMode = "visual" | "details" | "compare";
+
 type ModeSwitchProps = {
-  mode: "visual" | "details";
-  onChange: (mode: "visual" | "details") => void;
+  mode: ExplorerMode;
+  onChange: (mode: ExplorerMode) => void;
 };
 
-export function ModeSwitch({ mode, onChange }: ModeSwitchProps) {
-  const isVisual = mode === "visual";
+const MODES: { id: ExplorerMode; label: string }[] = [
+  { id: "visual", label: "Visual" },
+  { id: "details", label: "Details" },
+  { id: "compare", label: "Compare" },
+];
 
+export function ModeSwitch({ mode, onChange }: ModeSwitchProps) {
   return (
-    <div 
+    <div
       className="inline-flex rounded-full p-1 shadow-inner"
       style={{ background: "var(--card-inner)" }}
     >
-      <button
-        className={`px-5 py-2 rounded-full text-sm font-semibold transition-all ${
-          isVisual ? "shadow-sm" : ""
-        }`}
-        style={{ 
-          background: isVisual ? "white" : "transparent",
-          color: isVisual ? "var(--accent)" : "var(--ink-soft)",
-        }}
-        onClick={() => onChange("visual")}
-      >
-        Visual
-      </button>
-      <button
-        className={`px-5 py-2 rounded-full text-sm font-semibold transition-all ${
-          !isVisual ? "shadow-sm" : ""
-        }`}
-        style={{ 
-          background: !isVisual ? "white" : "transparent",
-          color: !isVisual ? "var(--accent)" : "var(--ink-soft)",
-        }}
-        onClick={() => onChange("details")}
-      >
-        Details
-      </button>
+      {MODES.map(({ id, label }) => {
+        const isActive = mode === id;
+        return (
+          <button
+            key={id}
+            className={`px-5 py-2 rounded-full text-sm font-semibold transition-all ${
+              isActive ? "shadow-sm" : ""
+            }`}
+            style={{
+              background: isActive ? "white" : "transparent",
+              color: isActive ? "var(--accent)" : "var(--ink-soft)",
+            }}
+            onClick={() => onChange(id)}
+          >
+            {label}
+          </button>
+        );
+      })}
     </div>
   );
 }
-
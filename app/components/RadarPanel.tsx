@@ -13,11 +13,17 @@
 // =============================================================================
 
 import { useRef, useState, useEffect } from "react";
-import type { TraitAxisId, DoseTraits, StrainExperienceMeta, ExperienceLevel } from "@/lib/types";
+import type {
+  TraitAxisId,
+  TraitAxisDefinition,
+  DoseTraits,
+  DoseTierStyle,
+  StrainExperienceMeta,
+  ExperienceLevel,
+} from "@/lib/types";
 import type { TripdarVisualOverrides } from "@/lib/tripdarRadar";
-import { TripdarSporeRadar } from "./TripdarSporeRadar";
-import { TRIPDAR_PRESET } from "@/lib/tripdarPreset";
-import { STRAINS } from "./strainConstants";
+import { TripdarSporeRadar, type TripdarRadarOverlay } from "./TripdarSporeRadar";
+import { TRIPDAR_PRESET, type TripdarPreset } from "@/lib/tripdarPreset";
 
 // =============================================================================
 // PROPS
@@ -26,7 +32,8 @@ import { STRAINS } from "./strainConstants";
 type RadarPanelProps = {
   color: string;
   traits: DoseTraits;
-  axisLabels: TraitAxisId[];
+  // Dataset axes in radar order, with labels and tint colors
+  axisDefinitions: TraitAxisDefinition[];
   experienceMeta?: StrainExperienceMeta;
   modeSwitch?: React.ReactNode;
   // Strain info for card header
@@ -34,10 +41,21 @@ type RadarPanelProps = {
   effectWord?: string;
   doseLabel?: string;
   grams?: number | null;
+  // Fill/stroke/glow of the current dose tier
+  doseStyle?: DoseTierStyle;
   // Strain ID for directional spin calculation
   strainId?: string;
+  // Strain IDs in tab order, used to compute the spin direction
+  strainOrder?: string[];
   // Visual overrides for fine-grained radar tuning
   visualOverrides?: TripdarVisualOverrides;
+  // Radar animation speed/intensity (defaults to TRIPDAR_PRESET)
+  animationPreset?: TripdarPreset;
+  // Community layer from aggregated feedback (0-100, axes with enough samples)
+  community?: {
+    values: Partial<Record<TraitAxisId, number>>;
+    sampleSize: number;
+  } | null;
 };
 
 // =============================================================================
@@ -103,19 +121,20 @@ const ANGLE_PER_STEP = 55;
 export function RadarPanel({ 
   color, 
   traits, 
-  axisLabels: _axisLabels, 
+  axisDefinitions,
   experienceMeta, 
   modeSwitch, 
   strainName, 
   effectWord, 
   doseLabel, 
   grams,
+  doseStyle,
   strainId,
+  strainOrder = [],
   visualOverrides,
+  animationPreset = TRIPDAR_PRESET,
+  community,
 }: RadarPanelProps) {
-  // Note: axisLabels is kept for API compatibility but TripdarSporeRadar uses fixed axis order
-  void _axisLabels;
-
   // ==========================================================================
   // DIRECTIONAL SPIN STATE
   // ==========================================================================
@@ -126,12 +145,12 @@ export function RadarPanel({
 
   // Compute current strain index
   const currentStrainIndex = strainId 
-    ? STRAINS.findIndex((s) => s.id === strainId)
+    ? strainOrder.indexOf(strainId)
     : -1;
 
   // When strain changes, compute directional spin
   useEffect(() => {
-    const total = STRAINS.length;
+    const total = strainOrder.length;
     const prev = prevStrainIndexRef.current;
     const next = currentStrainIndex;
 
@@ -154,7 +173,7 @@ export function RadarPanel({
     setSpinAngle(angle);
     setSpinKey((k) => k + 1);
     prevStrainIndexRef.current = next;
-  }, [currentStrainIndex]);
+  }, [currentStrainIndex, strainOrder.length]);
 
   // ==========================================================================
   // AXES CONVERSION
@@ -162,14 +181,27 @@ export function RadarPanel({
 
   // Convert trait values to the axes record format (0-100 scale)
   // TripdarSporeRadar expects Record<TraitAxisId, number> with 0-100 values
-  const axes: Record<TraitAxisId, number> = {
-    visuals: traits.values.visuals ?? 0,
-    euphoria: traits.values.euphoria ?? 0,
-    introspection: traits.values.introspection ?? 0,
-    creativity: traits.values.creativity ?? 0,
-    spiritual_depth: traits.values.spiritual_depth ?? 0,
-    sociability: traits.values.sociability ?? 0,
-  };
+  const axes = axisDefinitions.reduce<Record<TraitAxisId, number>>(
+    (acc, { id }) => {
+      acc[id] = traits.values[id] ?? 0;
+      return acc;
+    },
+    {}
+  );
+
+
+  // Community layer: axes without enough responses follow the editorial shape
+  const hasCommunity = !!community && Object.keys(community.values).length > 0;
+  const overlays: TripdarRadarOverlay[] = hasCommunity
+    ? [
+        {
+          id: "community",
+          axes: { ...axes, ...community.values } as Record<TraitAxisId, number>,
+          color: "#3f301f",
+          dashArray: "5 4",
+        },
+      ]
+    : [];
 
   // ==========================================================================
   // RENDER
@@ -233,10 +265,12 @@ export function RadarPanel({
         <div className="relative z-10 mx-auto flex-1 min-h-0 flex items-center justify-center py-2">
           <TripdarSporeRadar
             axes={axes}
+            axisDefinitions={axisDefinitions}
             strainColor={color}
+            doseStyle={doseStyle}
             animationPreset={{
-              speed: TRIPDAR_PRESET.speed,
-              intensity: TRIPDAR_PRESET.intensity,
+              speed: animationPreset.speed,
+              intensity: animationPreset.intensity,
             }}
             showQuadrantRails
             showVibeCast
@@ -244,8 +278,16 @@ export function RadarPanel({
             spinAngle={spinAngle}
             spinKey={spinKey}
             visualOverrides={visualOverrides}
+            overlays={overlays}
             className="drop-shadow-[0_8px_20px_rgba(0,0,0,0.06)]"
           />
+          {community ? (
+            <p className="absolute bottom-1 left-2 text-[11px] text-[var(--ink-soft)]">
+              {hasCommunity
+                ? `┅ Community · ${community.sampleSize} ${community.sampleSize === 1 ? "report" : "reports"}`
+                : "Not enough community reports yet"}
+            </p>
+          ) : null}
         </div>
       </div>
 
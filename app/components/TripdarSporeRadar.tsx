@@ -20,6 +20,7 @@
 // Usage:
 //   <TripdarSporeRadar
 //     axes={{ visuals: 75, euphoria: 60, ... }}  // 0-100 values
+//     axisDefinitions={dataset axes}              // optional, order + labels
 //     strainColor="#c9a857"
 //     showQuadrantRails
 //     showCenterMark
@@ -30,15 +31,15 @@
 "use client";
 
 import * as React from "react";
-import type { TraitAxisId } from "@/lib/types";
+import type { DoseTierStyle, TraitAxisDefinition, TraitAxisId } from "@/lib/types";
+import { DEFAULT_TRAIT_AXIS_DEFINITIONS } from "@/lib/traitAxes";
+import { BASE_DOSE_STYLE } from "@/lib/doseTiers";
 import {
   shapeAxisValueConfigurable,
   polarToCartesian,
   shortestAngle,
   buildArc,
   describeArc,
-  AXIS_LABELS,
-  QUADRANT_COLORS,
   DEFAULT_RADAR_PRESET,
   mergeVisualOverrides,
   type TripdarVisualOverrides,
@@ -52,6 +53,12 @@ export type TripdarSporeRadarProps = {
   /** Axis values (0-100 scale for each trait) */
   axes: Record<TraitAxisId, number>;
 
+  /**
+   * Axes to draw, in order around the radar, with labels and tint colors.
+   * Defaults to the six built-in axes.
+   */
+  axisDefinitions?: TraitAxisDefinition[];
+
   /** Optional: 0-1 weights for each vibe quadrant (future use) */
   vibeWeights?: {
     create: number;
@@ -63,6 +70,12 @@ export type TripdarSporeRadarProps = {
   /** Strain color used as base tint */
   strainColor?: string;
 
+  /**
+   * Style of the current dose tier. Scales the tint and gill strokes
+   * relative to macro, and adds a glow for tiers with `hasGlow`.
+   */
+  doseStyle?: DoseTierStyle;
+
   /** Animation knobs */
   animationPreset?: {
     speed: number; // e.g. 0.5-3
@@ -103,9 +116,23 @@ export type TripdarSporeRadarProps = {
    */
   visualOverrides?: TripdarVisualOverrides;
 
+  /**
+   * Extra value sets drawn as outlined shapes over the gills, e.g. the
+   * strains in comparison mode. Same 0-100 scale as `axes`.
+   */
+  overlays?: TripdarRadarOverlay[];
+
   className?: string;
 };
 
+export type TripdarRadarOverlay = {
+  id: string;
+  axes: Record<TraitAxisId, number>;
+  color: string;
+  /** SVG stroke-dasharray, to tell overlays apart when colors are close */
+  dashArray?: string;
+};
+
 // Re-export the type for convenience
 export type { TripdarVisualOverrides };
 
@@ -113,6 +140,7 @@ export type { TripdarVisualOverrides };
 type InternalAxis = {
   id: TraitAxisId;
   label: string;
+  color: string;
   value: number; // 0-1 normalized
 };
 
@@ -120,15 +148,6 @@ type InternalAxis = {
 // CONSTANTS
 // =============================================================================
 
-const AXIS_ORDER: TraitAxisId[] = [
-  "visuals",
-  "euphoria",
-  "introspection",
-  "creativity",
-  "spiritual_depth",
-  "sociability",
-];
-
 const FULL_CIRCLE = Math.PI * 2;
 const MAX_THRESHOLD = 0.92;
 
@@ -193,7 +212,9 @@ function TripdarCenterMark({ size }: { size: number }) {
 
 export function TripdarSporeRadar({
   axes,
+  axisDefinitions = DEFAULT_TRAIT_AXIS_DEFINITIONS,
   strainColor,
+  doseStyle = BASE_DOSE_STYLE,
   animationPreset,
   showQuadrantRails = false,
   showVibeCast = true,
@@ -203,6 +224,7 @@ export function TripdarSporeRadar({
   spinAngle = 0,
   spinKey,
   visualOverrides,
+  overlays,
   className,
 }: TripdarSporeRadarProps) {
   // ==========================================================================
@@ -223,12 +245,13 @@ export function TripdarSporeRadar({
   // Convert 0-100 axes to 0-1 internal format
   const normalizedAxes: InternalAxis[] = React.useMemo(
     () =>
-      AXIS_ORDER.map((id) => ({
+      axisDefinitions.map(({ id, label, color }) => ({
         id,
-        label: AXIS_LABELS[id],
+        label,
+        color,
         value: Math.max(0, Math.min(1, (axes[id] ?? 0) / 100)),
       })),
-    [axes]
+    [axes, axisDefinitions]
   );
 
   // Animated axes for smooth morphing between changes
@@ -326,6 +349,11 @@ export function TripdarSporeRadar({
   // Colors
   const tintColor = strainColor ?? "#8b5a2b";
 
+  // Dose tier scaling (1 = macro)
+  const fillScale = doseStyle.fillAlpha / BASE_DOSE_STYLE.fillAlpha;
+  const strokeScale = doseStyle.borderWidth / BASE_DOSE_STYLE.borderWidth;
+  const strokeAlphaScale = doseStyle.borderAlpha / BASE_DOSE_STYLE.borderAlpha;
+
   // ==========================================================================
   // VIBE CAST WEDGES (using overrides)
   // ==========================================================================
@@ -497,8 +525,9 @@ export function TripdarSporeRadar({
     const y2 = cy + length * Math.sin(theta);
 
     // Stroke width interpolation
-    const strokeWidth = v.gillBaseThickness + (v.gillMaxThickness - v.gillBaseThickness) * maxFalloff;
-    const opacity = 0.25 + 0.55 * maxFalloff;
+    const strokeWidth =
+      (v.gillBaseThickness + (v.gillMaxThickness - v.gillBaseThickness) * maxFalloff) * strokeScale;
+    const opacity = Math.min(1, (0.25 + 0.55 * maxFalloff) * strokeAlphaScale);
 
     return (
       <line
@@ -522,6 +551,7 @@ export function TripdarSporeRadar({
   const bgGradientId = `tripdar-bg-${instanceId}`;
   const tintGradientId = `tripdar-tint-${instanceId}`;
   const clipId = `tripdar-clip-${instanceId}`;
+  const glowId = `tripdar-glow-${instanceId}`;
 
   // ==========================================================================
   // RENDER
@@ -540,13 +570,18 @@ export function TripdarSporeRadar({
           <stop offset="100%" stopColor="#E4D4C0" stopOpacity="0.95" />
         </radialGradient>
         <radialGradient id={tintGradientId} cx="50%" cy="40%" r="70%">
-          <stop offset="0%" stopColor={tintColor} stopOpacity="0.06" />
-          <stop offset="60%" stopColor={tintColor} stopOpacity="0.12" />
+          <stop offset="0%" stopColor={tintColor} stopOpacity={Math.min(1, 0.06 * fillScale)} />
+          <stop offset="60%" stopColor={tintColor} stopOpacity={Math.min(1, 0.12 * fillScale)} />
           <stop offset="100%" stopColor={tintColor} stopOpacity="0" />
         </radialGradient>
         <clipPath id={clipId}>
           <circle cx={cx} cy={cy} r={outerRadius} />
         </clipPath>
+        {doseStyle.hasGlow && (
+          <filter id={glowId} x="-20%" y="-20%" width="140%" height="140%">
+            <feDropShadow dx="0" dy="0" stdDeviation="4" floodColor={tintColor} floodOpacity="0.6" />
+          </filter>
+        )}
       </defs>
 
       {/* Base background disc */}
@@ -576,7 +611,7 @@ export function TripdarSporeRadar({
               <path
                 d={quad.d}
                 fill="none"
-                stroke={QUADRANT_COLORS[index % QUADRANT_COLORS.length]}
+                stroke={axis.color}
                 strokeWidth={12}
                 strokeLinecap="round"
                 opacity={0.16}
@@ -605,11 +640,33 @@ export function TripdarSporeRadar({
         })}
 
         {/* Gill lines */}
-        {gillLines}
+        <g filter={doseStyle.hasGlow ? `url(#${glowId})` : undefined}>{gillLines}</g>
 
         {/* Quadrant rails */}
         {showQuadrantRails && <g>{quadrantRails}</g>}
 
+        {/* Comparison overlays */}
+        {overlays?.map((overlay) => {
+          const points = axisDefinitions.map(({ id }, i) => {
+            const value = Math.max(0, Math.min(1, (overlay.axes[id] ?? 0) / 100));
+            const r = innerRadius + value * (outerRadius - innerRadius);
+            const p = polarToCartesian(cx, cy, r, axisAngles[i]);
+            return `${p.x},${p.y}`;
+          }).join(" ");
+          return (
+            <polygon
+              key={`overlay-${overlay.id}`}
+              points={points}
+              fill={overlay.color}
+              fillOpacity={0.08}
+              stroke={overlay.color}
+              strokeWidth={2}
+              strokeDasharray={overlay.dashArray}
+              strokeLinejoin="round"
+            />
+          );
+        })}
+
         {/* Inner core */}
         <circle cx={cx} cy={cy} r={innerRadius * 0.7} fill="#F9F0E5" />
 
@@ -23,7 +23,12 @@ import CosmicThemeMessages from "./CosmicThemeMessages";
 import { createPhaseMachine } from "./CosmicThemePhaseMachine";
 import type { CosmicPhaseId } from "./config/cosmicThemePhases";
 import type { CosmicChoreographyDescriptor } from "./config/cosmicThemeChoreography";
-import { getCosmicRadarValues, getCosmicHaloColor, getCosmicStarColor } from "./data/cosmicThemeDataAdapter";
+import {
+  getCosmicRadarAxes,
+  getCosmicRadarValues,
+  getCosmicHaloColor,
+  getCosmicStarColor,
+} from "./data/cosmicThemeDataAdapter";
 import type { DoseKey } from "@/lib/types";
 import type { CosmicThemeId } from "./config/cosmicThemeVisualPresets";
 // Phase 6I: Timeline frame integration
@@ -64,7 +69,11 @@ export default function CosmicThemeDemo({
   _themeBlendProgress?: number;
 }) {
   // Phase 6A.3: Memoize geometry - it's static and doesn't depend on props
-  const geometry = useMemo(() => getDefaultRadarGeometry(), []);
+  // Dataset-defined axes beyond the core six are added to the default geometry
+  const geometry = useMemo(
+    () => ({ ...getDefaultRadarGeometry(), axes: getCosmicRadarAxes() }),
+    []
+  );
   const phaseMachine = useMemo(() => createPhaseMachine(phaseId), [phaseId]);
   
   // Phase 4F: Track previous phase for choreography
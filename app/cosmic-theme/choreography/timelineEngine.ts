@@ -3,6 +3,7 @@
 // Guardrails: pure functions only, no side effects, no timers.
 
 import type { UnifiedExperienceState } from "@/app/lib/tripdarExperienceState";
+import { getCosmicDoseModifier } from "../data/cosmicThemeDataAdapter";
 
 export interface CosmicTimelineFrame {
   halo: {
@@ -74,25 +75,6 @@ function getEffectProfile(effectWord?: string | null): MotionProfile {
   return { baseEnergy: 0.7, baseSpeed: 1.0 };
 }
 
-function getDoseModifier(doseKey: string): number {
-  switch (doseKey) {
-    case "micro":
-      return 0.5;
-    case "mini":
-      return 0.7;
-    case "macro":
-      return 1.0;
-    case "museum":
-      return 1.3;
-    case "mega":
-      return 1.6;
-    case "hero":
-      return 2.0;
-    default:
-      return 1.0;
-  }
-}
-
 // Derive a stable seed from strain/dose/effect/phase
 function getTimelineId(exp: UnifiedExperienceState): string {
   const phaseId = exp.cosmic?.phaseId ?? "strain";
@@ -129,7 +111,7 @@ export function buildCosmicTimeline(
   const totalFrames = Math.max(1, Math.round((fps * durationMs) / 1000));
 
   const profile = getEffectProfile(experience.effectWord);
-  const doseMod = getDoseModifier(experience.doseKey);
+  const doseMod = getCosmicDoseModifier(experience.doseKey);
   const traitEnergy = getTraitEnergy(experience);
 
   const combinedEnergy = clamp01(
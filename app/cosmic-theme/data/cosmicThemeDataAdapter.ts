@@ -10,9 +10,19 @@
  * Pure data extraction - no UI, no demo logic.
  */
 
-import { getStrainDoseData } from "@/data/strainData";
+import rawStrainData from "@/data/strains.json";
+import { buildStrainIndex, lookupStrainDoseData } from "@/lib/strainIndex";
 import { shapeAxisValue } from "@/lib/tripdarRadar";
-import type { DoseKey, TraitAxisId } from "@/lib/types";
+import { getDefaultDoseKey, resolveDoseModifier } from "@/lib/doseTiers";
+import type { DoseKey, StrainDataset, TraitAxisId } from "@/lib/types";
+import { COSMIC_AXES, type CosmicAxis } from "../CosmicThemeRadar";
+
+// The demo runs client-side, so it reads the dataset bundled at build time
+const strainIndex = buildStrainIndex(rawStrainData as unknown as StrainDataset);
+
+function getStrainDoseData(strainSlug: string, doseKey: DoseKey) {
+  return lookupStrainDoseData(strainIndex, strainSlug, doseKey);
+}
 
 /**
  * Cosmic Theme axis order.
@@ -47,23 +57,54 @@ const COSMIC_AXIS_ORDER: CosmicAxisId[] = [
   "spiritual",
 ];
 
+/**
+ * Dataset axes that have no Cosmic Theme counterpart (e.g. "body_load").
+ */
+function getExtraDatasetAxes(): TraitAxisId[] {
+  return strainIndex.axisDefinitions
+    .map((axis) => axis.id)
+    .filter((id) => !TRIPDAR_TO_COSMIC_AXIS_MAP[id]);
+}
+
+/**
+ * Get the Cosmic Theme axes for the current dataset.
+ * With only the six core axes this is exactly COSMIC_AXES. Extra dataset
+ * axes are appended after them and every axis is re-spaced evenly, starting
+ * at the top (-90°). Extra axes keep their Tripdar id.
+ */
+export function getCosmicRadarAxes(): CosmicAxis[] {
+  const extras = getExtraDatasetAxes();
+  if (extras.length === 0) return COSMIC_AXES;
+
+  const labels = new Map(strainIndex.axisDefinitions.map((axis) => [axis.id, axis.label]));
+  const axes = [
+    ...COSMIC_AXES.map(({ id, label }) => ({ id, label })),
+    ...extras.map((id) => ({ id, label: labels.get(id) ?? id })),
+  ];
+  return axes.map((axis, index) => ({
+    ...axis,
+    angleDeg: -90 + (360 * index) / axes.length,
+  }));
+}
+
 /**
  * Get normalized radar values for Cosmic Theme.
- * Returns 6 values in Cosmic Theme axis order, normalized using Tripdar's shapeAxisValue function.
+ * Returns one value per axis of getCosmicRadarAxes(), normalized using Tripdar's shapeAxisValue function.
  * 
  * @param strainSlug - The strain slug (e.g., "golden-teacher")
  * @param doseKey - The dose key (e.g., "macro")
- * @returns Array of 6 normalized values [visuals, creativity, social, euphoria, introspection, spiritual]
+ * @returns Normalized values [visuals, creativity, social, euphoria, introspection, spiritual, ...extra axes]
  */
 export function getCosmicRadarValues(
   strainSlug: string,
   doseKey: DoseKey
 ): number[] {
   const strainData = getStrainDoseData(strainSlug, doseKey);
+  const extras = getExtraDatasetAxes();
   
   if (!strainData) {
     // Return default values if strain not found
-    return [0.5, 0.5, 0.5, 0.5, 0.5, 0.5];
+    return [...COSMIC_AXIS_ORDER, ...extras].map(() => 0.5);
   }
   
   const rawValues = strainData.doseData.traits.values;
@@ -90,6 +131,10 @@ export function getCosmicRadarValues(
     return shapedValue;
   });
   
+  // Extra dataset axes map one-to-one
+  for (const axis of extras) {
+    result.push(shapeAxisValue((rawValues[axis] ?? 0) / 100));
+  }
   
   return result;
 }
@@ -102,7 +147,8 @@ export function getCosmicRadarValues(
  * @returns Hex color string (e.g., "#f3b34c")
  */
 export function getCosmicHaloColor(strainSlug: string): string {
-  const strainData = getStrainDoseData(strainSlug, "macro"); // Use macro as default for base color
+  // Base color is the same for every tier; use the dataset's default tier
+  const strainData = getStrainDoseData(strainSlug, getDefaultDoseKey(strainIndex.dataset.doses));
   
   if (!strainData) {
     return "#4a371f"; // Default brown color
@@ -129,3 +175,14 @@ export function getCosmicStarColor(strainSlug: string, doseKey: DoseKey): string
   // Use accent color if available, otherwise use base strain color
   return strainData.accentHex || strainData.strain.colorHex;
 }
+
+/**
+ * Get the animation energy modifier for a dose tier.
+ * Reads the tier's `modifier` from the dataset's doseConfig (1 = macro).
+ * 
+ * @param doseKey - The dose key (e.g., "macro")
+ * @returns Multiplier (e.g., 0.5 for micro, 2.0 for hero)
+ */
+export function getCosmicDoseModifier(doseKey: DoseKey): number {
+  return resolveDoseModifier(strainIndex.dataset.doseConfig, doseKey);
+}
@@ -1,8 +1,28 @@
 "use client";
 
 import { useState, useEffect, useRef, useMemo } from "react";
-import type { TraitAxisId, DoseKey, AxisExperienceScores, Product } from "@/lib/types";
+import type {
+  TraitAxisId,
+  TraitAxisDefinition,
+  DoseKey,
+  AxisExperienceScores,
+  Product,
+} from "@/lib/types";
 import { FeedbackRadarPreview } from "./FeedbackRadarPreview";
+import {
+  DEVICE_ID_PATTERN,
+  FEEDBACK_HONEYPOT_FIELD,
+  FEEDBACK_LIMITS,
+} from "@/lib/feedbackGuard";
+import {
+  clearFeedbackDraft,
+  enqueueFeedback,
+  listQueuedFeedback,
+  loadFeedbackDraft,
+  replayFeedbackQueue,
+  requestFeedbackSync,
+  saveFeedbackDraft,
+} from "@/lib/feedbackQueue";
 
 type StrainOption = {
   id: string;
@@ -21,7 +41,8 @@ type FeedbackFormClientProps = {
   ctaKey?: string;
   strainOptions: StrainOption[];
   doseOptions: DoseOption[];
-  axes: TraitAxisId[];
+  // Dataset axes, in radar order, with slider labels
+  axisDefinitions: TraitAxisDefinition[];
   initialAxisValues: Partial<Record<TraitAxisId, number>>;
   allProducts: Product[];
 };
@@ -48,16 +69,48 @@ const SETTING_OPTIONS = [
   "Therapeutic",
 ];
 
-// Labels for sliders
-const AXIS_LABELS: Record<TraitAxisId, string> = {
-  visuals: "Visuals",
-  euphoria: "Euphoria",
-  introspection: "Introspection",
-  creativity: "Creativity",
-  spiritual_depth: "Spiritual",
-  sociability: "Social",
+const DEVICE_ID_STORAGE_KEY = "feedback-device-id";
+
+// Autosave delay after the last change
+const DRAFT_SAVE_DELAY_MS = 500;
+
+// Everything the form autosaves; a draft only restores for the same strain/dose
+type FeedbackDraftFields = {
+  strainId: string;
+  doseKey: DoseKey;
+  productId: string | null;
+  showOtherProduct: boolean;
+  otherProductName: string;
+  feltAxes: AxisExperienceScores;
+  overallExperience: number;
+  intensityRating: number;
+  testimonial: string;
+  bestFor: string[];
+  setting: string[];
+  contact: string;
 };
 
+function createClientId(prefix: string): string {
+  return `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+/**
+ * Random id for this browser, kept in localStorage so the server can rate
+ * limit and spot duplicates per device. Undefined when storage is blocked.
+ */
+function getDeviceId(): string | undefined {
+  try {
+    let id = localStorage.getItem(DEVICE_ID_STORAGE_KEY);
+    if (!id || !DEVICE_ID_PATTERN.test(id)) {
+      id = createClientId("dev");
+      localStorage.setItem(DEVICE_ID_STORAGE_KEY, id);
+    }
+    return id;
+  } catch {
+    return undefined;
+  }
+}
+
 export function FeedbackFormClient({
   initialStrainId,
   initialDoseKey,
@@ -65,10 +118,15 @@ export function FeedbackFormClient({
   ctaKey,
   strainOptions,
   doseOptions,
-  axes,
+  axisDefinitions,
   initialAxisValues,
   allProducts,
 }: FeedbackFormClientProps) {
+  const axes = useMemo<TraitAxisId[]>(
+    () => axisDefinitions.map((d) => d.id),
+    [axisDefinitions]
+  );
+
   // Session context (editable)
   const [selectedStrainId, setSelectedStrainId] = useState(
     initialStrainId && strainOptions.some(s => s.id === initialStrainId)
@@ -130,10 +188,114 @@ export function FeedbackFormClient({
   const [bestFor, setBestFor] = useState<string[]>([]);
   const [setting, setSetting] = useState<string[]>([]);
   const [contact, setContact] = useState("");
+  // Honeypot: stays empty unless a bot fills in every input
+  const [honeypot, setHoneypot] = useState("");
 
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [submitStatus, setSubmitStatus] = useState<"idle" | "success" | "error">("idle");
+  // "queued": saved on the device, sent once the connection is back
+  const [submitStatus, setSubmitStatus] = useState<"idle" | "success" | "queued" | "error">("idle");
   const [errorMessage, setErrorMessage] = useState("");
+  // Earlier submissions from this device still waiting to be sent
+  const [pendingCount, setPendingCount] = useState(0);
+  // Kept across retries so the server stores a submission only once
+  const submissionIdRef = useRef<string | null>(null);
+
+  // Drafts are keyed by the strain/dose the form was opened for
+  const draftContext = `${initialStrainId ?? ""}/${initialDoseKey ?? ""}`;
+  const draftLoadedRef = useRef(false);
+
+  // Restore an autosaved draft once, if it matches the current strain/dose
+  useEffect(() => {
+    let cancelled = false;
+    loadFeedbackDraft<FeedbackDraftFields>(draftContext)
+      .then((draft) => {
+        if (cancelled || !draft) return;
+        if (draft.strainId !== selectedStrainId || draft.doseKey !== selectedDoseKey) return;
+        setSelectedProductId(draft.productId);
+        setShowOtherProduct(draft.showOtherProduct);
+        setOtherProductName(draft.otherProductName);
+        setFeltAxes(draft.feltAxes);
+        setOverallExperience(draft.overallExperience);
+        setIntensityRating(draft.intensityRating);
+        setTestimonial(draft.testimonial);
+        setBestFor(draft.bestFor);
+        setSetting(draft.setting);
+        setContact(draft.contact);
+      })
+      .catch(() => {
+        // IndexedDB unavailable (private mode); autosave is best effort
+      })
+      .finally(() => {
+        if (!cancelled) draftLoadedRef.current = true;
+      });
+    return () => {
+      cancelled = true;
+    };
+    // Runs on mount only; later strain/dose changes must not reload the draft
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [draftContext]);
+
+  // Autosave, debounced, after the draft has been restored
+  useEffect(() => {
+    if (!draftLoadedRef.current || submitStatus === "success" || submitStatus === "queued") return;
+    const fields: FeedbackDraftFields = {
+      strainId: selectedStrainId,
+      doseKey: selectedDoseKey,
+      productId: selectedProductId,
+      showOtherProduct,
+      otherProductName,
+      feltAxes,
+      overallExperience,
+      intensityRating,
+      testimonial,
+      bestFor,
+      setting,
+      contact,
+    };
+    const timer = setTimeout(() => {
+      saveFeedbackDraft(draftContext, fields).catch(() => {});
+    }, DRAFT_SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [
+    draftContext,
+    submitStatus,
+    selectedStrainId,
+    selectedDoseKey,
+    selectedProductId,
+    showOtherProduct,
+    otherProductName,
+    feltAxes,
+    overallExperience,
+    intensityRating,
+    testimonial,
+    bestFor,
+    setting,
+    contact,
+  ]);
+
+  // Send anything queued on an earlier visit, and again whenever the
+  // browser reports it is back online
+  useEffect(() => {
+    let cancelled = false;
+    const replay = () => {
+      replayFeedbackQueue()
+        .then((remaining) => {
+          if (!cancelled) setPendingCount(remaining);
+        })
+        .catch(() => {});
+    };
+
+    if ("serviceWorker" in navigator) {
+      // Background sync needs the worker even when the kiosk page never loaded
+      navigator.serviceWorker.register("/sw.js").catch(() => {});
+    }
+    replay();
+    window.addEventListener("online", replay);
+    return () => {
+      cancelled = true;
+      window.removeEventListener("online", replay);
+    };
+  }, []);
 
   // When strain or dose changes, fetch new expected values
   useEffect(() => {
@@ -260,7 +422,9 @@ export function FeedbackFormClient({
           ? { productId: selectedProductId }
           : undefined;
 
+      submissionIdRef.current ??= createClientId("sub");
       const payload = {
+        submissionId: submissionIdRef.current,
         strainId: selectedStrainId || undefined,
         doseKey: selectedDoseKey || undefined,
         accessKeyId,
@@ -273,18 +437,47 @@ export function FeedbackFormClient({
         contact: contact.trim() || undefined,
         feltAxes: Object.keys(feltAxes).length > 0 ? feltAxes : undefined,
         ...productInfo,
+        deviceId: getDeviceId(),
+        [FEEDBACK_HONEYPOT_FIELD]: honeypot || undefined,
       };
 
-      const res = await fetch("/api/feedback", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(payload),
-      });
+      let res: Response | null = null;
+      try {
+        res = await fetch("/api/feedback", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(payload),
+        });
+      } catch {
+        // Offline or dropped connection; queued below
+      }
+
+      if (!res || res.status >= 500) {
+        // Keep the answers on the device and send them later
+        await enqueueFeedback({
+          submissionId: payload.submissionId,
+          payload,
+          queuedAt: new Date().toISOString(),
+        });
+        void requestFeedbackSync();
+        await clearFeedbackDraft(draftContext).catch(() => {});
+        submissionIdRef.current = null;
+        setPendingCount((await listQueuedFeedback().catch(() => [])).length);
+        setSubmitStatus("queued");
+        return;
+      }
 
+      if (res.status === 429) {
+        setSubmitStatus("error");
+        setErrorMessage("Too many submissions from this device. Please wait a few minutes and try again.");
+        return;
+      }
       if (!res.ok) {
         throw new Error("Failed to submit feedback");
       }
 
+      await clearFeedbackDraft(draftContext).catch(() => {});
+      submissionIdRef.current = null;
       setSubmitStatus("success");
     } catch (err) {
       console.error("Submit error:", err);
@@ -295,13 +488,15 @@ export function FeedbackFormClient({
     }
   }
 
-  if (submitStatus === "success") {
+  if (submitStatus === "success" || submitStatus === "queued") {
     return (
       <div className="rounded-2xl border border-[#d3c3a2] bg-white/80 p-8 text-center shadow-sm">
         <div className="mb-4 text-4xl">🙏</div>
         <h2 className="text-xl font-semibold text-[#3f301f]">Thank you!</h2>
         <p className="mt-2 text-sm text-[#6b5841]">
-          Your feedback helps improve the experience for everyone.
+          {submitStatus === "queued"
+            ? "You seem to be offline, so your feedback is saved on this device. It will be sent automatically once you're back online."
+            : "Your feedback helps improve the experience for everyone."}
         </p>
         <a
           href={accessKeyId ? `/?key=${accessKeyId}` : "/"}
@@ -315,6 +510,14 @@ export function FeedbackFormClient({
 
   return (
     <form onSubmit={handleSubmit} className="space-y-6">
+      {pendingCount > 0 && (
+        <div className="rounded-lg border border-[#d3c3a2] bg-[#fdfbf7] px-4 py-3 text-sm text-[#6b5841]">
+          {pendingCount === 1
+            ? "1 earlier response is saved on this device and will be sent once you're online."
+            : `${pendingCount} earlier responses are saved on this device and will be sent once you're online.`}
+        </div>
+      )}
+
       {/* Session Details - Editable */}
       <fieldset className="rounded-xl border border-[#d3c3a2] bg-white/80 p-4 shadow-sm">
         <legend className="px-2 text-sm font-medium text-[#3f301f]">
@@ -434,7 +637,11 @@ export function FeedbackFormClient({
         <div className="flex flex-col md:flex-row gap-4 mt-2 md:items-start">
           {/* Radar on left - 60% */}
           <div className="flex-shrink-0 md:w-[60%]">
-            <FeedbackRadarPreview expectedAxes={expectedAxes} feltAxes={feltAxes} />
+            <FeedbackRadarPreview
+              axisDefinitions={axisDefinitions}
+              expectedAxes={expectedAxes}
+              feltAxes={feltAxes}
+            />
             {/* Legend under radar */}
             <div className="mt-2 space-y-1">
               {/* Expected vs Felt */}
@@ -472,7 +679,7 @@ export function FeedbackFormClient({
           
           {/* Sliders on right - 40% */}
           <div className="flex-1 space-y-3">
-            {axes.map((axis) => {
+            {axisDefinitions.map(({ id: axis, label }) => {
               const expected = expectedAxes[axis] ?? 5;
               const felt = feltAxes[axis] ?? 5;
               const diff = felt - expected;
@@ -490,7 +697,7 @@ export function FeedbackFormClient({
                   {/* Label row with +/- buttons */}
                   <div className="flex items-center justify-between">
                     <span className="text-xs font-medium text-[#3f301f]">
-                      {AXIS_LABELS[axis]}
+                      {label}
                     </span>
                     <div className="flex items-center gap-1">
                       {/* Minus button - requires double-tap to go below expected */}
@@ -680,6 +887,7 @@ export function FeedbackFormClient({
         <textarea
           value={testimonial}
           onChange={(e) => setTestimonial(e.target.value)}
+          maxLength={FEEDBACK_LIMITS.testimonial}
           rows={3}
           placeholder="What stood out about this experience?"
           className="mt-2 w-full rounded-lg border border-[#d3c3a2] bg-white px-3 py-2 text-sm text-[#3f301f] placeholder:text-[#a89b84] focus:border-[#8b7a5c] focus:outline-none focus:ring-1 focus:ring-[#8b7a5c]"
@@ -695,6 +903,7 @@ export function FeedbackFormClient({
           type="text"
           value={contact}
           onChange={(e) => setContact(e.target.value)}
+          maxLength={FEEDBACK_LIMITS.contact}
           placeholder="Email or phone"
           className="mt-2 w-full rounded-lg border border-[#d3c3a2] bg-white px-3 py-2 text-sm text-[#3f301f] placeholder:text-[#a89b84] focus:border-[#8b7a5c] focus:outline-none focus:ring-1 focus:ring-[#8b7a5c]"
         />
@@ -703,6 +912,20 @@ export function FeedbackFormClient({
         </p>
       </fieldset>
 
+      {/* Honeypot, hidden from people and assistive tech */}
+      <div aria-hidden="true" className="absolute -left-[9999px] h-px w-px overflow-hidden">
+        <label htmlFor="feedback-website">Website</label>
+        <input
+          id="feedback-website"
+          type="text"
+          name={FEEDBACK_HONEYPOT_FIELD}
+          tabIndex={-1}
+          autoComplete="off"
+          value={honeypot}
+          onChange={(e) => setHoneypot(e.target.value)}
+        />
+      </div>
+
       {/* Error message */}
       {submitStatus === "error" && (
         <div className="rounded-lg bg-red-50 border border-red-200 px-4 py-3 text-sm text-red-700">
@@ -10,10 +10,8 @@ import {
   Filler,
   Tooltip,
 } from "chart.js";
-import type { AxisExperienceScores } from "@/lib/types";
+import type { AxisExperienceScores, TraitAxisDefinition } from "@/lib/types";
 import {
-  RADAR_AXES_ORDER,
-  RADAR_AXIS_LABELS_SHORT,
   getApothecaryRadarOptions,
   getExpectedDatasetStyle,
   getFeltDatasetStyle,
@@ -22,16 +20,21 @@ import {
 ChartJS.register(RadialLinearScale, PointElement, LineElement, Filler, Tooltip);
 
 type FeedbackRadarPreviewProps = {
+  axisDefinitions: TraitAxisDefinition[];
   expectedAxes: AxisExperienceScores;
   feltAxes: AxisExperienceScores;
 };
 
-export function FeedbackRadarPreview({ expectedAxes, feltAxes }: FeedbackRadarPreviewProps) {
+export function FeedbackRadarPreview({
+  axisDefinitions,
+  expectedAxes,
+  feltAxes,
+}: FeedbackRadarPreviewProps) {
   const data = useMemo(() => {
     // Use abbreviated labels for feedback radar
-    const labels = RADAR_AXES_ORDER.map((axis) => RADAR_AXIS_LABELS_SHORT[axis]);
-    const expectedValues = RADAR_AXES_ORDER.map((axis) => expectedAxes[axis] ?? 0);
-    const feltValues = RADAR_AXES_ORDER.map((axis) => feltAxes[axis] ?? 0);
+    const labels = axisDefinitions.map((axis) => axis.shortLabel);
+    const expectedValues = axisDefinitions.map(({ id }) => expectedAxes[id] ?? 0);
+    const feltValues = axisDefinitions.map(({ id }) => feltAxes[id] ?? 0);
 
     const expectedStyle = getExpectedDatasetStyle();
     const feltStyle = getFeltDatasetStyle();
@@ -53,7 +56,7 @@ export function FeedbackRadarPreview({ expectedAxes, feltAxes }: FeedbackRadarPr
         },
       ],
     };
-  }, [expectedAxes, feltAxes]);
+  }, [axisDefinitions, expectedAxes, feltAxes]);
 
   const options = useMemo(() => getApothecaryRadarOptions({ max: 10 }), []);
 
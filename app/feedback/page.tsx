@@ -1,5 +1,10 @@
 import { FeedbackFormClient } from "./FeedbackFormClient";
-import { getStrains, getDoseConfig, getTraitAxes, getStrainDoseData } from "@/data/strainData";
+import {
+  getStrains,
+  getDoseConfig,
+  getTraitAxisDefinitions,
+  getStrainDoseData,
+} from "@/data/strainData";
 import { getAllProducts } from "@/lib/productData";
 import type { DoseKey, TraitAxisId } from "@/lib/types";
 
@@ -16,17 +21,20 @@ export default async function FeedbackPage({ searchParams }: FeedbackPageProps)
   const params = await searchParams;
   
   // Load strain data for the form
-  const strains = getStrains();
-  const { order: doseOrder, config: doseConfig } = getDoseConfig();
-  const axes = getTraitAxes();
-  const allProducts = getAllProducts();
+  const [strains, { order: doseOrder, config: doseConfig }, axisDefinitions, allProducts] =
+    await Promise.all([
+      getStrains(),
+      getDoseConfig(),
+      getTraitAxisDefinitions(),
+      getAllProducts(),
+    ]);
   
   // Build initial axis values from the strain/dose if valid
   const initialAxisValues: Partial<Record<TraitAxisId, number>> = {};
   if (params.strain && params.dose) {
-    const data = getStrainDoseData(params.strain, params.dose as DoseKey);
+    const data = await getStrainDoseData(params.strain, params.dose as DoseKey);
     if (data) {
-      for (const axis of axes) {
+      for (const { id: axis } of axisDefinitions) {
         const rawValue = data.doseData.traits.values[axis];
         if (typeof rawValue === "number") {
           // Scale from 0-100 to 0-10
@@ -67,7 +75,7 @@ export default async function FeedbackPage({ searchParams }: FeedbackPageProps)
           ctaKey={params.cta}
           strainOptions={strainOptions}
           doseOptions={doseOptions}
-          axes={axes}
+          axisDefinitions={axisDefinitions}
           initialAxisValues={initialAxisValues}
           allProducts={allProducts}
         />
@@ -0,0 +1,121 @@
+"use client";
+
+import { useCallback, useEffect, useRef } from "react";
+import { useRouter } from "next/navigation";
+import type { AccessEventType, DoseKey } from "@/lib/types";
+import { getKioskDeviceId } from "@/lib/kioskDevices";
+
+type AccessTracking = {
+  // A visitor picked a strain or dose
+  trackView: (strainId: string, doseKey: DoseKey) => void;
+  // The feedback QR was opened
+  trackQrOpen: (strainId: string, doseKey: DoseKey) => void;
+  // A new visitor arrived (e.g. after the attract loop); counts a fresh visit
+  startSession: () => void;
+};
+
+// Keeps the visitor's session across reloads, so they don't count twice
+const SESSION_STORAGE_KEY = "tripdar-access-session";
+
+function createSessionId(): string {
+  return `s-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+function loadSessionId(accessKeyId: string): string | null {
+  try {
+    const stored = JSON.parse(sessionStorage.getItem(SESSION_STORAGE_KEY) ?? "null");
+    return stored?.accessKeyId === accessKeyId && typeof stored.sessionId === "string"
+      ? stored.sessionId
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+function saveSessionId(accessKeyId: string, sessionId: string): void {
+  try {
+    sessionStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify({ accessKeyId, sessionId }));
+  } catch {
+    // storage unavailable; a reload then counts as a new visit
+  }
+}
+
+/**
+ * Counts visits and logs views and feedback QR opens for the access key the
+ * kiosk was opened with, feeding the funnel on /admin/access. Each visitor
+ * gets its own session id, and the server counts each session's landing once
+ * (see lib/accessVisits.ts); the device id attributes first-time kiosks to a
+ * key. If the key is refused at landing — e.g. the last capped visit went to
+ * someone else a moment earlier — the page is re-rendered so the gate shows.
+ * Does nothing without an access key, and other failures are ignored.
+ */
+export function useAccessTracking(accessKeyId: string | null): AccessTracking {
+  const router = useRouter();
+  const sessionIdRef = useRef<string | null>(null);
+
+  const land = useCallback(
+    (sessionId: string) => {
+      if (!accessKeyId) return;
+      sessionIdRef.current = sessionId;
+      saveSessionId(accessKeyId, sessionId);
+      fetch("/api/access-landing", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          accessKeyId,
+          sessionId,
+          deviceId: getKioskDeviceId() ?? undefined,
+        }),
+      })
+        .then((res) => {
+          if (res.status === 403) router.refresh();
+        })
+        .catch(() => {
+          // offline; the visit goes uncounted rather than queueing
+        });
+    },
+    [accessKeyId, router]
+  );
+
+  const send = useCallback(
+    (type: AccessEventType, details: { strainId?: string; doseKey?: DoseKey } = {}) => {
+      const sessionId = sessionIdRef.current;
+      if (!accessKeyId || !sessionId) return;
+      fetch("/api/access-events", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          type,
+          accessKeyId,
+          sessionId,
+          deviceId: getKioskDeviceId() ?? undefined,
+          ...details,
+        }),
+        keepalive: true,
+      }).catch(() => {
+        // offline; the funnel undercounts rather than queueing
+      });
+    },
+    [accessKeyId]
+  );
+
+  const startSession = useCallback(() => {
+    land(createSessionId());
+  }, [land]);
+
+  useEffect(() => {
+    if (!accessKeyId) return;
+    land(loadSessionId(accessKeyId) ?? createSessionId());
+  }, [accessKeyId, land]);
+
+  const trackView = useCallback(
+    (strainId: string, doseKey: DoseKey) => send("view", { strainId, doseKey }),
+    [send]
+  );
+  const trackQrOpen = useCallback(
+    (strainId: string, doseKey: DoseKey) => send("qr_open", { strainId, doseKey }),
+    [send]
+  );
+
+  return { trackView, trackQrOpen, startSession };
+}
@@ -0,0 +1,38 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+
+// Any of these on the window counts as the kiosk being in use
+const ACTIVITY_EVENTS = ["pointerdown", "pointermove", "keydown", "wheel", "touchstart"] as const;
+
+/**
+ * Calls `onIdle` once after `timeoutMs` without user activity.
+ * Pass null to pause the timer (e.g. while the attract loop is showing);
+ * it restarts from zero when re-enabled.
+ */
+export function useIdleTimer(timeoutMs: number | null, onIdle: () => void): void {
+  const onIdleRef = useRef(onIdle);
+  useEffect(() => {
+    onIdleRef.current = onIdle;
+  }, [onIdle]);
+
+  useEffect(() => {
+    if (timeoutMs === null || timeoutMs <= 0) return;
+
+    let timer = setTimeout(() => onIdleRef.current(), timeoutMs);
+    const handleActivity = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => onIdleRef.current(), timeoutMs);
+    };
+
+    for (const event of ACTIVITY_EVENTS) {
+      window.addEventListener(event, handleActivity, { passive: true });
+    }
+    return () => {
+      clearTimeout(timer);
+      for (const event of ACTIVITY_EVENTS) {
+        window.removeEventListener(event, handleActivity);
+      }
+    };
+  }, [timeoutMs]);
+}
@@ -0,0 +1,143 @@
+"use client";
+
+import { useEffect, useRef, type RefObject } from "react";
+import type { KioskDeviceConfig, KioskDeviceDirective } from "@/lib/types";
+import {
+  HEARTBEAT_INTERVAL_MS,
+  getKioskDeviceId,
+  isProvisionedKiosk,
+} from "@/lib/kioskDevices";
+import { KIOSK_VERSION } from "@/lib/version";
+
+// Errors buffered between heartbeats; extras are dropped
+const MAX_BUFFERED_ERRORS = 20;
+
+type BufferedError = { message: string; at: string };
+
+/**
+ * Registers this kiosk with the device registry and heartbeats every minute
+ * with the running version, the last data version seen and any uncaught
+ * errors. Only runs for kiosks opened with an access key on a browser
+ * provisioned with ?kiosk=1 (`kioskParam`), so visitors following a shared
+ * ?key= link aren't registered.
+ *
+ * `onConfig` is called with the remote config on registration and whenever
+ * an admin changes it. A reload pushed from /admin/devices after this page
+ * loaded reloads the page.
+ */
+export function useKioskDevice(
+  accessKeyId: string | null,
+  kioskParam: string | null,
+  dataVersionRef: RefObject<string | null>,
+  onConfig: (config: KioskDeviceConfig) => void
+): void {
+  const onConfigRef = useRef(onConfig);
+  useEffect(() => {
+    onConfigRef.current = onConfig;
+  }, [onConfig]);
+
+  useEffect(() => {
+    if (!accessKeyId || !isProvisionedKiosk(kioskParam)) return;
+    const deviceId = getKioskDeviceId();
+    if (!deviceId) return;
+
+    const loadedAt = Date.now();
+    let cancelled = false;
+    let registered = false;
+    let configRevision: number | null = null;
+    let errors: BufferedError[] = [];
+
+    const recordError = (message: string) => {
+      if (errors.length < MAX_BUFFERED_ERRORS) {
+        errors.push({ message, at: new Date().toISOString() });
+      }
+    };
+    const handleError = (event: ErrorEvent) => recordError(event.message || "Script error");
+    const handleRejection = (event: PromiseRejectionEvent) =>
+      recordError(
+        event.reason instanceof Error ? event.reason.message : String(event.reason)
+      );
+
+    const applyDirective = (directive: KioskDeviceDirective) => {
+      if (
+        directive.reloadRequestedAt &&
+        Date.parse(directive.reloadRequestedAt) > loadedAt
+      ) {
+        window.location.reload();
+        return;
+      }
+      if (directive.configRevision !== configRevision) {
+        configRevision = directive.configRevision;
+        onConfigRef.current(directive.config);
+      }
+    };
+
+    async function register() {
+      const res = await fetch("/api/devices", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ deviceId, accessKeyId, version: KIOSK_VERSION }),
+      });
+      if (!res.ok || cancelled) return;
+      registered = true;
+      applyDirective((await res.json()) as KioskDeviceDirective);
+    }
+
+    async function heartbeat() {
+      if (!registered) {
+        await register();
+        return;
+      }
+      const sending = errors;
+      errors = [];
+      const requeue = () => {
+        errors = [...sending, ...errors].slice(0, MAX_BUFFERED_ERRORS);
+      };
+      let res: Response;
+      try {
+        res = await fetch(`/api/devices/${encodeURIComponent(deviceId!)}/heartbeat`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            version: KIOSK_VERSION,
+            dataVersion: dataVersionRef.current ?? undefined,
+            errors: sending,
+          }),
+        });
+      } catch (error) {
+        requeue();
+        throw error;
+      }
+      if (cancelled) return;
+      if (res.status === 404) {
+        // Removed from the registry; come back as a fresh registration
+        requeue();
+        registered = false;
+        await register();
+        return;
+      }
+      if (!res.ok) {
+        requeue();
+        return;
+      }
+      applyDirective((await res.json()) as KioskDeviceDirective);
+    }
+
+    const beat = () => {
+      heartbeat().catch(() => {
+        // offline; the next beat retries
+      });
+    };
+
+    window.addEventListener("error", handleError);
+    window.addEventListener("unhandledrejection", handleRejection);
+    beat();
+    const timer = setInterval(beat, HEARTBEAT_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+      window.removeEventListener("error", handleError);
+      window.removeEventListener("unhandledrejection", handleRejection);
+    };
+  }, [accessKeyId, kioskParam, dataVersionRef]);
+}
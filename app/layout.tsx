@@ -1,4 +1,4 @@
-import type { Metadata } from "next";
+import type { Metadata, Viewport } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
 import "./globals.css";
 import LegalSplash from "./components/LegalSplash";
@@ -20,6 +20,19 @@ export const metadata: Metadata = {
     title: "Tripdar · Trip Radar by Fungapedia",
     description: "Visualize psilocybin experiences by strain and dose. Powered by Fungapedia, in partnership with The Original Psilly.",
   },
+  // Installed kiosk tablets launch full-screen from the home screen icon
+  appleWebApp: {
+    capable: true,
+    title: "Tripdar",
+    statusBarStyle: "black-translucent",
+  },
+  icons: {
+    apple: "/app-icon-beta-1024.png",
+  },
+};
+
+export const viewport: Viewport = {
+  themeColor: "#f5eee1",
 };
 
 export default function RootLayout({
@@ -0,0 +1,109 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+
+type AdminLoginFormProps = {
+  // Admin path to open after signing in
+  next: string;
+  // Name of a signed-in account that has no admin role
+  signedInWithoutAccess?: string;
+};
+
+export function AdminLoginForm({ next, signedInWithoutAccess }: AdminLoginFormProps) {
+  const router = useRouter();
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [error, setError] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+    setIsLoading(true);
+
+    try {
+      const res = await fetch("/api/guides/login", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ username, password }),
+      });
+
+      const data = await res.json();
+
+      if (data.ok) {
+        // The admin checks the role; accounts without one land back here
+        router.push(next);
+        router.refresh();
+      } else {
+        setError(data.error || "Login failed");
+        setIsLoading(false);
+      }
+    } catch {
+      setError("An error occurred. Please try again.");
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-[var(--shell-bg)] flex items-center justify-center p-4">
+      <div className="w-full max-w-sm">
+        <div className="rounded-2xl border border-slate-200 bg-white p-8 shadow-sm">
+          <h1 className="text-center text-lg font-semibold text-slate-900">Tripdar Admin</h1>
+          <p className="mt-1 mb-6 text-center text-sm text-slate-500">
+            Sign in with an admin or manager account
+          </p>
+
+          {signedInWithoutAccess && (
+            <p className="mb-4 rounded-md bg-amber-50 px-3 py-2 text-sm text-amber-800">
+              You&apos;re signed in as {signedInWithoutAccess}, which doesn&apos;t have
+              admin access. Sign in with another account to continue.
+            </p>
+          )}
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <label className="block text-xs font-medium text-slate-600">
+              Username
+              <input
+                type="text"
+                autoComplete="username"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                className="mt-1 w-full rounded border border-slate-300 px-3 py-2 text-sm font-normal text-slate-900 focus:border-slate-500 focus:outline-none"
+              />
+            </label>
+            <label className="block text-xs font-medium text-slate-600">
+              Password
+              <input
+                type="password"
+                autoComplete="current-password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className="mt-1 w-full rounded border border-slate-300 px-3 py-2 text-sm font-normal text-slate-900 focus:border-slate-500 focus:outline-none"
+              />
+            </label>
+
+            {error && (
+              <p className="rounded-md bg-red-50 px-3 py-2 text-sm text-red-700">{error}</p>
+            )}
+
+            <button
+              type="submit"
+              disabled={!username || !password || isLoading}
+              className="w-full rounded-md bg-slate-900 px-4 py-2 text-sm font-medium text-white hover:bg-slate-800 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              {isLoading ? "Signing in…" : "Sign in"}
+            </button>
+          </form>
+        </div>
+
+        <p className="mt-6 text-center">
+          <Link href="/" className="text-sm text-slate-500 hover:text-slate-700 underline">
+            ← Back to Tripdar
+          </Link>
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,29 @@
+import { redirect } from "next/navigation";
+import { getGuideFromCookies } from "@/lib/guideSession";
+import { hasAdminPermission, sanitizeAdminRedirect } from "@/lib/adminAuth";
+import { AdminLoginForm } from "./AdminLoginForm";
+
+// Depends on the session cookie
+export const dynamic = "force-dynamic";
+
+type AdminLoginPageProps = {
+  searchParams: Promise<{ next?: string }>;
+};
+
+export default async function AdminLoginPage({ searchParams }: AdminLoginPageProps) {
+  const { next } = await searchParams;
+  const destination = sanitizeAdminRedirect(next);
+  const guide = await getGuideFromCookies();
+
+  if (guide && hasAdminPermission(guide, "view")) {
+    redirect(destination);
+  }
+
+  return (
+    <AdminLoginForm
+      next={destination}
+      // Signed in, but as a guide: explain why the admin bounced them here
+      signedInWithoutAccess={guide ? guide.name : undefined}
+    />
+  );
+}
@@ -0,0 +1,23 @@
+import type { MetadataRoute } from "next";
+
+// Installable full-screen kiosk app; served at /manifest.webmanifest
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: "Tripdar · Powered by Fungapedia",
+    short_name: "Tripdar",
+    description: "Visualize psilocybin experiences by strain and dose.",
+    start_url: "/",
+    scope: "/",
+    display: "fullscreen",
+    background_color: "#f5eee1",
+    theme_color: "#f5eee1",
+    icons: [
+      {
+        src: "/app-icon-beta-1024.png",
+        sizes: "1024x1024",
+        type: "image/png",
+        purpose: "any",
+      },
+    ],
+  };
+}
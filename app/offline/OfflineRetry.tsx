@@ -0,0 +1,25 @@
+"use client";
+
+import { useEffect } from "react";
+
+/**
+ * Reloads once the browser is back online. The offline page is served in
+ * place of the requested one, so a reload retries the original URL.
+ */
+export function OfflineRetry() {
+  useEffect(() => {
+    const reload = () => window.location.reload();
+    window.addEventListener("online", reload);
+    return () => window.removeEventListener("online", reload);
+  }, []);
+
+  return (
+    <button
+      type="button"
+      onClick={() => window.location.reload()}
+      className="rounded-full border border-[var(--card-border)] px-4 py-1.5 text-sm font-medium hover:bg-[var(--card-inner)]"
+    >
+      Try again
+    </button>
+  );
+}
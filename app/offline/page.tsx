@@ -0,0 +1,25 @@
+import type { Metadata } from "next";
+import { OfflineRetry } from "./OfflineRetry";
+
+export const metadata: Metadata = {
+  title: "Offline · Tripdar",
+};
+
+/**
+ * Precached by the service worker and shown for pages it has no exact copy
+ * of while the network is down (see lib/serviceWorker.ts).
+ */
+export default function OfflinePage() {
+  return (
+    <main className="min-h-screen flex items-center justify-center bg-[var(--shell-bg)] text-[var(--ink-main)] px-6">
+      <div className="max-w-sm text-center space-y-3">
+        <h1 className="text-lg font-semibold">You&apos;re offline</h1>
+        <p className="text-sm text-[var(--ink-soft)]">
+          This page isn&apos;t available without a connection. It will load as soon as the
+          network is back.
+        </p>
+        <OfflineRetry />
+      </div>
+    </main>
+  );
+}
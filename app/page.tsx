@@ -1,28 +1,16 @@
 import { Suspense } from "react";
-import { promises as fs } from "fs";
-import path from "path";
+import { cookies } from "next/headers";
 import { StrainExplorerClient } from "./StrainExplorerClient";
 import { BetaGate } from "./components/BetaGate";
 import { Gateway } from "./components/Gateway";
-import type { AccessKeyDataset, AccessKeySettings } from "@/lib/types";
+import { getStrains } from "@/data/strainData";
+import { accessKeysRepository } from "@/lib/storage";
+import { getAccessKeyDenial, scopeStrains } from "@/lib/accessKeys";
+import { ACCESS_LANDING_COOKIE, isAdmittedWithKey } from "@/lib/accessVisits";
 
 // Force dynamic rendering so access key changes take effect immediately
 export const dynamic = "force-dynamic";
 
-const DEFAULT_SETTINGS: AccessKeySettings = {
-  requireKeyForRoot: false,
-};
-
-async function loadAccessKeys(): Promise<AccessKeyDataset> {
-  try {
-    const filePath = path.join(process.cwd(), "data", "accessKeys.json");
-    const raw = await fs.readFile(filePath, "utf8");
-    return JSON.parse(raw) as AccessKeyDataset;
-  } catch {
-    return { keys: [], settings: DEFAULT_SETTINGS };
-  }
-}
-
 type PageProps = {
   searchParams: Promise<{ key?: string }>;
 };
@@ -31,13 +19,14 @@ export default async function StrainExplorerPage({ searchParams }: PageProps) {
   const { key } = await searchParams;
 
   // Load access keys data dynamically at request time
-  const dataset = await loadAccessKeys();
-  const settings = dataset.settings ?? DEFAULT_SETTINGS;
-  const keys = dataset.keys ?? [];
-  const requireKeyForRoot = settings.requireKeyForRoot;
+  const { keys, settings } = await accessKeysRepository.read();
+  const requireKeyForRoot = settings?.requireKeyForRoot ?? false;
+  const strains = await getStrains();
 
-  // If public access is enabled (no key required), go straight to strain explorer
-  if (!requireKeyForRoot) {
+  // Without a key: the Gateway screen when keys are required, otherwise the
+  // full explorer
+  if (!key) {
+    if (requireKeyForRoot) return <Gateway />;
     return (
       <Suspense
         fallback={
@@ -46,25 +35,28 @@ export default async function StrainExplorerPage({ searchParams }: PageProps) {
           </div>
         }
       >
-        <StrainExplorerClient />
+        <StrainExplorerClient strains={strains} />
       </Suspense>
     );
   }
 
-  // Key gating is enabled - if no key param, show the Gateway screen
-  if (!key) {
-    return <Gateway />;
+  // A supplied key is always checked, even when the root is public: it must
+  // exist, be active, and not have expired or used up its visits. Visits are counted by the client's landing request, not
+  // here, so refreshes of a running kiosk don't use them up; a browser that
+  // already landed with the key stays in once the cap is reached.
+  const accessKey = keys.find((k) => k.id === key);
+  let denial = getAccessKeyDenial(accessKey);
+  if (denial === "exhausted") {
+    const landing = (await cookies()).get(ACCESS_LANDING_COOKIE)?.value;
+    if (isAdmittedWithKey(landing, key)) denial = null;
   }
 
-  // Check if the provided key is valid and active
-  const hasValidKey = keys.some((k) => k.id === key && k.isActive);
-
   // If key is invalid, show the beta gate
-  if (!hasValidKey) {
-    return <BetaGate />;
+  if (denial || !accessKey) {
+    return <BetaGate reason={denial ?? "unknown"} expiresAt={accessKey?.expiresAt} />;
   }
 
-  // Valid key provided, render the strain explorer
+  // Valid key provided, render the strain explorer limited to the key's scope
   return (
     <Suspense
       fallback={
@@ -73,7 +65,12 @@ export default async function StrainExplorerPage({ searchParams }: PageProps) {
         </div>
       }
     >
-      <StrainExplorerClient />
+      <StrainExplorerClient
+        strains={scopeStrains(strains, accessKey)}
+        allowedDoseKeys={accessKey.allowedDoseKeys}
+        // Greets visitors with the key's label; the key list itself is admin-only
+        welcomeLabel={accessKey.label || undefined}
+      />
     </Suspense>
   );
 }
@@ -2,7 +2,12 @@ import { notFound } from "next/navigation";
 import Link from "next/link";
 import type { Metadata } from "next";
 import { getProductById } from "@/lib/productData";
-import { STRAINS, DEFAULT_DOSE_CONFIG } from "@/app/components/strainConstants";
+import { getStrains, getDoseConfig } from "@/data/strainData";
+import { feedbackRepository } from "@/lib/storage";
+import {
+  MIN_PUBLIC_PRODUCT_RATINGS,
+  summarizeProductRatings,
+} from "@/lib/productRatings";
 import { ProductImage } from "./ProductImage";
 
 type ProductPageProps = {
@@ -14,7 +19,7 @@ export async function generateMetadata({
   params,
 }: ProductPageProps): Promise<Metadata> {
   const { id } = await params;
-  const product = getProductById(id);
+  const product = await getProductById(id);
   return {
     title: product
       ? `${product.name} – The Original Psilly`
@@ -28,7 +33,7 @@ export default async function ProductPage({
 }: ProductPageProps) {
   const { id } = await params;
   const { key } = await searchParams;
-  const product = getProductById(id);
+  const product = await getProductById(id);
 
   if (!product) {
     notFound();
@@ -38,12 +43,18 @@ export default async function ProductPage({
   // Use the first strain from strainIds if available
   const primaryStrainId = product.strainIds?.[0];
   const strain = primaryStrainId
-    ? STRAINS.find((s) => s.id === primaryStrainId)
+    ? (await getStrains()).find((s) => s.id === primaryStrainId)
     : null;
   const doseConfig = product.doseKey
-    ? DEFAULT_DOSE_CONFIG[product.doseKey]
+    ? (await getDoseConfig()).config[product.doseKey] ?? null
     : null;
 
+  const { entries } = await feedbackRepository.read();
+  const ratings = summarizeProductRatings(entries, product.id);
+  const showRatings =
+    ratings.count >= MIN_PUBLIC_PRODUCT_RATINGS &&
+    ratings.avgOverallExperience !== null;
+
   const initials = product.name
     .split(" ")
     .slice(0, 2)
@@ -183,6 +194,34 @@ export default async function ProductPage({
           </div>
         </div>
 
+        {/* Customer ratings from attributed feedback */}
+        {showRatings && (
+          <section className="mt-6 rounded-xl border border-[#e2d3b5] bg-white p-4 shadow-sm">
+            <h2 className="text-sm font-semibold uppercase tracking-wide text-[#3f301f]">
+              Customer Ratings
+            </h2>
+            <div className="mt-3 flex flex-wrap gap-6 text-sm text-[#3c291b]">
+              <div>
+                <span className="block text-xs font-semibold uppercase tracking-wide text-[#8b7a5c]">
+                  Overall
+                </span>
+                ★ {ratings.avgOverallExperience?.toFixed(1)} / 5
+              </div>
+              {ratings.avgIntensity !== null && (
+                <div>
+                  <span className="block text-xs font-semibold uppercase tracking-wide text-[#8b7a5c]">
+                    Intensity
+                  </span>
+                  {ratings.avgIntensity.toFixed(1)} / 5
+                </div>
+              )}
+            </div>
+            <p className="mt-2 text-xs text-[#8b7a5c]">
+              Based on {ratings.count} customer reports
+            </p>
+          </section>
+        )}
+
         {/* Where to buy section */}
         <section className="mt-6">
           <h2 className="mb-3 text-sm font-semibold uppercase tracking-wide text-[#3f301f]">
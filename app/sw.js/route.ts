@@ -0,0 +1,55 @@
+import { getDoseConfig, getStrains } from "@/data/strainData";
+import { getAllProducts } from "@/lib/productData";
+import { getLiveDataVersion } from "@/lib/dataService";
+import { OFFLINE_PAGE_URL, buildServiceWorkerScript } from "@/lib/serviceWorker";
+import { KIOSK_VERSION } from "@/lib/version";
+
+export const dynamic = "force-dynamic";
+
+// Pages a kiosk needs to start up offline
+const APP_SHELL_URLS = [
+  "/",
+  "/dose-levels",
+  OFFLINE_PAGE_URL,
+  "/manifest.webmanifest",
+  "/app-icon-beta-1024.png",
+];
+
+/**
+ * The kiosk service worker, regenerated whenever strain or product data
+ * changes so installed kiosks precache the new dose payloads.
+ */
+export async function GET() {
+  const [dataVersion, strains, { order }, products] = await Promise.all([
+    getLiveDataVersion(),
+    getStrains(),
+    getDoseConfig(),
+    getAllProducts(),
+  ]);
+
+  const doseUrls = strains.flatMap((strain) =>
+    order.map(
+      (doseKey) =>
+        `/api/strains/${encodeURIComponent(strain.id)}/dose/${encodeURIComponent(doseKey)}`
+    )
+  );
+  const productImageUrls = products
+    .filter((p) => p.status === "active" && p.imageUrl?.startsWith("/"))
+    .map((p) => p.imageUrl as string);
+
+  const script = buildServiceWorkerScript({
+    version: `${KIOSK_VERSION}-${dataVersion}`,
+    precacheUrls: [
+      ...new Set([...APP_SHELL_URLS, "/api/dose-config", ...doseUrls, ...productImageUrls]),
+    ],
+  });
+
+  return new Response(script, {
+    headers: {
+      "Content-Type": "application/javascript; charset=utf-8",
+      // Browsers must re-check the worker on every load to pick up new data
+      "Cache-Control": "no-cache, no-store, must-revalidate",
+      "Service-Worker-Allowed": "/",
+    },
+  });
+}
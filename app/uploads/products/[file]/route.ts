@@ -0,0 +1,30 @@
+/**
+ * Uploaded Product Images
+ *
+ * GET: Serves an image uploaded through /api/admin/product-image.
+ * File names carry the upload time, so responses never change.
+ */
+
+import { NextResponse } from "next/server";
+import { readProductImage } from "@/lib/productImages";
+
+type RouteParams = {
+  params: Promise<{
+    file: string;
+  }>;
+};
+
+export async function GET(_request: Request, { params }: RouteParams) {
+  const { file } = await params;
+  const image = await readProductImage(file);
+  if (!image) {
+    return NextResponse.json({ error: "Image not found" }, { status: 404 });
+  }
+
+  return new NextResponse(new Uint8Array(image.body), {
+    headers: {
+      "Content-Type": image.contentType,
+      "Cache-Control": "public, max-age=31536000, immutable",
+    },
+  });
+}
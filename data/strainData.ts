@@ -1,13 +1,14 @@
 // data/strainData.ts
 // SERVER-ONLY canonical dataset for strain + dose values & text.
+// Reads the live dataset (lib/dataService.ts), so admin saves show up
+// without a rebuild.
 
-import rawStrainData from "./strains.json";
 import type {
   DoseKey,
+  TraitAxisDefinition,
   TraitAxisId,
   DoseSnapshot,
   StrainMeta,
-  StrainTestimonials,
   StrainJsonEntry,
   DoseConfig,
   DoseConfigMap,
@@ -17,8 +18,22 @@ import type {
   StrainDoseData,
   StrainDoseResult,
   StrainDataset,
-  StrainExperienceMeta,
+  StrainRegistryEntry,
+  InterpolatedStrainDoseResult,
+  ComparisonSelection,
+  StrainComparisonResult,
+  RecommendationRequest,
+  StrainRecommendation,
 } from "@/lib/types";
+import { getLiveStrainDataset } from "@/lib/dataService";
+import {
+  buildStrainIndex,
+  lookupStrainDoseData,
+  type StrainIndex,
+} from "@/lib/strainIndex";
+import { lookupStrainAtGrams } from "@/lib/doseInterpolation";
+import { compareStrainDoses } from "@/lib/strainComparison";
+import { collectIntentionTags, rankStrainDoses } from "@/lib/strainRecommendation";
 
 // Re-export types for convenience
 export type {
@@ -35,130 +50,107 @@ export type {
   StrainDoseData,
   StrainDoseResult,
   StrainDataset,
+  StrainRegistryEntry,
+  InterpolatedStrainDoseResult,
+  StrainComparisonResult,
+  StrainRecommendation,
 };
 
-const dataset = rawStrainData as {
-  doses: DoseKey[];
-  axes: TraitAxisId[];
-  doseConfig: DoseConfigMap;
-  strains: Record<string, Omit<StrainJsonEntry, 'meta' | 'snapshots' | 'testimonials' | 'experienceMeta'> & {
-    meta?: StrainMeta;
-    snapshots?: Record<DoseKey, DoseSnapshot>;
-    testimonials?: StrainTestimonials;
-    experienceMeta?: Record<DoseKey, StrainExperienceMeta>;
-  }>;
-};
-
-const STRAIN_SLUGS: Record<string, { slug: string; colorHex: string }> = {
-  "Golden Teacher": { slug: "golden-teacher", colorHex: "#f3b34c" },
-  "Penis Envy": { slug: "penis-envy", colorHex: "#8c6cae" },
-  Amazonian: { slug: "amazonian", colorHex: "#95a751" },
-  Enigma: { slug: "enigma", colorHex: "#5f6c6e" },
-  Cambodian: { slug: "cambodian", colorHex: "#4b7a1b" },
-  "Full Moon Party": { slug: "full-moon-party", colorHex: "#cf2914" },
-};
+let indexCache: StrainIndex | null = null;
 
-const SLUG_TO_INFO = Object.entries(STRAIN_SLUGS).reduce<
-  Record<string, { name: string; colorHex: string }>
->((acc, [name, info]) => {
-  acc[info.slug] = { name, colorHex: info.colorHex };
-  return acc;
-}, {});
+// Rebuilds the registry only when the data service hands out a new dataset
+async function getStrainIndex(): Promise<StrainIndex> {
+  const dataset = await getLiveStrainDataset();
+  if (indexCache?.dataset !== dataset) {
+    indexCache = buildStrainIndex(dataset);
+  }
+  return indexCache;
+}
 
-const DEFAULT_COLOR = "#4a371f";
-const DOSE_KEYS = dataset.doses as DoseKey[];
-const AXIS_LABELS = dataset.axes as TraitAxisId[];
+export async function getTraitAxes(): Promise<TraitAxisId[]> {
+  const { dataset } = await getStrainIndex();
+  return dataset.axes;
+}
 
-export function getTraitAxes(): TraitAxisId[] {
-  return AXIS_LABELS;
+// Axes with labels, short labels and colors resolved from the dataset
+export async function getTraitAxisDefinitions(): Promise<TraitAxisDefinition[]> {
+  const { axisDefinitions } = await getStrainIndex();
+  return axisDefinitions;
 }
 
-export function getDoseConfig(): { order: DoseKey[]; config: DoseConfigMap } {
+export async function getDoseConfig(): Promise<{
+  order: DoseKey[];
+  config: DoseConfigMap;
+}> {
+  const { dataset } = await getStrainIndex();
   return {
     order: dataset.doses,
     config: dataset.doseConfig,
   };
 }
 
-export function getStrains(): Strain[] {
-  return Object.entries(STRAIN_SLUGS)
-    .filter(([name]) => dataset.strains[name as keyof typeof dataset.strains])
-    .map(([name, info]) => ({
-      id: info.slug,
-      name,
-      colorHex: info.colorHex ?? DEFAULT_COLOR,
-    }));
+/**
+ * Returns every registered strain in sort order, including hidden ones.
+ */
+export async function getStrainRegistry(): Promise<StrainRegistryEntry[]> {
+  const { registry } = await getStrainIndex();
+  return registry.map((info) => ({ ...info }));
 }
 
-export function getStrainDoseData(
+/**
+ * Returns the strains shown in the kiosk, in sort order.
+ */
+export async function getStrains(): Promise<Strain[]> {
+  const { registry } = await getStrainIndex();
+  return registry
+    .filter((info) => info.isVisible)
+    .map(({ id, name, colorHex }) => ({ id, name, colorHex }));
+}
+
+export async function getStrainDoseData(
   strainId: string,
   doseKey: DoseKey
-): StrainDoseResult | null {
-  const strainInfo = SLUG_TO_INFO[strainId];
-  if (!strainInfo) return null;
-
-  const strainName = strainInfo.name;
-
-  const strainEntry = dataset.strains[strainName as keyof typeof dataset.strains] as
-    | StrainJsonEntry
-    | undefined;
-  if (!strainEntry) return null;
-
-  const doseIndex = DOSE_KEYS.indexOf(doseKey);
-  if (doseIndex === -1) return null;
-
-  const traitsValues = AXIS_LABELS.reduce<Record<TraitAxisId, number>>(
-    (acc, axis) => {
-      const axisSeries = strainEntry.radar[axis];
-      acc[axis] = axisSeries?.[doseIndex] ?? 0;
-      return acc;
-    },
-    {} as Record<TraitAxisId, number>
-  );
+): Promise<StrainDoseResult | null> {
+  return lookupStrainDoseData(await getStrainIndex(), strainId, doseKey);
+}
 
-  const content: DoseContent = {
-    blurb: strainEntry.blurb[doseKey] ?? "",
-    details: strainEntry.details[doseKey] ?? "",
-    products: strainEntry.products[doseKey] ?? [],
-  };
+/**
+ * Strain data at an arbitrary gram amount, interpolated between the two
+ * surrounding dose tiers (by doseConfig grams).
+ */
+export async function getStrainDataAtGrams(
+  strainId: string,
+  grams: number
+): Promise<InterpolatedStrainDoseResult | null> {
+  return lookupStrainAtGrams(await getStrainIndex(), strainId, grams);
+}
 
-  const meta = strainEntry.meta ?? null;
-  const snapshot = strainEntry.snapshots?.[doseKey] ?? null;
-  const testimonialsForDose =
-    strainEntry.testimonials?.[doseKey]?.filter(Boolean) ?? [];
-  const experienceMeta = strainEntry.experienceMeta?.[doseKey] ?? null;
+/**
+ * Radar values, per-axis deltas and snapshots for two or three
+ * strain+dose selections.
+ */
+export async function getStrainComparison(
+  selections: ComparisonSelection[]
+): Promise<StrainComparisonResult | null> {
+  return compareStrainDoses(await getStrainIndex(), selections);
+}
 
-  const baseColor = SLUG_TO_INFO[strainId]?.colorHex ?? DEFAULT_COLOR;
-  const accentHex =
-    strainEntry.visual?.[doseKey]?.colorHex?.trim() || baseColor;
-  const doseInfo =
-    dataset.doseConfig?.[doseKey] ??
-    ({
-      label: doseKey,
-      grams: 0,
-    } as DoseConfig);
+/**
+ * Strain+dose combinations ranked against a desired experience profile.
+ */
+export async function getStrainRecommendations(
+  request: RecommendationRequest
+): Promise<StrainRecommendation[]> {
+  return rankStrainDoses(await getStrainIndex(), request);
+}
 
-  return {
-    strain: {
-      id: strainId,
-      name: strainInfo.name,
-      colorHex: SLUG_TO_INFO[strainId]?.colorHex ?? DEFAULT_COLOR,
-    },
-    doseKey,
-    doseData: {
-      traits: { values: traitsValues },
-      content,
-    },
-    axes: AXIS_LABELS,
-    accentHex,
-    doseInfo,
-    meta,
-    snapshot,
-    testimonialsForDose,
-    experienceMeta,
-  };
+/**
+ * bestFor tags customers can pick as intentions.
+ */
+export async function getIntentionTags(): Promise<string[]> {
+  return collectIntentionTags(await getStrainIndex());
 }
 
-export function getEditableDataset(): StrainDataset {
-  return JSON.parse(JSON.stringify(dataset));
+export async function getEditableDataset(): Promise<StrainDataset> {
+  return JSON.parse(JSON.stringify(await getLiveStrainDataset()));
 }
@@ -0,0 +1,25 @@
+// lib/accessEvents.ts
+// Server-side writer for access key attribution events (see
+// lib/accessFunnel.ts for the report built from them).
+
+import type { AccessEvent } from "@/lib/types";
+import { accessEventsLog } from "@/lib/storage";
+
+function generateId(): string {
+  return `ae-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Appends one event to the access events log.
+ */
+export async function recordAccessEvent(
+  event: Omit<AccessEvent, "id" | "createdAt">
+): Promise<AccessEvent> {
+  const stored: AccessEvent = {
+    id: generateId(),
+    createdAt: new Date().toISOString(),
+    ...event,
+  };
+  await accessEventsLog.append(stored);
+  return stored;
+}
@@ -0,0 +1,139 @@
+// lib/accessFunnel.ts
+// Attribution funnel per access key, built from the access events log:
+// visits → engaged → feedback QR → feedback. Visits, engagement and QR opens
+// count kiosk sessions; feedback counts submissions, since those are sent
+// from the visitor's own phone. Visit events are written by the server when
+// it counts a landing (lib/accessVisits.ts), so all-time visits match the
+// keys' visitCount.
+// Test keys are reported per key but left out of the totals.
+
+import type {
+  AccessEvent,
+  AccessFunnelCounts,
+  AccessFunnelReport,
+  AccessKey,
+  AccessKeyFunnel,
+  FeedbackAnalyticsRange,
+} from "@/lib/types";
+
+function inRange(event: AccessEvent, range: FeedbackAnalyticsRange): boolean {
+  const day = event.createdAt.slice(0, 10);
+  return (!range.from || day >= range.from) && (!range.to || day <= range.to);
+}
+
+function emptyCounts(): AccessFunnelCounts {
+  return { visits: 0, engaged: 0, qrOpens: 0, feedback: 0, devices: 0, newDevices: 0 };
+}
+
+type KeyTally = {
+  visitSessions: Set<string>;
+  viewSessions: Set<string>;
+  qrSessions: Set<string>;
+  devices: Set<string>;
+  newDevices: Set<string>;
+  feedback: number;
+};
+
+function countIn(sessions: Set<string>, visits: Set<string>): number {
+  // Only sessions whose visit is in range, so each stage <= the one before
+  let count = 0;
+  for (const session of sessions) {
+    if (visits.has(session)) count += 1;
+  }
+  return count;
+}
+
+/**
+ * Funnel per access key (every known key, plus any unknown key ids found in
+ * the events) for events created within `range`.
+ */
+export function buildAccessFunnel(
+  events: AccessEvent[],
+  keys: AccessKey[],
+  range: FeedbackAnalyticsRange
+): AccessFunnelReport {
+  // First-touch attribution: the key of each device's earliest visit
+  const firstVisitByDevice = new Map<string, AccessEvent>();
+  for (const event of events) {
+    if (event.type !== "visit" || !event.deviceId) continue;
+    const first = firstVisitByDevice.get(event.deviceId);
+    if (!first || event.createdAt < first.createdAt) {
+      firstVisitByDevice.set(event.deviceId, event);
+    }
+  }
+
+  const tallies = new Map<string, KeyTally>();
+  const tallyFor = (accessKeyId: string) => {
+    let tally = tallies.get(accessKeyId);
+    if (!tally) {
+      tally = {
+        visitSessions: new Set(),
+        viewSessions: new Set(),
+        qrSessions: new Set(),
+        devices: new Set(),
+        newDevices: new Set(),
+        feedback: 0,
+      };
+      tallies.set(accessKeyId, tally);
+    }
+    return tally;
+  };
+  keys.forEach((key) => tallyFor(key.id));
+
+  for (const event of events) {
+    if (!inRange(event, range)) continue;
+    const tally = tallyFor(event.accessKeyId);
+    switch (event.type) {
+      case "visit":
+        if (event.sessionId) tally.visitSessions.add(event.sessionId);
+        if (event.deviceId) {
+          tally.devices.add(event.deviceId);
+          if (firstVisitByDevice.get(event.deviceId) === event) {
+            tally.newDevices.add(event.deviceId);
+          }
+        }
+        break;
+      case "view":
+        if (event.sessionId) tally.viewSessions.add(event.sessionId);
+        break;
+      case "qr_open":
+        if (event.sessionId) tally.qrSessions.add(event.sessionId);
+        break;
+      case "feedback":
+        tally.feedback += 1;
+        break;
+    }
+  }
+
+  const testKeyIds = new Set(keys.filter((k) => k.type === "test").map((k) => k.id));
+  const totals = emptyCounts();
+  const totalDevices = new Set<string>();
+
+  const byKey: AccessKeyFunnel[] = [...tallies.entries()].map(([accessKeyId, tally]) => {
+    const funnel: AccessKeyFunnel = {
+      accessKeyId,
+      excludedFromTotals: testKeyIds.has(accessKeyId),
+      visits: tally.visitSessions.size,
+      engaged: countIn(tally.viewSessions, tally.visitSessions),
+      qrOpens: countIn(tally.qrSessions, tally.visitSessions),
+      feedback: tally.feedback,
+      devices: tally.devices.size,
+      newDevices: tally.newDevices.size,
+    };
+    if (!funnel.excludedFromTotals) {
+      totals.visits += funnel.visits;
+      totals.engaged += funnel.engaged;
+      totals.qrOpens += funnel.qrOpens;
+      totals.feedback += funnel.feedback;
+      totals.newDevices += funnel.newDevices;
+      tally.devices.forEach((device) => totalDevices.add(device));
+    }
+    return funnel;
+  });
+  totals.devices = totalDevices.size;
+
+  byKey.sort(
+    (a, b) => b.visits - a.visits || b.feedback - a.feedback || a.accessKeyId.localeCompare(b.accessKeyId)
+  );
+  return { range, byKey, totals };
+}
@@ -0,0 +1,75 @@
+// lib/accessKeys.ts
+// Access key rules shared by the root page gate, kiosk registration and the
+// access admin: expiry, visit caps, strain/dose scopes and partner links.
+// Scopes narrow what the explorer offers; the public data APIs stay open.
+
+import type { AccessKey, AccessKeyDataset, AccessKeyDenial, DoseKey } from "@/lib/types";
+
+// Partner ids link access keys to partner-only products (Product.partnerId)
+export const PARTNER_ID_PATTERN = /^[a-z0-9][a-z0-9-]{0,63}$/;
+
+export function isAccessKeyExpired(key: AccessKey, now = Date.now()): boolean {
+  return key.expiresAt !== undefined && Date.parse(key.expiresAt) <= now;
+}
+
+// Checked before the current visit is counted
+export function isAccessKeyExhausted(key: AccessKey): boolean {
+  return key.maxVisits !== undefined && (key.visitCount ?? 0) >= key.maxVisits;
+}
+
+/**
+ * Why `key` may not be used right now, or null when it may.
+ */
+export function getAccessKeyDenial(
+  key: AccessKey | undefined,
+  now = Date.now()
+): AccessKeyDenial | null {
+  if (!key) return "unknown";
+  if (!key.isActive) return "inactive";
+  if (isAccessKeyExpired(key, now)) return "expired";
+  if (isAccessKeyExhausted(key)) return "exhausted";
+  return null;
+}
+
+export function hasAccessKeyScope(key: AccessKey): boolean {
+  return Boolean(key.allowedStrainIds?.length || key.allowedDoseKeys?.length);
+}
+
+/**
+ * `next` with each key's visitCount taken from `current`. Counts are
+ * maintained by /api/access-landing (lib/accessVisits.ts), so admin saves
+ * and restores must merge them from the document held under the lock rather
+ * than write whatever they loaded.
+ */
+export function withCurrentVisitCounts(
+  next: AccessKeyDataset,
+  current: AccessKeyDataset
+): AccessKeyDataset {
+  const visits = new Map(current.keys.map((key) => [key.id, key.visitCount]));
+  return {
+    ...next,
+    keys: next.keys.map((key) => ({ ...key, visitCount: visits.get(key.id) })),
+  };
+}
+
+/**
+ * Strains a key may show, in their original order. A scope that matches
+ * nothing (e.g. every listed strain was removed) falls back to all strains
+ * rather than leaving the kiosk empty.
+ */
+export function scopeStrains<T extends { id: string }>(strains: T[], key?: AccessKey): T[] {
+  const allowed = key?.allowedStrainIds;
+  if (!allowed?.length) return strains;
+  const scoped = strains.filter((strain) => allowed.includes(strain.id));
+  return scoped.length ? scoped : strains;
+}
+
+/**
+ * Dose order narrowed to the allowed doses, with the same fallback as
+ * scopeStrains().
+ */
+export function scopeDoseOrder(order: DoseKey[], allowedDoseKeys?: DoseKey[]): DoseKey[] {
+  if (!allowedDoseKeys?.length) return order;
+  const scoped = order.filter((key) => allowedDoseKeys.includes(key));
+  return scoped.length ? scoped : order;
+}
@@ -0,0 +1,87 @@
+// lib/accessVisits.ts
+// Counts access key visits on the server. The kiosk posts to
+// /api/access-landing when a visitor session starts (first mount, or a new
+// visitor after the attract loop); re-renders and reloads within the same
+// session don't count again. Each counted visit bumps the key's visitCount
+// and logs the "visit" event the funnel reads in the same locked step, so
+// both always agree. A counted landing sets a browser-session cookie for the
+// key and session, which also keeps a running kiosk open once the key's cap
+// is used up by later landings.
+
+import type { AccessKeyDenial } from "@/lib/types";
+import { accessKeysRepository } from "@/lib/storage";
+import { getAccessKeyDenial } from "@/lib/accessKeys";
+import { recordAccessEvent } from "@/lib/accessEvents";
+import { KIOSK_DEVICE_ID_PATTERN } from "@/lib/kioskDevices";
+
+export const ACCESS_LANDING_COOKIE = "tripdar_access_landing";
+
+// No maxAge: the cookie lasts as long as the browser session
+export const ACCESS_LANDING_COOKIE_OPTIONS = {
+  httpOnly: true,
+  secure: process.env.NODE_ENV === "production",
+  sameSite: "lax" as const,
+  path: "/",
+};
+
+// Same shape as device ids: random, URL-safe (and never containing ":")
+export const ACCESS_SESSION_ID_PATTERN = KIOSK_DEVICE_ID_PATTERN;
+
+type AccessLanding = {
+  accessKeyId: string;
+  sessionId: string;
+};
+
+export function formatLandingCookie(landing: AccessLanding): string {
+  return `${landing.accessKeyId}:${landing.sessionId}`;
+}
+
+export function parseLandingCookie(value: string | undefined): AccessLanding | null {
+  if (!value) return null;
+  // Session ids never contain ":", key ids might
+  const separator = value.lastIndexOf(":");
+  if (separator <= 0) return null;
+  return { accessKeyId: value.slice(0, separator), sessionId: value.slice(separator + 1) };
+}
+
+/**
+ * Whether the landing cookie shows this browser was already admitted with
+ * `accessKeyId`.
+ */
+export function isAdmittedWithKey(cookieValue: string | undefined, accessKeyId: string): boolean {
+  return parseLandingCookie(cookieValue)?.accessKeyId === accessKeyId;
+}
+
+/**
+ * Checks `accessKeyId` and counts one visit, under the access keys lock so
+ * simultaneous landings can't overshoot the cap. Browsers already `admitted`
+ * with the key are counted past the cap. Returns why the key was refused
+ * (nothing is counted then), or null.
+ */
+export async function countAccessKeyVisit(
+  accessKeyId: string,
+  visit: { sessionId: string; deviceId?: string; admitted: boolean }
+): Promise<AccessKeyDenial | null> {
+  let denial: AccessKeyDenial | null = "unknown";
+  await accessKeysRepository.update(async (dataset) => {
+    const key = dataset.keys.find((k) => k.id === accessKeyId);
+    denial = getAccessKeyDenial(key);
+    if (denial === "exhausted" && visit.admitted) denial = null;
+    if (denial) return dataset;
+
+    // Logged before the count is written: if this fails, neither changes
+    await recordAccessEvent({
+      type: "visit",
+      accessKeyId,
+      sessionId: visit.sessionId,
+      deviceId: visit.deviceId,
+    });
+    return {
+      ...dataset,
+      keys: dataset.keys.map((k) =>
+        k.id === accessKeyId ? { ...k, visitCount: (k.visitCount ?? 0) + 1 } : k
+      ),
+    };
+  });
+  return denial;
+}
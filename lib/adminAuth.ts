@@ -0,0 +1,122 @@
+// lib/adminAuth.ts
+// Who may use /admin and the admin APIs. Admins sign in with a GuideAccount
+// (the guides portal session cookie); the account's role grants permissions:
+// managers view and edit content, admins also manage access keys and read
+// the audit log. Guides have no admin access.
+//
+// proxy.ts checks every admin request against getRequiredAdminPermission();
+// route handlers check again with authorizeAdmin() so a matcher change can't
+// open them up.
+
+import { NextResponse } from "next/server";
+import type {
+  AdminPermission,
+  AdminSession,
+  GuideAccount,
+  GuideRole,
+  RevisionDatasetId,
+} from "@/lib/types";
+import { getGuideFromCookies } from "@/lib/guideSession";
+
+export const ADMIN_LOGIN_PATH = "/login";
+
+// Where a sign-in without a ?next= lands
+export const ADMIN_HOME_PATH = "/admin/strains";
+
+const ROLE_PERMISSIONS: Record<GuideRole, AdminPermission[]> = {
+  guide: [],
+  manager: ["view", "edit"],
+  admin: ["view", "edit", "manageAccess", "audit"],
+};
+
+// Everything under these paths needs manageAccess, reads included: they
+// expose or change access keys
+const ACCESS_KEY_PATHS = [
+  "/admin/access",
+  "/api/access-keys",
+  "/api/admin/access-funnel",
+  "/admin/history/accessKeys",
+  "/api/admin/revisions/accessKeys",
+];
+
+// The audit log shows every change, access keys included
+const AUDIT_PATHS = ["/admin/audit", "/api/admin/audit"];
+
+const ADMIN_PATHS = ["/admin", "/api/admin"];
+
+function isUnder(pathname: string, prefix: string): boolean {
+  return pathname === prefix || pathname.startsWith(`${prefix}/`);
+}
+
+export function getAdminPermissions(guide: GuideAccount | null): AdminPermission[] {
+  return guide ? ROLE_PERMISSIONS[guide.role] ?? [] : [];
+}
+
+export function hasAdminPermission(
+  guide: GuideAccount | null,
+  permission: AdminPermission
+): boolean {
+  return getAdminPermissions(guide).includes(permission);
+}
+
+/**
+ * The permission a request to `pathname` needs, or null for public paths.
+ * Reads need "view" and writes "edit", except for access key and audit paths.
+ */
+export function getRequiredAdminPermission(
+  pathname: string,
+  method: string
+): AdminPermission | null {
+  if (ACCESS_KEY_PATHS.some((prefix) => isUnder(pathname, prefix))) {
+    return "manageAccess";
+  }
+  if (AUDIT_PATHS.some((prefix) => isUnder(pathname, prefix))) {
+    return "audit";
+  }
+  if (!ADMIN_PATHS.some((prefix) => isUnder(pathname, prefix))) {
+    return null;
+  }
+  return method === "GET" || method === "HEAD" ? "view" : "edit";
+}
+
+// Access key history holds the keys themselves
+export function revisionReadPermission(dataset: RevisionDatasetId): AdminPermission {
+  return dataset === "accessKeys" ? "manageAccess" : "view";
+}
+
+export function revisionWritePermission(dataset: RevisionDatasetId): AdminPermission {
+  return dataset === "accessKeys" ? "manageAccess" : "edit";
+}
+
+/**
+ * Only same-site admin paths are followed after sign-in.
+ */
+export function sanitizeAdminRedirect(next: string | null | undefined): string {
+  return next && next.startsWith("/admin") && !next.startsWith("//") ? next : ADMIN_HOME_PATH;
+}
+
+export function toAdminSession(guide: GuideAccount): AdminSession {
+  return {
+    username: guide.username,
+    name: guide.name,
+    role: guide.role,
+    permissions: getAdminPermissions(guide),
+  };
+}
+
+/**
+ * Route handler check: the signed-in account, or the 401/403 response to
+ * return when there is none or its role lacks `permission`.
+ */
+export async function authorizeAdmin(
+  permission: AdminPermission
+): Promise<{ guide: GuideAccount; error?: never } | { guide?: never; error: NextResponse }> {
+  const guide = await getGuideFromCookies();
+  if (!guide) {
+    return { error: NextResponse.json({ error: "Sign in required" }, { status: 401 }) };
+  }
+  if (!hasAdminPermission(guide, permission)) {
+    return { error: NextResponse.json({ error: "Not allowed for your role" }, { status: 403 }) };
+  }
+  return { guide };
+}
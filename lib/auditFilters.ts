@@ -0,0 +1,78 @@
+// lib/auditFilters.ts
+// Searching the admin audit log (see lib/auditLog.ts for the writer). No
+// server imports, so the /admin/audit client can share the labels and the
+// query string format.
+
+import type { AuditEntityType, AuditEntry, AuditFilters } from "@/lib/types";
+import { parseAnalyticsRange } from "@/lib/feedbackAnalytics";
+
+export const AUDIT_ENTITY_TYPES: Record<AuditEntityType, { label: string }> = {
+  strain: { label: "Strains" },
+  product: { label: "Products" },
+  accessKey: { label: "Access keys" },
+  guideMessage: { label: "Guide messages" },
+  feedback: { label: "Feedback" },
+  device: { label: "Devices" },
+};
+
+// Entries returned per page of search results
+export const AUDIT_PAGE_SIZE = 100;
+
+// Ids made by generateAuditId() in lib/auditLog.ts; used as page cursors
+export const AUDIT_ID_PATTERN = /^audit-\d+-[a-f0-9]+$/;
+
+export function isAuditEntityType(value: string): value is AuditEntityType {
+  return Object.prototype.hasOwnProperty.call(AUDIT_ENTITY_TYPES, value);
+}
+
+/**
+ * Parses the search filters from query params: `actor`, `entityType`, `q`
+ * plus the `from`/`to` range.
+ */
+export function parseAuditFilters(params: URLSearchParams): AuditFilters | { error: string } {
+  const range = parseAnalyticsRange(params);
+  if ("error" in range) return range;
+
+  const entityType = params.get("entityType") || undefined;
+  if (entityType && !isAuditEntityType(entityType)) {
+    return { error: `Invalid entityType: ${entityType}` };
+  }
+  return {
+    ...range,
+    actor: params.get("actor") || undefined,
+    entityType: entityType as AuditEntityType | undefined,
+    query: params.get("q")?.trim() || undefined,
+  };
+}
+
+/**
+ * Query string for `filters`, the inverse of parseAuditFilters.
+ */
+export function auditFiltersToParams(filters: AuditFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  if (filters.actor) params.set("actor", filters.actor);
+  if (filters.entityType) params.set("entityType", filters.entityType);
+  if (filters.query) params.set("q", filters.query);
+  if (filters.from) params.set("from", filters.from);
+  if (filters.to) params.set("to", filters.to);
+  return params;
+}
+
+// Free-text search covers entity ids, the summary and the route
+function matchesQuery(entry: AuditEntry, query: string): boolean {
+  const needle = query.toLowerCase();
+  return [...entry.entityIds, entry.summary, entry.route].some((text) =>
+    text.toLowerCase().includes(needle)
+  );
+}
+
+/**
+ * Whether `entry` matches every filter that is set.
+ */
+export function matchesAuditFilters(entry: AuditEntry, filters: AuditFilters): boolean {
+  if (filters.actor && entry.actor !== filters.actor) return false;
+  if (filters.entityType && entry.entityType !== filters.entityType) return false;
+  if (filters.query && !matchesQuery(entry, filters.query)) return false;
+  const day = entry.createdAt.slice(0, 10);
+  return (!filters.from || day >= filters.from) && (!filters.to || day <= filters.to);
+}
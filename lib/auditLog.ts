@@ -0,0 +1,223 @@
+// lib/auditLog.ts
+// Append-only audit log of admin writes: the acting account, the route and a
+// field-level diff per changed entity. Entries are only ever appended to the
+// auditLog storage log; nothing edits or prunes them. Searches stream the
+// log a page at a time with the filters in lib/auditFilters.ts.
+//
+// Writes to revisioned datasets are audited by updateWithRevision() when
+// given an AuditContext; the other admin routes call recordAudit() directly.
+
+import crypto from "crypto";
+import type {
+  AuditAction,
+  AuditChange,
+  AuditEntityType,
+  AuditEntry,
+  AuditFilters,
+  AuditPage,
+  GuideAccount,
+  GuideRole,
+  RevisionDatasetId,
+} from "@/lib/types";
+import { auditLog } from "@/lib/storage";
+import { AUDIT_PAGE_SIZE, matchesAuditFilters } from "@/lib/auditFilters";
+import { diffJson, summarizeJsonChanges } from "@/lib/jsonDiff";
+
+// Changes stored per entry; changeCount keeps the full number
+export const MAX_AUDIT_CHANGES = 200;
+
+// Who made an admin write, and through which request
+export type AuditContext = {
+  actor: string;
+  actorRole: GuideRole;
+  method: string;
+  route: string;
+};
+
+// Revisioned datasets hold one collection of entities each; other top-level
+// fields (doseConfig, access key settings, …) are audited under their key
+const DATASET_ENTITIES: Record<
+  RevisionDatasetId,
+  { entityType: AuditEntityType; collection: string }
+> = {
+  strains: { entityType: "strain", collection: "strains" },
+  products: { entityType: "product", collection: "products" },
+  accessKeys: { entityType: "accessKey", collection: "keys" },
+  guideMessages: { entityType: "guideMessage", collection: "messages" },
+};
+
+function generateAuditId(): string {
+  return `audit-${Date.now()}-${crypto.randomBytes(3).toString("hex")}`;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+export function getAuditContext(request: Request, guide: GuideAccount): AuditContext {
+  return {
+    actor: guide.username,
+    actorRole: guide.role,
+    method: request.method,
+    route: new URL(request.url).pathname,
+  };
+}
+
+/**
+ * Field-level changes to one entity; a created or deleted entity is a
+ * single change at path "".
+ */
+export function diffEntity(entityId: string, before: unknown, after: unknown): AuditChange[] {
+  return diffJson(before, after).map((change) => ({
+    entityId,
+    path: change.path,
+    kind: change.kind,
+    before: change.before,
+    after: change.after,
+  }));
+}
+
+// Collections keyed by entity id: arrays by each item's `id`, records as-is
+function keyEntities(value: unknown): Record<string, unknown> {
+  if (Array.isArray(value)) {
+    return Object.fromEntries(
+      value.map((item, index) => [
+        isPlainObject(item) && typeof item.id === "string" ? item.id : String(index),
+        item,
+      ])
+    );
+  }
+  return isPlainObject(value) ? value : {};
+}
+
+/**
+ * Changes between two versions of a revisioned dataset, per entity rather
+ * than per array index, so reordering products isn't reported as edits.
+ */
+export function diffDataset(
+  dataset: RevisionDatasetId,
+  before: unknown,
+  after: unknown
+): AuditChange[] {
+  const { collection } = DATASET_ENTITIES[dataset];
+  const beforeFields = isPlainObject(before) ? before : {};
+  const afterFields = isPlainObject(after) ? after : {};
+  const changes: AuditChange[] = [];
+
+  for (const key of new Set([...Object.keys(beforeFields), ...Object.keys(afterFields)])) {
+    if (key !== collection) {
+      changes.push(...diffEntity(key, beforeFields[key], afterFields[key]));
+      continue;
+    }
+    const beforeEntities = keyEntities(beforeFields[key]);
+    const afterEntities = keyEntities(afterFields[key]);
+    for (const id of new Set([...Object.keys(beforeEntities), ...Object.keys(afterEntities)])) {
+      changes.push(...diffEntity(id, beforeEntities[id], afterEntities[id]));
+    }
+  }
+  return changes;
+}
+
+// e.g. `3 changes: Golden Teacher (2), doseConfig (1)`
+function summarizeAuditChanges(changes: AuditChange[]): string {
+  return summarizeJsonChanges(
+    changes.map(({ path, kind, before, after, entityId }) => ({
+      path,
+      group: entityId,
+      kind,
+      before,
+      after,
+    }))
+  );
+}
+
+/**
+ * Appends one entry to the audit log. `entityIds` defaults to the entities
+ * named in `changes`.
+ */
+export async function recordAudit(
+  context: AuditContext,
+  entry: {
+    action: AuditAction;
+    entityType: AuditEntityType;
+    changes: AuditChange[];
+    entityIds?: string[];
+    summary?: string;
+    revisionId?: string;
+  }
+): Promise<AuditEntry> {
+  const stored: AuditEntry = {
+    id: generateAuditId(),
+    createdAt: new Date().toISOString(),
+    ...context,
+    action: entry.action,
+    entityType: entry.entityType,
+    entityIds: entry.entityIds ?? [...new Set(entry.changes.map((change) => change.entityId))],
+    summary: entry.summary ?? summarizeAuditChanges(entry.changes),
+    changeCount: entry.changes.length,
+    changes: entry.changes.slice(0, MAX_AUDIT_CHANGES),
+    ...(entry.revisionId && { revisionId: entry.revisionId }),
+  };
+  await auditLog.append(stored);
+  return stored;
+}
+
+/**
+ * One page of entries matching `filters`, newest first. `before` is the
+ * previous page's nextBefore; only entries older than it are returned.
+ */
+export async function searchAuditLog(
+  filters: AuditFilters,
+  before: string | null = null
+): Promise<AuditPage> {
+  let page: AuditEntry[] = [];
+  let total = 0;
+  let older = 0;
+  let reachedCursor = false;
+
+  // Oldest first: keep the newest AUDIT_PAGE_SIZE matches ahead of the cursor
+  await auditLog.scan((entry) => {
+    if (entry.id === before) reachedCursor = true;
+    if (!matchesAuditFilters(entry, filters)) return;
+    total += 1;
+    if (reachedCursor) return;
+    older += 1;
+    page.push(entry);
+    if (page.length > AUDIT_PAGE_SIZE) page.shift();
+  });
+
+  if (before && !reachedCursor) page = [];
+  page.reverse();
+  const hasMore = older > page.length && page.length > 0;
+  return { entries: page, total, nextBefore: hasMore ? page[page.length - 1].id : null };
+}
+
+/**
+ * Accounts that appear in the audit log, sorted.
+ */
+export async function listAuditActors(): Promise<string[]> {
+  const actors = new Set<string>();
+  await auditLog.scan((entry) => actors.add(entry.actor));
+  return [...actors].sort();
+}
+
+/**
+ * Audits a write to a revisioned dataset (see updateWithRevision).
+ */
+export async function recordDatasetAudit(
+  context: AuditContext,
+  dataset: RevisionDatasetId,
+  before: unknown,
+  after: unknown,
+  options: { action: AuditAction; revisionId?: string; restoredFrom?: string }
+): Promise<AuditEntry> {
+  const changes = diffDataset(dataset, before, after);
+  const summary = summarizeAuditChanges(changes);
+  return recordAudit(context, {
+    action: options.action,
+    entityType: DATASET_ENTITIES[dataset].entityType,
+    changes,
+    summary: options.restoredFrom ? `Restored ${options.restoredFrom} (${summary})` : summary,
+    revisionId: options.revisionId,
+  });
+}
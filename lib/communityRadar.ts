@@ -0,0 +1,118 @@
+// lib/communityRadar.ts
+// Aggregates the feltAxes customers submit with feedback into a "community"
+// radar per strain+dose: mean, median and spread of felt scores per axis.
+// Felt scores are 0–10; everything here is rescaled to the radar's 0–100.
+// An axis only contributes a radar value once it has MIN_COMMUNITY_SAMPLES.
+
+import type {
+  CommunityAxisStats,
+  CommunityRadar,
+  DoseKey,
+  FeedbackEntry,
+  TraitAxisId,
+} from "@/lib/types";
+
+export const MIN_COMMUNITY_SAMPLES = 5;
+
+const FELT_SCALE = 10;
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+function computeStats(samples: number[]): CommunityAxisStats {
+  const sorted = [...samples].sort((a, b) => a - b);
+  const count = sorted.length;
+  const mean = sorted.reduce((sum, v) => sum + v, 0) / count;
+  const mid = Math.floor(count / 2);
+  const median = count % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+  const variance = sorted.reduce((sum, v) => sum + (v - mean) ** 2, 0) / count;
+  return {
+    mean: round1(mean),
+    median: round1(median),
+    spread: round1(Math.sqrt(variance)),
+    count,
+  };
+}
+
+export function communityRadarKey(strainId: string, doseKey: string): string {
+  return `${strainId}:${doseKey}`;
+}
+
+function buildRadar(
+  strainId: string,
+  doseKey: DoseKey,
+  entries: FeedbackEntry[],
+  minSamples: number
+): CommunityRadar {
+  const samples = new Map<TraitAxisId, number[]>();
+  let sampleSize = 0;
+
+  for (const entry of entries) {
+    if (!entry.feltAxes) continue;
+    let counted = false;
+    for (const [axis, value] of Object.entries(entry.feltAxes)) {
+      if (typeof value !== "number" || !Number.isFinite(value)) continue;
+      const list = samples.get(axis as TraitAxisId) ?? [];
+      list.push(value * FELT_SCALE);
+      samples.set(axis as TraitAxisId, list);
+      counted = true;
+    }
+    if (counted) sampleSize += 1;
+  }
+
+  const stats: CommunityRadar["stats"] = {};
+  const values: CommunityRadar["values"] = {};
+  for (const [axis, list] of samples) {
+    const axisStats = computeStats(list);
+    stats[axis] = axisStats;
+    if (axisStats.count >= minSamples) {
+      values[axis] = Math.round(axisStats.median);
+    }
+  }
+
+  return { strainId, doseKey, sampleSize, stats, values };
+}
+
+/**
+ * Community radar for one strain+dose. Always returns a result; check
+ * `values` for axes that have enough samples to display.
+ */
+export function aggregateCommunityRadar(
+  entries: FeedbackEntry[],
+  strainId: string,
+  doseKey: DoseKey,
+  minSamples = MIN_COMMUNITY_SAMPLES
+): CommunityRadar {
+  return buildRadar(
+    strainId,
+    doseKey,
+    entries.filter((e) => e.strainId === strainId && e.doseKey === doseKey),
+    minSamples
+  );
+}
+
+/**
+ * Community radars for every strain+dose that has felt feedback, keyed by
+ * "strainId:doseKey".
+ */
+export function aggregateAllCommunityRadars(
+  entries: FeedbackEntry[],
+  minSamples = MIN_COMMUNITY_SAMPLES
+): Record<string, CommunityRadar> {
+  const groups = new Map<string, FeedbackEntry[]>();
+  for (const entry of entries) {
+    if (!entry.strainId || !entry.doseKey || !entry.feltAxes) continue;
+    const key = communityRadarKey(entry.strainId, entry.doseKey);
+    const list = groups.get(key) ?? [];
+    list.push(entry);
+    groups.set(key, list);
+  }
+
+  const radars: Record<string, CommunityRadar> = {};
+  for (const [key, group] of groups) {
+    const { strainId, doseKey } = group[0];
+    radars[key] = buildRadar(strainId!, doseKey as DoseKey, group, minSamples);
+  }
+  return radars;
+}
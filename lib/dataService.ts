@@ -0,0 +1,109 @@
+/**
+ * Runtime Data Service
+ *
+ * Serves the current strain and product datasets to server code without a
+ * rebuild. Each dataset is read through the storage layer and kept in
+ * memory; the cached copy is dropped when:
+ * - a save goes through a repository in this process (onDocumentWrite), or
+ * - the stored document's version token changes (file edited on disk, a
+ *   save from another process or route bundle). The token is re-checked at
+ *   most every CHECK_INTERVAL_MS.
+ *
+ * Kiosks poll getLiveDataVersion() via /api/data-version to notice changes.
+ */
+
+import crypto from "crypto";
+import type { ProductDataset, StrainDataset } from "@/lib/types";
+import {
+  getStorageBackend,
+  onDocumentWrite,
+  productsRepository,
+  strainsRepository,
+} from "@/lib/storage";
+
+const CHECK_INTERVAL_MS = 2_000;
+
+type LiveDocumentId = "strains" | "products";
+
+type LiveEntry = {
+  value: unknown;
+  version: string | null;
+  checkedAt: number;
+};
+
+const LIVE_DOCUMENT_IDS: LiveDocumentId[] = ["strains", "products"];
+const entries = new Map<LiveDocumentId, LiveEntry>();
+
+onDocumentWrite((documentId) => {
+  if (documentId === "strains" || documentId === "products") {
+    entries.delete(documentId);
+  }
+});
+
+async function loadLive<T>(
+  documentId: LiveDocumentId,
+  read: () => Promise<T>
+): Promise<T> {
+  const now = Date.now();
+  const entry = entries.get(documentId);
+  if (entry && now - entry.checkedAt < CHECK_INTERVAL_MS) {
+    return entry.value as T;
+  }
+
+  // Read the token before the data: a write in between only costs a re-read
+  const version = await getStorageBackend().version(documentId);
+  if (entry && entry.version === version) {
+    entry.checkedAt = now;
+    return entry.value as T;
+  }
+
+  const value = await read();
+  entries.set(documentId, { value, version, checkedAt: now });
+  return value;
+}
+
+/**
+ * Current strain dataset (strains.json or its storage equivalent).
+ * The returned object is shared; treat it as read-only.
+ */
+export async function getLiveStrainDataset(): Promise<StrainDataset> {
+  const dataset = await loadLive("strains", () => strainsRepository.read());
+  if (!dataset) {
+    throw new Error("Strain dataset is missing from storage");
+  }
+  return dataset;
+}
+
+/**
+ * Current product dataset. The returned object is shared; treat it as
+ * read-only.
+ */
+export async function getLiveProductDataset(): Promise<ProductDataset> {
+  return loadLive("products", () => productsRepository.read());
+}
+
+/**
+ * Drops cached copies so the next read goes to storage.
+ */
+export function invalidateLiveData(documentId?: LiveDocumentId): void {
+  if (documentId) {
+    entries.delete(documentId);
+  } else {
+    entries.clear();
+  }
+}
+
+/**
+ * Short token that changes whenever strain or product data changes.
+ */
+export async function getLiveDataVersion(): Promise<string> {
+  const backend = getStorageBackend();
+  const versions = await Promise.all(
+    LIVE_DOCUMENT_IDS.map((documentId) => backend.version(documentId))
+  );
+  return crypto
+    .createHash("sha1")
+    .update(versions.map((version) => version ?? "none").join("|"))
+    .digest("hex")
+    .slice(0, 12);
+}
@@ -0,0 +1,179 @@
+// lib/doseInterpolation.ts
+// Continuous dose support: maps a gram amount (or a fractional slider
+// position) onto the two surrounding dose tiers and blends their radar
+// values linearly. Pure, so the kiosk can animate between tiers client-side
+// with the same math the API uses.
+
+import type {
+  DoseBlend,
+  DoseConfigMap,
+  DoseKey,
+  InterpolatedStrainDoseResult,
+  StrainTimeline,
+  TraitAxisId,
+} from "@/lib/types";
+import { lookupStrainDoseData, type StrainIndex } from "@/lib/strainIndex";
+
+export type DoseTierPoint = {
+  doseKey: DoseKey;
+  grams: number;
+};
+
+function lerp(a: number, b: number, t: number): number {
+  return a + (b - a) * t;
+}
+
+function roundTo(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Tiers that have a usable gram amount, sorted by grams.
+ */
+export function getDoseTierPoints(
+  order: DoseKey[],
+  config: Partial<DoseConfigMap>
+): DoseTierPoint[] {
+  return order
+    .map((doseKey) => ({ doseKey, grams: config[doseKey]?.grams ?? NaN }))
+    .filter((point) => Number.isFinite(point.grams) && point.grams >= 0)
+    .sort((a, b) => a.grams - b.grams);
+}
+
+/**
+ * Finds the tiers surrounding `grams`. Amounts outside the configured range
+ * clamp to the first/last tier.
+ */
+export function blendForGrams(
+  points: DoseTierPoint[],
+  grams: number
+): DoseBlend | null {
+  if (points.length === 0) return null;
+
+  const first = points[0];
+  const last = points[points.length - 1];
+  const clamped = Math.min(last.grams, Math.max(first.grams, grams));
+
+  let upperIndex = points.findIndex((point) => point.grams >= clamped);
+  if (upperIndex <= 0) upperIndex = Math.min(1, points.length - 1);
+  const lower = points[upperIndex - 1] ?? points[0];
+  const upper = points[upperIndex];
+
+  const span = upper.grams - lower.grams;
+  const t = span > 0 ? (clamped - lower.grams) / span : 0;
+
+  return {
+    grams: roundTo(clamped, 3),
+    lowerDoseKey: lower.doseKey,
+    upperDoseKey: upper.doseKey,
+    t: roundTo(t, 4),
+    nearestDoseKey: t < 0.5 ? lower.doseKey : upper.doseKey,
+  };
+}
+
+/**
+ * Blend for a fractional slider position (0 = first tier in `order`,
+ * order.length - 1 = last). Grams follow the tiers' configured amounts.
+ */
+export function blendForPosition(
+  order: DoseKey[],
+  config: Partial<DoseConfigMap>,
+  position: number
+): DoseBlend | null {
+  if (order.length === 0) return null;
+
+  const clamped = Math.min(order.length - 1, Math.max(0, position));
+  const lowerIndex = Math.floor(clamped);
+  const upperIndex = Math.min(order.length - 1, lowerIndex + 1);
+  const t = clamped - lowerIndex;
+  const lower = order[lowerIndex];
+  const upper = order[upperIndex];
+
+  return {
+    grams: roundTo(
+      lerp(config[lower]?.grams ?? 0, config[upper]?.grams ?? 0, t),
+      3
+    ),
+    lowerDoseKey: lower,
+    upperDoseKey: upper,
+    t: roundTo(t, 4),
+    nearestDoseKey: t < 0.5 ? lower : upper,
+  };
+}
+
+export function interpolateTraitValues(
+  axes: TraitAxisId[],
+  lower: Partial<Record<TraitAxisId, number>>,
+  upper: Partial<Record<TraitAxisId, number>>,
+  t: number
+): Record<TraitAxisId, number> {
+  return axes.reduce<Record<TraitAxisId, number>>(
+    (acc, axis) => {
+      acc[axis] = roundTo(lerp(lower[axis] ?? 0, upper[axis] ?? 0, t), 1);
+      return acc;
+    },
+    {} as Record<TraitAxisId, number>
+  );
+}
+
+export function interpolateTimeline(
+  lower: StrainTimeline,
+  upper: StrainTimeline,
+  t: number
+): StrainTimeline {
+  const at = (key: keyof StrainTimeline, decimals: number) =>
+    roundTo(lerp(lower[key], upper[key], t), decimals);
+  return {
+    onsetMinMinutes: at("onsetMinMinutes", 0),
+    onsetMaxMinutes: at("onsetMaxMinutes", 0),
+    peakMinHours: at("peakMinHours", 1),
+    peakMaxHours: at("peakMaxHours", 1),
+    tailMinHours: at("tailMinHours", 1),
+    tailMaxHours: at("tailMaxHours", 1),
+  };
+}
+
+/**
+ * Strain data at an arbitrary gram amount: interpolated traits and timeline,
+ * plus the full content of the nearest tier.
+ */
+export function lookupStrainAtGrams(
+  index: StrainIndex,
+  strainId: string,
+  grams: number
+): InterpolatedStrainDoseResult | null {
+  const { dataset } = index;
+  const blend = blendForGrams(
+    getDoseTierPoints(dataset.doses, dataset.doseConfig),
+    grams
+  );
+  if (!blend) return null;
+
+  const lower = lookupStrainDoseData(index, strainId, blend.lowerDoseKey);
+  const upper = lookupStrainDoseData(index, strainId, blend.upperDoseKey);
+  const nearest = blend.nearestDoseKey === blend.lowerDoseKey ? lower : upper;
+  if (!lower || !upper || !nearest) return null;
+
+  const lowerTimeline = lower.experienceMeta?.timeline;
+  const upperTimeline = upper.experienceMeta?.timeline;
+
+  return {
+    strain: nearest.strain,
+    blend,
+    axes: dataset.axes,
+    traits: {
+      values: interpolateTraitValues(
+        dataset.axes,
+        lower.doseData.traits.values,
+        upper.doseData.traits.values,
+        blend.t
+      ),
+    },
+    timeline:
+      lowerTimeline && upperTimeline
+        ? interpolateTimeline(lowerTimeline, upperTimeline, blend.t)
+        : nearest.experienceMeta?.timeline ?? null,
+    nearest,
+  };
+}
@@ -0,0 +1,108 @@
+// lib/doseTiers.ts
+// Dose tiers are defined by the dataset: `doses` gives the keys in slider
+// order, `doseConfig` the label, grams, visual style and animation modifier
+// of each tier. This module fills in whatever a tier leaves out.
+// Client-safe: no fs, no storage imports.
+
+import type {
+  CoreDoseKey,
+  DoseConfig,
+  DoseConfigMap,
+  DoseKey,
+  DoseTierStyle,
+} from "@/lib/types";
+
+// Tier list used until the dataset's own list has loaded
+export const DEFAULT_DOSE_ORDER: CoreDoseKey[] = [
+  "micro",
+  "mini",
+  "macro",
+  "museum",
+  "mega",
+  "hero",
+];
+
+export const DEFAULT_DOSE_CONFIG: Record<CoreDoseKey, DoseConfig> = {
+  micro: { label: "Micro", grams: 0.1 },
+  mini: { label: "Mini", grams: 0.5 },
+  macro: { label: "Macro", grams: 1.5 },
+  museum: { label: "Museum", grams: 3 },
+  mega: { label: "Mega", grams: 5 },
+  hero: { label: "Hero", grams: 10 },
+};
+
+// Fallback style and modifier for the original six tiers
+const CORE_DOSE_STYLE: Record<CoreDoseKey, DoseTierStyle> = {
+  micro: { fillAlpha: 0.3, borderWidth: 2.2, borderAlpha: 0.85, hasGlow: false },
+  mini: { fillAlpha: 0.32, borderWidth: 2, borderAlpha: 0.9, hasGlow: false },
+  macro: { fillAlpha: 0.45, borderWidth: 1.6, borderAlpha: 0.95, hasGlow: false },
+  museum: { fillAlpha: 0.6, borderWidth: 1.6, borderAlpha: 0.95, hasGlow: false },
+  mega: { fillAlpha: 0.7, borderWidth: 1.6, borderAlpha: 0.98, hasGlow: false },
+  hero: { fillAlpha: 0.8, borderWidth: 2.5, borderAlpha: 1, hasGlow: true },
+};
+
+const CORE_DOSE_MODIFIER: Record<CoreDoseKey, number> = {
+  micro: 0.5,
+  mini: 0.7,
+  macro: 1.0,
+  museum: 1.3,
+  mega: 1.6,
+  hero: 2.0,
+};
+
+// The kiosk opens on macro when the dataset has it
+const PREFERRED_DOSE_KEY: CoreDoseKey = "macro";
+
+// Radar styles are scaled relative to macro's, so macro draws unchanged
+export const BASE_DOSE_STYLE: DoseTierStyle = CORE_DOSE_STYLE[PREFERRED_DOSE_KEY];
+
+// Own keys only: custom keys like "toString" aren't core doses
+function isCoreDose(doseKey: DoseKey): doseKey is CoreDoseKey {
+  return Object.hasOwn(CORE_DOSE_MODIFIER, doseKey);
+}
+
+/**
+ * Tier to select when nothing is selected yet: macro if present, otherwise
+ * the middle tier.
+ */
+export function getDefaultDoseKey(order: DoseKey[]): DoseKey {
+  if (order.includes(PREFERRED_DOSE_KEY)) return PREFERRED_DOSE_KEY;
+  return order[Math.floor((order.length - 1) / 2)] ?? PREFERRED_DOSE_KEY;
+}
+
+/**
+ * Label/grams for a tier, falling back to the key itself.
+ */
+export function getDoseTierConfig(
+  config: DoseConfigMap | undefined,
+  doseKey: DoseKey
+): DoseConfig {
+  return (
+    config?.[doseKey] ??
+    (isCoreDose(doseKey) ? DEFAULT_DOSE_CONFIG[doseKey] : { label: doseKey, grams: 0 })
+  );
+}
+
+/**
+ * Visual style for a tier: dataset values over the built-in tier's style,
+ * over the macro style for tiers the app has never heard of.
+ */
+export function resolveDoseStyle(
+  config: DoseConfigMap | undefined,
+  doseKey: DoseKey
+): DoseTierStyle {
+  const base = isCoreDose(doseKey) ? CORE_DOSE_STYLE[doseKey] : BASE_DOSE_STYLE;
+  return { ...base, ...config?.[doseKey]?.style };
+}
+
+/**
+ * Animation energy multiplier for a tier (1 = macro).
+ */
+export function resolveDoseModifier(
+  config: DoseConfigMap | undefined,
+  doseKey: DoseKey
+): number {
+  const modifier = config?.[doseKey]?.modifier;
+  if (typeof modifier === "number" && Number.isFinite(modifier)) return modifier;
+  return isCoreDose(doseKey) ? CORE_DOSE_MODIFIER[doseKey] : 1.0;
+}
@@ -0,0 +1,293 @@
+// lib/feedbackAnalytics.ts
+// Feedback filtering and aggregation, shared by the admin table, the export
+// endpoint and the analytics view: radar match buckets, table filters,
+// submissions per day, rating averages grouped by strain / dose / access key /
+// CTA variant, and felt-minus-expected bias per axis. Felt and expected
+// scores are both on the 0–10 feedback scale.
+
+import type {
+  AxisExperienceScores,
+  FeedbackAnalytics,
+  FeedbackAnalyticsRange,
+  FeedbackAxisBias,
+  FeedbackDayBucket,
+  FeedbackEntry,
+  FeedbackFilters,
+  FeedbackRatingGroup,
+  FeedbackStrainDoseBias,
+  RadarMatchBucket,
+  TraitAxisId,
+} from "@/lib/types";
+import { isFeedbackRating } from "@/lib/feedbackGuard";
+
+// A strain+dose+axis bias needs this many entries before it is reported
+export const MIN_BIAS_SAMPLES = 3;
+export const MAX_STRAIN_DOSE_BIASES = 20;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const RADAR_MATCH_BUCKETS: RadarMatchBucket[] = [
+  "very-close",
+  "some-variation",
+  "quite-different",
+];
+
+// Access-key filter value for entries submitted without a key
+export const ANONYMOUS_ACCESS_KEY = "anonymous";
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+function average(values: number[]): number | null {
+  if (values.length === 0) return null;
+  return round1(values.reduce((sum, v) => sum + v, 0) / values.length);
+}
+
+/**
+ * Average absolute delta between felt and expected axis values.
+ * Returns null if either side is missing or no axis is scored on both.
+ */
+export function computeAvgDelta(
+  feltAxes: AxisExperienceScores | undefined,
+  expectedAxes: AxisExperienceScores | undefined
+): number | null {
+  if (!feltAxes || !expectedAxes) return null;
+
+  // Every axis scored on the entry, so feedback from retired axes still counts
+  const diffs: number[] = [];
+  for (const [axis, felt] of Object.entries(feltAxes)) {
+    const expected = expectedAxes[axis];
+    if (typeof felt === "number" && typeof expected === "number") {
+      diffs.push(Math.abs(felt - expected));
+    }
+  }
+
+  if (diffs.length === 0) return null;
+  return diffs.reduce((sum, d) => sum + d, 0) / diffs.length;
+}
+
+/**
+ * Radar match bucket for an entry's avgDelta (null when it has no radar data).
+ */
+export function getRadarMatchBucket(avgDelta: number | null): RadarMatchBucket | null {
+  if (avgDelta === null) return null;
+  if (avgDelta < 1.0) return "very-close";
+  if (avgDelta < 2.5) return "some-variation";
+  return "quite-different";
+}
+
+/**
+ * Parses `from`/`to` (YYYY-MM-DD, inclusive) query params.
+ * Returns an error message instead of a range when either is malformed.
+ */
+export function parseAnalyticsRange(
+  params: URLSearchParams
+): FeedbackAnalyticsRange | { error: string } {
+  const from = params.get("from") || null;
+  const to = params.get("to") || null;
+  for (const [name, value] of [["from", from], ["to", to]] as const) {
+    if (value && (!DATE_PATTERN.test(value) || Number.isNaN(Date.parse(value)))) {
+      return { error: `Invalid ${name} date: ${value} (expected YYYY-MM-DD)` };
+    }
+  }
+  if (from && to && from > to) {
+    return { error: "from must not be after to" };
+  }
+  return { from, to };
+}
+
+/**
+ * Parses the table filters from query params: `strain`, `accessKey`,
+ * `radarMatch` plus the `from`/`to` range.
+ */
+export function parseFeedbackFilters(
+  params: URLSearchParams
+): FeedbackFilters | { error: string } {
+  const range = parseAnalyticsRange(params);
+  if ("error" in range) return range;
+
+  const radarMatch = params.get("radarMatch") || undefined;
+  if (radarMatch && !RADAR_MATCH_BUCKETS.includes(radarMatch as RadarMatchBucket)) {
+    return { error: `Invalid radarMatch: ${radarMatch}` };
+  }
+  return {
+    ...range,
+    strainId: params.get("strain") || undefined,
+    accessKeyId: params.get("accessKey") || undefined,
+    radarMatch: radarMatch as RadarMatchBucket | undefined,
+  };
+}
+
+/**
+ * Query string for `filters`, the inverse of parseFeedbackFilters.
+ */
+export function feedbackFiltersToParams(filters: FeedbackFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  if (filters.strainId) params.set("strain", filters.strainId);
+  if (filters.accessKeyId) params.set("accessKey", filters.accessKeyId);
+  if (filters.radarMatch) params.set("radarMatch", filters.radarMatch);
+  if (filters.from) params.set("from", filters.from);
+  if (filters.to) params.set("to", filters.to);
+  return params;
+}
+
+function dayOf(entry: FeedbackEntry): string {
+  return entry.createdAt.slice(0, 10);
+}
+
+function inRange(entry: FeedbackEntry, range: FeedbackAnalyticsRange): boolean {
+  const day = dayOf(entry);
+  return (!range.from || day >= range.from) && (!range.to || day <= range.to);
+}
+
+/**
+ * Entries matching every filter that is set.
+ */
+export function filterFeedbackEntries(
+  entries: FeedbackEntry[],
+  filters: FeedbackFilters
+): FeedbackEntry[] {
+  const range = { from: filters.from ?? null, to: filters.to ?? null };
+  return entries.filter((entry) => {
+    if (filters.strainId && entry.strainId !== filters.strainId) return false;
+    if (filters.accessKeyId && (entry.accessKeyId || ANONYMOUS_ACCESS_KEY) !== filters.accessKeyId) {
+      return false;
+    }
+    if (
+      filters.radarMatch &&
+      getRadarMatchBucket(computeAvgDelta(entry.feltAxes, entry.expectedAxes)) !== filters.radarMatch
+    ) {
+      return false;
+    }
+    return inRange(entry, range);
+  });
+}
+
+function groupBy(
+  entries: FeedbackEntry[],
+  keyOf: (entry: FeedbackEntry) => string | undefined
+): FeedbackRatingGroup[] {
+  const groups = new Map<string, FeedbackEntry[]>();
+  for (const entry of entries) {
+    const key = keyOf(entry) ?? "";
+    const list = groups.get(key) ?? [];
+    list.push(entry);
+    groups.set(key, list);
+  }
+
+  return [...groups.entries()]
+    .map(([key, group]) => {
+      const deltas = group
+        .map((e) => computeAvgDelta(e.feltAxes, e.expectedAxes))
+        .filter((d): d is number => d !== null);
+      return {
+        key,
+        count: group.length,
+        avgOverallExperience: average(
+          group.flatMap((e) => (isFeedbackRating(e.overallExperience) ? [e.overallExperience] : []))
+        ),
+        avgIntensity: average(
+          group.flatMap((e) => (isFeedbackRating(e.intensityRating) ? [e.intensityRating] : []))
+        ),
+        avgDelta: average(deltas),
+      };
+    })
+    .sort((a, b) => b.count - a.count || a.key.localeCompare(b.key));
+}
+
+// One point per day from the first to the last submission, gaps filled with 0
+function bucketByDay(entries: FeedbackEntry[]): FeedbackDayBucket[] {
+  const counts = new Map<string, number>();
+  for (const entry of entries) {
+    const day = dayOf(entry);
+    counts.set(day, (counts.get(day) ?? 0) + 1);
+  }
+  const days = [...counts.keys()].sort();
+  if (days.length === 0) return [];
+
+  const buckets: FeedbackDayBucket[] = [];
+  const cursor = new Date(`${days[0]}T00:00:00Z`);
+  const last = days[days.length - 1];
+  for (let day = days[0]; day <= last; day = cursor.toISOString().slice(0, 10)) {
+    buckets.push({ date: day, count: counts.get(day) ?? 0 });
+    cursor.setUTCDate(cursor.getUTCDate() + 1);
+  }
+  return buckets;
+}
+
+type BiasSums = { felt: number; expected: number; count: number };
+
+function addBias(sums: Map<string, BiasSums>, key: string, felt: number, expected: number) {
+  const current = sums.get(key) ?? { felt: 0, expected: 0, count: 0 };
+  current.felt += felt;
+  current.expected += expected;
+  current.count += 1;
+  sums.set(key, current);
+}
+
+function toBias(axis: TraitAxisId, sums: BiasSums): FeedbackAxisBias {
+  const avgFelt = sums.felt / sums.count;
+  const avgExpected = sums.expected / sums.count;
+  return {
+    axis,
+    avgFelt: round1(avgFelt),
+    avgExpected: round1(avgExpected),
+    bias: round1(avgFelt - avgExpected),
+    count: sums.count,
+  };
+}
+
+/**
+ * Aggregates feedback entries created within `range`.
+ * `axes` orders the overall per-axis bias list (the dataset's axis order).
+ */
+export function buildFeedbackAnalytics(
+  allEntries: FeedbackEntry[],
+  range: FeedbackAnalyticsRange,
+  axes: TraitAxisId[]
+): FeedbackAnalytics {
+  const entries = allEntries.filter((e) => inRange(e, range));
+
+  const axisSums = new Map<string, BiasSums>();
+  const strainDoseSums = new Map<string, BiasSums>();
+  for (const entry of entries) {
+    if (!entry.feltAxes || !entry.expectedAxes) continue;
+    for (const [axis, felt] of Object.entries(entry.feltAxes)) {
+      const expected = entry.expectedAxes[axis];
+      if (typeof felt !== "number" || typeof expected !== "number") continue;
+      addBias(axisSums, axis, felt, expected);
+      if (entry.strainId && entry.doseKey) {
+        addBias(strainDoseSums, JSON.stringify([entry.strainId, entry.doseKey, axis]), felt, expected);
+      }
+    }
+  }
+
+  // Dataset axes first, then any retired axes still present in feedback
+  const axisOrder = [
+    ...axes.filter((axis) => axisSums.has(axis)),
+    ...[...axisSums.keys()].filter((axis) => !axes.includes(axis)),
+  ];
+  const axisBias = axisOrder.map((axis) => toBias(axis, axisSums.get(axis)!));
+
+  const strainDoseBias: FeedbackStrainDoseBias[] = [...strainDoseSums.entries()]
+    .filter(([, sums]) => sums.count >= MIN_BIAS_SAMPLES)
+    .map(([key, sums]) => {
+      const [strainId, doseKey, axis] = JSON.parse(key) as [string, string, string];
+      return { strainId, doseKey, ...toBias(axis, sums) };
+    })
+    .filter((b) => b.bias !== 0)
+    .sort((a, b) => Math.abs(b.bias) - Math.abs(a.bias) || b.count - a.count)
+    .slice(0, MAX_STRAIN_DOSE_BIASES);
+
+  return {
+    range,
+    total: entries.length,
+    overTime: bucketByDay(entries),
+    byStrain: groupBy(entries, (e) => e.strainId),
+    byDose: groupBy(entries, (e) => e.doseKey),
+    byAccessKey: groupBy(entries, (e) => e.accessKeyId),
+    byCta: groupBy(entries, (e) => e.ctaKey),
+    axisBias,
+    strainDoseBias,
+  };
+}
@@ -0,0 +1,130 @@
+// lib/feedbackExport.ts
+// Flattens feedback entries into one row per entry for research exports.
+// feltAxes/expectedAxes become felt_<axis>/expected_<axis> columns so the
+// CSV opens cleanly in a spreadsheet; the JSON export uses the same rows.
+
+import type { FeedbackEntry, TraitAxisId } from "@/lib/types";
+import { computeAvgDelta } from "@/lib/feedbackAnalytics";
+import { getTestimonialStatus, hasTestimonial } from "@/lib/testimonials";
+
+export type FeedbackExportFormat = "csv" | "json";
+
+export type FeedbackExportRow = Record<string, string | number | null>;
+
+export type FeedbackExportOptions = {
+  // Dataset axes, in column order; retired axes found in entries follow
+  axes: TraitAxisId[];
+  includeContact: boolean;
+};
+
+// List fields are joined into one cell
+const LIST_SEPARATOR = "; ";
+
+// Spreadsheet apps run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function exportAxes(entries: FeedbackEntry[], axes: TraitAxisId[]): TraitAxisId[] {
+  const extra = new Set<TraitAxisId>();
+  for (const entry of entries) {
+    for (const axis of [
+      ...Object.keys(entry.feltAxes ?? {}),
+      ...Object.keys(entry.expectedAxes ?? {}),
+    ]) {
+      if (!axes.includes(axis)) extra.add(axis);
+    }
+  }
+  return [...axes, ...[...extra].sort()];
+}
+
+/**
+ * Column names in export order.
+ */
+export function feedbackExportColumns(
+  entries: FeedbackEntry[],
+  options: FeedbackExportOptions
+): string[] {
+  const axes = exportAxes(entries, options.axes);
+  return [
+    "id",
+    "createdAt",
+    "strainId",
+    "doseKey",
+    "accessKeyId",
+    "ctaKey",
+    "productId",
+    "otherProductName",
+    "overallExperience",
+    "intensityRating",
+    "radarAvgDelta",
+    "bestFor",
+    "setting",
+    "testimonial",
+    "testimonialStatus",
+    ...(options.includeContact ? ["contact"] : []),
+    ...axes.map((axis) => `felt_${axis}`),
+    ...axes.map((axis) => `expected_${axis}`),
+  ];
+}
+
+/**
+ * One flat row per entry, keyed by feedbackExportColumns().
+ */
+export function toFeedbackExportRows(
+  entries: FeedbackEntry[],
+  options: FeedbackExportOptions
+): FeedbackExportRow[] {
+  const axes = exportAxes(entries, options.axes);
+  return entries.map((entry) => {
+    const avgDelta = computeAvgDelta(entry.feltAxes, entry.expectedAxes);
+    const row: FeedbackExportRow = {
+      id: entry.id,
+      createdAt: entry.createdAt,
+      strainId: entry.strainId ?? null,
+      doseKey: entry.doseKey ?? null,
+      accessKeyId: entry.accessKeyId ?? null,
+      ctaKey: entry.ctaKey ?? null,
+      productId: entry.productId ?? null,
+      otherProductName: entry.otherProductName ?? null,
+      overallExperience: entry.overallExperience ?? null,
+      intensityRating: entry.intensityRating ?? null,
+      radarAvgDelta: avgDelta === null ? null : Math.round(avgDelta * 100) / 100,
+      bestFor: entry.bestFor?.join(LIST_SEPARATOR) ?? null,
+      setting: entry.setting?.join(LIST_SEPARATOR) ?? null,
+      testimonial: entry.testimonial ?? null,
+      testimonialStatus: hasTestimonial(entry) ? getTestimonialStatus(entry) : null,
+    };
+    if (options.includeContact) {
+      row.contact = entry.contact ?? null;
+    }
+    for (const axis of axes) {
+      row[`felt_${axis}`] = entry.feltAxes?.[axis] ?? null;
+    }
+    for (const axis of axes) {
+      row[`expected_${axis}`] = entry.expectedAxes?.[axis] ?? null;
+    }
+    return row;
+  });
+}
+
+function csvCell(value: string | number | null): string {
+  if (value === null) return "";
+  if (typeof value === "number") return String(value);
+  const text = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * RFC 4180 CSV with a header row and CRLF line endings.
+ */
+export function feedbackToCsv(
+  entries: FeedbackEntry[],
+  options: FeedbackExportOptions
+): string {
+  const columns = feedbackExportColumns(entries, options);
+  const rows = toFeedbackExportRows(entries, options);
+  const lines = [
+    columns.map(csvCell).join(","),
+    ...rows.map((row) => columns.map((column) => csvCell(row[column] ?? null)).join(",")),
+  ];
+  return lines.join("\r\n") + "\r\n";
+}
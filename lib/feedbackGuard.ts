@@ -0,0 +1,156 @@
+// lib/feedbackGuard.ts
+// Abuse limits for the public feedback endpoint, shared with the feedback
+// form: field length caps, the honeypot field name, duplicate detection and
+// submission idempotency keys.
+// Rate limits live in the route (lib/rateLimit.ts); entries that trip the
+// honeypot or duplicate check are quarantined rather than rejected, so bots
+// get no signal and admins can still release false positives.
+
+import type { FeedbackDataset, FeedbackEntry } from "@/lib/types";
+
+export const FEEDBACK_LIMITS = {
+  bodyBytes: 16 * 1024,
+  testimonial: 1000,
+  contact: 200,
+  listItems: 12,          // bestFor / setting entries
+  listItemLength: 80,
+} as const;
+
+// overallExperience and intensityRating are whole stars on this scale
+export const FEEDBACK_RATING_SCALE = { min: 1, max: 5 } as const;
+
+export function isFeedbackRating(value: unknown): value is number {
+  return (
+    Number.isInteger(value) &&
+    (value as number) >= FEEDBACK_RATING_SCALE.min &&
+    (value as number) <= FEEDBACK_RATING_SCALE.max
+  );
+}
+
+// Hidden form input; people never see it, form-filling bots do
+export const FEEDBACK_HONEYPOT_FIELD = "website";
+
+// Random per-browser id generated by the feedback form
+export const DEVICE_ID_PATTERN = /^[A-Za-z0-9-]{8,64}$/;
+
+// Idempotency key generated by the form for each submission
+export const SUBMISSION_ID_PATTERN = /^[A-Za-z0-9-]{8,64}$/;
+
+// Identical submissions within this window count as duplicates
+export const DUPLICATE_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+// Quarantine is bot-fed, so it is bounded: entries expire after maxAgeMs and
+// the oldest are dropped beyond maxEntries
+export const QUARANTINE_LIMITS = {
+  maxEntries: 500,
+  maxAgeMs: 30 * 24 * 60 * 60 * 1000,
+} as const;
+
+/**
+ * Checks field sizes on a submission.
+ * Returns an error message for the first field over its cap, or null.
+ */
+export function checkFeedbackLimits(entry: Partial<FeedbackEntry>): string | null {
+  for (const field of ["overallExperience", "intensityRating"] as const) {
+    if (entry[field] !== undefined && !isFeedbackRating(entry[field])) {
+      return `${field} must be a whole number from ${FEEDBACK_RATING_SCALE.min} to ${FEEDBACK_RATING_SCALE.max}`;
+    }
+  }
+  if (entry.testimonial && entry.testimonial.length > FEEDBACK_LIMITS.testimonial) {
+    return `testimonial must be at most ${FEEDBACK_LIMITS.testimonial} characters`;
+  }
+  if (entry.contact && entry.contact.length > FEEDBACK_LIMITS.contact) {
+    return `contact must be at most ${FEEDBACK_LIMITS.contact} characters`;
+  }
+  for (const field of ["bestFor", "setting"] as const) {
+    const list = entry[field];
+    if (!list) continue;
+    if (list.length > FEEDBACK_LIMITS.listItems) {
+      return `${field} may list at most ${FEEDBACK_LIMITS.listItems} items`;
+    }
+    if (
+      list.some(
+        (item) => typeof item !== "string" || item.length > FEEDBACK_LIMITS.listItemLength
+      )
+    ) {
+      return `${field} items must be strings of at most ${FEEDBACK_LIMITS.listItemLength} characters`;
+    }
+  }
+  if (entry.deviceId !== undefined && !DEVICE_ID_PATTERN.test(entry.deviceId)) {
+    return "Invalid deviceId";
+  }
+  if (entry.submissionId !== undefined && !SUBMISSION_ID_PATTERN.test(entry.submissionId)) {
+    return "Invalid submissionId";
+  }
+  return null;
+}
+
+/**
+ * The stored entry (main list or quarantine) with this submissionId, so a
+ * retried submission is answered instead of stored twice.
+ */
+export function findSubmission(
+  dataset: FeedbackDataset,
+  submissionId: string | undefined
+): FeedbackEntry | null {
+  if (!submissionId) return null;
+  return (
+    [...dataset.entries, ...(dataset.quarantine ?? [])].find(
+      (entry) => entry.submissionId === submissionId
+    ) ?? null
+  );
+}
+
+function normalizeText(value: string | undefined): string {
+  return (value ?? "").trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+function fingerprint(entry: FeedbackEntry): string {
+  const felt = Object.entries(entry.feltAxes ?? {}).sort(([a], [b]) => a.localeCompare(b));
+  return JSON.stringify([
+    entry.strainId ?? null,
+    entry.doseKey ?? null,
+    entry.overallExperience ?? null,
+    entry.intensityRating ?? null,
+    normalizeText(entry.testimonial),
+    normalizeText(entry.contact),
+    entry.productId ?? null,
+    normalizeText(entry.otherProductName),
+    felt,
+  ]);
+}
+
+/**
+ * An earlier entry `candidate` duplicates, if any. Matching ratings alone are
+ * common on a shared kiosk, so a match also needs the same device or the
+ * same non-empty testimonial.
+ */
+export function findDuplicateFeedback(
+  entries: FeedbackEntry[],
+  candidate: FeedbackEntry,
+  now = Date.now()
+): FeedbackEntry | null {
+  const key = fingerprint(candidate);
+  const hasText = normalizeText(candidate.testimonial) !== "";
+  return (
+    entries.find(
+      (entry) =>
+        now - Date.parse(entry.createdAt) < DUPLICATE_WINDOW_MS &&
+        (hasText || (candidate.deviceId && entry.deviceId === candidate.deviceId)) &&
+        fingerprint(entry) === key
+    ) ?? null
+  );
+}
+
+/**
+ * `quarantine` with `entry` appended, minus expired and excess entries.
+ */
+export function appendToQuarantine(
+  quarantine: FeedbackEntry[],
+  entry: FeedbackEntry,
+  now = Date.now()
+): FeedbackEntry[] {
+  return [...quarantine, entry]
+    .filter((e) => now - Date.parse(e.createdAt) < QUARANTINE_LIMITS.maxAgeMs)
+    .slice(-QUARANTINE_LIMITS.maxEntries);
+}
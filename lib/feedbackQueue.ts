@@ -0,0 +1,156 @@
+// lib/feedbackQueue.ts
+// Browser-side IndexedDB store behind the feedback form: an autosaved draft
+// per form context, and a queue of submissions that failed to send. Queued
+// submissions are replayed by the page on its next visit / when the browser
+// comes back online, and by the service worker's background sync (see
+// lib/serviceWorker.ts, which opens the same database). Each submission
+// carries a submissionId, so a replay of an entry the server already stored
+// is a no-op.
+//
+// Client-only: every function touches indexedDB when called.
+
+export const FEEDBACK_DB_NAME = "tripdar-feedback";
+export const FEEDBACK_DB_VERSION = 1;
+export const FEEDBACK_QUEUE_STORE = "queue";
+export const FEEDBACK_DRAFT_STORE = "drafts";
+export const FEEDBACK_SYNC_TAG = "feedback-queue";
+
+// Object stores and their key paths, shared with the service worker
+export const FEEDBACK_DB_STORES = [
+  { name: FEEDBACK_QUEUE_STORE, keyPath: "submissionId" },
+  { name: FEEDBACK_DRAFT_STORE, keyPath: "context" },
+] as const;
+
+// Drafts older than this are ignored
+const DRAFT_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+export type QueuedFeedback = {
+  submissionId: string;
+  payload: Record<string, unknown>;
+  queuedAt: string;                 // ISO timestamp
+};
+
+export type FeedbackDraft<T> = {
+  context: string;                  // which form the draft belongs to
+  savedAt: string;                  // ISO timestamp
+  fields: T;
+};
+
+/**
+ * Whether a replayed submission is finished with: stored (2xx), or refused
+ * for good (4xx other than timeouts and rate limits). Anything else stays
+ * queued for the next attempt.
+ */
+export function isFinalFeedbackResponse(status: number): boolean {
+  if (status >= 200 && status < 300) return true;
+  return status >= 400 && status < 500 && status !== 408 && status !== 429;
+}
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(FEEDBACK_DB_NAME, FEEDBACK_DB_VERSION);
+    request.onupgradeneeded = () => {
+      for (const { name, keyPath } of FEEDBACK_DB_STORES) {
+        if (!request.result.objectStoreNames.contains(name)) {
+          request.result.createObjectStore(name, { keyPath });
+        }
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = operation(db.transaction(storeName, mode).objectStore(storeName));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+export async function enqueueFeedback(item: QueuedFeedback): Promise<void> {
+  await withStore(FEEDBACK_QUEUE_STORE, "readwrite", (store) => store.put(item));
+}
+
+export async function listQueuedFeedback(): Promise<QueuedFeedback[]> {
+  return withStore<QueuedFeedback[]>(FEEDBACK_QUEUE_STORE, "readonly", (store) =>
+    store.getAll()
+  );
+}
+
+async function removeQueuedFeedback(submissionId: string): Promise<void> {
+  await withStore(FEEDBACK_QUEUE_STORE, "readwrite", (store) => store.delete(submissionId));
+}
+
+/**
+ * Sends every queued submission, oldest first. Stops at the first network
+ * failure, since the rest would fail too. Returns how many are left.
+ */
+export async function replayFeedbackQueue(): Promise<number> {
+  const queued = (await listQueuedFeedback()).sort((a, b) =>
+    a.queuedAt.localeCompare(b.queuedAt)
+  );
+  let remaining = queued.length;
+  for (const item of queued) {
+    try {
+      const res = await fetch("/api/feedback", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(item.payload),
+      });
+      if (!isFinalFeedbackResponse(res.status)) continue;
+      await removeQueuedFeedback(item.submissionId);
+      remaining -= 1;
+    } catch {
+      break;
+    }
+  }
+  return remaining;
+}
+
+/**
+ * Asks the service worker to replay the queue once connectivity returns.
+ * Resolves false where Background Sync is unsupported.
+ */
+export async function requestFeedbackSync(): Promise<boolean> {
+  if (!("serviceWorker" in navigator)) return false;
+  try {
+    const registration = (await navigator.serviceWorker.ready) as ServiceWorkerRegistration & {
+      sync?: { register(tag: string): Promise<void> };
+    };
+    if (!registration.sync) return false;
+    await registration.sync.register(FEEDBACK_SYNC_TAG);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export async function saveFeedbackDraft<T>(context: string, fields: T): Promise<void> {
+  const draft: FeedbackDraft<T> = { context, savedAt: new Date().toISOString(), fields };
+  await withStore(FEEDBACK_DRAFT_STORE, "readwrite", (store) => store.put(draft));
+}
+
+export async function loadFeedbackDraft<T>(context: string): Promise<T | null> {
+  const draft = await withStore<FeedbackDraft<T> | undefined>(
+    FEEDBACK_DRAFT_STORE,
+    "readonly",
+    (store) => store.get(context)
+  );
+  if (!draft || Date.now() - Date.parse(draft.savedAt) > DRAFT_MAX_AGE_MS) return null;
+  return draft.fields;
+}
+
+export async function clearFeedbackDraft(context: string): Promise<void> {
+  await withStore(FEEDBACK_DRAFT_STORE, "readwrite", (store) => store.delete(context));
+}
@@ -1,22 +1,22 @@
 /**
  * Guide Authentication Helpers
  * 
- * PROTOTYPE-ONLY AUTH: This is a simple dev/preview auth system.
- * It should be replaced with a proper auth solution (e.g., NextAuth, Clerk)
- * before production deployment.
+ * Accounts live in the guides document (lib/storage) with bcrypt password
+ * hashes; their role also decides /admin access (lib/adminAuth.ts).
  */
 
 import bcrypt from "bcryptjs";
-import type { GuideAccount, GuideAccountDataset } from "@/lib/types";
-import rawGuides from "@/data/guides.json";
-
-const guidesData = rawGuides as GuideAccountDataset;
+import type { GuideAccount } from "@/lib/types";
+import { guidesRepository } from "@/lib/storage";
 
 /**
  * Find a guide account by username
  */
-export function getGuideByUsername(username: string): GuideAccount | undefined {
-  return guidesData.guides.find(
+export async function getGuideByUsername(
+  username: string
+): Promise<GuideAccount | undefined> {
+  const { guides } = await guidesRepository.read();
+  return guides.find(
     (g) => g.username.toLowerCase() === username.toLowerCase()
   );
 }
@@ -24,15 +24,17 @@ export function getGuideByUsername(username: string): GuideAccount | undefined {
 /**
  * Find a guide account by ID
  */
-export function getGuideById(id: string): GuideAccount | undefined {
-  return guidesData.guides.find((g) => g.id === id);
+export async function getGuideById(id: string): Promise<GuideAccount | undefined> {
+  const { guides } = await guidesRepository.read();
+  return guides.find((g) => g.id === id);
 }
 
 /**
  * Get all guide accounts (for admin purposes)
  */
-export function getAllGuides(): GuideAccount[] {
-  return guidesData.guides;
+export async function getAllGuides(): Promise<GuideAccount[]> {
+  const { guides } = await guidesRepository.read();
+  return guides;
 }
 
 /**
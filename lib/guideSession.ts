@@ -1,9 +1,10 @@
 /**
  * Guide Session Management
- * 
- * PROTOTYPE-ONLY AUTH: This is a simple dev/preview session system using
- * HTTP-only cookies with HMAC signing. It should be replaced with a proper
- * session solution before production deployment.
+ *
+ * Sessions for the guides portal and /admin: an HTTP-only cookie holding the
+ * account id and expiry, HMAC-signed with GUIDE_SESSION_SECRET. The session
+ * guards admin writes, so production never falls back to a built-in secret:
+ * without GUIDE_SESSION_SECRET no token is issued or accepted.
  */
 
 import { cookies } from "next/headers";
@@ -15,9 +16,14 @@ import { getGuideById } from "./guideAuth";
 const COOKIE_NAME = "psilly_guide_session";
 const SESSION_DURATION_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
 
-// Use an environment variable or fallback for development
-const SESSION_SECRET =
-  process.env.GUIDE_SESSION_SECRET || "dev-session-secret-change-in-production";
+// Only `next dev` may sign with this; it is public in the repo
+const DEV_SESSION_SECRET = "dev-session-secret";
+
+function getSessionSecret(): string | null {
+  const secret = process.env.GUIDE_SESSION_SECRET;
+  if (secret) return secret;
+  return process.env.NODE_ENV === "production" ? null : DEV_SESSION_SECRET;
+}
 
 interface SessionPayload {
   guideId: string;
@@ -28,9 +34,13 @@ interface SessionPayload {
  * Sign a payload using HMAC-SHA256
  */
 function signPayload(payload: SessionPayload): string {
+  const secret = getSessionSecret();
+  if (!secret) {
+    throw new Error("GUIDE_SESSION_SECRET must be set in production");
+  }
   const data = JSON.stringify(payload);
   const signature = crypto
-    .createHmac("sha256", SESSION_SECRET)
+    .createHmac("sha256", secret)
     .update(data)
     .digest("hex");
   return Buffer.from(`${data}.${signature}`).toString("base64");
@@ -40,6 +50,9 @@ function signPayload(payload: SessionPayload): string {
  * Verify and decode a signed session token
  */
 function verifyAndDecodeToken(token: string): SessionPayload | null {
+  const secret = getSessionSecret();
+  if (!secret) return null;
+
   try {
     const decoded = Buffer.from(token, "base64").toString("utf8");
     const lastDotIndex = decoded.lastIndexOf(".");
@@ -49,11 +62,16 @@ function verifyAndDecodeToken(token: string): SessionPayload | null {
     const signature = decoded.slice(lastDotIndex + 1);
 
     const expectedSignature = crypto
-      .createHmac("sha256", SESSION_SECRET)
+      .createHmac("sha256", secret)
       .update(data)
       .digest("hex");
 
-    if (signature !== expectedSignature) return null;
+    if (
+      signature.length !== expectedSignature.length ||
+      !crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expectedSignature))
+    ) {
+      return null;
+    }
 
     const payload = JSON.parse(data) as SessionPayload;
 
@@ -89,7 +107,7 @@ export async function getGuideFromRequest(
   const payload = verifyAndDecodeToken(token);
   if (!payload) return null;
 
-  const guide = getGuideById(payload.guideId);
+  const guide = await getGuideById(payload.guideId);
   return guide ?? null;
 }
 
@@ -104,7 +122,7 @@ export async function getGuideFromCookies(): Promise<GuideAccount | null> {
   const payload = verifyAndDecodeToken(token);
   if (!payload) return null;
 
-  const guide = getGuideById(payload.guideId);
+  const guide = await getGuideById(payload.guideId);
   return guide ?? null;
 }
 
@@ -0,0 +1,89 @@
+// lib/jsonDiff.ts
+// Structural diff between two JSON values, used for revision summaries
+// and the admin side-by-side revision view.
+
+import { formatKeyPath } from "./utils";
+
+export type JsonChangeKind = "added" | "removed" | "changed";
+
+export type JsonChange = {
+  path: string;              // e.g. strains["Enigma"].radar.visuals[3]
+  group: string;             // first two path segments, used for summaries
+  kind: JsonChangeKind;
+  before: unknown;
+  after: unknown;
+};
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function walk(
+  before: unknown,
+  after: unknown,
+  path: string,
+  group: string,
+  depth: number,
+  out: JsonChange[]
+) {
+  const childGroup = (childPath: string) => (depth < 2 ? childPath : group);
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const length = Math.max(before.length, after.length);
+    for (let i = 0; i < length; i++) {
+      const childPath = `${path}[${i}]`;
+      walk(before[i], after[i], childPath, childGroup(childPath), depth + 1, out);
+    }
+    return;
+  }
+
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    for (const key of keys) {
+      const childPath = formatKeyPath(path, key);
+      walk(before[key], after[key], childPath, childGroup(childPath), depth + 1, out);
+    }
+    return;
+  }
+
+  if (before === after) return;
+  if (before === undefined) {
+    out.push({ path, group, kind: "added", before, after });
+  } else if (after === undefined) {
+    out.push({ path, group, kind: "removed", before, after });
+  } else {
+    out.push({ path, group, kind: "changed", before, after });
+  }
+}
+
+/**
+ * Lists every leaf-level difference between two JSON values.
+ */
+export function diffJson(before: unknown, after: unknown): JsonChange[] {
+  const out: JsonChange[] = [];
+  walk(before, after, "", "", 0, out);
+  return out;
+}
+
+/**
+ * One-line description of a change list, grouped by the first two path
+ * segments, e.g. `4 changes: strains["Enigma"] (3), doseConfig.micro (1)`.
+ */
+export function summarizeJsonChanges(changes: JsonChange[]): string {
+  if (changes.length === 0) return "No changes";
+
+  const counts = new Map<string, number>();
+  for (const change of changes) {
+    const key = change.group || "(root)";
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+
+  const groups = [...counts.entries()].sort((a, b) => b[1] - a[1]);
+  const shown = groups
+    .slice(0, 3)
+    .map(([group, count]) => `${group} (${count})`)
+    .join(", ");
+  const more = groups.length > 3 ? `, +${groups.length - 3} more` : "";
+  const noun = changes.length === 1 ? "change" : "changes";
+  return `${changes.length} ${noun}: ${shown}${more}`;
+}
@@ -0,0 +1,207 @@
+// lib/kioskDevices.ts
+// Shared rules for the kiosk device registry: id format, heartbeat timing,
+// theme presets and remote config validation. Kiosks opened with ?key= and
+// provisioned with ?kiosk=1 register through /api/devices and heartbeat
+// through /api/devices/[id]/heartbeat; admins manage them on /admin/devices.
+
+import type {
+  DoseKey,
+  KioskDevice,
+  KioskDeviceConfig,
+  KioskDeviceDirective,
+  KioskDeviceError,
+  KioskThemePresetId,
+} from "@/lib/types";
+import { TRIPDAR_PRESET, type TripdarPreset } from "@/lib/tripdarPreset";
+
+// Random per-kiosk id generated by the browser
+export const KIOSK_DEVICE_ID_PATTERN = /^[A-Za-z0-9-]{8,64}$/;
+
+const DEVICE_ID_STORAGE_KEY = "kiosk-device-id";
+
+// Set once a browser is opened with ?kiosk=1; ?kiosk=0 clears it
+const PROVISIONED_STORAGE_KEY = "kiosk-provisioned";
+
+export const HEARTBEAT_INTERVAL_MS = 60_000;
+
+// A device that missed this many heartbeats' worth of time shows as offline
+export const DEVICE_OFFLINE_AFTER_MS = 3 * HEARTBEAT_INTERVAL_MS;
+
+// Devices offline this long are dropped from the registry; a kiosk that
+// comes back later registers again with a fresh config
+export const DEVICE_EXPIRE_AFTER_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Errors kept per device; older ones only count towards errorCount
+export const MAX_RECENT_DEVICE_ERRORS = 20;
+
+const MAX_ERROR_MESSAGE_LENGTH = 500;
+
+// Caps on the version strings kiosks report at registration and heartbeat
+export const MAX_DEVICE_VERSION_LENGTH = 64;
+export const MAX_DATA_VERSION_LENGTH = 128;
+const MAX_IDLE_MINUTES = 120;
+
+export type KioskThemePreset = {
+  id: KioskThemePresetId;
+  label: string;
+  animation: TripdarPreset;
+  attractSequence: "cycle" | "cosmic";
+};
+
+export const KIOSK_THEME_PRESETS: Record<KioskThemePresetId, KioskThemePreset> = {
+  classic: {
+    id: "classic",
+    label: "Classic",
+    animation: TRIPDAR_PRESET,
+    attractSequence: "cycle",
+  },
+  calm: {
+    id: "calm",
+    label: "Calm",
+    animation: { speed: 0.8, intensity: 0.4 },
+    attractSequence: "cycle",
+  },
+  vivid: {
+    id: "vivid",
+    label: "Vivid",
+    animation: { speed: 1.6, intensity: 0.75 },
+    attractSequence: "cycle",
+  },
+  cosmic: {
+    id: "cosmic",
+    label: "Cosmic",
+    animation: TRIPDAR_PRESET,
+    attractSequence: "cosmic",
+  },
+};
+
+export function getKioskThemePreset(id: KioskThemePresetId | undefined): KioskThemePreset {
+  return KIOSK_THEME_PRESETS[id ?? "classic"] ?? KIOSK_THEME_PRESETS.classic;
+}
+
+/**
+ * Random id for this browser, kept in localStorage so it survives reloads.
+ * Null when storage is blocked. Client-only.
+ */
+export function getKioskDeviceId(): string | null {
+  try {
+    let id = localStorage.getItem(DEVICE_ID_STORAGE_KEY);
+    if (!id || !KIOSK_DEVICE_ID_PATTERN.test(id)) {
+      id = `kiosk-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+      localStorage.setItem(DEVICE_ID_STORAGE_KEY, id);
+    }
+    return id;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether this browser was provisioned as a kiosk, applying the ?kiosk=
+ * query parameter first. Visitors opening a shared ?key= link never set it,
+ * so they don't show up in the device registry. Client-only.
+ */
+export function isProvisionedKiosk(kioskParam: string | null): boolean {
+  try {
+    if (kioskParam === "1") localStorage.setItem(PROVISIONED_STORAGE_KEY, "1");
+    if (kioskParam === "0") localStorage.removeItem(PROVISIONED_STORAGE_KEY);
+    return localStorage.getItem(PROVISIONED_STORAGE_KEY) === "1";
+  } catch {
+    return kioskParam === "1";
+  }
+}
+
+export function isDeviceOnline(device: KioskDevice, now = Date.now()): boolean {
+  return now - Date.parse(device.lastSeenAt) < DEVICE_OFFLINE_AFTER_MS;
+}
+
+/**
+ * `devices` without the ones offline for longer than DEVICE_EXPIRE_AFTER_MS.
+ */
+export function withoutExpiredDevices(devices: KioskDevice[], now = Date.now()): KioskDevice[] {
+  return devices.filter((device) => now - Date.parse(device.lastSeenAt) < DEVICE_EXPIRE_AFTER_MS);
+}
+
+/**
+ * Validates a config pushed from the admin page against the current strains
+ * and dose tiers. Returns the cleaned config, dropping empty fields, or an
+ * error message.
+ */
+export function parseDeviceConfig(
+  raw: unknown,
+  strainIds: string[],
+  doseKeys: DoseKey[]
+): { config: KioskDeviceConfig } | { error: string } {
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    return { error: "config must be an object" };
+  }
+  const input = raw as Record<string, unknown>;
+  const config: KioskDeviceConfig = {};
+
+  if (input.defaultStrainId !== undefined && input.defaultStrainId !== "") {
+    if (typeof input.defaultStrainId !== "string" || !strainIds.includes(input.defaultStrainId)) {
+      return { error: `Unknown strain: ${String(input.defaultStrainId)}` };
+    }
+    config.defaultStrainId = input.defaultStrainId;
+  }
+  if (input.defaultDoseKey !== undefined && input.defaultDoseKey !== "") {
+    if (typeof input.defaultDoseKey !== "string" || !doseKeys.includes(input.defaultDoseKey)) {
+      return { error: `Unknown dose: ${String(input.defaultDoseKey)}` };
+    }
+    config.defaultDoseKey = input.defaultDoseKey;
+  }
+  if (input.themePreset !== undefined && input.themePreset !== "") {
+    if (
+      typeof input.themePreset !== "string" ||
+      !Object.hasOwn(KIOSK_THEME_PRESETS, input.themePreset)
+    ) {
+      return { error: `Unknown theme preset: ${String(input.themePreset)}` };
+    }
+    config.themePreset = input.themePreset as KioskThemePresetId;
+  }
+  if (input.idleMinutes !== undefined && input.idleMinutes !== null) {
+    const minutes = input.idleMinutes;
+    if (typeof minutes !== "number" || !Number.isFinite(minutes) || minutes < 0 || minutes > MAX_IDLE_MINUTES) {
+      return { error: `idleMinutes must be between 0 and ${MAX_IDLE_MINUTES}` };
+    }
+    config.idleMinutes = minutes;
+  }
+  if (input.locked !== undefined) {
+    if (typeof input.locked !== "boolean") {
+      return { error: "locked must be a boolean" };
+    }
+    if (input.locked) config.locked = true;
+  }
+  return { config };
+}
+
+/**
+ * Cleans the error list a kiosk sends with its heartbeat: strings or
+ * { message, at } objects, trimmed and capped.
+ */
+export function parseHeartbeatErrors(raw: unknown, now = new Date()): KioskDeviceError[] {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .slice(-MAX_RECENT_DEVICE_ERRORS)
+    .map((item): KioskDeviceError | null => {
+      const message = typeof item === "string" ? item : item?.message;
+      if (typeof message !== "string" || !message.trim()) return null;
+      const at = typeof item?.at === "string" && !Number.isNaN(Date.parse(item.at))
+        ? item.at
+        : now.toISOString();
+      return { message: message.trim().slice(0, MAX_ERROR_MESSAGE_LENGTH), at };
+    })
+    .filter((error): error is KioskDeviceError => error !== null);
+}
+
+/**
+ * The remote state a kiosk acts on, returned from registration and every
+ * heartbeat.
+ */
+export function toDeviceDirective(device: KioskDevice): KioskDeviceDirective {
+  return {
+    config: device.config,
+    configRevision: device.configRevision,
+    reloadRequestedAt: device.reloadRequestedAt ?? null,
+  };
+}
@@ -1,11 +1,13 @@
-import type { Product, ProductDataset, DoseKey } from "./types";
-import rawProducts from "@/data/products.json";
-
-const dataset = rawProducts as ProductDataset;
+// SERVER-ONLY: reads the live product dataset (lib/dataService.ts), so
+// admin saves show up without a rebuild.
+import type { Product, DoseKey } from "./types";
+import { getLiveProductDataset } from "./dataService";
 
 /**
  * Returns active products matching a given strain, optionally filtered by dose.
  * - Filters by status === "active"
+ * - Partner-only products (partnerId set) are returned only for that partner;
+ *   products without a partnerId are shown everywhere
  * - Matches strainIds array:
  *   - If product.strainIds is empty, treat as "global" (matches any strain)
  *   - Otherwise, require product.strainIds.includes(strainId)
@@ -13,15 +15,19 @@ const dataset = rawProducts as ProductDataset;
  * - Sorts: isHousePick first, then by match weights, then by name
  * - Returns at most 4 products
  */
-export function getProductsForStrainAndDose(
+export async function getProductsForStrainAndDose(
   strainId: string,
-  doseKey?: DoseKey | null
-): Product[] {
-  // Start with active products that match the strain
+  doseKey?: DoseKey | null,
+  partnerId?: string
+): Promise<Product[]> {
+  const dataset = await getLiveProductDataset();
+
+  // Start with active products that match the strain and partner
   // Empty strainIds means "global" - matches all strains
   const activeProducts = dataset.products.filter(
     (p) =>
       p.status === "active" &&
+      (!p.partnerId || p.partnerId === partnerId) &&
       (p.strainIds.length === 0 || p.strainIds.includes(strainId))
   );
 
@@ -66,7 +72,8 @@ export function getProductsForStrainAndDose(
 /**
  * Returns all products from the dataset (read-only).
  */
-export function getAllProducts(): Product[] {
+export async function getAllProducts(): Promise<Product[]> {
+  const dataset = await getLiveProductDataset();
   return dataset.products;
 }
 
@@ -74,7 +81,8 @@ export function getAllProducts(): Product[] {
  * Returns a single product by ID, or undefined if not found.
  * Does NOT filter by status - callers can check status themselves.
  */
-export function getProductById(id: string): Product | undefined {
+export async function getProductById(id: string): Promise<Product | undefined> {
+  const dataset = await getLiveProductDataset();
   return dataset.products.find((p) => p.id === id);
 }
 
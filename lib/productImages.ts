@@ -0,0 +1,62 @@
+// lib/productImages.ts
+// Product images uploaded from /admin/products. They are written to
+// data/uploads/products/ and served by app/uploads/products/[file]/route.ts:
+// `next start` only serves files that were in public/ at build time, so
+// runtime uploads can't go there.
+
+import { promises as fs } from "fs";
+import path from "path";
+import crypto from "crypto";
+
+export const PRODUCT_IMAGE_URL_PREFIX = "/uploads/products/";
+
+export const MAX_PRODUCT_IMAGE_BYTES = 5 * 1024 * 1024;
+
+const UPLOADS_DIR = path.join(process.cwd(), "data", "uploads", "products");
+
+const EXTENSIONS: Record<string, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+};
+
+const CONTENT_TYPES: Record<string, string> = {
+  png: "image/png",
+  jpg: "image/jpeg",
+};
+
+// Names are generated by saveProductImage; reject anything path-like
+const FILE_NAME_PATTERN = /^[a-zA-Z0-9_-]+-\d+\.(png|jpg)$/;
+
+export function isAllowedProductImageType(type: string): boolean {
+  return Object.prototype.hasOwnProperty.call(EXTENSIONS, type);
+}
+
+/**
+ * Stores an uploaded image and returns its public URL.
+ */
+export async function saveProductImage(file: File, productId: string | null): Promise<string> {
+  const base = productId || crypto.randomUUID();
+  // Sanitize the base to remove any path traversal characters
+  const safeBase = base.replace(/[^a-zA-Z0-9-_]/g, "-");
+  const fileName = `${safeBase}-${Date.now()}.${EXTENSIONS[file.type]}`;
+
+  await fs.mkdir(UPLOADS_DIR, { recursive: true });
+  await fs.writeFile(path.join(UPLOADS_DIR, fileName), Buffer.from(await file.arrayBuffer()));
+  return `${PRODUCT_IMAGE_URL_PREFIX}${fileName}`;
+}
+
+/**
+ * An uploaded image's bytes and content type, or null when there is none.
+ */
+export async function readProductImage(
+  fileName: string
+): Promise<{ body: Buffer; contentType: string } | null> {
+  const match = FILE_NAME_PATTERN.exec(fileName);
+  if (!match) return null;
+  try {
+    const body = await fs.readFile(path.join(UPLOADS_DIR, fileName));
+    return { body, contentType: CONTENT_TYPES[match[1]] };
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,75 @@
+// lib/productRatings.ts
+// Rolls feedback entries up into per-product rating summaries: average
+// overall experience, intensity, and how far felt axes landed from the
+// expected ones. Only entries attributed to a catalog productId count;
+// free-text `otherProductName` entries have no product to attach to.
+
+import type { FeedbackEntry, ProductRatingSummary } from "@/lib/types";
+import { computeAvgDelta } from "@/lib/feedbackAnalytics";
+import { isFeedbackRating } from "@/lib/feedbackGuard";
+
+// Below this many ratings the public product page keeps the summary hidden
+export const MIN_PUBLIC_PRODUCT_RATINGS = 3;
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+function average(values: number[]): number | null {
+  if (values.length === 0) return null;
+  return round1(values.reduce((sum, v) => sum + v, 0) / values.length);
+}
+
+function summarize(productId: string, entries: FeedbackEntry[]): ProductRatingSummary {
+  const overall: number[] = [];
+  const intensity: number[] = [];
+  const deltas: number[] = [];
+  for (const entry of entries) {
+    // Out-of-scale ratings (stored before submissions were checked) are skipped
+    if (isFeedbackRating(entry.overallExperience)) overall.push(entry.overallExperience);
+    if (isFeedbackRating(entry.intensityRating)) intensity.push(entry.intensityRating);
+    const delta = computeAvgDelta(entry.feltAxes, entry.expectedAxes);
+    if (delta !== null) deltas.push(delta);
+  }
+  return {
+    productId,
+    count: entries.length,
+    avgOverallExperience: average(overall),
+    avgIntensity: average(intensity),
+    avgFeltDelta: average(deltas),
+  };
+}
+
+/**
+ * Rating summary for one product. `count` is 0 when nobody has rated it.
+ */
+export function summarizeProductRatings(
+  entries: FeedbackEntry[],
+  productId: string
+): ProductRatingSummary {
+  return summarize(
+    productId,
+    entries.filter((e) => e.productId === productId)
+  );
+}
+
+/**
+ * Rating summaries for every product with attributed feedback, keyed by productId.
+ */
+export function aggregateProductRatings(
+  entries: FeedbackEntry[]
+): Record<string, ProductRatingSummary> {
+  const groups = new Map<string, FeedbackEntry[]>();
+  for (const entry of entries) {
+    if (!entry.productId) continue;
+    const list = groups.get(entry.productId) ?? [];
+    list.push(entry);
+    groups.set(entry.productId, list);
+  }
+
+  const summaries: Record<string, ProductRatingSummary> = {};
+  for (const [productId, group] of groups) {
+    summaries[productId] = summarize(productId, group);
+  }
+  return summaries;
+}
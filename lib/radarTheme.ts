@@ -3,37 +3,6 @@
  * Used by both main kiosk radar and feedback radar preview
  */
 import type { ChartOptions } from "chart.js";
-import type { TraitAxisId } from "./types";
-
-// Canonical axis order for all radar charts
-export const RADAR_AXES_ORDER: TraitAxisId[] = [
-  "visuals",
-  "euphoria",
-  "introspection",
-  "creativity",
-  "spiritual_depth",
-  "sociability",
-];
-
-// Axis display labels (full)
-export const RADAR_AXIS_LABELS: Record<TraitAxisId, string> = {
-  visuals: "Visuals",
-  euphoria: "Euphoria",
-  introspection: "Introspection",
-  creativity: "Creativity",
-  spiritual_depth: "Spiritual",
-  sociability: "Social",
-};
-
-// Axis display labels (abbreviated for feedback radar)
-export const RADAR_AXIS_LABELS_SHORT: Record<TraitAxisId, string> = {
-  visuals: "Vis",
-  euphoria: "Euph",
-  introspection: "Intro",
-  creativity: "Creat",
-  spiritual_depth: "Spirit",
-  sociability: "Soc",
-};
 
 // Apothecary color palette
 export const APOTHECARY_COLORS = {
@@ -0,0 +1,72 @@
+// lib/rateLimit.ts
+// In-memory sliding-window rate limiter for public endpoints. Counts live in
+// the server process, so they reset on restart and are not shared between
+// instances — enough to blunt a flood from a single source.
+
+export type RateLimitResult =
+  | { allowed: true }
+  | { allowed: false; retryAfterSeconds: number };
+
+export type RateLimiter = {
+  /** Records a hit for `key` unless it is already over the limit. */
+  check(key: string, now?: number): RateLimitResult;
+};
+
+// Above this many tracked keys, idle ones are dropped on the next check
+const MAX_TRACKED_KEYS = 5000;
+
+export function createRateLimiter(options: {
+  limit: number;
+  windowMs: number;
+}): RateLimiter {
+  const { limit, windowMs } = options;
+  const hits = new Map<string, number[]>();
+
+  function prune(now: number) {
+    for (const [key, times] of hits) {
+      if (times[times.length - 1] <= now - windowMs) hits.delete(key);
+    }
+  }
+
+  return {
+    check(key, now = Date.now()) {
+      if (hits.size > MAX_TRACKED_KEYS) prune(now);
+
+      const recent = (hits.get(key) ?? []).filter((t) => t > now - windowMs);
+      if (recent.length >= limit) {
+        hits.set(key, recent);
+        return {
+          allowed: false,
+          retryAfterSeconds: Math.max(1, Math.ceil((recent[0] + windowMs - now) / 1000)),
+        };
+      }
+      recent.push(now);
+      hits.set(key, recent);
+      return { allowed: true };
+    },
+  };
+}
+
+// Reverse proxies in front of the app that append to X-Forwarded-For
+// (TRIPDAR_TRUSTED_PROXIES, default 1). Entries before theirs are written by
+// the client and can't be trusted.
+function getTrustedProxyCount(): number {
+  const count = Number(process.env.TRIPDAR_TRUSTED_PROXIES ?? 1);
+  return Number.isInteger(count) && count >= 0 ? count : 1;
+}
+
+/**
+ * The client address as seen by the outermost trusted proxy, for per-IP
+ * limits. "unknown" when the app is reached without a proxy header.
+ */
+export function getClientIp(request: Request): string {
+  const forwarded = (request.headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  const trusted = getTrustedProxyCount();
+  if (trusted > 0 && forwarded.length > 0) {
+    return forwarded[Math.max(0, forwarded.length - trusted)];
+  }
+  return request.headers.get("x-real-ip")?.trim() || "unknown";
+}
@@ -0,0 +1,331 @@
+/**
+ * Revision History
+ *
+ * Every admin write to an editable dataset goes through saveWithRevision()
+ * (or updateWithRevision()), which writes it through the storage layer and
+ * stores a timestamped copy under
+ * data/revisions/<dataset>/ together with the author and a diff summary.
+ * The summaries are also kept in data/revisions/<dataset>/index.json, so
+ * listing history doesn't read every full copy. Older revisions can be
+ * inspected and restored from /admin/history.
+ * Writes made with an AuditContext are also recorded in the audit log.
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import crypto from "crypto";
+import type {
+  AccessKeyDataset,
+  AuditAction,
+  DatasetRevision,
+  DatasetRevisionSummary,
+  DatasetValidationIssue,
+  RevisionDatasetId,
+} from "@/lib/types";
+import { diffJson, summarizeJsonChanges } from "./jsonDiff";
+import { getGuideFromCookies } from "./guideSession";
+import { repositories, type Repository } from "./storage";
+import { withFileLock, writeFileAtomic } from "./storage/fileLock";
+import { recordDatasetAudit, type AuditContext } from "./auditLog";
+import { validateEditorDataset } from "./strainValidation";
+import { withCurrentVisitCounts } from "./accessKeys";
+
+const REVISIONS_DIR = path.join(process.cwd(), "data", "revisions");
+const MAX_REVISIONS_PER_DATASET = 200;
+const MAX_CHANGED_PATHS = 20;
+
+export const REVISIONED_DATASETS: Record<RevisionDatasetId, { label: string }> = {
+  strains: { label: "Strains" },
+  products: { label: "Products" },
+  accessKeys: { label: "Access Keys" },
+  guideMessages: { label: "Guide Messages" },
+};
+
+export function isRevisionDatasetId(value: string): value is RevisionDatasetId {
+  return Object.prototype.hasOwnProperty.call(REVISIONED_DATASETS, value);
+}
+
+// Datasets whose admin save route validates the content; restores must
+// pass the same checks
+const RESTORE_VALIDATORS: Partial<
+  Record<RevisionDatasetId, (content: unknown) => DatasetValidationIssue[]>
+> = {
+  strains: validateEditorDataset,
+};
+
+// Server-maintained fields a restore carries over from the current content
+// instead of rolling them back
+const RESTORE_MERGES: Partial<
+  Record<RevisionDatasetId, (content: unknown, current: unknown) => unknown>
+> = {
+  accessKeys: (content, current) =>
+    withCurrentVisitCounts(content as AccessKeyDataset, current as AccessKeyDataset),
+};
+
+function revisionDir(dataset: RevisionDatasetId): string {
+  return path.join(REVISIONS_DIR, dataset);
+}
+
+function revisionIndexPath(dataset: RevisionDatasetId): string {
+  return path.join(revisionDir(dataset), "index.json");
+}
+
+function generateRevisionId(): string {
+  return `rev-${Date.now()}-${crypto.randomBytes(3).toString("hex")}`;
+}
+
+async function readJsonFile(filePath: string): Promise<unknown> {
+  try {
+    const raw = await fs.readFile(filePath, "utf8");
+    return JSON.parse(raw);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Username of the signed-in account making the change, or "anonymous".
+ */
+export async function resolveRevisionAuthor(): Promise<string> {
+  try {
+    const guide = await getGuideFromCookies();
+    return guide?.username ?? "anonymous";
+  } catch {
+    return "anonymous";
+  }
+}
+
+function toSummary(revision: DatasetRevision): DatasetRevisionSummary {
+  const { content: _content, ...summary } = revision;
+  void _content;
+  return summary;
+}
+
+// Summaries oldest-first. Rebuilt from the revision files when the index is
+// missing, e.g. for history recorded before the index existed.
+async function readRevisionIndex(dataset: RevisionDatasetId): Promise<DatasetRevisionSummary[]> {
+  const index = (await readJsonFile(revisionIndexPath(dataset))) as
+    | { revisions?: DatasetRevisionSummary[] }
+    | undefined;
+  if (Array.isArray(index?.revisions)) return index.revisions;
+
+  const files = await listRevisionFiles(dataset);
+  const revisions = await Promise.all(
+    files.map((file) =>
+      readJsonFile(path.join(revisionDir(dataset), file)) as Promise<
+        DatasetRevision | undefined
+      >
+    )
+  );
+  return revisions
+    .filter((revision): revision is DatasetRevision => Boolean(revision))
+    .map(toSummary);
+}
+
+/**
+ * Writes a revision file and adds it to the index, dropping the oldest
+ * revisions beyond MAX_REVISIONS_PER_DATASET. Runs under the index lock so
+ * concurrent saves don't lose index entries.
+ */
+async function storeRevision(revision: DatasetRevision): Promise<void> {
+  const dir = revisionDir(revision.dataset);
+  const indexPath = revisionIndexPath(revision.dataset);
+  await withFileLock(indexPath, async () => {
+    await fs.mkdir(dir, { recursive: true });
+    await fs.writeFile(
+      path.join(dir, `${revision.id}.json`),
+      JSON.stringify(revision, null, 2),
+      "utf8"
+    );
+
+    const index = await readRevisionIndex(revision.dataset);
+    if (!index.some((summary) => summary.id === revision.id)) {
+      index.push(toSummary(revision));
+    }
+    const excess = index.length - MAX_REVISIONS_PER_DATASET;
+    const kept = excess > 0 ? index.slice(excess) : index;
+    await writeFileAtomic(indexPath, JSON.stringify({ revisions: kept }, null, 2));
+
+    // Index entries are oldest-first, like the files they point to
+    if (excess > 0) {
+      await Promise.all(
+        index
+          .slice(0, excess)
+          .map((summary) => fs.unlink(path.join(dir, `${summary.id}.json`)).catch(() => {}))
+      );
+    }
+  });
+}
+
+async function listRevisionFiles(dataset: RevisionDatasetId): Promise<string[]> {
+  try {
+    const files = await fs.readdir(revisionDir(dataset));
+    return files
+      .filter((file) => file.startsWith("rev-") && file.endsWith(".json"))
+      .sort((a, b) => revisionTimestamp(a) - revisionTimestamp(b) || a.localeCompare(b));
+  } catch {
+    return [];
+  }
+}
+
+function revisionTimestamp(fileName: string): number {
+  return Number(fileName.split("-")[1]) || 0;
+}
+
+function buildRevision(
+  dataset: RevisionDatasetId,
+  previous: unknown,
+  content: unknown,
+  author: string,
+  restoredFrom?: string
+): DatasetRevisionSummary {
+  const changes = diffJson(previous, content);
+  const summary = restoredFrom
+    ? `Restored ${restoredFrom} (${summarizeJsonChanges(changes)})`
+    : summarizeJsonChanges(changes);
+  return {
+    id: generateRevisionId(),
+    dataset,
+    createdAt: new Date().toISOString(),
+    author,
+    summary,
+    changeCount: changes.length,
+    changedPaths: changes.slice(0, MAX_CHANGED_PATHS).map((change) => change.path),
+    ...(restoredFrom && { restoredFrom }),
+  };
+}
+
+type RevisionWriteOptions = {
+  restoredFrom?: string;
+  // Admin writes pass their request so the change lands in the audit log
+  audit?: AuditContext;
+  auditAction?: AuditAction;
+};
+
+/**
+ * Applies `mutator` to a dataset under its storage lock and records the
+ * result as a revision. The first time a dataset is saved, the previous
+ * contents are kept as an "initial" revision so the very first edit can be
+ * rolled back too.
+ */
+export async function updateWithRevision<T>(
+  dataset: RevisionDatasetId,
+  mutator: (current: T) => T | Promise<T>,
+  author: string,
+  options: RevisionWriteOptions = {}
+): Promise<DatasetRevisionSummary> {
+  const repository = repositories[dataset] as unknown as Repository<T>;
+  let previous: T | undefined;
+  const content = await repository.update(async (current) => {
+    previous = current;
+    return mutator(current);
+  });
+
+  if (previous != null && (await listRevisionFiles(dataset)).length === 0) {
+    await storeRevision({
+      id: generateRevisionId(),
+      dataset,
+      createdAt: new Date().toISOString(),
+      author: "system",
+      summary: "Initial version",
+      changeCount: 0,
+      changedPaths: [],
+      content: previous,
+    });
+  }
+
+  const summary = buildRevision(
+    dataset,
+    previous,
+    content,
+    author,
+    options.restoredFrom
+  );
+  await storeRevision({ ...summary, content });
+
+  if (options.audit) {
+    await recordDatasetAudit(options.audit, dataset, previous, content, {
+      action: options.auditAction ?? (options.restoredFrom ? "restore" : "save"),
+      revisionId: summary.id,
+      restoredFrom: options.restoredFrom,
+    });
+  }
+  return summary;
+}
+
+/**
+ * Replaces a dataset and records the new contents as a revision.
+ */
+export async function saveWithRevision(
+  dataset: RevisionDatasetId,
+  content: unknown,
+  author: string,
+  options: RevisionWriteOptions = {}
+): Promise<DatasetRevisionSummary> {
+  return updateWithRevision(dataset, () => content, author, options);
+}
+
+/**
+ * Lists revisions for a dataset, newest first, without their contents.
+ */
+export async function listRevisions(
+  dataset: RevisionDatasetId
+): Promise<DatasetRevisionSummary[]> {
+  return [...(await readRevisionIndex(dataset))].reverse();
+}
+
+/**
+ * Loads a single revision including its full contents.
+ */
+export async function getRevision(
+  dataset: RevisionDatasetId,
+  revisionId: string
+): Promise<DatasetRevision | null> {
+  // Revision ids are generated server-side; reject anything path-like
+  if (!/^rev-\d+-[a-f0-9]+$/.test(revisionId)) return null;
+  const revision = (await readJsonFile(
+    path.join(revisionDir(dataset), `${revisionId}.json`)
+  )) as DatasetRevision | undefined;
+  return revision ?? null;
+}
+
+/**
+ * Restores a dataset to an older revision. The restore itself is recorded
+ * as a new revision, so it can be undone the same way. Content that fails
+ * the dataset's validation (e.g. a strains revision saved before a schema
+ * change) is refused with the issues.
+ */
+export async function restoreRevision(
+  dataset: RevisionDatasetId,
+  revisionId: string,
+  author: string,
+  audit?: AuditContext
+): Promise<
+  | { revision: DatasetRevisionSummary }
+  | { error: string; status: number; issues?: DatasetValidationIssue[] }
+> {
+  const revision = await getRevision(dataset, revisionId);
+  if (!revision) {
+    return { error: `Revision "${revisionId}" not found`, status: 404 };
+  }
+
+  const issues = RESTORE_VALIDATORS[dataset]?.(revision.content) ?? [];
+  if (issues.length > 0) {
+    const [first] = issues;
+    return {
+      error: `Revision failed validation (${issues.length} issue${issues.length === 1 ? "" : "s"}; first: ${first.path || "dataset"}: ${first.message})`,
+      status: 400,
+      issues,
+    };
+  }
+
+  const merge = RESTORE_MERGES[dataset];
+  return {
+    revision: await updateWithRevision(
+      dataset,
+      (current) => (merge ? merge(revision.content, current) : revision.content),
+      author,
+      { restoredFrom: revisionId, audit }
+    ),
+  };
+}
@@ -0,0 +1,252 @@
+// lib/serviceWorker.ts
+// Builds the kiosk service worker served at /sw.js (app/sw.js/route.ts).
+// The script is generated per data version: it embeds the list of URLs to
+// precache, so a strain, dose or product edit changes the script and the
+// browser installs a fresh worker that precaches the new data.
+//
+// Strategies, by request:
+// - pages:            network first; offline, the cached copy of that exact
+//                     URL (query included, so one access key's page is never
+//                     served for another) or the precached offline page
+// - /_next/static/*:  cache first (file names are content-hashed); the
+//                     cache outlives data versions, so it is capped and
+//                     the oldest files (left over from past builds) go first
+// - precached data and product images: stale-while-revalidate; offline,
+//   a keyed dose URL (?key=) falls back to the precached unkeyed one
+// Admin, guide and login pages and write/poll endpoints are never cached.
+//
+// The worker also replays the offline feedback queue (lib/feedbackQueue.ts)
+// on a background sync event.
+
+import {
+  FEEDBACK_DB_NAME,
+  FEEDBACK_DB_STORES,
+  FEEDBACK_DB_VERSION,
+  FEEDBACK_QUEUE_STORE,
+  FEEDBACK_SYNC_TAG,
+} from "@/lib/feedbackQueue";
+
+export type ServiceWorkerConfig = {
+  version: string;
+  // Same-origin paths fetched into the cache on install
+  precacheUrls: string[];
+};
+
+// Cache name prefix; data caches are suffixed with the version
+export const SERVICE_WORKER_CACHE_PREFIX = "tripdar";
+
+// Enough for a few builds' worth of /_next/static files
+export const MAX_STATIC_CACHE_ENTRIES = 300;
+
+// Shown for pages with no cached copy while offline; precached by /sw.js
+export const OFFLINE_PAGE_URL = "/offline";
+
+// Never served from cache: admin and guide UIs, sign-in, writes, and the
+// data-version poll
+const BYPASS_PREFIXES = [
+  "/admin",
+  "/guides",
+  "/login",
+  "/api/admin",
+  "/api/feedback",
+  "/api/data-version",
+  "/api/guides",
+  "/api/auth",
+  "/_next/webpack-hmr",
+];
+
+// Runtime-cached with stale-while-revalidate even when not precached
+const DATA_PREFIXES = [
+  "/api/strains/",
+  "/api/dose-config",
+  "/products/",
+  "/uploads/products/",
+];
+
+export function buildServiceWorkerScript(config: ServiceWorkerConfig): string {
+  const settings = JSON.stringify(
+    {
+      version: config.version,
+      precacheUrls: config.precacheUrls,
+      offlineUrl: OFFLINE_PAGE_URL,
+      bypassPrefixes: BYPASS_PREFIXES,
+      dataPrefixes: DATA_PREFIXES,
+      staticCache: `${SERVICE_WORKER_CACHE_PREFIX}-static`,
+      maxStaticEntries: MAX_STATIC_CACHE_ENTRIES,
+      dataCache: `${SERVICE_WORKER_CACHE_PREFIX}-data-${config.version}`,
+      cachePrefix: `${SERVICE_WORKER_CACHE_PREFIX}-`,
+      feedbackQueue: {
+        dbName: FEEDBACK_DB_NAME,
+        dbVersion: FEEDBACK_DB_VERSION,
+        stores: FEEDBACK_DB_STORES,
+        queueStore: FEEDBACK_QUEUE_STORE,
+        syncTag: FEEDBACK_SYNC_TAG,
+      },
+    },
+    null,
+    2
+  );
+
+  return `// Generated by /sw.js — do not edit
+const SW = ${settings};
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches.open(SW.dataCache).then((cache) =>
+      // One missing image must not abort the whole install
+      Promise.allSettled(SW.precacheUrls.map((url) => cache.add(url)))
+    ).then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches.keys().then((names) =>
+      Promise.all(
+        names
+          .filter((name) =>
+            name.startsWith(SW.cachePrefix) &&
+            name !== SW.staticCache &&
+            name !== SW.dataCache
+          )
+          .map((name) => caches.delete(name))
+      )
+    ).then(() => trimStaticCache()).then(() => self.clients.claim())
+  );
+});
+
+function startsWithAny(path, prefixes) {
+  return prefixes.some((prefix) => path.startsWith(prefix));
+}
+
+async function networkFirst(request) {
+  const cache = await caches.open(SW.dataCache);
+  try {
+    const response = await fetch(request);
+    if (response.ok) cache.put(request, response.clone());
+    return response;
+  } catch (error) {
+    const cached = (await cache.match(request)) || (await cache.match(SW.offlineUrl));
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+// Cache keys come back oldest first, so the overflow is the oldest files
+async function trimStaticCache() {
+  const cache = await caches.open(SW.staticCache);
+  const keys = await cache.keys();
+  const overflow = keys.slice(0, Math.max(0, keys.length - SW.maxStaticEntries));
+  await Promise.all(overflow.map((key) => cache.delete(key)));
+}
+
+async function cacheFirst(event) {
+  const cache = await caches.open(SW.staticCache);
+  const cached = await cache.match(event.request);
+  if (cached) return cached;
+  const response = await fetch(event.request);
+  if (response.ok) {
+    event.waitUntil(
+      cache.put(event.request, response.clone()).then(() => trimStaticCache()).catch(() => undefined)
+    );
+  }
+  return response;
+}
+
+async function staleWhileRevalidate(event) {
+  const cache = await caches.open(SW.dataCache);
+  const cached = await cache.match(event.request);
+  const refresh = fetch(event.request).then((response) => {
+    if (response.ok) return cache.put(event.request, response.clone()).then(() => response);
+    return response;
+  }).catch(async (error) => {
+    const fallback = await cache.match(event.request, { ignoreSearch: true });
+    if (fallback) return fallback;
+    throw error;
+  });
+  if (cached) {
+    event.waitUntil(refresh.catch(() => undefined));
+    return cached;
+  }
+  return refresh;
+}
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) return;
+  if (startsWithAny(url.pathname, SW.bypassPrefixes)) return;
+
+  if (request.mode === "navigate") {
+    event.respondWith(networkFirst(request));
+  } else if (url.pathname.startsWith("/_next/static/")) {
+    event.respondWith(cacheFirst(event));
+  } else if (
+    SW.precacheUrls.includes(url.pathname) ||
+    startsWithAny(url.pathname, SW.dataPrefixes)
+  ) {
+    event.respondWith(staleWhileRevalidate(event));
+  }
+});
+
+// Offline feedback queue; same rules as replayFeedbackQueue() in the page
+function openFeedbackDb() {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(SW.feedbackQueue.dbName, SW.feedbackQueue.dbVersion);
+    request.onupgradeneeded = () => {
+      for (const { name, keyPath } of SW.feedbackQueue.stores) {
+        if (!request.result.objectStoreNames.contains(name)) {
+          request.result.createObjectStore(name, { keyPath });
+        }
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function queueRequest(db, mode, operation) {
+  return new Promise((resolve, reject) => {
+    const store = db.transaction(SW.feedbackQueue.queueStore, mode)
+      .objectStore(SW.feedbackQueue.queueStore);
+    const request = operation(store);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function isFinalFeedbackResponse(status) {
+  if (status >= 200 && status < 300) return true;
+  return status >= 400 && status < 500 && status !== 408 && status !== 429;
+}
+
+async function replayFeedbackQueue() {
+  const db = await openFeedbackDb();
+  try {
+    const queued = await queueRequest(db, "readonly", (store) => store.getAll());
+    queued.sort((a, b) => a.queuedAt.localeCompare(b.queuedAt));
+    for (const item of queued) {
+      // A network error rejects, so the browser retries the sync later
+      const response = await fetch("/api/feedback", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(item.payload),
+      });
+      if (isFinalFeedbackResponse(response.status)) {
+        await queueRequest(db, "readwrite", (store) => store.delete(item.submissionId));
+      }
+    }
+  } finally {
+    db.close();
+  }
+}
+
+self.addEventListener("sync", (event) => {
+  if (event.tag === SW.feedbackQueue.syncTag) {
+    event.waitUntil(replayFeedbackQueue());
+  }
+});
+`;
+}
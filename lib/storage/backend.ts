@@ -0,0 +1,39 @@
+// lib/storage/backend.ts
+// Contract shared by the storage backends. Each dataset is stored as one
+// JSON document, mirroring the data/*.json files the app started with;
+// high-volume records (access events) go to append-only logs instead.
+
+import type { StorageBackendId, StorageDocumentId, StorageLogId } from "@/lib/types";
+import { DOCUMENT_FILE_NAMES, LOG_FILE_NAMES } from "./shared.mjs";
+
+export interface StorageBackend {
+  readonly id: StorageBackendId;
+  /**
+   * Returns the stored document, or undefined when it does not exist.
+   * Throws when it exists but can't be parsed, so update() never replaces
+   * a damaged document with an empty one.
+   */
+  read(documentId: StorageDocumentId): Promise<unknown>;
+  /** Replaces the stored document. Callers should hold the lock. */
+  write(documentId: StorageDocumentId, value: unknown): Promise<void>;
+  /**
+   * Cheap change token (mtime, row timestamp) that differs after every
+   * write, including writes from other processes. Null when missing.
+   */
+  version(documentId: StorageDocumentId): Promise<string | null>;
+  /** Runs `fn` with exclusive access to one document. */
+  withLock<T>(documentId: StorageDocumentId, fn: () => Promise<T>): Promise<T>;
+  /** Appends records to a log without touching earlier ones. */
+  append(logId: StorageLogId, records: unknown[]): Promise<void>;
+  /** Calls `visit` with every record of a log, oldest first. */
+  scan(logId: StorageLogId, visit: (record: unknown) => void): Promise<void>;
+}
+
+// File names used by the JSON backend (and as the migration source/target)
+export { DOCUMENT_FILE_NAMES, LOG_FILE_NAMES };
+
+export const STORAGE_DOCUMENT_IDS = Object.keys(
+  DOCUMENT_FILE_NAMES
+) as StorageDocumentId[];
+
+export const STORAGE_LOG_IDS = Object.keys(LOG_FILE_NAMES) as StorageLogId[];
@@ -0,0 +1,53 @@
+/**
+ * File Locking + Atomic Writes
+ *
+ * withFileLock() serializes read-modify-write cycles on one file:
+ * - an in-process queue so concurrent requests in the same server wait
+ *   for each other, and
+ * - a `<file>.lock` file created with O_EXCL so separate processes
+ *   (e.g. a migration run next to the dev server) wait as well.
+ *
+ * writeFileAtomic() writes to a temp file in the same directory and renames
+ * it over the target, so readers never see a half-written file.
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import { acquireLockFile, releaseLockFile, writeFileAtomic } from "./shared.mjs";
+
+// The lock file protocol and atomic write are shared with the migration script
+export { writeFileAtomic };
+
+const inProcessQueues = new Map<string, Promise<unknown>>();
+
+/**
+ * Runs `fn` while holding an exclusive lock on `filePath`.
+ */
+export async function withFileLock<T>(
+  filePath: string,
+  fn: () => Promise<T>
+): Promise<T> {
+  const previous = inProcessQueues.get(filePath) ?? Promise.resolve();
+  const run = previous
+    .catch(() => {})
+    .then(async () => {
+      const lockPath = `${filePath}.lock`;
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await acquireLockFile(lockPath);
+      try {
+        return await fn();
+      } finally {
+        await releaseLockFile(lockPath);
+      }
+    });
+
+  inProcessQueues.set(filePath, run);
+  try {
+    return await run;
+  } finally {
+    // Drop the queue entry once nothing else has been chained after us
+    if (inProcessQueues.get(filePath) === run) {
+      inProcessQueues.delete(filePath);
+    }
+  }
+}
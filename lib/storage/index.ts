@@ -0,0 +1,260 @@
+/**
+ * Storage Layer
+ *
+ * One repository per dataset (feedback, products, strains, access keys,
+ * guides, guide messages, kiosk devices) and one append-only log per record
+ * stream (access events, audit log) on top of a pluggable backend:
+ * - "json"   (default) data/*.json files, written atomically, and
+ *            data/*.jsonl logs
+ * - "sqlite" one embedded database file via node:sqlite
+ *
+ * Select the backend with TRIPDAR_STORAGE=json|sqlite; the database path
+ * defaults to data/tripdar.sqlite (override with TRIPDAR_SQLITE_PATH).
+ * Move data between backends with `npm run storage:migrate`.
+ *
+ * Successful writes are announced through onDocumentWrite() so in-memory
+ * caches (lib/dataService.ts) can drop stale copies right away.
+ */
+
+import path from "path";
+import type {
+  AccessEvent,
+  AccessKeyDataset,
+  AuditEntry,
+  EditorDataset,
+  FeedbackDataset,
+  GuideAccountDataset,
+  GuideMessageDataset,
+  KioskDeviceDataset,
+  ProductDataset,
+  StorageBackendId,
+  StorageDocumentId,
+  StorageLogId,
+} from "@/lib/types";
+import type { StorageBackend } from "./backend";
+import { createJsonBackend } from "./jsonBackend";
+import { createSqliteBackend } from "./sqliteBackend";
+
+export type { StorageBackend } from "./backend";
+
+const DATA_DIR = path.join(process.cwd(), "data");
+const DEFAULT_SQLITE_PATH = path.join(DATA_DIR, "tripdar.sqlite");
+
+let activeBackend: StorageBackend | null = null;
+
+type DocumentWriteListener = (documentId: StorageDocumentId) => void;
+const writeListeners = new Set<DocumentWriteListener>();
+
+/**
+ * Registers a callback for every write made through a repository.
+ * Returns an unsubscribe function.
+ */
+export function onDocumentWrite(listener: DocumentWriteListener): () => void {
+  writeListeners.add(listener);
+  return () => {
+    writeListeners.delete(listener);
+  };
+}
+
+function notifyDocumentWrite(documentId: StorageDocumentId): void {
+  for (const listener of writeListeners) {
+    try {
+      listener(documentId);
+    } catch (error) {
+      console.error("Storage write listener failed:", error);
+    }
+  }
+}
+
+export function getStorageBackendId(): StorageBackendId {
+  return process.env.TRIPDAR_STORAGE === "sqlite" ? "sqlite" : "json";
+}
+
+export function createStorageBackend(id: StorageBackendId): StorageBackend {
+  if (id === "sqlite") {
+    return createSqliteBackend(process.env.TRIPDAR_SQLITE_PATH || DEFAULT_SQLITE_PATH);
+  }
+  return createJsonBackend(DATA_DIR);
+}
+
+export function getStorageBackend(): StorageBackend {
+  if (!activeBackend) {
+    activeBackend = createStorageBackend(getStorageBackendId());
+  }
+  return activeBackend;
+}
+
+export type Repository<T> = {
+  /** Current dataset, or the empty default when nothing is stored yet. */
+  read(): Promise<T>;
+  /** Replaces the dataset under the document lock. */
+  write(value: T): Promise<void>;
+  /**
+   * Locked read-modify-write. Concurrent updates run one after another,
+   * so no write is lost.
+   */
+  update(mutator: (current: T) => T | Promise<T>): Promise<T>;
+};
+
+function createRepository<T>(
+  documentId: StorageDocumentId,
+  normalize: (raw: unknown) => T
+): Repository<T> {
+  const read = async () => normalize(await getStorageBackend().read(documentId));
+
+  return {
+    read,
+
+    async write(value) {
+      const backend = getStorageBackend();
+      await backend.withLock(documentId, () => backend.write(documentId, value));
+      notifyDocumentWrite(documentId);
+    },
+
+    async update(mutator) {
+      const backend = getStorageBackend();
+      const next = await backend.withLock(documentId, async () => {
+        const updated = await mutator(normalize(await backend.read(documentId)));
+        await backend.write(documentId, updated);
+        return updated;
+      });
+      notifyDocumentWrite(documentId);
+      return next;
+    },
+  };
+}
+
+export type LogRepository<T> = {
+  /** Appends records; earlier records are never rewritten. */
+  append(...records: T[]): Promise<void>;
+  /** Calls `visit` with every well-formed record, oldest first. */
+  scan(visit: (record: T) => void): Promise<void>;
+  /** Every well-formed record, oldest first. */
+  readAll(): Promise<T[]>;
+};
+
+function createLogRepository<T>(
+  logId: StorageLogId,
+  isValid: (raw: unknown) => raw is T
+): LogRepository<T> {
+  const scan = (visit: (record: T) => void) =>
+    getStorageBackend().scan(logId, (raw) => {
+      if (isValid(raw)) visit(raw);
+    });
+
+  return {
+    append(...records) {
+      return getStorageBackend().append(logId, records);
+    },
+
+    scan,
+
+    async readAll() {
+      const records: T[] = [];
+      await scan((record) => records.push(record));
+      return records;
+    },
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function hasArrayField(value: unknown, field: string): boolean {
+  return isRecord(value) && Array.isArray(value[field]);
+}
+
+export const feedbackRepository = createRepository<FeedbackDataset>(
+  "feedback",
+  (raw) =>
+    hasArrayField(raw, "entries")
+      ? (raw as FeedbackDataset)
+      : { entries: [] }
+);
+
+export const productsRepository = createRepository<ProductDataset>(
+  "products",
+  (raw) =>
+    hasArrayField(raw, "products")
+      ? (raw as ProductDataset)
+      : { products: [] }
+);
+
+// No sensible empty strain dataset exists, so a missing one reads as null
+export const strainsRepository = createRepository<EditorDataset | null>(
+  "strains",
+  (raw) => (isRecord(raw) && isRecord(raw.strains) ? (raw as EditorDataset) : null)
+);
+
+export const accessKeysRepository = createRepository<AccessKeyDataset>(
+  "accessKeys",
+  (raw) => {
+    if (!hasArrayField(raw, "keys")) {
+      return { keys: [], settings: { requireKeyForRoot: false } };
+    }
+    const dataset = raw as AccessKeyDataset;
+    return {
+      ...dataset,
+      settings: dataset.settings ?? { requireKeyForRoot: false },
+    };
+  }
+);
+
+export const guidesRepository = createRepository<GuideAccountDataset>(
+  "guides",
+  (raw) =>
+    hasArrayField(raw, "guides")
+      ? (raw as GuideAccountDataset)
+      : { guides: [] }
+);
+
+export const guideMessagesRepository = createRepository<GuideMessageDataset>(
+  "guideMessages",
+  (raw) =>
+    hasArrayField(raw, "messages")
+      ? (raw as GuideMessageDataset)
+      : { messages: [] }
+);
+
+export const devicesRepository = createRepository<KioskDeviceDataset>(
+  "devices",
+  (raw) =>
+    hasArrayField(raw, "devices")
+      ? (raw as KioskDeviceDataset)
+      : { devices: [] }
+);
+
+export const repositories = {
+  feedback: feedbackRepository,
+  products: productsRepository,
+  strains: strainsRepository,
+  accessKeys: accessKeysRepository,
+  guides: guidesRepository,
+  guideMessages: guideMessagesRepository,
+  devices: devicesRepository,
+} satisfies Record<StorageDocumentId, Repository<unknown>>;
+
+export const accessEventsLog = createLogRepository<AccessEvent>(
+  "accessEvents",
+  (raw): raw is AccessEvent =>
+    isRecord(raw) &&
+    typeof raw.accessKeyId === "string" &&
+    typeof raw.type === "string" &&
+    typeof raw.createdAt === "string"
+);
+
+export const auditLog = createLogRepository<AuditEntry>(
+  "auditLog",
+  (raw): raw is AuditEntry =>
+    isRecord(raw) &&
+    typeof raw.id === "string" &&
+    typeof raw.createdAt === "string" &&
+    Array.isArray(raw.entityIds) &&
+    Array.isArray(raw.changes)
+);
+
+export const logs = {
+  accessEvents: accessEventsLog,
+  auditLog,
+} satisfies Record<StorageLogId, LogRepository<unknown>>;
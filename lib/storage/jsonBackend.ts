@@ -0,0 +1,50 @@
+// lib/storage/jsonBackend.ts
+// Stores each dataset as data/<name>.json (the original on-disk layout) and
+// each log as data/<name>.jsonl, one record per line.
+
+import { promises as fs } from "fs";
+import path from "path";
+import type { StorageDocumentId, StorageLogId } from "@/lib/types";
+import { DOCUMENT_FILE_NAMES, LOG_FILE_NAMES, type StorageBackend } from "./backend";
+import { withFileLock, writeFileAtomic } from "./fileLock";
+import { appendJsonLines, readJsonFile, scanJsonLines } from "./shared.mjs";
+
+export function createJsonBackend(dataDir: string): StorageBackend {
+  const filePath = (documentId: StorageDocumentId) =>
+    path.join(dataDir, DOCUMENT_FILE_NAMES[documentId]);
+  const logPath = (logId: StorageLogId) => path.join(dataDir, LOG_FILE_NAMES[logId]);
+
+  return {
+    id: "json",
+
+    read(documentId) {
+      return readJsonFile(filePath(documentId));
+    },
+
+    async write(documentId, value) {
+      await writeFileAtomic(filePath(documentId), JSON.stringify(value, null, 2));
+    },
+
+    async version(documentId) {
+      try {
+        const stats = await fs.stat(filePath(documentId));
+        return `${stats.mtimeMs}-${stats.size}`;
+      } catch {
+        return null;
+      }
+    },
+
+    withLock(documentId, fn) {
+      return withFileLock(filePath(documentId), fn);
+    },
+
+    append(logId, records) {
+      // The lock keeps concurrent appends from interleaving their lines
+      return withFileLock(logPath(logId), () => appendJsonLines(logPath(logId), records));
+    },
+
+    scan(logId, visit) {
+      return scanJsonLines(logPath(logId), visit);
+    },
+  };
+}
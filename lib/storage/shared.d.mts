@@ -0,0 +1,26 @@
+import type { StorageDocumentId, StorageLogId } from "@/lib/types";
+
+export const DOCUMENT_FILE_NAMES: Record<StorageDocumentId, string>;
+
+export const LOG_FILE_NAMES: Record<StorageLogId, string>;
+
+export const SQLITE_SCHEMA: string;
+
+export const LOG_SCAN_BATCH_SIZE: number;
+
+export function acquireLockFile(lockPath: string): Promise<void>;
+
+export function releaseLockFile(lockPath: string): Promise<void>;
+
+export function writeFileAtomic(filePath: string, contents: string): Promise<void>;
+
+export function parseStoredJson(raw: string, source: string): unknown;
+
+export function readJsonFile(filePath: string): Promise<unknown>;
+
+export function appendJsonLines(filePath: string, records: unknown[]): Promise<void>;
+
+export function scanJsonLines(
+  filePath: string,
+  visit: (record: unknown) => void
+): Promise<void>;
@@ -0,0 +1,194 @@
+// lib/storage/shared.mjs
+// The storage pieces both the app (lib/storage) and the migration script
+// (scripts/migrate-storage.mjs) need: file names, the lock file protocol,
+// atomic writes, strict JSON reads, JSONL logs and the SQLite schema.
+// Plain JavaScript so the script can import it without a build step; types
+// live in shared.d.mts.
+
+import { promises as fs } from "fs";
+import path from "path";
+import crypto from "crypto";
+
+// File names used by the JSON backend (and as the migration source/target)
+export const DOCUMENT_FILE_NAMES = {
+  feedback: "feedback.json",
+  products: "products.json",
+  strains: "strains.json",
+  accessKeys: "accessKeys.json",
+  guides: "guides.json",
+  guideMessages: "guideMessages.json",
+  devices: "devices.json",
+};
+
+// Append-only logs: one JSON record per line in the JSON backend, one row
+// per record in SQLite. Appends never rewrite earlier records.
+export const LOG_FILE_NAMES = {
+  accessEvents: "accessEvents.jsonl",
+  auditLog: "auditLog.jsonl",
+};
+
+export const SQLITE_SCHEMA = `
+  PRAGMA journal_mode = WAL;
+  PRAGMA busy_timeout = 5000;
+  CREATE TABLE IF NOT EXISTS documents (
+    id TEXT PRIMARY KEY,
+    value TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS log_records (
+    seq INTEGER PRIMARY KEY AUTOINCREMENT,
+    log_id TEXT NOT NULL,
+    value TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS log_records_log_id ON log_records (log_id, seq);
+`;
+
+// Records read per batch when scanning a SQLite log
+export const LOG_SCAN_BATCH_SIZE = 1000;
+
+const LOCK_RETRY_MS = 25;
+const LOCK_TIMEOUT_MS = 10_000;
+// A lock older than this is assumed to belong to a crashed process
+const LOCK_STALE_MS = 30_000;
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Creates `lockPath` with O_EXCL, waiting while another process holds it.
+ */
+export async function acquireLockFile(lockPath) {
+  const startedAt = Date.now();
+  for (;;) {
+    try {
+      const handle = await fs.open(lockPath, "wx");
+      await handle.writeFile(`${process.pid}\n`, "utf8");
+      await handle.close();
+      return;
+    } catch (error) {
+      if (error.code !== "EEXIST") throw error;
+    }
+
+    try {
+      const stats = await fs.stat(lockPath);
+      if (Date.now() - stats.mtimeMs > LOCK_STALE_MS) {
+        await fs.unlink(lockPath).catch(() => {});
+        continue;
+      }
+    } catch {
+      // Lock disappeared between open and stat; retry immediately
+      continue;
+    }
+
+    if (Date.now() - startedAt > LOCK_TIMEOUT_MS) {
+      throw new Error(`Timed out waiting for lock on ${lockPath}`);
+    }
+    await sleep(LOCK_RETRY_MS);
+  }
+}
+
+export async function releaseLockFile(lockPath) {
+  await fs.unlink(lockPath).catch(() => {});
+}
+
+/**
+ * Writes `contents` to `filePath` via a temp file + rename.
+ */
+export async function writeFileAtomic(filePath, contents) {
+  const dir = path.dirname(filePath);
+  const tempPath = path.join(
+    dir,
+    `.${path.basename(filePath)}.${process.pid}.${crypto.randomBytes(4).toString("hex")}.tmp`
+  );
+  await fs.mkdir(dir, { recursive: true });
+  try {
+    await fs.writeFile(tempPath, contents, "utf8");
+    await fs.rename(tempPath, filePath);
+  } catch (error) {
+    await fs.unlink(tempPath).catch(() => {});
+    throw error;
+  }
+}
+
+/**
+ * Parses a stored document. Unparseable contents throw rather than read as
+ * missing, so a damaged document is never replaced by an empty one.
+ */
+export function parseStoredJson(raw, source) {
+  try {
+    return JSON.parse(raw);
+  } catch (error) {
+    throw new Error(`${source} is not valid JSON; fix or restore it before writing`, {
+      cause: error,
+    });
+  }
+}
+
+/**
+ * Reads a JSON file; undefined only when the file does not exist.
+ */
+export async function readJsonFile(filePath) {
+  let raw;
+  try {
+    raw = await fs.readFile(filePath, "utf8");
+  } catch (error) {
+    if (error.code === "ENOENT") return undefined;
+    throw error;
+  }
+  return parseStoredJson(raw, filePath);
+}
+
+/**
+ * Appends `records` to a JSONL file, one per line. Callers should hold the
+ * file's lock. A line torn by a crash is closed off first so it can't merge
+ * with the new records.
+ */
+export async function appendJsonLines(filePath, records) {
+  if (records.length === 0) return;
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  let prefix = "";
+  const handle = await fs.open(filePath, "a+");
+  try {
+    const { size } = await handle.stat();
+    if (size > 0) {
+      const last = Buffer.alloc(1);
+      await handle.read(last, 0, 1, size - 1);
+      if (last.toString("utf8") !== "\n") prefix = "\n";
+    }
+    const lines = records.map((record) => JSON.stringify(record)).join("\n");
+    await handle.appendFile(`${prefix}${lines}\n`, "utf8");
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Calls `visit` with each record of a JSONL file, oldest first, streaming
+ * the file. A missing file has no records; unparseable lines (a torn final
+ * write) are skipped and reported.
+ */
+export async function scanJsonLines(filePath, visit) {
+  let handle;
+  try {
+    handle = await fs.open(filePath, "r");
+  } catch (error) {
+    if (error.code === "ENOENT") return;
+    throw error;
+  }
+  try {
+    let lineNumber = 0;
+    for await (const line of handle.readLines({ encoding: "utf8" })) {
+      lineNumber++;
+      if (!line.trim()) continue;
+      let record;
+      try {
+        record = JSON.parse(line);
+      } catch {
+        console.error(`${filePath}:${lineNumber} is not valid JSON; skipped`);
+        continue;
+      }
+      visit(record);
+    }
+  } finally {
+    await handle.close().catch(() => {});
+  }
+}
@@ -0,0 +1,124 @@
+// lib/storage/sqliteBackend.ts
+// Stores each dataset as a JSON document row in an embedded SQLite file,
+// using Node's built-in `node:sqlite` module (Node 22.5+). Log records are
+// rows of their own in log_records.
+
+import path from "path";
+import { createRequire } from "module";
+import type { StorageDocumentId } from "@/lib/types";
+import type { StorageBackend } from "./backend";
+import { withFileLock } from "./fileLock";
+import { LOG_SCAN_BATCH_SIZE, SQLITE_SCHEMA, parseStoredJson } from "./shared.mjs";
+
+// Minimal surface of node:sqlite used here (not yet in @types/node 20)
+type SqliteStatement = {
+  get(...params: unknown[]): unknown;
+  all(...params: unknown[]): unknown[];
+  run(...params: unknown[]): unknown;
+};
+
+type SqliteDatabase = {
+  exec(sql: string): void;
+  prepare(sql: string): SqliteStatement;
+};
+
+type SqliteModule = {
+  DatabaseSync: new (location: string) => SqliteDatabase;
+};
+
+const openDatabases = new Map<string, SqliteDatabase>();
+
+function loadSqlite(): SqliteModule {
+  // createRequire keeps bundlers from trying to resolve the builtin
+  const nodeRequire = createRequire(path.join(process.cwd(), "package.json"));
+  try {
+    return nodeRequire("node:sqlite") as SqliteModule;
+  } catch {
+    throw new Error(
+      `The sqlite storage backend needs Node 22.5+ (running ${process.version})`
+    );
+  }
+}
+
+function openDatabase(dbPath: string): SqliteDatabase {
+  const existing = openDatabases.get(dbPath);
+  if (existing) return existing;
+
+  const { DatabaseSync } = loadSqlite();
+  const db = new DatabaseSync(dbPath);
+  db.exec(SQLITE_SCHEMA);
+  openDatabases.set(dbPath, db);
+  return db;
+}
+
+export function createSqliteBackend(dbPath: string): StorageBackend {
+  const db = () => openDatabase(dbPath);
+
+  return {
+    id: "sqlite",
+
+    async read(documentId) {
+      const row = db()
+        .prepare("SELECT value FROM documents WHERE id = ?")
+        .get(documentId) as { value: string } | undefined;
+      if (!row) return undefined;
+      return parseStoredJson(row.value, `${dbPath} document "${documentId}"`);
+    },
+
+    async write(documentId, value) {
+      // A single upsert is atomic in SQLite
+      db()
+        .prepare(
+          `INSERT INTO documents (id, value, updated_at) VALUES (?, ?, ?)
+           ON CONFLICT(id) DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at`
+        )
+        .run(documentId, JSON.stringify(value), new Date().toISOString());
+    },
+
+    async version(documentId) {
+      const row = db()
+        .prepare("SELECT updated_at, length(value) AS size FROM documents WHERE id = ?")
+        .get(documentId) as { updated_at: string; size: number } | undefined;
+      return row ? `${row.updated_at}-${row.size}` : null;
+    },
+
+    withLock(documentId: StorageDocumentId, fn) {
+      // Lock per document, next to the database file
+      return withFileLock(`${dbPath}.${documentId}`, fn);
+    },
+
+    async append(logId, records) {
+      if (records.length === 0) return;
+      const database = db();
+      const insert = database.prepare("INSERT INTO log_records (log_id, value) VALUES (?, ?)");
+      database.exec("BEGIN IMMEDIATE");
+      try {
+        for (const record of records) {
+          insert.run(logId, JSON.stringify(record));
+        }
+        database.exec("COMMIT");
+      } catch (error) {
+        database.exec("ROLLBACK");
+        throw error;
+      }
+    },
+
+    async scan(logId, visit) {
+      const select = db().prepare(
+        "SELECT seq, value FROM log_records WHERE log_id = ? AND seq > ? ORDER BY seq LIMIT ?"
+      );
+      let after = 0;
+      for (;;) {
+        const rows = select.all(logId, after, LOG_SCAN_BATCH_SIZE) as {
+          seq: number;
+          value: string;
+        }[];
+        for (const row of rows) {
+          visit(parseStoredJson(row.value, `${dbPath} log "${logId}" record ${row.seq}`));
+        }
+        if (rows.length < LOG_SCAN_BATCH_SIZE) return;
+        after = rows[rows.length - 1].seq;
+      }
+    },
+  };
+}
@@ -0,0 +1,109 @@
+// lib/strainComparison.ts
+// Side-by-side comparison of two or three strain+dose selections: radar
+// values, per-axis deltas against the first pick, and snapshot fields.
+
+import type {
+  ComparisonSelection,
+  ComparisonSnapshot,
+  StrainComparisonEntry,
+  StrainComparisonResult,
+  StrainDoseResult,
+  TraitAxisId,
+} from "@/lib/types";
+import { lookupStrainDoseData, type StrainIndex } from "@/lib/strainIndex";
+
+export const MIN_COMPARISON_SELECTIONS = 2;
+export const MAX_COMPARISON_SELECTIONS = 3;
+
+const LEVEL_LABELS = {
+  gentle: "Gentle",
+  balanced: "Balanced",
+  intense: "Intense",
+} as const;
+
+function formatRange(min: number, max: number, unit: string): string {
+  return min === max ? `${min} ${unit}` : `${min}–${max} ${unit}`;
+}
+
+function buildComparisonSnapshot(result: StrainDoseResult): ComparisonSnapshot {
+  const snapshot = result.snapshot;
+  const meta = result.experienceMeta;
+  const timeline = meta?.timeline;
+
+  // Written snapshot text wins; otherwise derive from the experience timeline
+  const derivedDuration = timeline
+    ? formatRange(
+        Math.round((timeline.peakMinHours + timeline.tailMinHours) * 10) / 10,
+        Math.round((timeline.peakMaxHours + timeline.tailMaxHours) * 10) / 10,
+        "hr"
+      )
+    : "";
+
+  return {
+    onset:
+      snapshot?.onset?.trim() ||
+      (timeline ? formatRange(timeline.onsetMinMinutes, timeline.onsetMaxMinutes, "min") : ""),
+    duration: snapshot?.duration?.trim() || derivedDuration,
+    intensity:
+      snapshot?.intensity?.trim() ||
+      (meta?.experienceLevel ? LEVEL_LABELS[meta.experienceLevel] : ""),
+    bestFor: snapshot?.bestFor?.filter(Boolean).length
+      ? snapshot.bestFor.filter(Boolean)
+      : meta?.bestForTags ?? [],
+  };
+}
+
+/**
+ * Compares strain+dose selections. Returns null when any selection does not
+ * resolve to a known strain and dose.
+ */
+export function compareStrainDoses(
+  index: StrainIndex,
+  selections: ComparisonSelection[]
+): StrainComparisonResult | null {
+  const results = selections.map((selection) =>
+    lookupStrainDoseData(index, selection.strainId, selection.doseKey)
+  );
+  if (results.some((result) => !result)) return null;
+
+  const entries: StrainComparisonEntry[] = (results as StrainDoseResult[]).map(
+    (result) => ({
+      strain: result.strain,
+      doseKey: result.doseKey,
+      doseLabel: result.doseInfo.label,
+      grams: result.doseInfo.grams,
+      accentHex: result.accentHex,
+      traits: result.doseData.traits,
+      effectWord: result.experienceMeta?.effectWord ?? null,
+      snapshot: buildComparisonSnapshot(result),
+    })
+  );
+
+  const axes = index.dataset.axes;
+  const baseline = entries[0]?.traits.values;
+  const deltas = axes.reduce<Record<TraitAxisId, number[]>>(
+    (acc, axis) => {
+      acc[axis] = entries.map(
+        (entry) => (entry.traits.values[axis] ?? 0) - (baseline?.[axis] ?? 0)
+      );
+      return acc;
+    },
+    {} as Record<TraitAxisId, number[]>
+  );
+
+  return { axes, axisDefinitions: index.axisDefinitions, entries, deltas };
+}
+
+/**
+ * Parses "strain-id:doseKey" pairs, e.g. from ?items=golden-teacher:macro,...
+ */
+export function parseComparisonSelections(raw: string): ComparisonSelection[] {
+  return raw
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean)
+    .map((item) => {
+      const [strainId = "", doseKey = ""] = item.split(":");
+      return { strainId, doseKey } as ComparisonSelection;
+    });
+}
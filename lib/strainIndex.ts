@@ -0,0 +1,135 @@
+// lib/strainIndex.ts
+// Pure lookups over a strain dataset (no file or storage access), shared by
+// the server data layer (data/strainData.ts) and client-side demos.
+
+import type {
+  DoseConfig,
+  DoseContent,
+  DoseKey,
+  DoseSnapshot,
+  StrainDataset,
+  StrainDoseResult,
+  StrainRegistryEntry,
+  TraitAxisDefinition,
+  TraitAxisId,
+} from "@/lib/types";
+import { slugifyStrainName } from "@/lib/utils";
+import { resolveTraitAxes } from "@/lib/traitAxes";
+import { testimonialQuote } from "@/lib/testimonials";
+
+const DEFAULT_COLOR = "#4a371f";
+
+export type StrainIndex = {
+  dataset: StrainDataset;
+  registry: StrainRegistryEntry[];
+  bySlug: Record<string, StrainRegistryEntry>;
+  axisDefinitions: TraitAxisDefinition[];
+};
+
+export function buildStrainIndex(dataset: StrainDataset): StrainIndex {
+  // Registry is derived from the slug/color/sortOrder/isVisible fields on each
+  // strain entry; entries without a slug fall back to a slug of their name.
+  const registry: StrainRegistryEntry[] = Object.entries(dataset.strains)
+    .map(([name, entry], index) => ({
+      id: entry.slug?.trim() || slugifyStrainName(name),
+      name,
+      colorHex: entry.colorHex?.trim() || DEFAULT_COLOR,
+      sortOrder: entry.sortOrder ?? index,
+      isVisible: entry.isVisible ?? true,
+    }))
+    .sort((a, b) => a.sortOrder - b.sortOrder || a.name.localeCompare(b.name));
+
+  const bySlug = registry.reduce<Record<string, StrainRegistryEntry>>(
+    (acc, info) => {
+      acc[info.id] = info;
+      return acc;
+    },
+    {}
+  );
+
+  return {
+    dataset,
+    registry,
+    bySlug,
+    axisDefinitions: resolveTraitAxes(dataset.axes, dataset.axisMeta),
+  };
+}
+
+// The admin editor saves blank snapshots for doses nobody has filled in yet
+function hasSnapshotContent(snapshot: DoseSnapshot): boolean {
+  return (
+    [snapshot.onset, snapshot.duration, snapshot.intensity].some((v) => v?.trim()) ||
+    [...(snapshot.bestFor ?? []), ...(snapshot.setting ?? [])].some((v) => v?.trim())
+  );
+}
+
+export function lookupStrainDoseData(
+  index: StrainIndex,
+  strainId: string,
+  doseKey: DoseKey
+): StrainDoseResult | null {
+  const { dataset } = index;
+  const strainInfo = index.bySlug[strainId];
+  if (!strainInfo) return null;
+
+  const strainEntry = dataset.strains[strainInfo.name];
+  if (!strainEntry) return null;
+
+  const doseIndex = dataset.doses.indexOf(doseKey);
+  if (doseIndex === -1) return null;
+
+  const traitsValues = dataset.axes.reduce<Record<TraitAxisId, number>>(
+    (acc, axis) => {
+      const axisSeries = strainEntry.radar[axis];
+      acc[axis] = axisSeries?.[doseIndex] ?? 0;
+      return acc;
+    },
+    {} as Record<TraitAxisId, number>
+  );
+
+  const content: DoseContent = {
+    blurb: strainEntry.blurb[doseKey] ?? "",
+    details: strainEntry.details[doseKey] ?? "",
+    products: strainEntry.products[doseKey] ?? [],
+  };
+
+  const meta = strainEntry.meta ?? null;
+  const doseSnapshot = strainEntry.snapshots?.[doseKey];
+  const snapshot =
+    doseSnapshot && hasSnapshotContent(doseSnapshot) ? doseSnapshot : null;
+  // Published customer quotes are flattened to their text
+  const testimonialsForDose =
+    strainEntry.testimonials?.[doseKey]?.map(testimonialQuote).filter(Boolean) ?? [];
+  const experienceMeta = strainEntry.experienceMeta?.[doseKey] ?? null;
+
+  const baseColor = strainInfo.colorHex;
+  const accentHex =
+    strainEntry.visual?.[doseKey]?.colorHex?.trim() || baseColor;
+  const doseInfo =
+    dataset.doseConfig?.[doseKey] ??
+    ({
+      label: doseKey,
+      grams: 0,
+    } as DoseConfig);
+
+  return {
+    strain: {
+      id: strainId,
+      name: strainInfo.name,
+      colorHex: baseColor,
+    },
+    doseKey,
+    doseData: {
+      traits: { values: traitsValues },
+      content,
+    },
+    axes: dataset.axes,
+    axisDefinitions: index.axisDefinitions,
+    accentHex,
+    doseInfo,
+    meta,
+    snapshot,
+    testimonialsForDose,
+    experienceMeta,
+  };
+}
@@ -0,0 +1,139 @@
+// lib/strainRecommendation.ts
+// "Find my strain": ranks every visible strain+dose combination against a
+// desired experience profile (target axis levels and/or bestFor intentions).
+//
+// Scoring:
+// - axisScore = 100 - mean |actual - target| over the axes the customer set
+// - tagScore  = share of requested intentions found in the dose's bestFor tags
+// - score     = weighted blend when both are given, otherwise whichever is set
+
+import type {
+  RecommendationAxisDistance,
+  RecommendationRequest,
+  StrainDoseResult,
+  StrainRecommendation,
+  TraitAxisId,
+} from "@/lib/types";
+import { lookupStrainDoseData, type StrainIndex } from "@/lib/strainIndex";
+
+export const DEFAULT_RECOMMENDATION_LIMIT = 5;
+export const MAX_RECOMMENDATION_LIMIT = 20;
+
+const AXIS_WEIGHT = 0.7;
+const TAG_WEIGHT = 0.3;
+
+function normalizeTag(tag: string): string {
+  return tag.trim().toLowerCase();
+}
+
+// Snapshot bestFor text first, then the experienceMeta tags
+function bestForTagsOf(result: StrainDoseResult): string[] {
+  const tags = [
+    ...(result.snapshot?.bestFor ?? []),
+    ...(result.experienceMeta?.bestForTags ?? []),
+  ];
+  const seen = new Set<string>();
+  return tags.filter((tag) => {
+    const key = normalizeTag(tag ?? "");
+    if (!key || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Every bestFor tag used by visible strains, for the intention picker.
+ */
+export function collectIntentionTags(index: StrainIndex): string[] {
+  const byKey = new Map<string, string>();
+  for (const info of index.registry) {
+    if (!info.isVisible) continue;
+    for (const doseKey of index.dataset.doses) {
+      const result = lookupStrainDoseData(index, info.id, doseKey);
+      if (!result) continue;
+      for (const tag of bestForTagsOf(result)) {
+        const key = normalizeTag(tag);
+        if (!byKey.has(key)) byKey.set(key, tag.trim());
+      }
+    }
+  }
+  return [...byKey.values()].sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * Returns the best-matching strain+dose combinations, highest score first.
+ */
+export function rankStrainDoses(
+  index: StrainIndex,
+  request: RecommendationRequest
+): StrainRecommendation[] {
+  const targetAxes = index.dataset.axes.filter(
+    (axis) => typeof request.targets[axis] === "number"
+  );
+  const intentions = request.intentions.map(normalizeTag).filter(Boolean);
+  const limit = Math.min(
+    MAX_RECOMMENDATION_LIMIT,
+    Math.max(1, request.limit ?? DEFAULT_RECOMMENDATION_LIMIT)
+  );
+
+  const ranked: StrainRecommendation[] = [];
+
+  for (const info of index.registry) {
+    if (!info.isVisible) continue;
+    for (const doseKey of index.dataset.doses) {
+      const result = lookupStrainDoseData(index, info.id, doseKey);
+      if (!result) continue;
+
+      const axisDistances: RecommendationAxisDistance[] = targetAxes.map(
+        (axis: TraitAxisId) => {
+          const target = request.targets[axis] as number;
+          const actual = result.doseData.traits.values[axis] ?? 0;
+          return { axis, target, actual, distance: actual - target };
+        }
+      );
+      const axisScore = axisDistances.length
+        ? 100 -
+          axisDistances.reduce((sum, d) => sum + Math.abs(d.distance), 0) /
+            axisDistances.length
+        : null;
+
+      const tags = bestForTagsOf(result);
+      const matchedTags = tags.filter((tag) =>
+        intentions.includes(normalizeTag(tag))
+      );
+      const tagScore = intentions.length
+        ? (new Set(matchedTags.map(normalizeTag)).size / intentions.length) * 100
+        : null;
+
+      const score =
+        axisScore !== null && tagScore !== null
+          ? axisScore * AXIS_WEIGHT + tagScore * TAG_WEIGHT
+          : axisScore ?? tagScore ?? 0;
+
+      ranked.push({
+        strain: result.strain,
+        doseKey,
+        doseLabel: result.doseInfo.label,
+        grams: result.doseInfo.grams,
+        accentHex: result.accentHex,
+        score: Math.round(score),
+        axisScore: axisScore === null ? null : Math.round(axisScore),
+        tagScore: tagScore === null ? null : Math.round(tagScore),
+        // Biggest mismatches first, so the explanation leads with them
+        axisDistances: axisDistances.sort(
+          (a, b) => Math.abs(b.distance) - Math.abs(a.distance)
+        ),
+        matchedTags,
+      });
+    }
+  }
+
+  return ranked
+    .sort(
+      (a, b) =>
+        b.score - a.score ||
+        (b.axisScore ?? 0) - (a.axisScore ?? 0) ||
+        a.strain.name.localeCompare(b.strain.name)
+    )
+    .slice(0, limit);
+}
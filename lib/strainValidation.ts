@@ -0,0 +1,497 @@
+// lib/strainValidation.ts
+// Schema validation for strains.json (EditorDataset / StrainJsonEntry).
+// Pure functions so both the admin API and the admin editor can use them.
+
+import type { DatasetValidationIssue } from "./types";
+import { formatKeyPath as keyPath } from "./utils";
+
+const EXPERIENCE_LEVELS = ["gentle", "balanced", "intense"];
+const TIMELINE_RANGES = [
+  ["onsetMinMinutes", "onsetMaxMinutes"],
+  ["peakMinHours", "peakMaxHours"],
+  ["tailMinHours", "tailMaxHours"],
+] as const;
+const SNAPSHOT_TEXT_FIELDS = ["onset", "duration", "intensity"] as const;
+const SNAPSHOT_LIST_FIELDS = ["bestFor", "setting"] as const;
+const MAX_TRIP_PROFILE_BULLETS = 3;
+const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+const HEX_PATTERN = /^#[0-9a-fA-F]{6}$/;
+// Axis ids double as JSON keys in feedback, keep them snake_case
+const AXIS_ID_PATTERN = /^[a-z][a-z0-9_]*$/;
+// Dose keys end up in URLs (/api/strains/:id/dose/:doseKey)
+const DOSE_KEY_PATTERN = /^[a-z][a-z0-9-]*$/;
+const DOSE_STYLE_ALPHA_FIELDS = ["fillAlpha", "borderAlpha"] as const;
+
+type Issues = DatasetValidationIssue[];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === "string");
+}
+
+/**
+ * Path prefix for issues inside one strain entry.
+ * Strain names are display names, so they always use bracket access.
+ */
+export function strainIssuePath(name: string): string {
+  return `strains[${JSON.stringify(name)}]`;
+}
+
+/**
+ * Checks that a per-dose record has an entry for every dose key and
+ * no entries for unknown keys, then validates each value.
+ */
+function checkDoseRecord(
+  value: unknown,
+  path: string,
+  doses: string[],
+  issues: Issues,
+  checkValue: (entry: unknown, entryPath: string) => void
+) {
+  if (!isRecord(value)) {
+    issues.push({ path, message: "Expected an object keyed by dose" });
+    return;
+  }
+  for (const dose of doses) {
+    const entryPath = keyPath(path, dose);
+    if (!(dose in value)) {
+      issues.push({ path: entryPath, message: `Missing entry for dose "${dose}"` });
+      continue;
+    }
+    checkValue(value[dose], entryPath);
+  }
+  for (const key of Object.keys(value)) {
+    if (!doses.includes(key)) {
+      issues.push({ path: keyPath(path, key), message: `Unknown dose "${key}"` });
+    }
+  }
+}
+
+function checkString(value: unknown, path: string, issues: Issues) {
+  if (typeof value !== "string") {
+    issues.push({ path, message: "Expected a string" });
+  }
+}
+
+function checkStringArray(value: unknown, path: string, issues: Issues) {
+  if (!isStringArray(value)) {
+    issues.push({ path, message: "Expected an array of strings" });
+  }
+}
+
+function checkRadar(
+  radar: unknown,
+  path: string,
+  axes: string[],
+  doses: string[],
+  issues: Issues
+) {
+  if (!isRecord(radar)) {
+    issues.push({ path, message: "Expected an object keyed by axis" });
+    return;
+  }
+  for (const axis of axes) {
+    const seriesPath = keyPath(path, axis);
+    const series = radar[axis];
+    if (!Array.isArray(series)) {
+      issues.push({ path: seriesPath, message: `Missing radar series for axis "${axis}"` });
+      continue;
+    }
+    if (series.length !== doses.length) {
+      issues.push({
+        path: seriesPath,
+        message: `Expected ${doses.length} values (one per dose), found ${series.length}`,
+      });
+    }
+    series.forEach((value, idx) => {
+      if (typeof value !== "number" || !Number.isFinite(value)) {
+        issues.push({ path: `${seriesPath}[${idx}]`, message: "Expected a number" });
+      } else if (value < 0 || value > 100) {
+        issues.push({
+          path: `${seriesPath}[${idx}]`,
+          message: `Value ${value} is outside 0–100`,
+        });
+      }
+    });
+  }
+  for (const key of Object.keys(radar)) {
+    if (!axes.includes(key)) {
+      issues.push({ path: keyPath(path, key), message: `Unknown axis "${key}"` });
+    }
+  }
+}
+
+function checkAxisMeta(
+  value: unknown,
+  path: string,
+  axes: string[],
+  issues: Issues
+) {
+  if (value === undefined) return;
+  if (!isRecord(value)) {
+    issues.push({ path, message: "Expected an object keyed by axis" });
+    return;
+  }
+  for (const [axis, meta] of Object.entries(value)) {
+    const metaPath = keyPath(path, axis);
+    if (!axes.includes(axis)) {
+      issues.push({ path: metaPath, message: `Unknown axis "${axis}"` });
+      continue;
+    }
+    if (!isRecord(meta)) {
+      issues.push({ path: metaPath, message: "Expected { label, shortLabel?, color? }" });
+      continue;
+    }
+    if (typeof meta.label !== "string" || !meta.label.trim()) {
+      issues.push({ path: `${metaPath}.label`, message: "Label is required" });
+    }
+    if (meta.shortLabel !== undefined && typeof meta.shortLabel !== "string") {
+      issues.push({ path: `${metaPath}.shortLabel`, message: "Expected a string" });
+    }
+    if (
+      meta.color !== undefined &&
+      (typeof meta.color !== "string" || !HEX_PATTERN.test(meta.color))
+    ) {
+      issues.push({ path: `${metaPath}.color`, message: "Expected a #rrggbb color" });
+    }
+  }
+}
+
+function checkDoseTierStyle(value: unknown, path: string, issues: Issues) {
+  if (value === undefined) return;
+  if (!isRecord(value)) {
+    issues.push({ path, message: "Expected { fillAlpha?, borderWidth?, borderAlpha?, hasGlow? }" });
+    return;
+  }
+  for (const field of DOSE_STYLE_ALPHA_FIELDS) {
+    const alpha = value[field];
+    if (alpha !== undefined && (typeof alpha !== "number" || alpha < 0 || alpha > 1)) {
+      issues.push({ path: `${path}.${field}`, message: "Expected a number between 0 and 1" });
+    }
+  }
+  if (
+    value.borderWidth !== undefined &&
+    (typeof value.borderWidth !== "number" || !Number.isFinite(value.borderWidth) || value.borderWidth < 0)
+  ) {
+    issues.push({ path: `${path}.borderWidth`, message: "Expected a non-negative number" });
+  }
+  if (value.hasGlow !== undefined && typeof value.hasGlow !== "boolean") {
+    issues.push({ path: `${path}.hasGlow`, message: "Expected true or false" });
+  }
+}
+
+function checkSnapshot(value: unknown, path: string, issues: Issues) {
+  if (!isRecord(value)) {
+    issues.push({ path, message: "Expected a snapshot object" });
+    return;
+  }
+  for (const field of SNAPSHOT_TEXT_FIELDS) {
+    checkString(value[field], `${path}.${field}`, issues);
+  }
+  for (const field of SNAPSHOT_LIST_FIELDS) {
+    checkStringArray(value[field], `${path}.${field}`, issues);
+  }
+}
+
+// Plain quotes, or customer quotes published from feedback
+function checkTestimonials(value: unknown, path: string, issues: Issues) {
+  if (!Array.isArray(value)) {
+    issues.push({ path, message: "Expected an array of testimonials" });
+    return;
+  }
+  value.forEach((item, index) => {
+    const itemPath = `${path}[${index}]`;
+    if (typeof item === "string") return;
+    if (!isRecord(item)) {
+      issues.push({ path: itemPath, message: "Expected a quote or a published testimonial" });
+      return;
+    }
+    for (const field of ["quote", "feedbackId", "publishedAt"]) {
+      if (typeof item[field] !== "string" || !(item[field] as string).trim()) {
+        issues.push({ path: `${itemPath}.${field}`, message: "Expected a non-empty string" });
+      }
+    }
+  });
+}
+
+function checkExperienceMeta(value: unknown, path: string, issues: Issues) {
+  if (!isRecord(value)) {
+    issues.push({ path, message: "Expected an experience meta object" });
+    return;
+  }
+  checkString(value.effectWord, `${path}.effectWord`, issues);
+  checkString(value.effectTagline, `${path}.effectTagline`, issues);
+  checkStringArray(value.tripProfileBullets, `${path}.tripProfileBullets`, issues);
+  if (
+    isStringArray(value.tripProfileBullets) &&
+    value.tripProfileBullets.length > MAX_TRIP_PROFILE_BULLETS
+  ) {
+    issues.push({
+      path: `${path}.tripProfileBullets`,
+      message: `At most ${MAX_TRIP_PROFILE_BULLETS} bullets allowed`,
+    });
+  }
+  checkStringArray(value.bestForTags, `${path}.bestForTags`, issues);
+  if (
+    typeof value.experienceLevel !== "string" ||
+    !EXPERIENCE_LEVELS.includes(value.experienceLevel)
+  ) {
+    issues.push({
+      path: `${path}.experienceLevel`,
+      message: `Expected one of ${EXPERIENCE_LEVELS.join(", ")}`,
+    });
+  }
+  if (value.safetyTips !== undefined) {
+    checkStringArray(value.safetyTips, `${path}.safetyTips`, issues);
+  }
+
+  const timelinePath = `${path}.timeline`;
+  const timeline = value.timeline;
+  if (!isRecord(timeline)) {
+    issues.push({ path: timelinePath, message: "Expected a timeline object" });
+    return;
+  }
+  for (const [minKey, maxKey] of TIMELINE_RANGES) {
+    const min = timeline[minKey];
+    const max = timeline[maxKey];
+    let rangeValid = true;
+    for (const [key, bound] of [[minKey, min], [maxKey, max]] as const) {
+      if (typeof bound !== "number" || !Number.isFinite(bound) || bound < 0) {
+        issues.push({
+          path: `${timelinePath}.${key}`,
+          message: "Expected a non-negative number",
+        });
+        rangeValid = false;
+      }
+    }
+    if (rangeValid && (min as number) > (max as number)) {
+      issues.push({
+        path: `${timelinePath}.${minKey}`,
+        message: `Must not be greater than ${maxKey}`,
+      });
+    }
+  }
+}
+
+function checkStrainEntry(
+  entry: unknown,
+  path: string,
+  axes: string[],
+  doses: string[],
+  issues: Issues
+) {
+  if (!isRecord(entry)) {
+    issues.push({ path, message: "Expected a strain object" });
+    return;
+  }
+
+  // Registry fields
+  if (entry.slug !== undefined) {
+    if (typeof entry.slug !== "string" || !SLUG_PATTERN.test(entry.slug)) {
+      issues.push({
+        path: `${path}.slug`,
+        message: "Slug must be lowercase letters, numbers and dashes",
+      });
+    }
+  }
+  if (entry.colorHex !== undefined) {
+    if (typeof entry.colorHex !== "string" || !HEX_PATTERN.test(entry.colorHex)) {
+      issues.push({ path: `${path}.colorHex`, message: "Expected a #rrggbb color" });
+    }
+  }
+  if (entry.sortOrder !== undefined && typeof entry.sortOrder !== "number") {
+    issues.push({ path: `${path}.sortOrder`, message: "Expected a number" });
+  }
+  if (entry.isVisible !== undefined && typeof entry.isVisible !== "boolean") {
+    issues.push({ path: `${path}.isVisible`, message: "Expected true or false" });
+  }
+
+  checkRadar(entry.radar, `${path}.radar`, axes, doses, issues);
+  checkDoseRecord(entry.blurb, `${path}.blurb`, doses, issues, (value, p) =>
+    checkString(value, p, issues)
+  );
+  checkDoseRecord(entry.details, `${path}.details`, doses, issues, (value, p) =>
+    checkString(value, p, issues)
+  );
+  checkDoseRecord(entry.products, `${path}.products`, doses, issues, (value, p) =>
+    checkStringArray(value, p, issues)
+  );
+  checkDoseRecord(entry.snapshots, `${path}.snapshots`, doses, issues, (value, p) =>
+    checkSnapshot(value, p, issues)
+  );
+  checkDoseRecord(entry.testimonials, `${path}.testimonials`, doses, issues, (value, p) =>
+    checkTestimonials(value, p, issues)
+  );
+
+  if (entry.visual !== undefined) {
+    if (!isRecord(entry.visual)) {
+      issues.push({ path: `${path}.visual`, message: "Expected an object keyed by dose" });
+    } else {
+      for (const [dose, config] of Object.entries(entry.visual)) {
+        const visualPath = keyPath(`${path}.visual`, dose);
+        if (!doses.includes(dose)) {
+          issues.push({ path: visualPath, message: `Unknown dose "${dose}"` });
+        } else if (
+          !isRecord(config) ||
+          typeof config.colorHex !== "string" ||
+          !HEX_PATTERN.test(config.colorHex.trim())
+        ) {
+          issues.push({
+            path: `${visualPath}.colorHex`,
+            message: "Expected a #rrggbb color",
+          });
+        }
+      }
+    }
+  }
+
+  if (entry.meta !== undefined) {
+    if (!isRecord(entry.meta)) {
+      issues.push({ path: `${path}.meta`, message: "Expected a meta object" });
+    } else {
+      checkString(entry.meta.origin, `${path}.meta.origin`, issues);
+      checkString(entry.meta.history, `${path}.meta.history`, issues);
+      checkStringArray(entry.meta.tags, `${path}.meta.tags`, issues);
+    }
+  }
+
+  // experienceMeta is optional per dose, but every entry present must be complete
+  if (entry.experienceMeta !== undefined) {
+    if (!isRecord(entry.experienceMeta)) {
+      issues.push({
+        path: `${path}.experienceMeta`,
+        message: "Expected an object keyed by dose",
+      });
+    } else {
+      for (const [dose, meta] of Object.entries(entry.experienceMeta)) {
+        const metaPath = keyPath(`${path}.experienceMeta`, dose);
+        if (!doses.includes(dose)) {
+          issues.push({ path: metaPath, message: `Unknown dose "${dose}"` });
+          continue;
+        }
+        checkExperienceMeta(meta, metaPath, issues);
+      }
+    }
+  }
+}
+
+/**
+ * Validates a full strains.json dataset.
+ * Returns an empty array when the dataset is valid; otherwise one issue per
+ * problem, each with a path such as `strains["Enigma"].radar.visuals[3]`.
+ */
+export function validateEditorDataset(obj: unknown): DatasetValidationIssue[] {
+  const issues: Issues = [];
+
+  if (!isRecord(obj)) {
+    return [{ path: "", message: "Expected a dataset object" }];
+  }
+
+  if (!isStringArray(obj.doses) || obj.doses.length === 0) {
+    issues.push({ path: "doses", message: "Expected a non-empty array of dose keys" });
+  }
+  if (!isStringArray(obj.axes) || obj.axes.length === 0) {
+    issues.push({ path: "axes", message: "Expected a non-empty array of axis ids" });
+  }
+  if (!isRecord(obj.strains)) {
+    issues.push({ path: "strains", message: "Expected an object keyed by strain name" });
+  }
+  // Everything below depends on the dose/axis lists
+  if (issues.length > 0) return issues;
+
+  const doses = obj.doses as string[];
+  const axes = obj.axes as string[];
+
+  doses.forEach((dose, idx) => {
+    if (!DOSE_KEY_PATTERN.test(dose)) {
+      issues.push({
+        path: `doses[${idx}]`,
+        message: `Dose key "${dose}" must be lowercase letters, digits and hyphens`,
+      });
+    }
+    if (doses.indexOf(dose) !== idx) {
+      issues.push({ path: `doses[${idx}]`, message: `Duplicate dose "${dose}"` });
+    }
+  });
+  axes.forEach((axis, idx) => {
+    if (!AXIS_ID_PATTERN.test(axis)) {
+      issues.push({
+        path: `axes[${idx}]`,
+        message: `Axis id "${axis}" must be lowercase letters, digits and underscores`,
+      });
+    }
+    if (axes.indexOf(axis) !== idx) {
+      issues.push({ path: `axes[${idx}]`, message: `Duplicate axis "${axis}"` });
+    }
+  });
+  checkAxisMeta(obj.axisMeta, "axisMeta", axes, issues);
+
+  checkDoseRecord(obj.doseConfig, "doseConfig", doses, issues, (value, p) => {
+    if (!isRecord(value)) {
+      issues.push({ path: p, message: "Expected { label, grams }" });
+      return;
+    }
+    if (typeof value.label !== "string" || !value.label.trim()) {
+      issues.push({ path: `${p}.label`, message: "Label is required" });
+    }
+    if (typeof value.grams !== "number" || !Number.isFinite(value.grams) || value.grams < 0) {
+      issues.push({ path: `${p}.grams`, message: "Expected a non-negative number" });
+    }
+    checkDoseTierStyle(value.style, `${p}.style`, issues);
+    if (
+      value.modifier !== undefined &&
+      (typeof value.modifier !== "number" || !Number.isFinite(value.modifier) || value.modifier <= 0)
+    ) {
+      issues.push({ path: `${p}.modifier`, message: "Expected a positive number" });
+    }
+  });
+
+  // The slider and gram interpolation walk tiers in order, so grams must rise
+  if (isRecord(obj.doseConfig)) {
+    const doseConfig = obj.doseConfig;
+    doses.forEach((dose, idx) => {
+      if (idx === 0) return;
+      const prev = doseConfig[doses[idx - 1]];
+      const current = doseConfig[dose];
+      if (
+        isRecord(prev) &&
+        isRecord(current) &&
+        typeof prev.grams === "number" &&
+        typeof current.grams === "number" &&
+        current.grams <= prev.grams
+      ) {
+        issues.push({
+          path: `${keyPath("doseConfig", dose)}.grams`,
+          message: `Expected more grams than "${doses[idx - 1]}"`,
+        });
+      }
+    });
+  }
+
+  const seenSlugs = new Map<string, string>();
+  for (const [name, entry] of Object.entries(obj.strains as Record<string, unknown>)) {
+    const strainPath = strainIssuePath(name);
+    if (!name.trim()) {
+      issues.push({ path: strainPath, message: "Strain name must not be empty" });
+    }
+    checkStrainEntry(entry, strainPath, axes, doses, issues);
+
+    const slug = isRecord(entry) && typeof entry.slug === "string" ? entry.slug : null;
+    if (slug) {
+      const owner = seenSlugs.get(slug);
+      if (owner) {
+        issues.push({
+          path: `${strainPath}.slug`,
+          message: `Slug "${slug}" is already used by "${owner}"`,
+        });
+      } else {
+        seenSlugs.set(slug, name);
+      }
+    }
+  }
+
+  return issues;
+}
@@ -0,0 +1,95 @@
+// lib/testimonials.ts
+// Testimonial moderation helpers shared by the admin moderation view and its
+// API: a feedback entry's moderation status and display text, and publishing
+// an approved quote into a strain's per-dose testimonials. Published quotes
+// keep the id of the feedback entry they came from, so they can be replaced
+// or withdrawn later; hand-written quotes stay plain strings.
+
+import type {
+  DoseKey,
+  FeedbackEntry,
+  PublishedTestimonial,
+  StrainTestimonial,
+  StrainTestimonials,
+  TestimonialStatus,
+} from "@/lib/types";
+import { FEEDBACK_LIMITS } from "@/lib/feedbackGuard";
+
+// Moderated edits get the same cap as submissions
+export const MAX_TESTIMONIAL_LENGTH = FEEDBACK_LIMITS.testimonial;
+
+export const TESTIMONIAL_STATUSES: TestimonialStatus[] = [
+  "pending",
+  "approved",
+  "rejected",
+];
+
+export function isTestimonialStatus(value: unknown): value is TestimonialStatus {
+  return TESTIMONIAL_STATUSES.includes(value as TestimonialStatus);
+}
+
+/**
+ * True when the entry has a non-blank testimonial to moderate.
+ */
+export function hasTestimonial(entry: FeedbackEntry): boolean {
+  return Boolean(entry.testimonial?.trim());
+}
+
+export function getTestimonialStatus(entry: FeedbackEntry): TestimonialStatus {
+  return entry.testimonialStatus ?? "pending";
+}
+
+/**
+ * The text that gets published: the moderator's edit, else the original.
+ */
+export function getTestimonialText(entry: FeedbackEntry): string {
+  return (entry.testimonialEdited ?? entry.testimonial ?? "").trim();
+}
+
+export function isPublishedTestimonial(
+  testimonial: StrainTestimonial
+): testimonial is PublishedTestimonial {
+  return typeof testimonial === "object" && testimonial !== null;
+}
+
+/**
+ * Quote text for display, whichever form the testimonial is stored in.
+ */
+export function testimonialQuote(testimonial: StrainTestimonial): string {
+  return isPublishedTestimonial(testimonial) ? testimonial.quote : testimonial;
+}
+
+/**
+ * Adds `published` to a dose's testimonials. A quote already published from
+ * the same feedback entry is replaced in place rather than duplicated.
+ */
+export function publishTestimonial(
+  testimonials: StrainTestimonials | undefined,
+  doseKey: DoseKey,
+  published: PublishedTestimonial
+): StrainTestimonials {
+  const list = testimonials?.[doseKey] ?? [];
+  const index = list.findIndex(
+    (t) => isPublishedTestimonial(t) && t.feedbackId === published.feedbackId
+  );
+  const next =
+    index === -1
+      ? [...list, published]
+      : list.map((t, i) => (i === index ? published : t));
+  return { ...testimonials, [doseKey]: next };
+}
+
+/**
+ * Removes every quote published from `feedbackId`, across all doses.
+ */
+export function withdrawTestimonial(
+  testimonials: StrainTestimonials | undefined,
+  feedbackId: string
+): StrainTestimonials {
+  return Object.fromEntries(
+    Object.entries(testimonials ?? {}).map(([dose, list]) => [
+      dose,
+      list.filter((t) => !(isPublishedTestimonial(t) && t.feedbackId === feedbackId)),
+    ])
+  );
+}
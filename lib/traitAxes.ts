@@ -0,0 +1,86 @@
+// lib/traitAxes.ts
+// Radar axes are defined by the dataset: `axes` gives the ids and their
+// order around the radar, `axisMeta` the labels and colors. This module
+// resolves them into TraitAxisDefinition objects for every radar, slider
+// and table. Client-safe: no fs, no storage imports.
+
+import type {
+  CoreTraitAxisId,
+  TraitAxisDefinition,
+  TraitAxisId,
+  TraitAxisMeta,
+} from "@/lib/types";
+import { formatAxisLabel } from "@/lib/utils";
+
+// Axis order for datasets that predate `axisMeta` and for the lab pages
+export const DEFAULT_TRAIT_AXES: CoreTraitAxisId[] = [
+  "visuals",
+  "euphoria",
+  "introspection",
+  "creativity",
+  "spiritual_depth",
+  "sociability",
+];
+
+// Fallback display metadata for the original six axes
+const CORE_AXIS_META: Record<CoreTraitAxisId, Required<TraitAxisMeta>> = {
+  visuals: { label: "Visuals", shortLabel: "Vis", color: "#EAD6C0" },
+  euphoria: { label: "Euphoria", shortLabel: "Euph", color: "#E7D4C4" },
+  introspection: { label: "Introspection", shortLabel: "Intro", color: "#E3D1C8" },
+  creativity: { label: "Creativity", shortLabel: "Creat", color: "#E0CEC9" },
+  spiritual_depth: { label: "Spiritual", shortLabel: "Spirit", color: "#DDCBC8" },
+  sociability: { label: "Social", shortLabel: "Soc", color: "#DAC8C6" },
+};
+
+// Tints handed out, in order, to axes without a color of their own
+const AXIS_COLOR_PALETTE = [
+  "#EAD6C0",
+  "#E7D4C4",
+  "#E3D1C8",
+  "#E0CEC9",
+  "#DDCBC8",
+  "#DAC8C6",
+];
+
+// Own keys only: custom ids like "constructor" aren't core axes
+function isCoreAxis(axis: TraitAxisId): axis is CoreTraitAxisId {
+  return Object.hasOwn(CORE_AXIS_META, axis);
+}
+
+/**
+ * Resolves the dataset's axes into full definitions. Missing metadata falls
+ * back to the built-in values for core axes, then to a label derived from
+ * the id ("body_load" → "Body Load") and a palette color.
+ */
+export function resolveTraitAxes(
+  axes: TraitAxisId[],
+  axisMeta?: Record<TraitAxisId, TraitAxisMeta>
+): TraitAxisDefinition[] {
+  return axes.map((id, index) => {
+    const core = isCoreAxis(id) ? CORE_AXIS_META[id] : null;
+    const meta = axisMeta?.[id];
+    const label = meta?.label?.trim() || core?.label || formatAxisLabel(id);
+    return {
+      id,
+      label,
+      shortLabel: meta?.shortLabel?.trim() || core?.shortLabel || label,
+      color:
+        meta?.color?.trim() ||
+        core?.color ||
+        AXIS_COLOR_PALETTE[index % AXIS_COLOR_PALETTE.length],
+    };
+  });
+}
+
+export const DEFAULT_TRAIT_AXIS_DEFINITIONS: TraitAxisDefinition[] =
+  resolveTraitAxes(DEFAULT_TRAIT_AXES);
+
+/**
+ * Label lookup keyed by axis id, falling back to the formatted id.
+ */
+export function axisLabelFor(
+  definitions: TraitAxisDefinition[],
+  axis: TraitAxisId
+): string {
+  return definitions.find((d) => d.id === axis)?.label ?? formatAxisLabel(axis);
+}
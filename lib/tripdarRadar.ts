@@ -2,8 +2,6 @@
 // Shared utilities for the Tripdar spore radar visualization
 // This is the single source of truth for radar math and shaping functions
 
-import type { TraitAxisId } from "./types";
-
 /**
  * Remaps axis values so low values (0-35%) are more visually distinct.
  * This curve ensures that:
@@ -122,26 +120,6 @@ export function describeArc(
   return `M ${x1} ${y1} A ${radius} ${radius} 0 ${largeArc} 1 ${x2} ${y2}`;
 }
 
-// Axis configuration - maps TraitAxisId to display labels
-export const AXIS_LABELS: Record<TraitAxisId, string> = {
-  visuals: "Visuals",
-  euphoria: "Euphoria",
-  introspection: "Introspection",
-  creativity: "Creativity",
-  spiritual_depth: "Spiritual",
-  sociability: "Social",
-};
-
-// Quadrant color palette for subtle tinting
-export const QUADRANT_COLORS = [
-  "#EAD6C0",
-  "#E7D4C4",
-  "#E3D1C8",
-  "#E0CEC9",
-  "#DDCBC8",
-  "#DAC8C6",
-];
-
 // Default animation preset values
 export const DEFAULT_RADAR_PRESET = {
   speed: 1.2,
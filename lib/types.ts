@@ -1,9 +1,14 @@
 // Shared types for the Tripdar application (trip radar powered by Fungapedia)
 // This is the single source of truth for all type definitions
 
-export type DoseKey = "micro" | "mini" | "macro" | "museum" | "mega" | "hero";
+// The six tiers every dataset started with; used as defaults
+export type CoreDoseKey = "micro" | "mini" | "macro" | "museum" | "mega" | "hero";
 
-export type TraitAxisId =
+// Dose tiers come from the dataset's `doses` array, so any string is allowed
+export type DoseKey = string;
+
+// The six axes every dataset started with; used as defaults
+export type CoreTraitAxisId =
   | "visuals"
   | "euphoria"
   | "introspection"
@@ -11,6 +16,24 @@ export type TraitAxisId =
   | "spiritual_depth"
   | "sociability";
 
+// Axis ids come from the dataset's `axes` array, so any string is allowed
+export type TraitAxisId = string;
+
+// Display metadata for an axis, stored in the dataset's `axisMeta`
+export type TraitAxisMeta = {
+  label: string;
+  shortLabel?: string;              // compact radars and sliders
+  color?: string;                   // hex, tints the axis on the Tripdar radar
+};
+
+// An axis with all display fields resolved (see lib/traitAxes.ts)
+export type TraitAxisDefinition = {
+  id: TraitAxisId;
+  label: string;
+  shortLabel: string;
+  color: string;
+};
+
 export type DoseSnapshot = {
   onset: string;
   duration: string;
@@ -50,7 +73,17 @@ export type StrainMeta = {
   tags: string[];
 };
 
-export type StrainTestimonials = Record<DoseKey, string[]>;
+// A customer quote published from moderated feedback keeps its source entry
+export type PublishedTestimonial = {
+  quote: string;
+  feedbackId: string;               // FeedbackEntry.id the quote came from
+  publishedAt: string;              // ISO timestamp
+};
+
+// Hand-written quotes are plain strings
+export type StrainTestimonial = string | PublishedTestimonial;
+
+export type StrainTestimonials = Record<DoseKey, StrainTestimonial[]>;
 
 export type VisualConfig = {
   [K in DoseKey]?: {
@@ -58,14 +91,29 @@ export type VisualConfig = {
   };
 };
 
+// How a tier's radar shape is drawn (fill/border strength, hero glow)
+export type DoseTierStyle = {
+  fillAlpha: number;
+  borderWidth: number;
+  borderAlpha: number;
+  hasGlow: boolean;
+};
+
 export type DoseConfig = {
   label: string;
   grams: number;
+  style?: Partial<DoseTierStyle>;
+  modifier?: number;                // animation energy multiplier, 1 = macro
 };
 
 export type DoseConfigMap = Record<DoseKey, DoseConfig>;
 
 export type StrainJsonEntry = {
+  // Registry fields: the `strains` record key is the display name
+  slug?: string;                   // URL-safe id, e.g. "golden-teacher"
+  colorHex?: string;               // base strain color
+  sortOrder?: number;              // position in the kiosk strain tabs
+  isVisible?: boolean;             // false = hidden from kiosk lists
   radar: Record<TraitAxisId, number[]>;
   blurb: Record<DoseKey, string>;
   details: Record<DoseKey, string>;
@@ -80,10 +128,17 @@ export type StrainJsonEntry = {
 export type EditorDataset = {
   doses: DoseKey[];
   axes: TraitAxisId[];
+  axisMeta?: Record<TraitAxisId, TraitAxisMeta>;
   doseConfig: DoseConfigMap;
   strains: Record<string, StrainJsonEntry>;
 };
 
+// A single schema problem found when validating an EditorDataset
+export type DatasetValidationIssue = {
+  path: string;       // e.g. strains["Enigma"].radar.visuals[3]
+  message: string;
+};
+
 // Additional types used by the data layer
 export type DoseTraits = {
   values: Record<TraitAxisId, number>;
@@ -101,6 +156,12 @@ export type Strain = {
   colorHex: string;
 };
 
+// A strain as listed in the registry, including hidden ones
+export type StrainRegistryEntry = Strain & {
+  sortOrder: number;
+  isVisible: boolean;
+};
+
 export type StrainDoseData = {
   traits: DoseTraits;
   content: DoseContent;
@@ -111,6 +172,7 @@ export type StrainDoseResult = {
   doseKey: DoseKey;
   doseData: StrainDoseData;
   axes: TraitAxisId[];
+  axisDefinitions: TraitAxisDefinition[];
   accentHex: string;
   doseInfo: DoseConfig;
   meta: StrainMeta | null;
@@ -119,9 +181,90 @@ export type StrainDoseResult = {
   experienceMeta: StrainExperienceMeta | null;
 };
 
+// Position between two dose tiers, derived from doseConfig grams
+export type DoseBlend = {
+  grams: number;              // requested amount, clamped to the tier range
+  lowerDoseKey: DoseKey;
+  upperDoseKey: DoseKey;
+  t: number;                  // 0 = lower tier, 1 = upper tier
+  nearestDoseKey: DoseKey;
+};
+
+// Strain data at an arbitrary gram amount
+export type InterpolatedStrainDoseResult = {
+  strain: Strain;
+  blend: DoseBlend;
+  axes: TraitAxisId[];
+  traits: DoseTraits;                 // interpolated between the two tiers
+  timeline: StrainTimeline | null;    // interpolated experienceMeta timeline
+  nearest: StrainDoseResult;          // content, snapshot, etc. of nearest tier
+};
+
+// One strain+dose pick in comparison mode
+export type ComparisonSelection = {
+  strainId: string;
+  doseKey: DoseKey;
+};
+
+// Snapshot fields shown side by side; falls back to experienceMeta when the
+// strain has no written snapshot for the dose
+export type ComparisonSnapshot = {
+  onset: string;
+  duration: string;
+  intensity: string;
+  bestFor: string[];
+};
+
+export type StrainComparisonEntry = {
+  strain: Strain;
+  doseKey: DoseKey;
+  doseLabel: string;
+  grams: number;
+  accentHex: string;
+  traits: DoseTraits;
+  effectWord: string | null;
+  snapshot: ComparisonSnapshot;
+};
+
+export type StrainComparisonResult = {
+  axes: TraitAxisId[];
+  axisDefinitions: TraitAxisDefinition[];
+  entries: StrainComparisonEntry[];
+  // Per axis: each entry's value minus the first entry's (first is always 0)
+  deltas: Record<TraitAxisId, number[]>;
+};
+
+// "Find my strain": desired experience profile
+export type RecommendationRequest = {
+  targets: Partial<Record<TraitAxisId, number>>;  // 0-100, unset axes ignored
+  intentions: string[];                           // bestFor tags to match
+  limit?: number;
+};
+
+export type RecommendationAxisDistance = {
+  axis: TraitAxisId;
+  target: number;
+  actual: number;
+  distance: number;           // actual - target
+};
+
+export type StrainRecommendation = {
+  strain: Strain;
+  doseKey: DoseKey;
+  doseLabel: string;
+  grams: number;
+  accentHex: string;
+  score: number;                      // 0-100, higher is a better match
+  axisScore: number | null;           // 0-100 from axis distances
+  tagScore: number | null;            // 0-100 share of intentions matched
+  axisDistances: RecommendationAxisDistance[];
+  matchedTags: string[];
+};
+
 export type StrainDataset = {
   doses: DoseKey[];
   axes: TraitAxisId[];
+  axisMeta?: Record<TraitAxisId, TraitAxisMeta>;
   doseConfig: DoseConfigMap;
   strains: Record<string, StrainJsonEntry>;
 };
@@ -137,6 +280,55 @@ export type AccessKey = {
   notes?: string;
   createdAt: string;    // ISO timestamp
   updatedAt: string;    // ISO timestamp
+  expiresAt?: string;   // ISO timestamp; the key stops working after this
+  maxVisits?: number;   // cap on landings
+  visitCount?: number;  // visits so far (server-maintained, lib/accessVisits.ts)
+  allowedStrainIds?: string[];  // limits the explorer to these strains
+  allowedDoseKeys?: DoseKey[];  // limits the explorer to these doses
+  partnerId?: string;           // store whose products the kiosk recommends
+};
+
+// Why a key was turned away at the gate
+export type AccessKeyDenial = "unknown" | "inactive" | "expired" | "exhausted";
+
+// Access key attribution events (the accessEvents storage log)
+// - visit:    a session started on a keyed kiosk (page load, or a new
+//             visitor after the attract loop); logged by the server when it
+//             counts the landing
+// - view:     the visitor picked a strain or dose
+// - qr_open:  the feedback QR was opened
+// - feedback: a feedback submission carrying the key was stored
+export type AccessEventType = "visit" | "view" | "qr_open" | "feedback";
+
+export type AccessEvent = {
+  id: string;
+  type: AccessEventType;
+  accessKeyId: string;
+  createdAt: string;            // ISO timestamp
+  deviceId?: string;            // browser id (kiosk device id on kiosks)
+  sessionId?: string;           // one visitor's session on the kiosk
+  strainId?: string;
+  doseKey?: DoseKey;
+};
+
+export type AccessFunnelCounts = {
+  visits: number;               // sessions
+  engaged: number;              // sessions with at least one view
+  qrOpens: number;              // sessions that opened the feedback QR
+  feedback: number;             // feedback submissions
+  devices: number;              // distinct devices with a visit
+  newDevices: number;           // devices first seen through this key
+};
+
+export type AccessKeyFunnel = AccessFunnelCounts & {
+  accessKeyId: string;
+  excludedFromTotals: boolean;  // test keys
+};
+
+export type AccessFunnelReport = {
+  range: FeedbackAnalyticsRange;
+  byKey: AccessKeyFunnel[];     // most visits first
+  totals: AccessFunnelCounts;
 };
 
 export type AccessKeySettings = {
@@ -148,11 +340,63 @@ export type AccessKeyDataset = {
   settings?: AccessKeySettings;
 };
 
+// Kiosk device registry (devices register with an access key, then heartbeat)
+
+// Named radar animation / attract loop styles a kiosk can be switched to
+export type KioskThemePresetId = "classic" | "calm" | "vivid" | "cosmic";
+
+// Settings pushed to a kiosk from /admin/devices; unset fields keep the
+// kiosk's own defaults
+export type KioskDeviceConfig = {
+  defaultStrainId?: string;
+  defaultDoseKey?: DoseKey;
+  themePreset?: KioskThemePresetId;
+  idleMinutes?: number;         // 0 disables the attract loop
+  locked?: boolean;             // pinned to the default strain; no strain picker
+};
+
+export type KioskDeviceError = {
+  message: string;
+  at: string;                   // ISO timestamp reported by the kiosk
+};
+
+export type KioskDevice = {
+  id: string;                   // random id the kiosk keeps in localStorage
+  accessKeyId: string;
+  label?: string;               // set by admins, e.g. "Front counter"
+  registeredAt: string;         // ISO timestamp
+  lastSeenAt: string;           // ISO timestamp of the last heartbeat
+  version: string;              // KIOSK_VERSION the kiosk is running
+  dataVersion?: string;         // last /api/data-version the kiosk saw
+  userAgent?: string;
+  errorCount: number;           // total errors reported since registration
+  recentErrors: KioskDeviceError[];  // newest last, capped
+  config: KioskDeviceConfig;
+  configRevision: number;       // bumped on every config change
+  reloadRequestedAt?: string;   // kiosks loaded before this reload
+};
+
+export type KioskDeviceDataset = {
+  devices: KioskDevice[];
+};
+
+// What a kiosk gets back from registering and from each heartbeat
+export type KioskDeviceDirective = {
+  config: KioskDeviceConfig;
+  configRevision: number;
+  reloadRequestedAt: string | null;
+};
+
 // Feedback entry types
 
 // One numeric score per radar axis (0–10)
 export type AxisExperienceScores = Partial<Record<TraitAxisId, number>>;
 
+export type TestimonialStatus = "pending" | "approved" | "rejected";
+
+// Why a submission was held back from the main feedback list
+export type FeedbackQuarantineReason = "honeypot" | "duplicate";
+
 export type FeedbackEntry = {
   id: string;
   strainId?: string;
@@ -165,6 +409,16 @@ export type FeedbackEntry = {
   bestFor?: string[];
   setting?: string[];
   contact?: string;
+  // Product the customer used: a catalog product, or free text when unlisted
+  productId?: string;
+  otherProductName?: string;
+  // Testimonial moderation; entries without a status are pending
+  testimonialStatus?: TestimonialStatus;
+  testimonialEdited?: string;       // moderator's edit, the original is kept
+  testimonialPublishedAt?: string;  // ISO timestamp, set while on the strain
+  deviceId?: string;                // random per-browser id from the feedback form
+  submissionId?: string;            // client idempotency key, one per submission
+  quarantineReason?: FeedbackQuarantineReason;  // set while quarantined
   createdAt: string;                // ISO timestamp
   // User's felt experience by axis
   feltAxes?: AxisExperienceScores;
@@ -174,6 +428,99 @@ export type FeedbackEntry = {
 
 export type FeedbackDataset = {
   entries: FeedbackEntry[];
+  // Likely spam, kept out of every report until an admin releases it
+  quarantine?: FeedbackEntry[];
+};
+
+// Per-product rating aggregates (feedback with a productId)
+export type ProductRatingSummary = {
+  productId: string;
+  count: number;                    // feedback entries attributed to the product
+  avgOverallExperience: number | null;   // 1-5
+  avgIntensity: number | null;           // 1-5
+  // Mean absolute felt-vs-expected axis difference (0-10 scale)
+  avgFeltDelta: number | null;
+};
+
+// How closely felt axes matched expected ones (by mean |felt - expected|)
+export type RadarMatchBucket = "very-close" | "some-variation" | "quite-different";
+
+// Filters shared by the feedback table, export and analytics.
+// Omitted fields match everything.
+export type FeedbackFilters = {
+  strainId?: string;
+  accessKeyId?: string;             // "anonymous" = entries without a key
+  radarMatch?: RadarMatchBucket;
+  from?: string | null;             // YYYY-MM-DD, inclusive
+  to?: string | null;
+};
+
+// Feedback analytics (server-side aggregation for /admin/feedback/analytics)
+
+// Inclusive date range as YYYY-MM-DD; null = unbounded
+export type FeedbackAnalyticsRange = {
+  from: string | null;
+  to: string | null;
+};
+
+// Averages for one group of entries (a strain, dose, access key, CTA…)
+export type FeedbackRatingGroup = {
+  key: string;                      // group id; "" for entries without one
+  count: number;
+  avgOverallExperience: number | null;   // 1-5
+  avgIntensity: number | null;           // 1-5
+  avgDelta: number | null;               // mean |felt - expected|, 0-10
+};
+
+export type FeedbackDayBucket = {
+  date: string;                     // YYYY-MM-DD (UTC)
+  count: number;
+};
+
+// Felt minus expected for one axis; positive = stronger than predicted
+export type FeedbackAxisBias = {
+  axis: TraitAxisId;
+  avgFelt: number;
+  avgExpected: number;
+  bias: number;
+  count: number;
+};
+
+export type FeedbackStrainDoseBias = FeedbackAxisBias & {
+  strainId: string;
+  doseKey: DoseKey;
+};
+
+export type FeedbackAnalytics = {
+  range: FeedbackAnalyticsRange;
+  total: number;
+  overTime: FeedbackDayBucket[];
+  byStrain: FeedbackRatingGroup[];
+  byDose: FeedbackRatingGroup[];
+  byAccessKey: FeedbackRatingGroup[];
+  byCta: FeedbackRatingGroup[];
+  axisBias: FeedbackAxisBias[];
+  // Largest per strain+dose+axis biases first
+  strainDoseBias: FeedbackStrainDoseBias[];
+};
+
+// Community radar (aggregated feedback feltAxes)
+
+// Felt scores for one axis, rescaled to the radar's 0–100 range
+export type CommunityAxisStats = {
+  mean: number;
+  median: number;
+  spread: number;                   // standard deviation
+  count: number;
+};
+
+export type CommunityRadar = {
+  strainId: string;
+  doseKey: DoseKey;
+  sampleSize: number;               // entries with any feltAxes
+  stats: Partial<Record<TraitAxisId, CommunityAxisStats>>;
+  // Median per axis, only for axes that reached the minimum sample size
+  values: Partial<Record<TraitAxisId, number>>;
 };
 
 // Product catalog types (read-only for now)
@@ -191,7 +538,7 @@ export type Product = {
   name: string;                    // e.g. "Psilly Mighty Caps – Golden Teacher"
   brand: string;                   // e.g. "The Original Psilly"
   strainIds: string[];             // strain slugs, e.g. ["golden-teacher", "enigma"]; empty = all strains
-  doseKey?: DoseKey;               // optional: micro/mini/macro/museum/mega/hero (dose level for kiosk mapping)
+  doseKey?: DoseKey;               // optional: a dataset dose tier (dose level for kiosk mapping)
   /**
    * How much mushroom is in ONE unit of this product.
    * Free-form text so we can store things like:
@@ -219,7 +566,7 @@ export type Product = {
   notes?: string;
   strainMatchWeight?: number;      // optional, for future ranking
   doseMatchWeight?: number;        // optional, for future ranking
-  partnerId?: string;              // optional: which partner this product is for
+  partnerId?: string;              // optional: only shown on kiosks whose access key has this partnerId
 };
 
 export type ProductDataset = {
@@ -248,6 +595,21 @@ export interface GuideAccountDataset {
   guides: GuideAccount[];
 }
 
+// What a signed-in account may do in /admin (see lib/adminAuth.ts)
+// - view:         open admin pages and read admin APIs
+// - edit:         change strains, products, feedback, devices and messages
+// - manageAccess: change access keys and settings
+// - audit:        read the audit log of admin changes
+export type AdminPermission = "view" | "edit" | "manageAccess" | "audit";
+
+// The signed-in admin, as shown in the admin header
+export type AdminSession = {
+  username: string;
+  name: string;
+  role: GuideRole;
+  permissions: AdminPermission[];
+};
+
 export interface GuideMessage {
   id: string;
   guideId: string | "all";  // "all" = broadcast to all guides
@@ -261,3 +623,109 @@ export interface GuideMessageDataset {
   messages: GuideMessage[];
 }
 
+
+// ============================================
+// Revision History Types
+// ============================================
+
+// Admin-editable JSON files that keep a revision history
+export type RevisionDatasetId = "strains" | "products" | "accessKeys" | "guideMessages";
+
+export type DatasetRevisionSummary = {
+  id: string;                // e.g. "rev-1764518373961-k3j9x2"
+  dataset: RevisionDatasetId;
+  createdAt: string;         // ISO timestamp
+  author: string;            // username of the saving account, or "anonymous"
+  summary: string;           // human-readable diff summary
+  changeCount: number;
+  changedPaths: string[];    // first few changed JSON paths
+  restoredFrom?: string;     // revision id when this write was a rollback
+};
+
+export type DatasetRevision = DatasetRevisionSummary & {
+  content: unknown;          // full file contents at this revision
+};
+
+// ============================================
+// Audit Log Types
+// ============================================
+
+// What an admin write changed (one type per audit entry)
+export type AuditEntityType =
+  | "strain"
+  | "product"
+  | "accessKey"
+  | "guideMessage"
+  | "feedback"
+  | "device";
+
+export type AuditAction =
+  | "save"        // dataset saved from an admin editor
+  | "restore"     // dataset rolled back to a revision
+  | "update"
+  | "publish"     // testimonial published to its strain
+  | "withdraw"    // testimonial taken off its strain
+  | "release"     // feedback released from quarantine
+  | "delete"
+  | "upload";
+
+// One field-level difference within an entity
+export type AuditChange = {
+  entityId: string;
+  path: string;              // JSON path within the entity, "" for the whole entity
+  kind: "added" | "removed" | "changed";
+  before?: unknown;
+  after?: unknown;
+};
+
+// Append-only audit log entry (the auditLog storage log)
+export type AuditEntry = {
+  id: string;                // e.g. "audit-1764518373961-k3j9x2"
+  createdAt: string;         // ISO timestamp
+  actor: string;             // username of the signed-in account
+  actorRole: GuideRole;
+  method: string;            // HTTP method of the admin request
+  route: string;             // request path, e.g. /api/admin/products
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityIds: string[];
+  summary: string;
+  changeCount: number;
+  changes: AuditChange[];    // first MAX_AUDIT_CHANGES changes
+  revisionId?: string;       // revision recorded by the same write
+};
+
+// Search filters for /admin/audit (see lib/auditFilters.ts)
+export type AuditFilters = {
+  actor?: string;                   // username
+  entityType?: AuditEntityType;
+  query?: string;                   // matched against entity ids, summary and route
+  from?: string | null;             // YYYY-MM-DD, inclusive
+  to?: string | null;
+};
+
+// One page of audit search results, newest first
+export type AuditPage = {
+  entries: AuditEntry[];
+  total: number;                    // matching entries across all pages
+  nextBefore: string | null;        // cursor for the next (older) page
+};
+
+// ============================================
+// Storage Types
+// ============================================
+
+// Datasets persisted through the storage layer (lib/storage)
+export type StorageDocumentId =
+  | "feedback"
+  | "products"
+  | "strains"
+  | "accessKeys"
+  | "guides"
+  | "guideMessages"
+  | "devices";
+
+// Append-only logs persisted through the storage layer (lib/storage)
+export type StorageLogId = "accessEvents" | "auditLog";
+
+export type StorageBackendId = "json" | "sqlite";
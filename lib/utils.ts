@@ -13,6 +13,30 @@ export function formatAxisLabel(label: string): string {
     .join(" ");
 }
 
+/**
+ * Appends a record key to a JSON path
+ * Identifier-like keys use dot access, anything else uses ["quoted"] access.
+ * Example: ("strains[\"Enigma\"].radar", "visuals") → strains["Enigma"].radar.visuals
+ */
+export function formatKeyPath(base: string, key: string): string {
+  if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(key)) {
+    return `${base}[${JSON.stringify(key)}]`;
+  }
+  return base ? `${base}.${key}` : key;
+}
+
+/**
+ * Derives a URL-safe strain slug from a display name
+ * Example: "Full Moon Party" → "full-moon-party"
+ */
+export function slugifyStrainName(name: string): string {
+  return name
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
 /**
  * Converts a hex color to RGBA format with specified alpha
  * @param hex - Hex color string (with or without #)
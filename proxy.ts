@@ -0,0 +1,41 @@
+// proxy.ts
+// Request middleware: admin pages and APIs need a signed-in account with the
+// right role (lib/adminAuth.ts). Pages redirect to the sign-in page; APIs
+// answer 401/403.
+
+import { NextResponse, type NextRequest } from "next/server";
+import { getGuideFromRequest } from "@/lib/guideSession";
+import {
+  ADMIN_HOME_PATH,
+  ADMIN_LOGIN_PATH,
+  getRequiredAdminPermission,
+  hasAdminPermission,
+} from "@/lib/adminAuth";
+
+export async function proxy(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+  const permission = getRequiredAdminPermission(pathname, request.method);
+  if (!permission) return NextResponse.next();
+
+  const guide = await getGuideFromRequest(request);
+  if (hasAdminPermission(guide, permission)) return NextResponse.next();
+
+  if (pathname.startsWith("/api/")) {
+    return guide
+      ? NextResponse.json({ error: "Not allowed for your role" }, { status: 403 })
+      : NextResponse.json({ error: "Sign in required" }, { status: 401 });
+  }
+
+  // Signed in with some admin access: back to a page the role can open
+  if (hasAdminPermission(guide, "view")) {
+    return NextResponse.redirect(new URL(ADMIN_HOME_PATH, request.url));
+  }
+
+  const loginUrl = new URL(ADMIN_LOGIN_PATH, request.url);
+  loginUrl.searchParams.set("next", `${pathname}${search}`);
+  return NextResponse.redirect(loginUrl);
+}
+
+export const config = {
+  matcher: ["/admin/:path*", "/api/admin/:path*", "/api/access-keys"],
+};
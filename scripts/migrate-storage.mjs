@@ -0,0 +1,180 @@
+#!/usr/bin/env node
+/**
+ * Storage Migration
+ *
+ * Copies every dataset and append-only log from one storage backend to the
+ * other, replacing what the target held.
+ *
+ *   npm run storage:migrate -- --from json --to sqlite
+ *   npm run storage:migrate -- --from sqlite --to json [--db path/to.sqlite]
+ *
+ * The database path defaults to TRIPDAR_SQLITE_PATH or data/tripdar.sqlite.
+ * Uses the same `.lock` files as the app, so it is safe to run next to a
+ * dev server. The sqlite side needs Node 22.5+ (node:sqlite).
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import {
+  DOCUMENT_FILE_NAMES,
+  LOG_FILE_NAMES,
+  SQLITE_SCHEMA,
+  acquireLockFile,
+  parseStoredJson,
+  readJsonFile,
+  releaseLockFile,
+  scanJsonLines,
+  writeFileAtomic,
+} from "../lib/storage/shared.mjs";
+
+const DATA_DIR = path.join(process.cwd(), "data");
+
+const BACKENDS = ["json", "sqlite"];
+
+function parseArgs(argv) {
+  const args = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg.startsWith("--")) {
+      args[arg.slice(2)] = argv[i + 1];
+      i++;
+    }
+  }
+  return args;
+}
+
+function fail(message) {
+  console.error(`storage:migrate: ${message}`);
+  process.exit(1);
+}
+
+async function withLock(targetPath, fn) {
+  const lockPath = `${targetPath}.lock`;
+  await acquireLockFile(lockPath);
+  try {
+    return await fn();
+  } finally {
+    await releaseLockFile(lockPath);
+  }
+}
+
+async function openSqlite(dbPath) {
+  let sqlite;
+  try {
+    sqlite = await import("node:sqlite");
+  } catch {
+    fail(`the sqlite backend needs Node 22.5+ (running ${process.version})`);
+  }
+  await fs.mkdir(path.dirname(dbPath), { recursive: true });
+  const db = new sqlite.DatabaseSync(dbPath);
+  db.exec(SQLITE_SCHEMA);
+  return db;
+}
+
+function jsonStore() {
+  const filePath = (id) => path.join(DATA_DIR, DOCUMENT_FILE_NAMES[id]);
+  const logPath = (id) => path.join(DATA_DIR, LOG_FILE_NAMES[id]);
+  return {
+    lockPath: filePath,
+    logLockPath: logPath,
+    read(id) {
+      return readJsonFile(filePath(id));
+    },
+    async write(id, value) {
+      await writeFileAtomic(filePath(id), JSON.stringify(value, null, 2));
+    },
+    async readLog(id) {
+      const records = [];
+      await scanJsonLines(logPath(id), (record) => records.push(record));
+      return records;
+    },
+    async writeLog(id, records) {
+      const lines = records.map((record) => `${JSON.stringify(record)}\n`).join("");
+      await writeFileAtomic(logPath(id), lines);
+    },
+  };
+}
+
+async function sqliteStore(dbPath) {
+  const db = await openSqlite(dbPath);
+  return {
+    lockPath: (id) => `${dbPath}.${id}`,
+    async read(id) {
+      const row = db.prepare("SELECT value FROM documents WHERE id = ?").get(id);
+      return row ? parseStoredJson(row.value, `${dbPath} document "${id}"`) : undefined;
+    },
+    async write(id, value) {
+      db.prepare(
+        `INSERT INTO documents (id, value, updated_at) VALUES (?, ?, ?)
+         ON CONFLICT(id) DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at`
+      ).run(id, JSON.stringify(value), new Date().toISOString());
+    },
+    logLockPath: (id) => `${dbPath}.${id}`,
+    async readLog(id) {
+      return db
+        .prepare("SELECT seq, value FROM log_records WHERE log_id = ? ORDER BY seq")
+        .all(id)
+        .map((row) => parseStoredJson(row.value, `${dbPath} log "${id}" record ${row.seq}`));
+    },
+    async writeLog(id, records) {
+      const insert = db.prepare("INSERT INTO log_records (log_id, value) VALUES (?, ?)");
+      db.exec("BEGIN IMMEDIATE");
+      try {
+        db.prepare("DELETE FROM log_records WHERE log_id = ?").run(id);
+        for (const record of records) insert.run(id, JSON.stringify(record));
+        db.exec("COMMIT");
+      } catch (error) {
+        db.exec("ROLLBACK");
+        throw error;
+      }
+    },
+  };
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const { from, to } = args;
+  if (!BACKENDS.includes(from) || !BACKENDS.includes(to) || from === to) {
+    fail("usage: --from json|sqlite --to json|sqlite [--db path/to.sqlite]");
+  }
+
+  const dbPath = path.resolve(
+    args.db || process.env.TRIPDAR_SQLITE_PATH || path.join(DATA_DIR, "tripdar.sqlite")
+  );
+  const open = (id) => (id === "json" ? jsonStore() : sqliteStore(dbPath));
+  const source = await open(from);
+  const target = await open(to);
+
+  let copied = 0;
+  for (const id of Object.keys(DOCUMENT_FILE_NAMES)) {
+    const value = await source.read(id);
+    if (value === undefined) {
+      console.log(`  skip ${id} (not found in ${from})`);
+      continue;
+    }
+    await withLock(target.lockPath(id), () => target.write(id, value));
+    console.log(`  copied ${id}`);
+    copied++;
+  }
+
+  for (const id of Object.keys(LOG_FILE_NAMES)) {
+    const records = await source.readLog(id);
+    if (records.length === 0) {
+      console.log(`  skip ${id} (empty in ${from})`);
+      continue;
+    }
+    await withLock(target.logLockPath(id), () => target.writeLog(id, records));
+    console.log(`  copied ${id} (${records.length} records)`);
+    copied++;
+  }
+
+  console.log(`Migrated ${copied} dataset${copied === 1 ? "" : "s"} from ${from} to ${to}.`);
+  if (to === "sqlite") {
+    console.log(`Set TRIPDAR_STORAGE=sqlite to use ${path.relative(process.cwd(), dbPath)}.`);
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});